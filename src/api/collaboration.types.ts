@@ -0,0 +1,130 @@
+/**
+ * Collaboration Type Definitions
+ * Public types for real-time collaborative editing.
+ * DO NOT expose any ProseMirror types here.
+ */
+
+import type { EditorDocumentJSON } from './editor-api.types';
+
+// =============================================================================
+// PARTICIPANTS
+// =============================================================================
+
+/**
+ * Client identifier assigned to each connected editor.
+ */
+export type CollabClientID = string | number;
+
+/**
+ * A person taking part in a collaborative session.
+ */
+export interface CollabUser {
+  /** Stable user identifier */
+  id: string;
+  /** Display name shown next to the remote cursor */
+  name: string;
+  /** CSS color used for the remote cursor and selection */
+  color: string;
+}
+
+/**
+ * Cursor/selection information broadcast by a client.
+ */
+export interface CollabPresence {
+  /** Client the presence belongs to */
+  clientID: CollabClientID;
+  /** User behind the client */
+  user: CollabUser;
+  /** Current selection, or null when the client left */
+  selection: { anchor: number; head: number } | null;
+}
+
+// =============================================================================
+// TRANSPORT
+// =============================================================================
+
+/**
+ * A batch of steps confirmed by the authority.
+ * Steps are serialized as JSON and are engine-agnostic to the transport.
+ */
+export interface CollabStepsMessage {
+  /** Document version the steps apply to */
+  version: number;
+  /** Serialized steps */
+  steps: object[];
+  /** Client that created each step (same length as `steps`) */
+  clientIDs: CollabClientID[];
+}
+
+/**
+ * Transport between an editor and the collaboration authority.
+ *
+ * The authority keeps the list of accepted steps. It must reject a batch
+ * sent for a version other than its current one; the editor rebases and
+ * resends automatically once it has received the missing steps.
+ *
+ * Without a starting snapshot the editor joins at version 0 and replays the
+ * whole history, so every client must then start from the same content.
+ */
+export interface CollabTransport {
+  /**
+   * Send local steps to the authority.
+   * @param version - Version the steps were created against
+   * @param steps - Serialized steps
+   * @param clientID - Sending client
+   */
+  sendSteps(version: number, steps: object[], clientID: CollabClientID): void;
+
+  /**
+   * Subscribe to steps accepted by the authority (including our own).
+   * @returns Unsubscribe function
+   */
+  onSteps(callback: (message: CollabStepsMessage) => void): () => void;
+
+  /**
+   * Fetch the steps accepted since a version. Called after joining and
+   * whenever a batch arrives ahead of the editor's version (a lost or
+   * reordered message).
+   * @param version - Version the editor is at
+   * @returns Promise rejecting if the authority no longer has those steps
+   */
+  stepsSince(version: number): Promise<CollabStepsMessage>;
+
+  /**
+   * Optional starting snapshot. When provided, the editor content is
+   * replaced with it before joining the session.
+   */
+  getDocument?(): { doc: EditorDocumentJSON; version: number } | null;
+
+  /**
+   * Broadcast cursor/selection information to other clients.
+   */
+  sendPresence?(presence: CollabPresence): void;
+
+  /**
+   * Subscribe to presence updates from other clients.
+   * @returns Unsubscribe function
+   */
+  onPresence?(callback: (presence: CollabPresence) => void): () => void;
+
+  /**
+   * Called when the editor leaves the session.
+   */
+  disconnect?(): void;
+}
+
+// =============================================================================
+// OPTIONS
+// =============================================================================
+
+/**
+ * Options for `ErixEditorAPI.enableCollaboration`.
+ */
+export interface CollaborationOptions {
+  /** Transport connecting this editor to the authority */
+  transport: CollabTransport;
+  /** Local user, shown to other participants */
+  user: CollabUser;
+  /** Client identifier (defaults to a random id) */
+  clientID?: CollabClientID;
+}
@@ -0,0 +1,144 @@
+/**
+ * In-Memory Collaboration Hub
+ * Reference collaboration authority that lives in the same page.
+ *
+ * Useful for tests, demos and side-by-side editors. A real deployment
+ * implements `CollabTransport` on top of WebSockets or similar, with the
+ * authority on the server.
+ *
+ * @example
+ * ```typescript
+ * const hub = new InMemoryCollabHub(apiA.getContent('json'));
+ * apiA.enableCollaboration({ transport: hub.createTransport(), user: alice });
+ * apiB.enableCollaboration({ transport: hub.createTransport(), user: bob });
+ * ```
+ */
+
+import type { EditorDocumentJSON } from '../editor-api.types';
+import type {
+  CollabClientID,
+  CollabPresence,
+  CollabStepsMessage,
+  CollabTransport,
+} from '../collaboration.types';
+
+type StepsListener = (message: CollabStepsMessage) => void;
+type PresenceListener = (presence: CollabPresence) => void;
+
+/**
+ * Central authority holding the accepted steps of a single document.
+ */
+export class InMemoryCollabHub {
+  private steps: object[] = [];
+  private clientIDs: CollabClientID[] = [];
+  private stepsListeners: Set<StepsListener> = new Set();
+  private presenceListeners: Set<PresenceListener> = new Set();
+  private presence: Map<CollabClientID, CollabPresence> = new Map();
+  private doc: EditorDocumentJSON | null;
+
+  /**
+   * @param doc - Starting document shared by every client. Without it,
+   * every editor must start with the same content.
+   */
+  constructor(doc?: EditorDocumentJSON) {
+    this.doc = doc || null;
+  }
+
+  /**
+   * Current document version (number of accepted steps).
+   */
+  get version(): number {
+    return this.steps.length;
+  }
+
+  /**
+   * Create a transport for one editor.
+   */
+  createTransport(): CollabTransport {
+    let ownStepsListener: StepsListener | null = null;
+    let ownPresenceListener: PresenceListener | null = null;
+    let ownClientID: CollabClientID | null = null;
+
+    return {
+      sendSteps: (version, steps, clientID) => {
+        ownClientID = clientID;
+        this.receiveSteps(version, steps, clientID);
+      },
+
+      onSteps: callback => {
+        ownStepsListener = callback;
+        this.stepsListeners.add(callback);
+        return () => this.stepsListeners.delete(callback);
+      },
+
+      stepsSince: async version => {
+        if (version < 0 || version > this.steps.length) {
+          throw new Error(`Version ${version} is not in the history (current version ${this.steps.length}).`);
+        }
+        return { version, steps: this.steps.slice(version), clientIDs: this.clientIDs.slice(version) };
+      },
+
+      getDocument: () => (this.doc ? { doc: this.doc, version: 0 } : null),
+
+      sendPresence: presence => {
+        ownClientID = presence.clientID;
+        this.receivePresence(presence, ownPresenceListener);
+      },
+
+      onPresence: callback => {
+        ownPresenceListener = callback;
+        this.presenceListeners.add(callback);
+
+        this.presence.forEach(presence => {
+          queueMicrotask(() => callback(presence));
+        });
+
+        return () => this.presenceListeners.delete(callback);
+      },
+
+      disconnect: () => {
+        if (ownStepsListener) this.stepsListeners.delete(ownStepsListener);
+        if (ownPresenceListener) this.presenceListeners.delete(ownPresenceListener);
+
+        const presence = ownClientID !== null ? this.presence.get(ownClientID) : undefined;
+        if (presence) {
+          this.receivePresence({ ...presence, selection: null }, ownPresenceListener);
+        }
+      },
+    };
+  }
+
+  /**
+   * Accept steps if they were made against the current version.
+   */
+  private receiveSteps(version: number, steps: object[], clientID: CollabClientID): void {
+    // Stale: the client will rebase once it receives the missing steps
+    if (version !== this.steps.length) return;
+
+    const message: CollabStepsMessage = {
+      version,
+      steps,
+      clientIDs: steps.map(() => clientID),
+    };
+
+    this.steps.push(...steps);
+    this.clientIDs.push(...message.clientIDs);
+
+    // Deliver asynchronously so listeners never run inside a dispatch
+    this.stepsListeners.forEach(listener => {
+      queueMicrotask(() => listener(message));
+    });
+  }
+
+  private receivePresence(presence: CollabPresence, sender: PresenceListener | null): void {
+    if (presence.selection) {
+      this.presence.set(presence.clientID, presence);
+    } else {
+      this.presence.delete(presence.clientID);
+    }
+
+    this.presenceListeners.forEach(listener => {
+      if (listener !== sender) queueMicrotask(() => listener(presence));
+    });
+  }
+}
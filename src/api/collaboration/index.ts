@@ -0,0 +1,6 @@
+/**
+ * Collaboration Module
+ * Exports reference collaboration transports.
+ */
+
+export { InMemoryCollabHub } from './in-memory-hub';
@@ -0,0 +1,83 @@
+/**
+ * Comment Type Definitions
+ * Public types for review comments anchored to document ranges.
+ * DO NOT expose any ProseMirror types here.
+ */
+
+// =============================================================================
+// STORED DATA
+// =============================================================================
+
+/**
+ * A reply within a comment thread.
+ */
+export interface CommentReply {
+  /** Unique reply identifier */
+  id: string;
+  /** Display name of the author */
+  author: string;
+  /** Reply text */
+  text: string;
+  /** Creation time (milliseconds since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Comment thread as persisted in the document JSON (`doc.attrs.comments`).
+ */
+export interface CommentData {
+  /** Unique thread identifier, shared with the anchoring `comment` mark */
+  id: string;
+  /** Display name of the author */
+  author: string;
+  /** Comment text */
+  text: string;
+  /** Creation time (milliseconds since epoch) */
+  createdAt: number;
+  /** Whether the thread has been resolved */
+  resolved: boolean;
+  /** Replies in chronological order */
+  replies: CommentReply[];
+}
+
+// =============================================================================
+// API TYPES
+// =============================================================================
+
+/**
+ * Comment thread with its current anchor in the document.
+ */
+export interface CommentThread extends CommentData {
+  /** Anchored range, or null when the commented text has been deleted */
+  range: { from: number; to: number } | null;
+  /** Text currently covered by the anchor */
+  quote: string;
+}
+
+/**
+ * Options for adding a comment or reply.
+ */
+export interface CommentInput {
+  /** Comment text */
+  text: string;
+  /** Author name (defaults to `EditorConfig.comments.author`) */
+  author?: string;
+}
+
+/**
+ * Options for querying comments.
+ */
+export interface CommentQueryOptions {
+  /** Include resolved threads (default: true) */
+  includeResolved?: boolean;
+}
+
+/**
+ * Comment configuration for the editor.
+ */
+export interface CommentsConfig {
+  /** Default author name for new comments and replies */
+  author?: string;
+  /** Show the comments side panel when the document has comments (default: true) */
+  showPanel?: boolean;
+}
@@ -12,6 +12,7 @@
  * // Content operations
  * const content = editor.getContent('html');
  * editor.setContent('<p>Hello World</p>', 'html');
+ * editor.setContent('# Title\n\nSome **bold** text', 'markdown');
  * editor.clearContent();
  *
  * // Focus management
@@ -37,6 +38,7 @@
  */
 
 import { EditorController } from '../core/editor/editor-controller';
+import { CollabSession } from '../core/editor/collab-session';
 import { PluginRegistry } from './plugin-registry';
 import { createBuiltinPlugins } from './plugins';
 import {
@@ -45,6 +47,9 @@ import {
   serializeToJSON,
   parseFromHTML,
   parseFromJSON,
+  serializeToMarkdown,
+  parseFromMarkdown,
+  printHTML,
 } from './serializers';
 
 import type {
@@ -56,6 +61,7 @@ import type {
   EditorEventType,
   EditorEventPayload,
   EditorEventListener,
+  MarkdownOptions,
 } from './editor-api.types';
 
 import type {
@@ -63,11 +69,20 @@ import type {
   ErixPluginConfig,
   RegisteredPlugin,
   PluginQueryOptions,
+  PluginShortcut,
   PluginContext,
   EditorConfig,
   PluginGroup,
+  ClearFormattingOptions,
+  PrintOptions,
 } from './plugin-registry.types';
 
+import type { CollaborationOptions, CollabUser } from './collaboration.types';
+import type { CommentData, CommentThread, CommentInput, CommentQueryOptions } from './comments.types';
+import type { TrackedChange } from './track-changes.types';
+import type { SearchMatch, SearchOptions, SearchResult } from './search.types';
+import type { WordImportOptions } from './serializers/word-importer';
+
 import {
   toggleBold,
   toggleItalic,
@@ -78,6 +93,9 @@ import {
   setTextAlignment,
   setFontSize,
   setFontFamily,
+  setTextColor,
+  setHighlight,
+  clearColor,
   toggleBulletList,
   toggleOrderedList,
   increaseIndent,
@@ -85,7 +103,32 @@ import {
   setHeading,
   setParagraph,
   setTextCase,
+  clearFormatting,
+  setLink,
+  unsetLink,
+  addComment,
+  updateComment,
+  removeComment,
+  getCommentData,
+  findCommentRanges,
+  getTrackedChanges,
+  acceptChange,
+  rejectChange,
+  acceptAllChanges,
+  rejectAllChanges,
+  isTrackingChanges,
+  configureTrackChanges,
+  getFindReplaceState,
+  setSearchQuery,
+  clearSearch,
+  findNext,
+  findPrevious,
+  replaceMatch,
+  replaceAllMatches,
+  openFindPanel,
+  closeFindPanel,
 } from '../core';
+import { getActiveCommentId } from '../core/plugins';
 
 // =============================================================================
 // EVENT EMITTER
@@ -105,6 +148,12 @@ class EventEmitter {
     blur: new Set(),
     selectionChange: new Set(),
     ready: new Set(),
+    collaboratorsChange: new Set(),
+    commentAdd: new Set(),
+    commentResolve: new Set(),
+    commentsChange: new Set(),
+    activeCommentChange: new Set(),
+    pluginsChange: new Set(),
     destroy: new Set(),
   };
 
@@ -157,6 +206,9 @@ export class ErixEditorAPI {
   private events: EventEmitter;
   private _isDestroyed: boolean = false;
   private config: EditorConfig;
+  private collabSession: CollabSession | null = null;
+  private activeCommentId: string | null = null;
+  private shortcutBindings: Record<string, PluginId> | null = null;
 
   /**
    * Create a new ErixEditorAPI instance.
@@ -187,14 +239,37 @@ export class ErixEditorAPI {
       });
     }
 
+    // Start in suggesting mode if configured
+    if (config?.trackChanges) {
+      const { enabled = false, author = '' } = config.trackChanges;
+      this.controller.dispatch(configureTrackChanges(this.controller.getState().tr, { enabled, author }));
+    }
+
+    // Registered after setup so only later registry changes are reported
+    this.pluginRegistry.addChangeListener(() => {
+      this.shortcutBindings = null;
+      this.events.emit('pluginsChange', { plugins: this.pluginRegistry.getAll({ includeDisabled: true }) });
+    });
+
     // Set up transaction listener for change events
-    this.controller.addTransactionListener((tr, _newState) => {
+    this.controller.addTransactionListener((tr, newState) => {
       if (tr.docChanged) {
         this.events.emit('change', { content: this.getContent() });
       }
       if (tr.selectionSet) {
         this.events.emit('selectionChange', { selection: this.getSelection() });
       }
+
+      // Anchors move with every edit, so notify whenever threads exist
+      if (tr.docChanged && (tr.before.attrs.comments !== newState.doc.attrs.comments || getCommentData(newState).length > 0)) {
+        this.events.emit('commentsChange', { comments: this.getComments() });
+      }
+
+      const activeCommentId = getActiveCommentId(newState);
+      if (activeCommentId !== this.activeCommentId) {
+        this.activeCommentId = activeCommentId;
+        this.events.emit('activeCommentChange', { id: activeCommentId });
+      }
     });
   }
 
@@ -204,14 +279,17 @@ export class ErixEditorAPI {
 
   /**
    * Get the current editor content in the specified format.
-   * @param format - Output format ('html', 'json', or 'text')
+   * @param format - Output format ('html', 'json', 'text', 'markdown', or 'docx')
+   * @param options - Markdown export options (overrides `config.markdown`)
    * @returns Content in the specified format
    */
   getContent(): EditorContent;
   getContent(format: 'html'): string;
   getContent(format: 'text'): string;
   getContent(format: 'json'): EditorDocumentJSON;
-  getContent(format?: ContentFormat): EditorContent | string | EditorDocumentJSON {
+  getContent(format: 'markdown', options?: MarkdownOptions): string;
+  getContent(format: 'docx'): Promise<Blob>;
+  getContent(format?: ContentFormat | 'docx', options?: MarkdownOptions): EditorContent | string | EditorDocumentJSON | Promise<Blob> {
     this.ensureNotDestroyed();
 
     const doc = this.controller.getDoc();
@@ -226,6 +304,17 @@ export class ErixEditorAPI {
     if (format === 'json') {
       return serializeToJSON(doc);
     }
+    if (format === 'markdown') {
+      return serializeToMarkdown(doc, { ...this.config.markdown, ...options });
+    }
+    if (format === 'docx') {
+      return import('./serializers/word-exporter').then(({ exportWordDocument }) =>
+        exportWordDocument(doc, {
+          defaultFontFamily: this.config.defaultFontFamily,
+          defaultFontSize: this.config.defaultFontSize,
+        })
+      );
+    }
 
     // Return all formats
     return {
@@ -237,10 +326,10 @@ export class ErixEditorAPI {
 
   /**
    * Set the editor content.
-   * @param content - Content to set (HTML string or JSON)
+   * @param content - Content to set (HTML, Markdown, plain text or JSON)
    * @param format - Content format hint
    */
-  setContent(content: string, format?: 'html' | 'text'): void;
+  setContent(content: string, format?: 'html' | 'text' | 'markdown'): void;
   setContent(content: EditorDocumentJSON, format?: 'json'): void;
   setContent(content: string | EditorDocumentJSON, format: ContentFormat = 'html'): void {
     this.ensureNotDestroyed();
@@ -253,6 +342,8 @@ export class ErixEditorAPI {
         // Wrap plain text in a paragraph
         const html = `<p>${this.escapeHTML(content)}</p>`;
         doc = parseFromHTML(html, schema);
+      } else if (format === 'markdown') {
+        doc = parseFromMarkdown(content, schema);
       } else {
         doc = parseFromHTML(content, schema);
       }
@@ -298,10 +389,7 @@ export class ErixEditorAPI {
    * }
    * ```
    */
-  async openWordImportDialog(options?: {
-    preserveStyles?: boolean;
-    preserveLists?: boolean;
-  }): Promise<{ html: string; text: string; metadata: Record<string, unknown> } | null> {
+  async openWordImportDialog(options?: WordImportOptions): Promise<{ html: string; text: string; metadata: Record<string, unknown>; warnings: string[] } | null> {
     this.ensureNotDestroyed();
     
     const { openWordFileDialog } = await import('./serializers/word-importer');
@@ -315,6 +403,7 @@ export class ErixEditorAPI {
         html: result.html,
         text: result.text,
         metadata: result.metadata as Record<string, unknown>,
+        warnings: result.warnings,
       };
     }
     
@@ -337,11 +426,8 @@ export class ErixEditorAPI {
    */
   async importFromWordFile(
     file: File | Blob,
-    options?: {
-      preserveStyles?: boolean;
-      preserveLists?: boolean;
-    }
-  ): Promise<{ html: string; text: string; metadata: Record<string, unknown> }> {
+    options?: WordImportOptions
+  ): Promise<{ html: string; text: string; metadata: Record<string, unknown>; warnings: string[] }> {
     this.ensureNotDestroyed();
     
     const { parseWordDocument } = await import('./serializers/word-importer');
@@ -354,6 +440,7 @@ export class ErixEditorAPI {
       html: result.html,
       text: result.text,
       metadata: result.metadata as Record<string, unknown>,
+      warnings: result.warnings,
     };
   }
 
@@ -367,11 +454,8 @@ export class ErixEditorAPI {
    */
   async parseWordDocument(
     file: File | Blob,
-    options?: {
-      preserveStyles?: boolean;
-      preserveLists?: boolean;
-    }
-  ): Promise<{ html: string; text: string; metadata: Record<string, unknown> }> {
+    options?: WordImportOptions
+  ): Promise<{ html: string; text: string; metadata: Record<string, unknown>; warnings: string[] }> {
     const { parseWordDocument } = await import('./serializers/word-importer');
     const result = await parseWordDocument(file, options);
     
@@ -379,9 +463,72 @@ export class ErixEditorAPI {
       html: result.html,
       text: result.text,
       metadata: result.metadata as Record<string, unknown>,
+      warnings: result.warnings,
     };
   }
 
+  // ===========================================================================
+  // EXPORT METHODS
+  // ===========================================================================
+
+  /**
+   * Export the editor content as a Word document (.docx file).
+   * Downloads the file in the browser and returns the generated Blob.
+   * 
+   * @param options - Export options
+   * @returns Promise resolving to the .docx Blob
+   * 
+   * @example
+   * ```typescript
+   * const blob = await editor.exportToWordFile({ fileName: 'report.docx', title: 'Report' });
+   * ```
+   */
+  async exportToWordFile(options?: {
+    fileName?: string;
+    title?: string;
+    author?: string;
+    download?: boolean;
+  }): Promise<Blob> {
+    this.ensureNotDestroyed();
+    
+    const { exportWordDocument, downloadWordFile } = await import('./serializers/word-exporter');
+    const blob = await exportWordDocument(this.controller.getDoc(), {
+      title: options?.title,
+      author: options?.author,
+      defaultFontFamily: this.config.defaultFontFamily,
+      defaultFontSize: this.config.defaultFontSize,
+    });
+    
+    if (options?.download !== false) {
+      downloadWordFile(blob, options?.fileName);
+    }
+    
+    return blob;
+  }
+
+  /**
+   * Print the document on its own, laid out on pages with optional
+   * headers and footers.
+   *
+   * @param options - Page layout (overrides `config.print`)
+   * @returns Promise resolving when the print dialog closes
+   *
+   * @example
+   * ```typescript
+   * await editor.print({ pageSize: 'Letter', footer: 'Page {page} of {pages}' });
+   * ```
+   */
+  async print(options?: PrintOptions): Promise<void> {
+    this.ensureNotDestroyed();
+
+    await printHTML(this.getContent('html'), {
+      ...this.config.print,
+      ...options,
+      fontFamily: this.config.defaultFontFamily,
+      fontSize: this.config.defaultFontSize,
+    });
+  }
+
   // ===========================================================================
   // FOCUS METHODS
   // ===========================================================================
@@ -583,6 +730,38 @@ export class ErixEditorAPI {
     view.focus();
   }
 
+  /**
+   * Set text color.
+   * @param color - CSS color (e.g., '#cc0000'), or '' to remove it
+   */
+  setTextColor(color: string): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    setTextColor(color)(view.state, view.dispatch);
+    view.focus();
+  }
+
+  /**
+   * Set highlight color.
+   * @param color - CSS color (e.g., '#ffff00'), or '' to remove the highlight
+   */
+  setHighlight(color: string): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    setHighlight(color)(view.state, view.dispatch);
+    view.focus();
+  }
+
+  /**
+   * Remove text and highlight colors from the selection.
+   */
+  clearColor(): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    clearColor(view.state, view.dispatch);
+    view.focus();
+  }
+
   /**
    * Set text alignment.
    * @param alignment - Alignment type
@@ -652,6 +831,41 @@ export class ErixEditorAPI {
     view.focus();
   }
 
+  /**
+   * Remove marks and reset alignment and line height in the selection.
+   * @param options - Marks to keep (default: `config.clearFormatting`, then links)
+   */
+  clearFormatting(options?: ClearFormattingOptions): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    clearFormatting({ ...this.config.clearFormatting, ...options })(view.state, view.dispatch);
+    view.focus();
+  }
+
+  /**
+   * Link the selection, or update the link at the cursor.
+   * @param href - Link address (`javascript:` and similar addresses are rejected)
+   * @param options - Title and target (default target: '_blank')
+   * @returns false if the address was rejected
+   */
+  setLink(href: string, options: { title?: string | null; target?: string | null } = {}): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    const applied = setLink({ href, ...options })(view.state, view.dispatch);
+    view.focus();
+    return applied;
+  }
+
+  /**
+   * Remove the link at the cursor, or all links in the selection.
+   */
+  unsetLink(): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    unsetLink(view.state, view.dispatch);
+    view.focus();
+  }
+
   // ===========================================================================
   // PLUGIN METHODS
   // ===========================================================================
@@ -705,6 +919,30 @@ export class ErixEditorAPI {
     return this.pluginRegistry.getAll(options);
   }
 
+  /**
+   * Get the plugins listed in the "/" block menu, filtered by the text typed after "/".
+   * Label prefix matches come first, then other label, id and keyword matches.
+   * @param query - Filter text (optional)
+   */
+  getSlashMenuItems(query: string = ''): RegisteredPlugin[] {
+    this.ensureNotDestroyed();
+    const groupOrder: PluginGroup[] = ['formatting', 'lists', 'insert', 'table', 'media', 'custom'];
+    const rank = (group?: PluginGroup) => (groupOrder.includes(group!) ? groupOrder.indexOf(group!) : groupOrder.length);
+
+    const items = this.pluginRegistry
+      .getAll({ showInSlashMenu: true })
+      .sort((a, b) => rank(a.group) - rank(b.group) || (a.priority ?? 100) - (b.priority ?? 100));
+
+    const needle = query.trim().toLowerCase();
+    if (!needle) return items;
+
+    const prefix = items.filter(plugin => plugin.label.toLowerCase().startsWith(needle));
+    const other = items.filter(
+      plugin => !prefix.includes(plugin) && [plugin.label, plugin.id, ...(plugin.keywords || [])].some(term => term.toLowerCase().includes(needle))
+    );
+    return [...prefix, ...other];
+  }
+
   /**
    * Get plugins by group.
    * @param group - Plugin group
@@ -771,6 +1009,50 @@ export class ErixEditorAPI {
     return this.pluginRegistry.canExecute(id, context);
   }
 
+  /**
+   * Get every plugin shortcut. Shortcuts that clash with one registered
+   * earlier have `shadowedBy` set and do nothing until the clash is resolved.
+   */
+  getShortcuts(): PluginShortcut[] {
+    this.ensureNotDestroyed();
+    return this.pluginRegistry.getShortcuts();
+  }
+
+  /**
+   * Change or remove a plugin's keyboard shortcut. 'Mod' is Cmd on Mac and Ctrl elsewhere.
+   * @param id - Plugin identifier
+   * @param shortcut - New shortcut (e.g. 'Mod+Shift+D'), or null to remove it
+   * @throws Error if the plugin does not exist, the shortcut is invalid,
+   *         or another plugin already uses it
+   *
+   * @example
+   * ```typescript
+   * editor.setShortcut('strikethrough', 'Mod+Shift+X');
+   * ```
+   */
+  setShortcut(id: PluginId, shortcut: string | null): void {
+    this.ensureNotDestroyed();
+    this.pluginRegistry.setShortcut(id, shortcut);
+  }
+
+  /**
+   * Get the active key bindings of enabled plugins, as key name → plugin ID.
+   * The same object is returned until plugins change.
+   * @internal Used by the editor's shortcut keymap.
+   */
+  getShortcutBindings(): Record<string, PluginId> {
+    this.ensureNotDestroyed();
+    if (!this.shortcutBindings) {
+      this.shortcutBindings = {};
+      for (const { id, key, shadowedBy } of this.pluginRegistry.getShortcuts()) {
+        if (!shadowedBy && this.pluginRegistry.get(id)?.enabled) {
+          this.shortcutBindings[key] = id;
+        }
+      }
+    }
+    return this.shortcutBindings;
+  }
+
   /**
    * Get the number of registered plugins.
    */
@@ -818,6 +1100,384 @@ export class ErixEditorAPI {
     this.events.off(event, listener);
   }
 
+  // ===========================================================================
+  // COMMENT METHODS
+  // ===========================================================================
+
+  /**
+   * Add a comment thread anchored to the current selection.
+   * @param input - Comment text and optional author
+   * @returns The new thread id, or null if the selection is empty
+   *
+   * @example
+   * ```typescript
+   * editor.setSelection(5, 12);
+   * const id = editor.addComment({ text: 'Needs a source', author: 'Alice' });
+   * ```
+   */
+  addComment(input: CommentInput): string | null {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    const comment: CommentData = {
+      id: this.createCommentId(),
+      author: input.author ?? this.config.comments?.author ?? '',
+      text: input.text,
+      createdAt: Date.now(),
+      resolved: false,
+      replies: [],
+    };
+
+    if (!addComment(comment)(view.state, view.dispatch)) {
+      return null;
+    }
+
+    const thread = this.getComment(comment.id);
+    if (thread) {
+      this.events.emit('commentAdd', { comment: thread });
+    }
+    return comment.id;
+  }
+
+  /**
+   * Reply to a comment thread.
+   * @param id - Thread id
+   * @param input - Reply text and optional author
+   * @returns The new reply id, or null if the thread does not exist
+   */
+  replyToComment(id: string, input: CommentInput): string | null {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    const reply = {
+      id: this.createCommentId(),
+      author: input.author ?? this.config.comments?.author ?? '',
+      text: input.text,
+      createdAt: Date.now(),
+    };
+
+    const replied = updateComment(id, comment => ({ ...comment, replies: [...comment.replies, reply] }))(view.state, view.dispatch);
+    return replied ? reply.id : null;
+  }
+
+  /**
+   * Mark a comment thread as resolved (or reopen it).
+   * The anchor stays in the document so the thread can be reopened.
+   * @param id - Thread id
+   * @param resolved - Resolved state (default: true)
+   * @returns true if the thread exists
+   */
+  resolveComment(id: string, resolved: boolean = true): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    if (!updateComment(id, comment => ({ ...comment, resolved }))(view.state, view.dispatch)) {
+      return false;
+    }
+
+    const thread = this.getComment(id);
+    if (thread) {
+      this.events.emit('commentResolve', { comment: thread });
+    }
+    return true;
+  }
+
+  /**
+   * Delete a comment thread and remove its anchor.
+   * @param id - Thread id
+   * @returns true if the thread existed
+   */
+  deleteComment(id: string): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    return removeComment(id)(view.state, view.dispatch);
+  }
+
+  /**
+   * Get comment threads in document order.
+   * Threads whose text was deleted are listed last with a null range.
+   * @param options - Query options
+   */
+  getComments(options: CommentQueryOptions = {}): CommentThread[] {
+    const state = this.controller.getState();
+    const ranges = findCommentRanges(state.doc);
+
+    const threads = getCommentData(state)
+      .filter(comment => options.includeResolved !== false || !comment.resolved)
+      .map(comment => {
+        const range = ranges.get(comment.id) || null;
+        return {
+          ...comment,
+          range: range ? { ...range } : null,
+          quote: range ? state.doc.textBetween(range.from, range.to, ' ') : '',
+        };
+      });
+
+    return threads.sort((a, b) => (a.range?.from ?? Infinity) - (b.range?.from ?? Infinity));
+  }
+
+  /**
+   * Get a single comment thread.
+   * @param id - Thread id
+   */
+  getComment(id: string): CommentThread | undefined {
+    return this.getComments().find(comment => comment.id === id);
+  }
+
+  /**
+   * Get the id of the comment under the cursor.
+   */
+  getActiveComment(): string | null {
+    return getActiveCommentId(this.controller.getState());
+  }
+
+  /**
+   * Move the selection to a comment's anchor.
+   * @param id - Thread id
+   * @returns true if the thread has an anchor in the document
+   */
+  selectComment(id: string): boolean {
+    this.ensureNotDestroyed();
+    const range = findCommentRanges(this.controller.getDoc()).get(id);
+    if (!range) return false;
+
+    this.controller.setSelection(range.from, range.to);
+    this.controller.getView().focus();
+    return true;
+  }
+
+  // ===========================================================================
+  // TRACK CHANGES METHODS
+  // ===========================================================================
+
+  /**
+   * Turn suggestion mode on or off.
+   * While on, insertions and deletions are recorded as suggestions.
+   * @param enabled - Whether to record changes
+   * @param author - Author name recorded on new suggestions (optional)
+   */
+  setTrackChanges(enabled: boolean, author?: string): void {
+    this.ensureNotDestroyed();
+    const tr = configureTrackChanges(this.controller.getState().tr, author === undefined ? { enabled } : { enabled, author });
+    this.controller.dispatch(tr);
+  }
+
+  /**
+   * Check if suggestion mode is on.
+   */
+  isTrackingChanges(): boolean {
+    return isTrackingChanges(this.controller.getState());
+  }
+
+  /**
+   * Get pending suggestions in document order.
+   */
+  getTrackedChanges(): TrackedChange[] {
+    return getTrackedChanges(this.controller.getDoc());
+  }
+
+  /**
+   * Accept a suggestion.
+   * @param id - Change id
+   * @returns true if the change existed
+   */
+  acceptChange(id: string): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    return acceptChange(id)(view.state, view.dispatch);
+  }
+
+  /**
+   * Reject a suggestion.
+   * @param id - Change id
+   * @returns true if the change existed
+   */
+  rejectChange(id: string): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    return rejectChange(id)(view.state, view.dispatch);
+  }
+
+  /**
+   * Accept every pending suggestion.
+   * @returns true if there was anything to accept
+   */
+  acceptAllChanges(): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    return acceptAllChanges(view.state, view.dispatch);
+  }
+
+  /**
+   * Reject every pending suggestion.
+   * @returns true if there was anything to reject
+   */
+  rejectAllChanges(): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    return rejectAllChanges(view.state, view.dispatch);
+  }
+
+  // ===========================================================================
+  // FIND & REPLACE METHODS
+  // ===========================================================================
+
+  /**
+   * Search the document and highlight all matches.
+   * @param query - Text or pattern to find (empty clears the search)
+   * @param options - Case, whole-word and regex options
+   * @returns The matches found
+   */
+  find(query: string, options: SearchOptions = {}): SearchResult {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    setSearchQuery(query, options)(view.state, view.dispatch);
+    return this.getSearchResult();
+  }
+
+  /**
+   * Select the next match, wrapping around at the end.
+   * @returns The selected match, or null if there are no matches
+   */
+  findNext(): SearchMatch | null {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    if (!findNext(view.state, view.dispatch)) return null;
+    const result = this.getSearchResult();
+    return result.matches[result.current];
+  }
+
+  /**
+   * Select the previous match, wrapping around at the start.
+   * @returns The selected match, or null if there are no matches
+   */
+  findPrevious(): SearchMatch | null {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    if (!findPrevious(view.state, view.dispatch)) return null;
+    const result = this.getSearchResult();
+    return result.matches[result.current];
+  }
+
+  /**
+   * Get the matches of the active search.
+   */
+  getSearchResult(): SearchResult {
+    const state = this.controller.getState();
+    const search = getFindReplaceState(state);
+    if (!search) return { matches: [], current: -1, error: null };
+
+    return {
+      matches: search.matches.map(match => ({ from: match.from, to: match.to, text: state.doc.textBetween(match.from, match.to) })),
+      current: search.current,
+      error: search.error,
+    };
+  }
+
+  /**
+   * Replace the current match and move to the next one.
+   * With the regex option, `$&` and `$1`... refer to the match and its groups.
+   * @param replacement - Replacement text
+   * @returns true if a match was replaced
+   */
+  replace(replacement: string): boolean {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    return replaceMatch(replacement)(view.state, view.dispatch);
+  }
+
+  /**
+   * Replace every match of the active search in one undoable step.
+   * @param replacement - Replacement text
+   * @returns Number of matches replaced
+   */
+  replaceAll(replacement: string): number {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    const count = getFindReplaceState(view.state)?.matches.length ?? 0;
+    return replaceAllMatches(replacement)(view.state, view.dispatch) ? count : 0;
+  }
+
+  /**
+   * Clear the search and its highlights.
+   */
+  clearSearch(): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    clearSearch(view.state, view.dispatch);
+  }
+
+  /**
+   * Show the find panel.
+   * @param mode - 'find' or 'replace' (default: 'find')
+   */
+  openFindPanel(mode: 'find' | 'replace' = 'find'): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    openFindPanel(mode)(view.state, view.dispatch);
+  }
+
+  /**
+   * Hide the find panel and clear highlights.
+   */
+  closeFindPanel(): void {
+    this.ensureNotDestroyed();
+    const view = this.controller.getView();
+    closeFindPanel(view.state, view.dispatch);
+  }
+
+  // ===========================================================================
+  // COLLABORATION METHODS
+  // ===========================================================================
+
+  /**
+   * Join a collaborative editing session.
+   * Local steps are sent through the transport and remote steps are rebased
+   * onto the document. Remote cursors are rendered in the editor.
+   * @param options - Transport and local user information
+   *
+   * @example
+   * ```typescript
+   * editor.enableCollaboration({
+   *   transport: myWebSocketTransport,
+   *   user: { id: 'u1', name: 'Alice', color: '#e91e63' },
+   * });
+   * ```
+   */
+  enableCollaboration(options: CollaborationOptions): void {
+    this.ensureNotDestroyed();
+    if (this.collabSession) {
+      this.disableCollaboration();
+    }
+
+    this.collabSession = new CollabSession(this.controller, options, collaborators => {
+      this.events.emit('collaboratorsChange', { collaborators });
+    });
+    this.collabSession.start();
+  }
+
+  /**
+   * Leave the current collaborative session, if any.
+   */
+  disableCollaboration(): void {
+    if (!this.collabSession) return;
+
+    const session = this.collabSession;
+    this.collabSession = null;
+    session.stop();
+  }
+
+  /**
+   * Check if a collaborative session is active.
+   */
+  isCollaborating(): boolean {
+    return this.collabSession !== null;
+  }
+
+  /**
+   * Get the remote users currently present in the session.
+   */
+  getCollaborators(): CollabUser[] {
+    return this.collabSession ? this.collabSession.getCollaborators() : [];
+  }
+
   // ===========================================================================
   // LIFECYCLE METHODS
   // ===========================================================================
@@ -828,6 +1488,7 @@ export class ErixEditorAPI {
   destroy(): void {
     if (this._isDestroyed) return;
 
+    this.disableCollaboration();
     this.events.emit('destroy', undefined);
     this.events.clear();
     this.pluginRegistry.clear();
@@ -878,7 +1539,10 @@ export class ErixEditorAPI {
       () => this.undo(),
       () => this.redo(),
       () => this.canUndo(),
-      () => this.canRedo()
+      () => this.canRedo(),
+      () => this.clearFormatting(),
+      () => this.print().catch(error => console.error('[ErixEditorAPI] Print failed:', error)),
+      () => this.exportToWordFile()
     );
 
     // Filter plugins if specific list provided
@@ -891,6 +1555,13 @@ export class ErixEditorAPI {
     this.pluginRegistry.registerAll(pluginsToRegister, true);
   }
 
+  /**
+   * Generate an id for a comment or reply.
+   */
+  private createCommentId(): string {
+    return `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
   /**
    * Escape HTML special characters.
    */
@@ -4,6 +4,10 @@
  * DO NOT expose any ProseMirror types here.
  */
 
+import type { CollabUser } from './collaboration.types';
+import type { CommentThread } from './comments.types';
+import type { RegisteredPlugin } from './plugin-registry.types';
+
 // =============================================================================
 // CONTENT TYPES
 // =============================================================================
@@ -11,7 +15,24 @@
 /**
  * Supported content formats for serialization.
  */
-export type ContentFormat = 'html' | 'json' | 'text';
+export type ContentFormat = 'html' | 'json' | 'text' | 'markdown';
+
+/**
+ * How Markdown export handles content that has no Markdown equivalent.
+ * - `'html'`: emit it as inline/block HTML (round-trips through import)
+ * - `'strip'`: drop the formatting and keep only the text
+ */
+export type MarkdownFallback = 'html' | 'strip';
+
+/**
+ * Markdown export options.
+ */
+export interface MarkdownOptions {
+  /** Marks without Markdown syntax (underline, colors, font size, ...). Default: 'html' */
+  unsupportedMarks?: MarkdownFallback;
+  /** Nodes without Markdown syntax (page breaks, merged table cells, ...). Default: 'html' */
+  unsupportedNodes?: MarkdownFallback;
+}
 
 /**
  * Represents editor content in multiple formats.
@@ -31,6 +52,8 @@ export interface EditorContent {
  */
 export interface EditorDocumentJSON {
   type: 'doc';
+  /** Document-level data, such as comment threads */
+  attrs?: Record<string, unknown>;
   content: EditorNodeJSON[];
 }
 
@@ -106,6 +129,12 @@ export type EditorEventType =
   | 'blur'
   | 'selectionChange'
   | 'ready'
+  | 'collaboratorsChange'
+  | 'commentAdd'
+  | 'commentResolve'
+  | 'commentsChange'
+  | 'activeCommentChange'
+  | 'pluginsChange'
   | 'destroy';
 
 /**
@@ -117,6 +146,12 @@ export interface EditorEventPayload {
   blur: undefined;
   selectionChange: { selection: EditorSelection };
   ready: undefined;
+  collaboratorsChange: { collaborators: CollabUser[] };
+  commentAdd: { comment: CommentThread };
+  commentResolve: { comment: CommentThread };
+  commentsChange: { comments: CommentThread[] };
+  activeCommentChange: { id: string | null };
+  pluginsChange: { plugins: RegisteredPlugin[] };
   destroy: undefined;
 }
 
@@ -135,7 +170,7 @@ export type EditorEventListener<T extends EditorEventType> = (
  * Editor initialization options.
  */
 export interface EditorOptions {
-  /** Initial content (HTML, JSON, or plain text) */
+  /** Initial content (HTML, JSON, Markdown, or plain text) */
   content?: string | EditorDocumentJSON;
   /** Content format hint for string content */
   contentFormat?: ContentFormat;
@@ -32,6 +32,8 @@ export type {
 
   // Configuration
   EditorOptions,
+  MarkdownOptions,
+  MarkdownFallback,
 } from './editor-api.types';
 
 // Type exports - Plugin System
@@ -44,6 +46,7 @@ export type {
   ErixPluginConfig,
   RegisteredPlugin,
   PluginQueryOptions,
+  PluginShortcut,
 
   // Toolbar types
   PluginToolbarConfig,
@@ -54,6 +57,13 @@ export type {
 
   // Configuration types
   PluginsConfig,
+  InputRulesConfig,
+  ClearFormattingOptions,
+  PageSize,
+  PrintHeaderFooter,
+  PrintOptions,
+  CodeLanguage,
+  CodeTokenRule,
   EditorConfig,
 } from './plugin-registry.types';
 
@@ -68,13 +78,48 @@ export {
   openWordFileDialog,
 } from './serializers/word-importer';
 
-
 export type {
   WordImportOptions,
   WordImportResult,
   WordDocumentMetadata,
 } from './serializers/word-importer';
 
+// Word document export utilities
+export { exportWordDocument, downloadWordFile } from './serializers/word-exporter';
+
+export type { WordExportOptions } from './serializers/word-exporter';
+
+// Print utilities
+export { printHTML, createPrintDocument, getPageLayout, PAGE_SIZES } from './serializers/print';
+
+// Comments
+export type {
+  CommentData,
+  CommentReply,
+  CommentThread,
+  CommentInput,
+  CommentQueryOptions,
+  CommentsConfig,
+} from './comments.types';
+
+// Track changes
+export type { TrackedChange, TrackedChangeType, TrackChangesConfig } from './track-changes.types';
+
+// Search
+export type { SearchOptions, SearchMatch, SearchResult } from './search.types';
+
+// Collaboration
+export { InMemoryCollabHub } from './collaboration';
+
+export type {
+  CollabClientID,
+  CollabUser,
+  CollabPresence,
+  CollabStepsMessage,
+  CollabTransport,
+  CollaborationOptions,
+} from './collaboration.types';
+
 /**
  * Global JSX Support
  * This ensures that these custom elements are recognized in JSX/React environments.
@@ -82,15 +127,23 @@ export type {
 declare global {
   namespace JSX {
     interface IntrinsicElements {
+      'erix-block-toolbar': any;
+      'erix-bubble-toolbar': any;
       'erix-button': any;
+      'erix-color-palette': any;
+      'erix-comments-panel': any;
       'erix-divider': any;
       'erix-dropdown': any;
       'erix-editor': any;
+      'erix-find-panel': any;
       'erix-icon': any;
+      'erix-link-popover': any;
       'erix-popover': any;
       'erix-select': any;
+      'erix-slash-menu': any;
       'erix-status-bar': any;
       'erix-table-picker': any;
+      'erix-table-properties': any;
       'erix-table-toolbar': any;
       'erix-toolbar': any;
     }
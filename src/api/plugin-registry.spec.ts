@@ -0,0 +1,56 @@
+import { PluginRegistry } from './plugin-registry';
+import type { ErixPluginConfig } from './plugin-registry.types';
+
+const plugin = (id: string, shortcut?: string): ErixPluginConfig => ({ id, label: id, shortcut, execute: () => true });
+
+describe('PluginRegistry shortcuts', () => {
+  let registry: PluginRegistry;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    registry = new PluginRegistry();
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  it('keeps the first plugin to claim a key and reports the shadowed one', () => {
+    registry.register(plugin('bold', 'Ctrl+B'));
+    registry.register(plugin('custom-bold', 'control-b'));
+
+    expect(registry.getByShortcut('ctrl+b')?.id).toBe('bold');
+    expect(warn).toHaveBeenCalledWith('[PluginRegistry] Shortcut "control-b" of "custom-bold" is already used by "bold".');
+    expect(registry.getShortcuts()).toEqual([
+      { id: 'bold', shortcut: 'Ctrl+B', key: 'Ctrl-b' },
+      { id: 'custom-bold', shortcut: 'control-b', key: 'Ctrl-b', shadowedBy: 'bold' },
+    ]);
+  });
+
+  it('refuses to rebind to a key another plugin uses', () => {
+    registry.register(plugin('bold', 'Ctrl+B'));
+    registry.register(plugin('italic', 'Ctrl+I'));
+
+    expect(() => registry.setShortcut('italic', 'Ctrl-b')).toThrow('Shortcut "Ctrl-b" is already used by plugin "bold".');
+    expect(registry.getByShortcut('Ctrl+I')?.id).toBe('italic');
+  });
+
+  it('frees the key of the previous shortcut when rebinding', () => {
+    registry.register(plugin('bold', 'Ctrl+B'));
+    registry.register(plugin('custom-bold', 'Ctrl+B'));
+
+    registry.setShortcut('bold', 'Ctrl+Shift+B');
+
+    expect(registry.getByShortcut('Ctrl+Shift+B')?.id).toBe('bold');
+    expect(registry.getByShortcut('Ctrl+B')?.id).toBe('custom-bold');
+    expect(registry.getShortcuts().some(shortcut => shortcut.shadowedBy)).toBe(false);
+  });
+
+  it('rejects invalid shortcuts', () => {
+    expect(() => registry.register(plugin('bad', 'Hyper+B'))).toThrow('Unknown modifier');
+    registry.register(plugin('bold', 'Ctrl+B'));
+    expect(() => registry.setShortcut('bold', 'Hyper+B')).toThrow('Unknown modifier');
+    expect(registry.getByShortcut('Ctrl+B')?.id).toBe('bold');
+  });
+});
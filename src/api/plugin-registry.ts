@@ -3,6 +3,7 @@
  * Advanced plugin management system inspired by CKEditor.
  */
 
+import { normalizeShortcut } from '../core';
 import type {
   PluginId,
   ErixPluginConfig,
@@ -10,8 +11,14 @@ import type {
   PluginQueryOptions,
   PluginContext,
   PluginGroup,
+  PluginShortcut,
 } from './plugin-registry.types';
 
+/**
+ * Groups listed in the "/" block menu unless a plugin opts out.
+ */
+const SLASH_MENU_GROUPS: PluginGroup[] = ['insert', 'media', 'table', 'custom'];
+
 /**
  * PluginRegistry manages all registered plugins.
  * Provides advanced features like dependency resolution, groups, and lifecycle hooks.
@@ -20,6 +27,7 @@ export class PluginRegistry {
   private plugins: Map<PluginId, RegisteredPlugin> = new Map();
   private groups: Map<PluginGroup, Set<PluginId>> = new Map();
   private shortcuts: Map<string, PluginId> = new Map();
+  private changeListeners: Set<() => void> = new Set();
 
   constructor() {
     // Initialize group sets
@@ -45,6 +53,8 @@ export class PluginRegistry {
       throw new Error(`Plugin with ID "${config.id}" is already registered.`);
     }
 
+    const shortcutKey = config.shortcut ? this.normalizeShortcut(config.shortcut) : null;
+
     // Check dependencies
     if (config.requires) {
       const missing = config.requires.filter(id => !this.plugins.has(id));
@@ -58,7 +68,7 @@ export class PluginRegistry {
     const plugin: RegisteredPlugin = {
       ...config,
       enabled: config.enabled ?? true,
-      showInToolbar: config.showInToolbar ?? true,
+      showInToolbar: config.showInToolbar ?? config.toolbar?.showInToolbar ?? true,
       priority: config.priority ?? 100,
       group: config.group ?? 'custom',
       registeredAt: Date.now(),
@@ -73,9 +83,14 @@ export class PluginRegistry {
       groupSet.add(config.id);
     }
 
-    // Register shortcut
-    if (config.shortcut) {
-      this.shortcuts.set(this.normalizeShortcut(config.shortcut), config.id);
+    // Register shortcut (the first plugin to claim a key keeps it)
+    if (shortcutKey) {
+      const owner = this.shortcuts.get(shortcutKey);
+      if (owner) {
+        console.warn(`[PluginRegistry] Shortcut "${config.shortcut}" of "${config.id}" is already used by "${owner}".`);
+      } else {
+        this.shortcuts.set(shortcutKey, config.id);
+      }
     }
 
     // Call init hook
@@ -86,6 +101,8 @@ export class PluginRegistry {
         console.error(`[PluginRegistry] Error in onInit for "${config.id}":`, error);
       }
     }
+
+    this.notifyChange();
   }
 
   /**
@@ -130,12 +147,15 @@ export class PluginRegistry {
       groupSet.delete(id);
     }
 
-    // Remove shortcut
+    this.plugins.delete(id);
+
+    // Hand the shortcut to the next plugin that wanted it
     if (plugin.shortcut) {
-      this.shortcuts.delete(this.normalizeShortcut(plugin.shortcut));
+      this.rebuildShortcuts();
     }
 
-    return this.plugins.delete(id);
+    this.notifyChange();
+    return true;
   }
 
   // ===========================================================================
@@ -177,6 +197,18 @@ export class PluginRegistry {
       result = result.filter(p => p.showInToolbar === options.showInToolbar);
     }
 
+    if (options?.showInBubble !== undefined) {
+      result = result.filter(p => !!p.toolbar?.showInBubble === options.showInBubble);
+    }
+
+    if (options?.showInBlock !== undefined) {
+      result = result.filter(p => !!p.toolbar?.showInBlock === options.showInBlock);
+    }
+
+    if (options?.showInSlashMenu !== undefined) {
+      result = result.filter(p => this.isInSlashMenu(p) === options.showInSlashMenu);
+    }
+
     if (options?.isBuiltin !== undefined) {
       result = result.filter(p => p.isBuiltin === options.isBuiltin);
     }
@@ -189,6 +221,14 @@ export class PluginRegistry {
     return result.sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100));
   }
 
+  /**
+   * Check if a plugin is listed in the "/" block menu.
+   * @param plugin - Registered plugin
+   */
+  isInSlashMenu(plugin: RegisteredPlugin): boolean {
+    return plugin.toolbar?.showInSlashMenu ?? SLASH_MENU_GROUPS.includes(plugin.group!);
+  }
+
   /**
    * Get all plugins in a specific group.
    * @param group - Plugin group
@@ -211,6 +251,21 @@ export class PluginRegistry {
     return dependents;
   }
 
+  /**
+   * Get all plugin shortcuts, with the plugin that shadows each conflicting one.
+   */
+  getShortcuts(): PluginShortcut[] {
+    const result: PluginShortcut[] = [];
+    for (const plugin of this.plugins.values()) {
+      if (!plugin.shortcut) continue;
+
+      const key = this.normalizeShortcut(plugin.shortcut);
+      const owner = this.shortcuts.get(key);
+      result.push({ id: plugin.id, shortcut: plugin.shortcut, key, ...(owner !== plugin.id && { shadowedBy: owner }) });
+    }
+    return result;
+  }
+
   /**
    * Get plugin by keyboard shortcut.
    * @param shortcut - Keyboard shortcut string
@@ -225,6 +280,31 @@ export class PluginRegistry {
   // STATE MANAGEMENT
   // ===========================================================================
 
+  /**
+   * Change or remove a plugin's keyboard shortcut.
+   * @param id - Plugin identifier
+   * @param shortcut - New shortcut (e.g. 'Mod+Shift+D'), or null to remove it
+   * @throws Error if the plugin does not exist, the shortcut is invalid,
+   *         or another plugin already uses it
+   */
+  setShortcut(id: PluginId, shortcut: string | null): void {
+    const plugin = this.plugins.get(id);
+    if (!plugin) {
+      throw new Error(`Plugin "${id}" is not registered.`);
+    }
+
+    if (shortcut) {
+      const owner = this.shortcuts.get(this.normalizeShortcut(shortcut));
+      if (owner && owner !== id) {
+        throw new Error(`Shortcut "${shortcut}" is already used by plugin "${owner}".`);
+      }
+    }
+
+    plugin.shortcut = shortcut || undefined;
+    this.rebuildShortcuts();
+    this.notifyChange();
+  }
+
   /**
    * Set plugin enabled state.
    * @param id - Plugin identifier
@@ -232,8 +312,9 @@ export class PluginRegistry {
    */
   setEnabled(id: PluginId, enabled: boolean): void {
     const plugin = this.plugins.get(id);
-    if (plugin) {
+    if (plugin && plugin.enabled !== enabled) {
       plugin.enabled = enabled;
+      this.notifyChange();
     }
   }
 
@@ -261,7 +342,7 @@ export class PluginRegistry {
   toggle(id: PluginId): boolean {
     const plugin = this.plugins.get(id);
     if (plugin) {
-      plugin.enabled = !plugin.enabled;
+      this.setEnabled(id, !plugin.enabled);
       return plugin.enabled;
     }
     return false;
@@ -392,18 +473,61 @@ export class PluginRegistry {
     this.plugins.clear();
     this.shortcuts.clear();
     this.groups.forEach(g => g.clear());
+    this.notifyChange();
+  }
+
+  // ===========================================================================
+  // CHANGE LISTENERS
+  // ===========================================================================
+
+  /**
+   * Add a listener called after plugins are registered, unregistered,
+   * enabled or disabled.
+   * @param listener - Change listener
+   */
+  addChangeListener(listener: () => void): void {
+    this.changeListeners.add(listener);
+  }
+
+  /**
+   * Remove a change listener.
+   * @param listener - Change listener
+   */
+  removeChangeListener(listener: () => void): void {
+    this.changeListeners.delete(listener);
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[PluginRegistry] Error in change listener:', error);
+      }
+    });
   }
 
   /**
-   * Normalize a keyboard shortcut for comparison.
+   * Normalize a keyboard shortcut to its key name on this platform.
+   * @throws Error if the shortcut is invalid
    */
   private normalizeShortcut(shortcut: string): string {
-    return shortcut
-      .toLowerCase()
-      .replace(/mod/g, 'ctrl')
-      .split('+')
-      .sort()
-      .join('+');
+    return normalizeShortcut(shortcut);
+  }
+
+  /**
+   * Rebuild the shortcut map in registration order (first plugin wins).
+   */
+  private rebuildShortcuts(): void {
+    this.shortcuts.clear();
+    for (const plugin of this.plugins.values()) {
+      if (!plugin.shortcut) continue;
+
+      const key = this.normalizeShortcut(plugin.shortcut);
+      if (!this.shortcuts.has(key)) {
+        this.shortcuts.set(key, plugin.id);
+      }
+    }
   }
 
   /**
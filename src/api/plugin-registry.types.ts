@@ -3,7 +3,9 @@
  * Advanced plugin architecture inspired by CKEditor.
  */
 
-import type { EditorSelection } from './editor-api.types';
+import type { EditorSelection, MarkdownOptions } from './editor-api.types';
+import type { CommentsConfig } from './comments.types';
+import type { TrackChangesConfig } from './track-changes.types';
 
 // =============================================================================
 // PLUGIN TYPES
@@ -27,6 +29,7 @@ export type PluginGroup =
   | 'history'
   | 'tools'
   | 'font'
+  | 'review'
   | 'custom';
 
 /**
@@ -63,6 +66,11 @@ export interface PluginToolbarConfig {
   showInBubble?: boolean;
   /** Show in block toolbar */
   showInBlock?: boolean;
+  /**
+   * Show in the "/" block menu.
+   * Defaults to true for the 'insert', 'media', 'table' and 'custom' groups.
+   */
+  showInSlashMenu?: boolean;
   /** Custom toolbar position */
   position?: 'start' | 'middle' | 'end';
   /** Separator before this item */
@@ -100,6 +108,9 @@ export interface ErixPluginConfig {
   /** Plugin group for toolbar organization */
   group?: PluginGroup;
 
+  /** Extra search terms for the "/" block menu */
+  keywords?: string[];
+
   /** Priority within group (lower = earlier) */
   priority?: PluginPriority;
 
@@ -191,6 +202,20 @@ export interface RegisteredPlugin extends ErixPluginConfig {
   isBuiltin: boolean;
 }
 
+/**
+ * A plugin's keyboard shortcut.
+ */
+export interface PluginShortcut {
+  /** Plugin identifier */
+  id: PluginId;
+  /** Shortcut as configured (e.g., 'Mod+Shift+S') */
+  shortcut: string;
+  /** Key name on this platform (e.g., 'Ctrl-Shift-s') */
+  key: string;
+  /** Plugin registered earlier with the same key; this shortcut is inactive while set */
+  shadowedBy?: PluginId;
+}
+
 /**
  * Plugin query options.
  */
@@ -201,6 +226,12 @@ export interface PluginQueryOptions {
   enabled?: boolean;
   /** Filter by toolbar visibility */
   showInToolbar?: boolean;
+  /** Filter by bubble toolbar visibility (`toolbar.showInBubble`) */
+  showInBubble?: boolean;
+  /** Filter by block toolbar visibility (`toolbar.showInBlock`) */
+  showInBlock?: boolean;
+  /** Filter by "/" block menu visibility */
+  showInSlashMenu?: boolean;
   /** Filter by built-in status */
   isBuiltin?: boolean;
   /** Include disabled plugins */
@@ -238,6 +269,93 @@ export interface ToolbarConfig {
   sticky?: boolean;
 }
 
+/**
+ * Markdown-style typing shortcuts. Every rule is on unless set to false.
+ */
+export interface InputRulesConfig {
+  /** "# " to "###### " start a heading */
+  headings?: boolean;
+  /** "- " or "* " start a bullet list */
+  bulletList?: boolean;
+  /** "1. " starts a numbered list at that number */
+  orderedList?: boolean;
+  /** "> " starts a blockquote */
+  blockquote?: boolean;
+  /** "```" starts a code block */
+  codeBlock?: boolean;
+  /** "---" inserts a horizontal rule */
+  horizontalRule?: boolean;
+  /** **text** makes bold text */
+  bold?: boolean;
+  /** _text_ makes italic text */
+  italic?: boolean;
+  /** ~~text~~ makes struck-through text */
+  strikethrough?: boolean;
+  /** `text` makes inline code */
+  code?: boolean;
+}
+
+/**
+ * What "clear formatting" keeps.
+ */
+export interface ClearFormattingOptions {
+  /** Marks left in place (default: ['link']). Comments and tracked changes are always kept. */
+  keepMarks?: string[];
+}
+
+/**
+ * Paper size of printed pages.
+ */
+export type PageSize = 'A4' | 'Letter';
+
+/**
+ * Text repeated at the top or bottom of every printed page. A string is centered.
+ * `{page}`, `{pages}`, `{title}` and `{date}` are replaced when printing.
+ */
+export type PrintHeaderFooter = string | { left?: string; center?: string; right?: string };
+
+/**
+ * Page layout for printing.
+ */
+export interface PrintOptions {
+  /** Paper size (default: 'A4') */
+  pageSize?: PageSize;
+  /** Page orientation (default: 'portrait') */
+  orientation?: 'portrait' | 'landscape';
+  /** Page margins as a CSS length for every side, or per side (default: '2.54cm') */
+  margins?: string | { top?: string; right?: string; bottom?: string; left?: string };
+  /** Header on every page, e.g. '{title}' */
+  header?: PrintHeaderFooter;
+  /** Footer on every page, e.g. 'Page {page} of {pages}' */
+  footer?: PrintHeaderFooter;
+  /** Title for `{title}` and the print job (default: the page title) */
+  title?: string;
+}
+
+/**
+ * Token rule of a code grammar.
+ */
+export interface CodeTokenRule {
+  /** Token type, styled through the `erix-token-<type>` class (e.g. 'keyword', 'string', 'comment') */
+  type: string;
+  /** Pattern tried at each position of the code (the `g` flag is ignored) */
+  pattern: RegExp;
+}
+
+/**
+ * Code block language: its name in the picker and its highlighting grammar.
+ */
+export interface CodeLanguage {
+  /** Language id, stored as `class="language-<id>"` */
+  id: string;
+  /** Name shown in the language picker */
+  label: string;
+  /** Other ids highlighted with this grammar (e.g. 'js') */
+  aliases?: string[];
+  /** Token rules; at each position the first one that matches wins */
+  tokens: CodeTokenRule[];
+}
+
 /**
  * Editor plugins configuration.
  */
@@ -261,7 +379,7 @@ export interface EditorConfig {
   /** Initial content */
   content?: string;
   /** Content format */
-  contentFormat?: 'html' | 'json';
+  contentFormat?: 'html' | 'json' | 'markdown';
   /** Placeholder text */
   placeholder?: string;
   /** Read-only mode */
@@ -274,6 +392,22 @@ export interface EditorConfig {
   defaultFontSize?: string;
   /** Default font family (e.g., 'Arial, sans-serif') */
   defaultFontFamily?: string;
+  /** Markdown export options */
+  markdown?: MarkdownOptions;
+  /** Review comments options */
+  comments?: CommentsConfig;
+  /** Suggestion mode options */
+  trackChanges?: TrackChangesConfig;
+  /** Markdown-style typing shortcuts; false turns them all off */
+  inputRules?: InputRulesConfig | false;
+  /** Upload a dropped, pasted or inserted image and resolve to its URL (default: embed as a data URL) */
+  uploadImage?: (file: File) => Promise<string>;
+  /** Code block languages for the picker and highlighting (default: DEFAULT_CODE_LANGUAGES) */
+  codeLanguages?: CodeLanguage[];
+  /** Options for the clear-formatting toolbar item and shortcut */
+  clearFormatting?: ClearFormattingOptions;
+  /** Default page layout for printing */
+  print?: PrintOptions;
 }
 
 /**
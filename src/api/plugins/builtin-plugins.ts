@@ -19,6 +19,30 @@ import {
   getActiveAlignment,
   increaseIndent,
   decreaseIndent,
+  isTrackingChanges,
+  configureTrackChanges,
+  getTrackedChanges,
+  getTrackedChangesAtSelection,
+  acceptChangesAtSelection,
+  rejectChangesAtSelection,
+  acceptAllChanges,
+  rejectAllChanges,
+  setHeading,
+  setParagraph,
+  getCurrentHeadingLevel,
+  toggleBlockquote,
+  isBlockquoteActive,
+  toggleCodeBlock,
+  isCodeBlockActive,
+  insertHorizontalRule,
+  insertPageBreak,
+  insertTable,
+  uploadImageFiles,
+  openLinkEditor,
+  isLinkActive,
+  setTextCase,
+  clearFormatting,
+  printDocument,
 } from '../../core';
 
 import type { ErixPluginConfig } from '../plugin-registry.types';
@@ -28,6 +52,31 @@ import type { ErixPluginConfig } from '../plugin-registry.types';
  */
 type CommandExecutor = (view: EditorView) => boolean;
 
+/**
+ * Let the user pick an image file.
+ */
+function pickImageFile(): Promise<File | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.style.display = 'none';
+
+    input.onchange = () => {
+      document.body.removeChild(input);
+      resolve(input.files?.[0] ?? null);
+    };
+
+    input.oncancel = () => {
+      document.body.removeChild(input);
+      resolve(null);
+    };
+
+    document.body.appendChild(input);
+    input.click();
+  });
+}
+
 /**
  * Factory function to create built-in plugins.
  * @param getView - Function to get the current EditorView
@@ -39,7 +88,10 @@ export function createBuiltinPlugins(
   undoFn: () => boolean,
   redoFn: () => boolean,
   canUndoFn: () => boolean,
-  canRedoFn: () => boolean
+  canRedoFn: () => boolean,
+  clearFormattingFn?: () => void,
+  printFn?: () => void,
+  exportWordFn?: () => Promise<unknown>
 ): ErixPluginConfig[] {
   const executeCommand = (command: CommandExecutor): boolean => {
     const view = getView();
@@ -53,10 +105,11 @@ export function createBuiltinPlugins(
     {
       id: 'bold',
       label: 'Bold',
-      icon: 'bold',
+      icon: 'formatBold',
       group: 'formatting',
       priority: 10,
       shortcut: 'Mod+B',
+      toolbar: { showInBubble: true },
       showInToolbar: true,
       execute: () => executeCommand((view) => toggleBold(view.state, view.dispatch)),
       isActive: () => isMarkActive('strong'),
@@ -64,10 +117,11 @@ export function createBuiltinPlugins(
     {
       id: 'italic',
       label: 'Italic',
-      icon: 'italic',
+      icon: 'formatItalic',
       group: 'formatting',
       priority: 20,
       shortcut: 'Mod+I',
+      toolbar: { showInBubble: true },
       showInToolbar: true,
       execute: () => executeCommand((view) => toggleItalic(view.state, view.dispatch)),
       isActive: () => isMarkActive('em'),
@@ -75,10 +129,11 @@ export function createBuiltinPlugins(
     {
       id: 'underline',
       label: 'Underline',
-      icon: 'underline',
+      icon: 'formatUnderline',
       group: 'formatting',
       priority: 30,
       shortcut: 'Mod+U',
+      toolbar: { showInBubble: true },
       showInToolbar: true,
       execute: () => executeCommand((view) => toggleUnderline(view.state, view.dispatch)),
       isActive: () => isMarkActive('underline'),
@@ -86,10 +141,11 @@ export function createBuiltinPlugins(
     {
       id: 'strikethrough',
       label: 'Strikethrough',
-      icon: 'strikethrough',
+      icon: 'formatStrikethrough',
       group: 'formatting',
       priority: 40,
       shortcut: 'Mod+Shift+S',
+      toolbar: { showInBubble: true },
       showInToolbar: true,
       execute: () => executeCommand((view) => toggleStrikethrough(view.state, view.dispatch)),
       isActive: () => isMarkActive('strikethrough'),
@@ -97,23 +153,59 @@ export function createBuiltinPlugins(
     {
       id: 'superscript',
       label: 'Superscript',
-      icon: 'superscript',
+      icon: 'superScript',
       group: 'formatting',
       priority: 50,
-      showInToolbar: false,
+      showInToolbar: true,
       execute: () => executeCommand((view) => toggleSuperscript(view.state, view.dispatch)),
       isActive: () => isMarkActive('superscript'),
     },
     {
       id: 'subscript',
       label: 'Subscript',
-      icon: 'subscript',
+      icon: 'subScript',
       group: 'formatting',
       priority: 60,
-      showInToolbar: false,
+      showInToolbar: true,
       execute: () => executeCommand((view) => toggleSubscript(view.state, view.dispatch)),
       isActive: () => isMarkActive('subscript'),
     },
+    {
+      id: 'uppercase',
+      label: 'Uppercase',
+      icon: 'upperCase',
+      group: 'formatting',
+      priority: 120,
+      toolbar: { separator: true },
+      showInToolbar: true,
+      execute: () => executeCommand((view) => setTextCase('uppercase')(view.state, view.dispatch)),
+      canExecute: () => !getView().state.selection.empty,
+    },
+    {
+      id: 'lowercase',
+      label: 'Lowercase',
+      icon: 'lowerCase',
+      group: 'formatting',
+      priority: 130,
+      showInToolbar: true,
+      execute: () => executeCommand((view) => setTextCase('lowercase')(view.state, view.dispatch)),
+      canExecute: () => !getView().state.selection.empty,
+    },
+    {
+      id: 'clear-formatting',
+      label: 'Clear Formatting',
+      icon: 'clearFormatting',
+      group: 'formatting',
+      priority: 140,
+      shortcut: 'Mod+\\',
+      keywords: ['remove formatting', 'plain'],
+      showInToolbar: true,
+      execute: () => {
+        if (!clearFormattingFn) return executeCommand((view) => clearFormatting()(view.state, view.dispatch));
+        clearFormattingFn();
+        return true;
+      },
+    },
 
     // =========================================================================
     // LIST PLUGINS
@@ -121,9 +213,11 @@ export function createBuiltinPlugins(
     {
       id: 'bullet-list',
       label: 'Bullet List',
-      icon: 'list-ul',
+      icon: 'bulletList',
       group: 'lists',
       priority: 10,
+      keywords: ['unordered', 'ul'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
       showInToolbar: true,
       execute: () => executeCommand((view) => toggleBulletList(view.state, view.dispatch)),
       isActive: () => {
@@ -134,9 +228,11 @@ export function createBuiltinPlugins(
     {
       id: 'ordered-list',
       label: 'Ordered List',
-      icon: 'list-ol',
+      icon: 'numberList',
       group: 'lists',
       priority: 20,
+      keywords: ['numbered', 'ol'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
       showInToolbar: true,
       execute: () => executeCommand((view) => toggleOrderedList(view.state, view.dispatch)),
       isActive: () => {
@@ -165,13 +261,149 @@ export function createBuiltinPlugins(
       execute: () => executeCommand((view) => decreaseIndent(view.state, view.dispatch)),
     },
 
+    // =========================================================================
+    // BLOCK PLUGINS
+    // =========================================================================
+    {
+      id: 'paragraph',
+      label: 'Text',
+      description: 'Plain paragraph',
+      icon: 'paragraph',
+      group: 'formatting',
+      priority: 60,
+      toolbar: { showInBlock: true },
+      showInToolbar: false,
+      execute: () => executeCommand((view) => setParagraph(view.state, view.dispatch)),
+      isActive: () => getView().state.selection.$from.parent.type.name === 'paragraph',
+    },
+    {
+      id: 'heading-1',
+      label: 'Heading 1',
+      icon: 'formatHeading',
+      group: 'formatting',
+      priority: 70,
+      keywords: ['h1', 'title'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
+      showInToolbar: false,
+      execute: () => executeCommand((view) => setHeading(1)(view.state, view.dispatch)),
+      isActive: () => getCurrentHeadingLevel(getView().state) === 1,
+    },
+    {
+      id: 'heading-2',
+      label: 'Heading 2',
+      icon: 'formatHeading',
+      group: 'formatting',
+      priority: 80,
+      keywords: ['h2', 'title'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
+      showInToolbar: false,
+      execute: () => executeCommand((view) => setHeading(2)(view.state, view.dispatch)),
+      isActive: () => getCurrentHeadingLevel(getView().state) === 2,
+    },
+    {
+      id: 'heading-3',
+      label: 'Heading 3',
+      icon: 'formatHeading',
+      group: 'formatting',
+      priority: 90,
+      keywords: ['h3', 'title'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
+      showInToolbar: false,
+      execute: () => executeCommand((view) => setHeading(3)(view.state, view.dispatch)),
+      isActive: () => getCurrentHeadingLevel(getView().state) === 3,
+    },
+    {
+      id: 'blockquote',
+      label: 'Quote',
+      icon: 'blockQuote',
+      group: 'formatting',
+      priority: 100,
+      keywords: ['blockquote', 'citation'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
+      showInToolbar: true,
+      execute: () => executeCommand((view) => toggleBlockquote(view.state, view.dispatch)),
+      isActive: () => isBlockquoteActive(getView().state),
+    },
+    {
+      id: 'code-block',
+      label: 'Code Block',
+      icon: 'codeBlock',
+      group: 'formatting',
+      priority: 110,
+      keywords: ['pre', 'snippet'],
+      toolbar: { showInSlashMenu: true, showInBlock: true },
+      showInToolbar: true,
+      execute: () => executeCommand((view) => toggleCodeBlock(view.state, view.dispatch)),
+      isActive: () => isCodeBlockActive(getView().state),
+    },
+    {
+      id: 'table',
+      label: 'Table',
+      description: 'Insert a 3 × 3 table',
+      icon: 'table',
+      group: 'insert',
+      priority: 10,
+      keywords: ['grid'],
+      showInToolbar: true,
+      execute: () => executeCommand((view) => insertTable(3, 3)(view.state, view.dispatch)),
+    },
+    {
+      id: 'image',
+      label: 'Image',
+      description: 'Insert an image from your computer',
+      icon: 'image',
+      group: 'insert',
+      priority: 20,
+      keywords: ['picture', 'photo'],
+      showInToolbar: true,
+      execute: async () => {
+        const file = await pickImageFile();
+        if (!file) return false;
+        return executeCommand((view) => uploadImageFiles(view, [file]));
+      },
+    },
+    {
+      id: 'link',
+      label: 'Link',
+      description: 'Add or edit a link',
+      icon: 'link',
+      group: 'insert',
+      priority: 25,
+      shortcut: 'Mod+K',
+      keywords: ['url', 'hyperlink'],
+      toolbar: { showInBubble: true },
+      showInToolbar: true,
+      execute: () => executeCommand((view) => openLinkEditor(view.state, view.dispatch)),
+      isActive: () => isLinkActive(getView().state),
+    },
+    {
+      id: 'horizontal-rule',
+      label: 'Divider',
+      icon: 'horizontalRule',
+      group: 'insert',
+      priority: 30,
+      keywords: ['hr', 'horizontal rule', 'separator'],
+      showInToolbar: false,
+      execute: () => executeCommand((view) => insertHorizontalRule(view.state, view.dispatch)),
+    },
+    {
+      id: 'page-break',
+      label: 'Page Break',
+      icon: 'pageBreak',
+      group: 'insert',
+      priority: 40,
+      shortcut: 'Mod+Enter',
+      showInToolbar: true,
+      execute: () => executeCommand((view) => insertPageBreak(view.state, view.dispatch)),
+    },
+
     // =========================================================================
     // ALIGNMENT PLUGINS
     // =========================================================================
     {
       id: 'align-left',
       label: 'Align Left',
-      icon: 'align-left',
+      icon: 'textAlignLeft',
       group: 'alignment',
       priority: 10,
       showInToolbar: true,
@@ -184,7 +416,7 @@ export function createBuiltinPlugins(
     {
       id: 'align-center',
       label: 'Align Center',
-      icon: 'align-center',
+      icon: 'textAlignCenter',
       group: 'alignment',
       priority: 20,
       showInToolbar: true,
@@ -197,7 +429,7 @@ export function createBuiltinPlugins(
     {
       id: 'align-right',
       label: 'Align Right',
-      icon: 'align-right',
+      icon: 'textAlignRight',
       group: 'alignment',
       priority: 30,
       showInToolbar: true,
@@ -210,7 +442,7 @@ export function createBuiltinPlugins(
     {
       id: 'align-justify',
       label: 'Justify',
-      icon: 'align-justify',
+      icon: 'textAlignJustify',
       group: 'alignment',
       priority: 40,
       showInToolbar: true,
@@ -220,6 +452,15 @@ export function createBuiltinPlugins(
         return getActiveAlignment(view.state) === 'justify';
       },
     },
+    {
+      id: 'line-spacing',
+      label: 'Line Spacing',
+      icon: 'textLineSpacing',
+      group: 'alignment',
+      priority: 50,
+      showInToolbar: true,
+      execute: () => true, // Handled by UI component
+    },
 
     // =========================================================================
     // HISTORY PLUGINS
@@ -268,10 +509,99 @@ export function createBuiltinPlugins(
       showInToolbar: true,
       execute: () => true, // Handled by UI component
     },
+    {
+      id: 'text-color',
+      label: 'Text Color',
+      icon: 'textColor',
+      group: 'font',
+      priority: 30,
+      showInToolbar: true,
+      execute: () => true, // Handled by UI component
+    },
+    {
+      id: 'highlight',
+      label: 'Highlight Color',
+      icon: 'highlight',
+      group: 'font',
+      priority: 40,
+      showInToolbar: true,
+      execute: () => true, // Handled by UI component
+    },
+
+    // =========================================================================
+    // REVIEW PLUGINS
+    // =========================================================================
+    {
+      id: 'track-changes',
+      label: 'Track Changes',
+      description: 'Record edits as suggestions',
+      icon: 'trackChanges',
+      group: 'review',
+      priority: 10,
+      showInToolbar: false,
+      execute: () => executeCommand((view) => {
+        view.dispatch(configureTrackChanges(view.state.tr, { enabled: !isTrackingChanges(view.state) }));
+        return true;
+      }),
+      isActive: () => isTrackingChanges(getView().state),
+    },
+    {
+      id: 'accept-change',
+      label: 'Accept Change',
+      icon: 'acceptChange',
+      group: 'review',
+      priority: 20,
+      showInToolbar: false,
+      execute: () => executeCommand((view) => acceptChangesAtSelection(view.state, view.dispatch)),
+      canExecute: () => getTrackedChangesAtSelection(getView().state).length > 0,
+    },
+    {
+      id: 'reject-change',
+      label: 'Reject Change',
+      icon: 'rejectChange',
+      group: 'review',
+      priority: 30,
+      showInToolbar: false,
+      execute: () => executeCommand((view) => rejectChangesAtSelection(view.state, view.dispatch)),
+      canExecute: () => getTrackedChangesAtSelection(getView().state).length > 0,
+    },
+    {
+      id: 'accept-all-changes',
+      label: 'Accept All Changes',
+      icon: 'acceptAllChanges',
+      group: 'review',
+      priority: 40,
+      showInToolbar: false,
+      execute: () => executeCommand((view) => acceptAllChanges(view.state, view.dispatch)),
+      canExecute: () => getTrackedChanges(getView().state.doc).length > 0,
+    },
+    {
+      id: 'reject-all-changes',
+      label: 'Reject All Changes',
+      icon: 'rejectAllChanges',
+      group: 'review',
+      priority: 50,
+      showInToolbar: false,
+      execute: () => executeCommand((view) => rejectAllChanges(view.state, view.dispatch)),
+      canExecute: () => getTrackedChanges(getView().state.doc).length > 0,
+    },
 
     // =========================================================================
-    // IMPORT PLUGINS
+    // IMPORT / EXPORT PLUGINS
     // =========================================================================
+    {
+      id: 'print',
+      label: 'Print',
+      icon: 'print',
+      group: 'tools',
+      priority: 5,
+      showInToolbar: true,
+      execute: () => {
+        if (!printFn) return printDocument();
+        printFn();
+        return true;
+      },
+    },
     {
       id: 'import-word',
       label: 'Import from Word',
@@ -279,22 +609,26 @@ export function createBuiltinPlugins(
       icon: 'importFromWord',
       group: 'tools',
       priority: 10,
-      showInToolbar: false,
+      showInToolbar: true,
       execute: async () => {
         try {
           // Dynamically import to avoid loading when not needed
           const { openWordFileDialog } = await import('../serializers/word-importer');
+          const { parseFromHTML } = await import('../serializers/html-serializer');
           const result = await openWordFileDialog();
-          
+
           if (result) {
-            // Content will be set via the API by the caller
-            // This plugin just handles the file picker
-            // Store result in a custom event for the API to handle
+            const view = getView();
+            const doc = parseFromHTML(result.html, view.state.schema);
+            view.dispatch(view.state.tr.replaceWith(0, view.state.doc.content.size, doc.content));
+
+            // Let listeners see the raw import result (messages, etc.)
             const event = new CustomEvent('erix-word-import', {
               detail: { result },
               bubbles: true,
+              composed: true,
             });
-            document.dispatchEvent(event);
+            view.dom.dispatchEvent(event);
             return true;
           }
           return false;
@@ -304,6 +638,31 @@ export function createBuiltinPlugins(
         }
       },
     },
+    {
+      id: 'export-word',
+      label: 'Export to Word',
+      description: 'Export content as a Microsoft Word document (.docx)',
+      icon: 'exportToWord',
+      group: 'tools',
+      priority: 20,
+      showInToolbar: true,
+      execute: async () => {
+        try {
+          if (exportWordFn) {
+            await exportWordFn();
+            return true;
+          }
+          // Dynamically import to avoid loading when not needed
+          const { exportWordDocument, downloadWordFile } = await import('../serializers/word-exporter');
+          const blob = await exportWordDocument(getView().state.doc);
+          downloadWordFile(blob);
+          return true;
+        } catch (error) {
+          console.error('[ExportWord] Failed to export Word document:', error);
+          return false;
+        }
+      },
+    },
   ];
 }
 
@@ -334,17 +693,41 @@ export const ALL_BUILTIN_PLUGINS = [
   'strikethrough',
   'superscript',
   'subscript',
+  'uppercase',
+  'lowercase',
+  'clear-formatting',
   'bullet-list',
   'ordered-list',
   'indent',
   'outdent',
+  'paragraph',
+  'heading-1',
+  'heading-2',
+  'heading-3',
+  'blockquote',
+  'code-block',
+  'table',
+  'image',
+  'link',
+  'horizontal-rule',
+  'page-break',
   'align-left',
   'align-center',
   'align-right',
   'align-justify',
+  'line-spacing',
   'undo',
   'redo',
   'font-family',
   'font-size',
+  'text-color',
+  'highlight',
+  'track-changes',
+  'accept-change',
+  'reject-change',
+  'accept-all-changes',
+  'reject-all-changes',
+  'print',
   'import-word',
+  'export-word',
 ];
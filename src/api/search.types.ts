@@ -0,0 +1,41 @@
+/**
+ * Search Type Definitions
+ * Public types for find and replace.
+ * DO NOT expose any ProseMirror types here.
+ */
+
+/**
+ * Options controlling how a search query is matched.
+ */
+export interface SearchOptions {
+  /** Match letter case exactly (default: false) */
+  caseSensitive?: boolean;
+  /** Only match whole words (default: false) */
+  wholeWord?: boolean;
+  /** Treat the query as a regular expression (default: false) */
+  regex?: boolean;
+}
+
+/**
+ * A single search match.
+ */
+export interface SearchMatch {
+  /** Start position */
+  from: number;
+  /** End position */
+  to: number;
+  /** Matched text */
+  text: string;
+}
+
+/**
+ * Current search results.
+ */
+export interface SearchResult {
+  /** All matches in document order */
+  matches: SearchMatch[];
+  /** Index of the current match, or -1 when there is none */
+  current: number;
+  /** Error message when the query is not a valid regular expression */
+  error: string | null;
+}
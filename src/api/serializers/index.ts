@@ -5,6 +5,7 @@
 
 export { serializeToHTML, parseFromHTML, serializeToText } from './html-serializer';
 export { serializeToJSON, parseFromJSON } from './json-serializer';
+export { serializeToMarkdown, parseFromMarkdown, createMarkdownSerializer } from './markdown-serializer';
 
 // Word document importer
 export {
@@ -19,3 +20,11 @@ export type {
   WordImportResult,
   WordDocumentMetadata,
 } from './word-importer';
+
+// Word document exporter
+export { exportWordDocument, downloadWordFile } from './word-exporter';
+
+export type { WordExportOptions } from './word-exporter';
+
+// Print
+export { printHTML, createPrintDocument, getPageLayout, PAGE_SIZES } from './print';
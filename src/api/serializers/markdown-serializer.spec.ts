@@ -0,0 +1,58 @@
+import { editorSchema } from '../../core/schema/index';
+import { parseFromHTML } from './html-serializer';
+import { parseFromMarkdown, serializeToMarkdown } from './markdown-serializer';
+
+const roundTrip = (markdown: string) => serializeToMarkdown(parseFromMarkdown(markdown, editorSchema));
+
+describe('serializeToMarkdown', () => {
+  it('round-trips standard Markdown unchanged', () => {
+    const markdown = [
+      '# Title',
+      '',
+      'Some **bold**, *italic*, ~~struck~~ and `code` with a [link](https://example.com "Example").',
+      '',
+      '> Quoted',
+      '',
+      '- One',
+      '- Two',
+      '  - Nested',
+      '',
+      '3. Three',
+      '4. Four',
+      '',
+      '```js',
+      'const a = 1;',
+      '```',
+      '',
+      '---',
+      '',
+      '![Alt](image.png)',
+    ].join('\n');
+
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('round-trips tables as GFM pipe tables', () => {
+    const markdown = ['| Name | Count |', '| :--- | ---: |', '| a \\| b | 1 |', '| c | 2 |'].join('\n');
+
+    expect(roundTrip(markdown)).toBe(markdown);
+  });
+
+  it('escapes Markdown characters in text so they read back as text', () => {
+    const doc = parseFromHTML('<p>1. not a list, *not em* and &lt;b&gt;</p>', editorSchema);
+
+    expect(parseFromMarkdown(serializeToMarkdown(doc), editorSchema).eq(doc)).toBe(true);
+  });
+
+  it('keeps formatting without Markdown syntax as HTML that reads back', () => {
+    const doc = parseFromHTML('<p>A <u>line</u></p><div data-type="page-break"></div><p>B</p>', editorSchema);
+
+    expect(parseFromMarkdown(serializeToMarkdown(doc), editorSchema).eq(doc)).toBe(true);
+  });
+
+  it('drops formatting without Markdown syntax in strip mode', () => {
+    const doc = parseFromHTML('<p>A <u>line</u></p><div data-type="page-break"></div><p>B</p>', editorSchema);
+
+    expect(serializeToMarkdown(doc, { unsupportedMarks: 'strip', unsupportedNodes: 'strip' })).toBe('A line\n\nB');
+  });
+});
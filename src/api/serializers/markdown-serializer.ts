@@ -0,0 +1,314 @@
+/**
+ * Markdown Serializer
+ * Converts between ProseMirror documents and Markdown strings.
+ *
+ * Export covers the whole editor schema: headings, bullet/ordered lists,
+ * blockquotes, code blocks, horizontal rules, images, links,
+ * strong/em/strikethrough/code and tables (as GFM pipe tables).
+ *
+ * Content without a Markdown equivalent (underline, font family/size,
+ * colors, super/subscript, page breaks, merged table cells, ...) is handled
+ * according to {@link MarkdownOptions}:
+ * - `'html'` (default): emitted as inline/block HTML, which the parser reads back.
+ * - `'strip'`: the formatting is dropped and only the text is kept.
+ *
+ * Import goes through markdown-it (CommonMark + GFM tables/strikethrough)
+ * and then through the regular HTML parser, so the schema's parse rules apply.
+ */
+
+import MarkdownIt from 'markdown-it';
+import { MarkdownSerializer, MarkdownSerializerState } from 'prosemirror-markdown';
+import { DOMSerializer, Schema, Mark, Node as ProseMirrorNode } from 'prosemirror-model';
+import { parseFromHTML } from './html-serializer';
+import type { MarkdownOptions, MarkdownFallback } from '../editor-api.types';
+
+type NodeSerializer = (state: MarkdownSerializerState, node: ProseMirrorNode, parent: ProseMirrorNode, index: number) => void;
+
+type MarkSerializer = {
+  open: string | ((state: MarkdownSerializerState, mark: Mark, parent: ProseMirrorNode, index: number) => string);
+  close: string | ((state: MarkdownSerializerState, mark: Mark, parent: ProseMirrorNode, index: number) => string);
+  mixable?: boolean;
+  expelEnclosingWhitespace?: boolean;
+  escape?: boolean;
+};
+
+// =============================================================================
+// HTML FALLBACK HELPERS
+// =============================================================================
+
+const CONTENT_MARKER = '\u0000';
+
+/**
+ * Render a node to an HTML string using the schema's toDOM rules.
+ */
+function renderNodeHTML(node: ProseMirrorNode, schema: Schema): string {
+  const serializer = DOMSerializer.fromSchema(schema);
+  const container = document.createElement('div');
+  container.appendChild(serializer.serializeNode(node));
+  return container.innerHTML;
+}
+
+/**
+ * Get the opening and closing HTML tags produced by a mark's toDOM rule.
+ */
+function renderMarkTags(mark: Mark): [string, string] {
+  const toDOM = mark.type.spec.toDOM;
+  if (!toDOM) return ['', ''];
+
+  const { dom, contentDOM } = DOMSerializer.renderSpec(document, toDOM(mark, true));
+  (contentDOM || dom).appendChild(document.createTextNode(CONTENT_MARKER));
+
+  const container = document.createElement('div');
+  container.appendChild(dom);
+  const [open, close = ''] = container.innerHTML.split(CONTENT_MARKER);
+  return [open, close];
+}
+
+// =============================================================================
+// TABLE HELPERS
+// =============================================================================
+
+function hasMergedCells(table: ProseMirrorNode): boolean {
+  let merged = false;
+  table.descendants(node => {
+    if (node.attrs.colspan > 1 || node.attrs.rowspan > 1) merged = true;
+    return !merged && node.type.spec.tableRole !== 'cell' && node.type.spec.tableRole !== 'header_cell';
+  });
+  return merged;
+}
+
+function getColumnAlignment(cell: ProseMirrorNode | undefined): string {
+  switch (cell?.attrs.textAlign) {
+    case 'center':
+      return ':---:';
+    case 'right':
+      return '---:';
+    case 'left':
+      return ':---';
+    default:
+      return '---';
+  }
+}
+
+// =============================================================================
+// SERIALIZER FACTORY
+// =============================================================================
+
+/**
+ * Create a Markdown serializer for the given schema.
+ * Node and mark types the serializer does not know about fall back
+ * to HTML or plain text depending on the options.
+ * @param schema - Editor schema
+ * @param options - Markdown options
+ */
+export function createMarkdownSerializer(schema: Schema, options: MarkdownOptions = {}): MarkdownSerializer {
+  const markFallback: MarkdownFallback = options.unsupportedMarks ?? 'html';
+  const nodeFallback: MarkdownFallback = options.unsupportedNodes ?? 'html';
+
+  const writeHTMLBlock = (state: MarkdownSerializerState, node: ProseMirrorNode) => {
+    state.text(renderNodeHTML(node, schema), false);
+    state.closeBlock(node);
+  };
+
+  const renderCell = (cell: ProseMirrorNode): string => {
+    return serializer
+      .serialize(cell, { tightLists: true })
+      .trim()
+      .replace(/\\\n/g, '<br>')
+      .split(/\n{2,}/)
+      .map(block => block.replace(/\n/g, ' '))
+      .join('<br>')
+      .replace(/\|/g, '\\|');
+  };
+
+  const nodes: Record<string, NodeSerializer> = {
+    blockquote(state, node) {
+      state.wrapBlock('> ', null, node, () => state.renderContent(node));
+    },
+    code_block(state, node) {
+      // Make sure the fence is longer than any backtick run inside the code
+      const backticks = node.textContent.match(/`{3,}/gm);
+      const fence = backticks ? backticks.sort().slice(-1)[0] + '`' : '```';
+      state.write(fence + (node.attrs.language || node.attrs.params || '') + '\n');
+      state.text(node.textContent, false);
+      state.ensureNewLine();
+      state.write(fence);
+      state.closeBlock(node);
+    },
+    heading(state, node) {
+      state.write(state.repeat('#', node.attrs.level) + ' ');
+      state.renderInline(node, false);
+      state.closeBlock(node);
+    },
+    horizontal_rule(state, node) {
+      state.write('---');
+      state.closeBlock(node);
+    },
+    bullet_list(state, node) {
+      state.renderList(node, '  ', () => '- ');
+    },
+    ordered_list(state, node) {
+      const start = node.attrs.order ?? 1;
+      const maxWidth = String(start + node.childCount - 1).length;
+      const space = state.repeat(' ', maxWidth + 2);
+      state.renderList(node, space, i => {
+        const num = String(start + i);
+        return state.repeat(' ', maxWidth - num.length) + num + '. ';
+      });
+    },
+    list_item(state, node) {
+      state.renderContent(node);
+    },
+    paragraph(state, node) {
+      state.renderInline(node);
+      state.closeBlock(node);
+    },
+    image(state, node) {
+      if (nodeFallback === 'html' && (node.attrs.width || node.attrs.height)) {
+        state.write(renderNodeHTML(node, schema));
+        return;
+      }
+      state.write(
+        '![' + state.esc(node.attrs.alt || '') + '](' + node.attrs.src.replace(/[()]/g, '\\$&') +
+          (node.attrs.title ? ' "' + node.attrs.title.replace(/"/g, '\\"') + '"' : '') + ')',
+      );
+    },
+    hard_break(state, node, parent, index) {
+      for (let i = index + 1; i < parent.childCount; i++) {
+        if (parent.child(i).type !== node.type) {
+          state.write('\\\n');
+          return;
+        }
+      }
+    },
+    text(state, node) {
+      state.text(node.text || '', !(state as MarkdownSerializerState & { inAutolink?: boolean }).inAutolink);
+    },
+    table(state, node) {
+      if (hasMergedCells(node) && nodeFallback === 'html') {
+        writeHTMLBlock(state, node);
+        return;
+      }
+
+      const rows: string[][] = [];
+      node.forEach(row => {
+        const cells: string[] = [];
+        row.forEach(cell => {
+          cells.push(renderCell(cell));
+          // GFM has no merged cells: pad so columns stay aligned
+          for (let i = 1; i < (cell.attrs.colspan || 1); i++) cells.push('');
+        });
+        rows.push(cells);
+      });
+
+      const columnCount = Math.max(...rows.map(r => r.length));
+      const formatRow = (cells: string[]) => {
+        const padded = [...cells, ...Array(columnCount - cells.length).fill('')];
+        return '| ' + padded.join(' | ') + ' |';
+      };
+
+      // The first row is always the header row: GFM tables require one
+      const header = node.firstChild!;
+      const alignments = Array.from({ length: columnCount }, (_, i) => getColumnAlignment(header.maybeChild(i) ?? undefined));
+      const lines = [formatRow(rows[0]), '| ' + alignments.join(' | ') + ' |', ...rows.slice(1).map(formatRow)];
+
+      state.text(lines.join('\n'), false);
+      state.closeBlock(node);
+    },
+  };
+
+  const marks: Record<string, MarkSerializer> = {
+    em: { open: '*', close: '*', mixable: true, expelEnclosingWhitespace: true },
+    strong: { open: '**', close: '**', mixable: true, expelEnclosingWhitespace: true },
+    strikethrough: { open: '~~', close: '~~', mixable: true, expelEnclosingWhitespace: true },
+    link: {
+      open: () => '[',
+      close: (_state, mark) =>
+        '](' + mark.attrs.href.replace(/[()"]/g, '\\$&') + (mark.attrs.title ? ` "${mark.attrs.title.replace(/"/g, '\\"')}"` : '') + ')',
+      mixable: true,
+    },
+    code: {
+      open: (_state, _mark, parent, index) => backticksFor(parent.child(index), -1),
+      close: (_state, _mark, parent, index) => backticksFor(parent.child(index - 1), 1),
+      escape: false,
+    },
+    // Review annotations are not part of the exported text
+    comment: { open: '', close: '', mixable: true },
+  };
+
+  // Fallbacks for everything else in the schema
+  for (const name of Object.keys(schema.nodes)) {
+    if (nodes[name] || name === 'doc' || schema.nodes[name].spec.tableRole) continue;
+
+    nodes[name] = (state, node) => {
+      if (nodeFallback === 'html') {
+        if (node.isInline) {
+          state.write(renderNodeHTML(node, schema));
+        } else {
+          writeHTMLBlock(state, node);
+        }
+      } else if (node.isTextblock) {
+        state.renderInline(node);
+        state.closeBlock(node);
+      } else if (node.isBlock && node.childCount > 0) {
+        state.renderContent(node);
+      } else if (node.isBlock) {
+        state.closeBlock(node);
+      }
+    };
+  }
+
+  for (const name of Object.keys(schema.marks)) {
+    if (marks[name]) continue;
+
+    marks[name] =
+      markFallback === 'html'
+        ? { open: (_state, mark) => renderMarkTags(mark)[0], close: (_state, mark) => renderMarkTags(mark)[1] }
+        : { open: '', close: '' };
+  }
+
+  const serializer = new MarkdownSerializer(nodes, marks, {
+    // Keep literal "<" from being read back as HTML
+    escapeExtraCharacters: /</g,
+  });
+
+  return serializer;
+}
+
+function backticksFor(node: ProseMirrorNode, side: number): string {
+  const ticks = /`+/g;
+  let match: RegExpExecArray | null;
+  let len = 0;
+  if (node.isText) {
+    while ((match = ticks.exec(node.text!))) len = Math.max(len, match[0].length);
+  }
+  let result = len > 0 && side > 0 ? ' `' : '`';
+  for (let i = 0; i < len; i++) result += '`';
+  if (len > 0 && side < 0) result += ' ';
+  return result;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Serialize a ProseMirror document to a Markdown string.
+ * @param doc - ProseMirror document node
+ * @param options - Markdown options
+ * @returns Markdown string
+ */
+export function serializeToMarkdown(doc: ProseMirrorNode, options: MarkdownOptions = {}): string {
+  return createMarkdownSerializer(doc.type.schema, options).serialize(doc, { tightLists: true });
+}
+
+/**
+ * Parse a Markdown string to a ProseMirror document.
+ * @param markdown - Markdown string
+ * @param schema - Editor schema
+ * @returns ProseMirror document node
+ */
+export function parseFromMarkdown(markdown: string, schema: Schema): ProseMirrorNode {
+  const md = new MarkdownIt('default', { html: true, linkify: false, breaks: false });
+  return parseFromHTML(md.render(markdown), schema);
+}
@@ -0,0 +1,55 @@
+import { createPrintDocument, getPageLayout } from './print';
+
+const pageRule = (html: string) => /@page \{([\s\S]*?)\n  \}/.exec(html)![1];
+
+describe('getPageLayout', () => {
+  it('gives an A4 portrait sheet with 2.54cm margins by default', () => {
+    const layout = getPageLayout();
+
+    expect(layout.width).toBeCloseTo(793.7, 1);
+    expect(layout.height).toBeCloseTo(1122.5, 1);
+    expect(layout.margins).toEqual({ top: 96, right: 96, bottom: 96, left: 96 });
+  });
+
+  it('turns the sheet for landscape and converts each margin', () => {
+    const layout = getPageLayout({ pageSize: 'Letter', orientation: 'landscape', margins: { top: '0.5in', left: '72pt', right: '20px' } });
+
+    expect(layout.width).toBe(1056);
+    expect(layout.height).toBe(816);
+    expect(layout.margins).toEqual({ top: 48, right: 20, bottom: 96, left: 96 });
+  });
+
+  it('falls back to the default margin for relative lengths', () => {
+    expect(getPageLayout({ margins: '2em' }).margins).toEqual({ top: 96, right: 96, bottom: 96, left: 96 });
+    expect(getPageLayout({ margins: '10mm' }).margins.top).toBeCloseTo(37.8, 1);
+  });
+});
+
+describe('createPrintDocument', () => {
+  it('sets the page size, margins and font', () => {
+    const html = createPrintDocument('<p>Body</p>', { pageSize: 'Letter', orientation: 'landscape', margins: '1cm', fontFamily: 'Georgia', fontSize: '11pt' });
+
+    expect(pageRule(html)).toContain('size: 11in 8.5in;');
+    expect(pageRule(html)).toContain('margin: 1cm 1cm 1cm 1cm;');
+    expect(html).toContain('body { font-family: Georgia; font-size: 11pt; }');
+    expect(html).toContain('<body><p>Body</p></body>');
+  });
+
+  it('puts headers and footers in the page margin boxes with page counters', () => {
+    const html = createPrintDocument('', { title: 'Report', header: { left: '{title}', right: '{date}' }, footer: 'Page {page} of {pages}' });
+    const rule = pageRule(html);
+
+    expect(rule).toContain('@top-left { content: "Report";');
+    expect(rule).toContain(`@top-right { content: "${new Date().toLocaleDateString()}";`);
+    expect(rule).toContain('@bottom-center { content: "Page " counter(page) " of " counter(pages);');
+    expect(rule).not.toContain('@top-center');
+  });
+
+  it('escapes the title in the markup and in the styles', () => {
+    const html = createPrintDocument('', { title: 'A "<b>" & </style>', header: '{title}' });
+
+    expect(html).toContain('<title>A &quot;&lt;b&gt;&quot; &amp; &lt;/style&gt;</title>');
+    expect(pageRule(html)).toContain('content: "A \\"\\3C b>\\" & \\3C /style>"');
+    expect(html.match(/<\/style>/g)).toHaveLength(1);
+  });
+});
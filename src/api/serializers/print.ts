@@ -0,0 +1,265 @@
+/**
+ * Print
+ * Prints the document from a hidden frame holding only the document, laid out
+ * on pages of the chosen size with repeated headers and footers.
+ *
+ * @example
+ * ```typescript
+ * await printHTML(editor.getContent('html'), { pageSize: 'Letter', footer: 'Page {page} of {pages}' });
+ * ```
+ */
+
+import type { PageLayout } from '../../core';
+import type { PageSize, PrintHeaderFooter, PrintOptions } from '../plugin-registry.types';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/**
+ * Portrait dimensions of each paper size.
+ */
+export const PAGE_SIZES: Record<PageSize, { width: string; height: string }> = {
+  A4: { width: '210mm', height: '297mm' },
+  Letter: { width: '8.5in', height: '11in' },
+};
+
+const DEFAULT_MARGIN = '2.54cm';
+
+/**
+ * Time after which the print frame is removed if the browser never reports that
+ * the print dialog closed, in milliseconds
+ */
+const PRINT_FRAME_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * CSS pixels per unit of absolute length
+ */
+const PIXELS_PER_UNIT: Record<string, number> = { px: 1, in: 96, cm: 96 / 2.54, mm: 96 / 25.4, pt: 96 / 72, pc: 16 };
+
+/**
+ * Styles of the document content on paper. The editor's own styles are
+ * scoped to its shadow root, so the frame gets a stylesheet of its own.
+ */
+const CONTENT_STYLES = `
+  body { margin: 0; color: #000; line-height: 1.5; overflow-wrap: break-word; }
+  p { margin: 0 0 0.5em; }
+  h1, h2, h3, h4, h5, h6 { margin: 0.8em 0 0.4em; line-height: 1.25; break-after: avoid; }
+  ul, ol { margin: 0 0 0.5em; padding-left: 1.5em; }
+  blockquote { margin: 0 0 0.5em; padding-left: 1em; border-left: 3px solid #ccc; color: #444; }
+  pre { margin: 0 0 0.5em; padding: 8px 12px; background: #f5f5f5; border-radius: 4px; white-space: pre-wrap; }
+  code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+  hr { border: none; border-top: 1px solid #ccc; margin: 1em 0; }
+  img { max-width: 100%; height: auto; break-inside: avoid; }
+  a { color: inherit; }
+  table { max-width: 100%; margin: 0 0 0.5em; }
+  tr { break-inside: avoid; }
+  td, th { padding: 4px 6px; vertical-align: top; border: 1px solid #ccc; }
+  th { font-weight: bold; text-align: left; }
+  td > p:last-child, th > p:last-child { margin: 0; }
+  .page-break { break-after: page; height: 0; margin: 0; border: none; }
+  .page-break > * { display: none; }
+`;
+
+// =============================================================================
+// PAGE LAYOUT
+// =============================================================================
+
+/**
+ * Quote text for the CSS `content` property. `<` is escaped so the text
+ * cannot close the style element.
+ */
+function cssString(text: string): string {
+  return `"${text.replace(/[\\"]/g, '\\$&').replace(/\n/g, '\\A ').replace(/</g, '\\3C ')}"`;
+}
+
+/**
+ * Turn a header or footer template into a CSS `content` value with page counters.
+ */
+function templateToContent(template: string, title: string, date: string): string {
+  const parts = template.split(/(\{page\}|\{pages\})/).filter(Boolean);
+  return parts
+    .map(part => {
+      if (part === '{page}') return 'counter(page)';
+      if (part === '{pages}') return 'counter(pages)';
+      return cssString(part.replace(/\{title\}/g, title).replace(/\{date\}/g, date));
+    })
+    .join(' ');
+}
+
+/**
+ * Page margin boxes for a header or footer.
+ * @param position - 'top' for the header, 'bottom' for the footer
+ */
+function marginBoxes(position: 'top' | 'bottom', template: PrintHeaderFooter | undefined, title: string, date: string): string {
+  if (!template) return '';
+  const slots = typeof template === 'string' ? { center: template } : template;
+
+  return (['left', 'center', 'right'] as const)
+    .filter(slot => slots[slot])
+    .map(slot => `@${position}-${slot} { content: ${templateToContent(slots[slot]!, title, date)}; font-size: 9pt; color: #555; }`)
+    .join('\n    ');
+}
+
+/**
+ * Get the oriented page size and the margins of the options, as CSS lengths.
+ */
+function resolvePage(options: PrintOptions) {
+  const size = PAGE_SIZES[options.pageSize ?? 'A4'];
+  const [width, height] = options.orientation === 'landscape' ? [size.height, size.width] : [size.width, size.height];
+  const margins = typeof options.margins === 'string' ? { top: options.margins, right: options.margins, bottom: options.margins, left: options.margins } : options.margins ?? {};
+
+  return {
+    width,
+    height,
+    margins: {
+      top: margins.top ?? DEFAULT_MARGIN,
+      right: margins.right ?? DEFAULT_MARGIN,
+      bottom: margins.bottom ?? DEFAULT_MARGIN,
+      left: margins.left ?? DEFAULT_MARGIN,
+    },
+  };
+}
+
+/**
+ * Convert an absolute CSS length to pixels.
+ * @returns The pixels, or `fallback` for relative units and invalid lengths
+ */
+function toPixels(length: string, fallback: number): number {
+  const match = /^(-?\d*\.?\d+)\s*([a-z]*)$/i.exec(length.trim());
+  const scale = match && PIXELS_PER_UNIT[match[2].toLowerCase() || 'px'];
+  return scale ? parseFloat(match![1]) * scale : fallback;
+}
+
+/**
+ * Get the sheet size and margins in pixels, for showing pages in the editor.
+ * @param options - Page layout; lengths in relative units fall back to the defaults
+ */
+export function getPageLayout(options: PrintOptions = {}): PageLayout {
+  const { width, height, margins } = resolvePage(options);
+  const defaultMargin = toPixels(DEFAULT_MARGIN, 0);
+
+  return {
+    width: toPixels(width, 0),
+    height: toPixels(height, 0),
+    margins: {
+      top: toPixels(margins.top, defaultMargin),
+      right: toPixels(margins.right, defaultMargin),
+      bottom: toPixels(margins.bottom, defaultMargin),
+      left: toPixels(margins.left, defaultMargin),
+    },
+  };
+}
+
+/**
+ * Build the `@page` rule for the options.
+ */
+function pageRule(options: PrintOptions, title: string): string {
+  const { width, height, margins } = resolvePage(options);
+  const date = new Date().toLocaleDateString();
+
+  return `
+  @page {
+    size: ${width} ${height};
+    margin: ${margins.top} ${margins.right} ${margins.bottom} ${margins.left};
+    ${marginBoxes('top', options.header, title, date)}
+    ${marginBoxes('bottom', options.footer, title, date)}
+  }`;
+}
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Build the HTML page printed for the document.
+ * @param html - Document HTML
+ * @param options - Page layout, plus the font of unformatted text
+ */
+export function createPrintDocument(html: string, options: PrintOptions & { fontFamily?: string; fontSize?: string } = {}): string {
+  const title = options.title ?? document.title;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>${pageRule(options, title)}
+  body { font-family: ${options.fontFamily || 'Arial, sans-serif'}; font-size: ${options.fontSize || '12pt'}; }
+${CONTENT_STYLES}</style>
+</head>
+<body>${html}</body>
+</html>`;
+}
+
+// =============================================================================
+// PRINTING
+// =============================================================================
+
+/**
+ * Resolve once every image in a document has loaded or failed.
+ */
+function imagesLoaded(doc: Document): Promise<void> {
+  const pending = Array.from(doc.images).filter(image => !image.complete);
+  return Promise.all(
+    pending.map(image => new Promise<void>(resolve => {
+      image.addEventListener('load', () => resolve(), { once: true });
+      image.addEventListener('error', () => resolve(), { once: true });
+    })),
+  ).then(() => undefined);
+}
+
+/**
+ * Print HTML from a hidden frame, so nothing else on the page is printed.
+ * @param html - Document HTML
+ * @param options - Page layout, plus the font of unformatted text
+ * @returns Promise resolving when the print dialog closes
+ */
+export async function printHTML(html: string, options: PrintOptions & { fontFamily?: string; fontSize?: string } = {}): Promise<void> {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.tabIndex = -1;
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0; visibility: hidden;';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  const frameDocument = frame.contentDocument;
+  if (!frameWindow || !frameDocument) {
+    frame.remove();
+    throw new Error('Could not create the print frame');
+  }
+
+  frameDocument.open();
+  frameDocument.write(createPrintDocument(html, options));
+  frameDocument.close();
+  await imagesLoaded(frameDocument);
+
+  await new Promise<void>(resolve => {
+    const printMedia = frameWindow.matchMedia('print');
+    let fallback = 0;
+
+    const done = () => {
+      if (!frame.isConnected) return;
+      frameWindow.removeEventListener('afterprint', done);
+      printMedia.removeEventListener('change', handleMediaChange);
+      window.removeEventListener('focus', done);
+      clearTimeout(fallback);
+      frame.remove();
+      resolve();
+    };
+    const handleMediaChange = (event: MediaQueryListEvent) => {
+      if (!event.matches) done();
+    };
+
+    // Some browsers fire neither afterprint nor a print media change for frames;
+    // the page gets focus back when the dialog closes
+    frameWindow.addEventListener('afterprint', done);
+    printMedia.addEventListener('change', handleMediaChange);
+    frameWindow.focus();
+    frameWindow.print();
+    // print() blocks until the dialog closes in some browsers, which may have printed already
+    if (!frame.isConnected) return;
+    window.addEventListener('focus', done, { once: true });
+    fallback = window.setTimeout(done, PRINT_FRAME_TIMEOUT);
+  });
+}
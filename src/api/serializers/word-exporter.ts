@@ -0,0 +1,852 @@
+/**
+ * Word Document Exporter
+ * Converts the editor document to a .docx file.
+ *
+ * @example
+ * ```typescript
+ * const blob = await exportWordDocument(view.state.doc);
+ * downloadWordFile(blob, 'document.docx');
+ * ```
+ */
+
+import JSZip from 'jszip';
+import { Node as ProseMirrorNode, Mark } from 'prosemirror-model';
+import { TableMap } from 'prosemirror-tables';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WordExportOptions {
+  /** Document title stored in the file properties */
+  title?: string;
+  /** Document author stored in the file properties */
+  author?: string;
+  /** Default font family used for unformatted text */
+  defaultFontFamily?: string;
+  /** Default font size used for unformatted text (e.g. '12pt') */
+  defaultFontSize?: string;
+}
+
+interface MediaEntry {
+  relId: string;
+  fileName: string;
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface ParagraphContext {
+  style?: string;
+  numbering?: { numId: number; ilvl: number };
+  indentLevel?: number;
+  align?: string;
+  border?: boolean;
+}
+
+interface ExportContext {
+  relationships: string[];
+  hyperlinks: Map<string, string>;
+  media: Map<string, MediaEntry>;
+  /** Numbering instances: numId -> abstract definition and start value */
+  numbering: { numId: number; abstractNumId: number; ilvl: number; start: number }[];
+  drawingId: number;
+  warnings: string[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NS = {
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  pic: 'http://schemas.openxmlformats.org/drawingml/2006/picture',
+};
+
+const REL_TYPES = {
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+  styles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles',
+  numbering: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering',
+};
+
+const BULLET_ABSTRACT_ID = 0;
+const DECIMAL_ABSTRACT_ID = 1;
+
+/** Printable width of a Letter page with 1in margins, in twips */
+const CONTENT_WIDTH_TWIPS = 9360;
+const TWIPS_PER_PX = 15;
+const EMU_PER_PX = 9525;
+const MAX_IMAGE_WIDTH_PX = CONTENT_WIDTH_TWIPS / TWIPS_PER_PX;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+/** Colors Word accepts for w:highlight; anything else is exported as shading */
+const HIGHLIGHT_COLORS: Record<string, string> = {
+  FFFF00: 'yellow',
+  '00FF00': 'green',
+  '00FFFF': 'cyan',
+  FF00FF: 'magenta',
+  '0000FF': 'blue',
+  FF0000: 'red',
+  '000080': 'darkBlue',
+  '008080': 'darkCyan',
+  '008000': 'darkGreen',
+  '800080': 'darkMagenta',
+  '800000': 'darkRed',
+  '808000': 'darkYellow',
+  '808080': 'darkGray',
+  C0C0C0: 'lightGray',
+  '000000': 'black',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  lime: '00FF00',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  cyan: '00FFFF',
+  aqua: '00FFFF',
+  magenta: 'FF00FF',
+  fuchsia: 'FF00FF',
+  gray: '808080',
+  grey: '808080',
+  silver: 'C0C0C0',
+  maroon: '800000',
+  navy: '000080',
+  olive: '808000',
+  purple: '800080',
+  teal: '008080',
+  orange: 'FFA500',
+};
+
+// =============================================================================
+// VALUE CONVERSION
+// =============================================================================
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a CSS color to the RRGGBB form Word expects.
+ */
+function toHexColor(color: string | null | undefined): string | null {
+  if (!color) return null;
+  const value = color.trim().toLowerCase();
+
+  if (NAMED_COLORS[value]) return NAMED_COLORS[value];
+
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return digits.toUpperCase();
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  if (rgb) {
+    return rgb.slice(1, 4)
+      .map(n => Math.min(255, parseInt(n, 10)).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+
+  return null;
+}
+
+/**
+ * Convert a CSS font size to Word half-points.
+ */
+function toHalfPoints(size: string | null | undefined): number | null {
+  if (!size) return null;
+  const match = size.trim().match(/^([\d.]+)\s*(pt|px)?$/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const points = match[2]?.toLowerCase() === 'px' ? value * 0.75 : value;
+  return Math.round(points * 2);
+}
+
+function toPixels(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return value;
+  const match = value.trim().match(/^([\d.]+)\s*(px)?$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function getFirstFontName(family: string): string {
+  return family.split(',')[0].trim().replace(/^['"]|['"]$/g, '');
+}
+
+function getWordAlignment(align: string | null | undefined): string | null {
+  const map: Record<string, string> = { center: 'center', right: 'right', justify: 'both' };
+  return align && map[align] ? map[align] : null;
+}
+
+/**
+ * Convert a CSS line-height to a w:spacing element.
+ * Unitless values and percentages are multiples of a single line (240),
+ * absolute values become an exact line height in twips.
+ */
+function getLineSpacing(lineHeight: string | null | undefined): string {
+  if (!lineHeight || lineHeight === 'normal') return '';
+  const match = lineHeight.trim().match(/^([\d.]+)\s*(px|pt|%)?$/i);
+  if (!match) return '';
+
+  const value = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case 'px':
+      return `<w:spacing w:line="${Math.round(value * TWIPS_PER_PX)}" w:lineRule="exact"/>`;
+    case 'pt':
+      return `<w:spacing w:line="${Math.round(value * 20)}" w:lineRule="exact"/>`;
+    case '%':
+      return `<w:spacing w:line="${Math.round((value / 100) * 240)}" w:lineRule="auto"/>`;
+    default:
+      return `<w:spacing w:line="${Math.round(value * 240)}" w:lineRule="auto"/>`;
+  }
+}
+
+// =============================================================================
+// RELATIONSHIPS & MEDIA
+// =============================================================================
+
+function addRelationship(ctx: ExportContext, type: string, target: string, external = false): string {
+  const id = `rId${ctx.relationships.length + 1}`;
+  const mode = external ? ' TargetMode="External"' : '';
+  ctx.relationships.push(`<Relationship Id="${id}" Type="${type}" Target="${escapeXML(target)}"${mode}/>`);
+  return id;
+}
+
+function getHyperlinkId(ctx: ExportContext, href: string): string {
+  let id = ctx.hyperlinks.get(href);
+  if (!id) {
+    id = addRelationship(ctx, REL_TYPES.hyperlink, href, true);
+    ctx.hyperlinks.set(href, id);
+  }
+  return id;
+}
+
+async function loadImageData(src: string): Promise<{ data: Uint8Array; mime: string }> {
+  const dataUri = src.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (dataUri) {
+    const [, mime, isBase64, payload] = dataUri;
+    const binary = isBase64 ? atob(payload) : decodeURIComponent(payload);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return { data, mime: mime.toLowerCase() };
+  }
+
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const mime = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  return { data: new Uint8Array(await response.arrayBuffer()), mime };
+}
+
+async function getNaturalSize(data: Uint8Array, mime: string): Promise<{ width: number; height: number } | null> {
+  if (typeof createImageBitmap !== 'function') return null;
+  try {
+    const bitmap = await createImageBitmap(new Blob([data], { type: mime }));
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load every image in the document up front so the XML can be built synchronously.
+ */
+async function collectMedia(doc: ProseMirrorNode, ctx: ExportContext): Promise<void> {
+  const images: ProseMirrorNode[] = [];
+  doc.descendants(node => {
+    if (node.type.name === 'image' && node.attrs.src && !ctx.media.has(node.attrs.src)) {
+      images.push(node);
+    }
+  });
+
+  for (const image of images) {
+    const src: string = image.attrs.src;
+    if (ctx.media.has(src)) continue;
+
+    try {
+      const { data, mime } = await loadImageData(src);
+      const extension = IMAGE_EXTENSIONS[mime];
+      if (!extension) {
+        ctx.warnings.push(`Skipped image with unsupported type "${mime || 'unknown'}"`);
+        continue;
+      }
+
+      let width = toPixels(image.attrs.width);
+      let height = toPixels(image.attrs.height);
+      if (!width || !height) {
+        const natural = await getNaturalSize(data, mime) || { width: 400, height: 300 };
+        if (width) {
+          height = Math.round(width * natural.height / natural.width);
+        } else if (height) {
+          width = Math.round(height * natural.width / natural.height);
+        } else {
+          width = natural.width;
+          height = natural.height;
+        }
+      }
+
+      if (width > MAX_IMAGE_WIDTH_PX) {
+        height = Math.round(height * MAX_IMAGE_WIDTH_PX / width);
+        width = MAX_IMAGE_WIDTH_PX;
+      }
+
+      const fileName = `image${ctx.media.size + 1}.${extension}`;
+      const relId = addRelationship(ctx, REL_TYPES.image, `media/${fileName}`);
+      ctx.media.set(src, { relId, fileName, data, width, height });
+    } catch (error) {
+      ctx.warnings.push(`Could not load image "${src.slice(0, 80)}": ${(error as Error).message}`);
+    }
+  }
+}
+
+// =============================================================================
+// INLINE CONTENT
+// =============================================================================
+
+function buildRunProperties(marks: readonly Mark[], extra = ''): string {
+  const props: Record<string, string> = {};
+
+  for (const mark of marks) {
+    switch (mark.type.name) {
+      case 'strong':
+        props.b = '<w:b/>';
+        break;
+      case 'em':
+        props.i = '<w:i/>';
+        break;
+      case 'underline':
+        props.u = '<w:u w:val="single"/>';
+        break;
+      case 'strikethrough':
+        props.strike = '<w:strike/>';
+        break;
+      case 'superscript':
+        props.vertAlign = '<w:vertAlign w:val="superscript"/>';
+        break;
+      case 'subscript':
+        props.vertAlign = '<w:vertAlign w:val="subscript"/>';
+        break;
+      case 'code':
+        props.rFonts = '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>';
+        break;
+      case 'fontFamily': {
+        const font = escapeXML(getFirstFontName(mark.attrs.family || ''));
+        if (font) props.rFonts = `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`;
+        break;
+      }
+      case 'fontSize': {
+        const size = toHalfPoints(mark.attrs.size);
+        if (size) props.sz = `<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>`;
+        break;
+      }
+      case 'textColor': {
+        const color = toHexColor(mark.attrs.color);
+        if (color) props.color = `<w:color w:val="${color}"/>`;
+        break;
+      }
+      case 'highlight': {
+        const color = toHexColor(mark.attrs.color);
+        if (color && HIGHLIGHT_COLORS[color]) {
+          props.highlight = `<w:highlight w:val="${HIGHLIGHT_COLORS[color]}"/>`;
+        } else if (color) {
+          props.shd = `<w:shd w:val="clear" w:color="auto" w:fill="${color}"/>`;
+        }
+        break;
+      }
+      case 'backgroundColor': {
+        const color = toHexColor(mark.attrs.color);
+        if (color) props.shd = `<w:shd w:val="clear" w:color="auto" w:fill="${color}"/>`;
+        break;
+      }
+    }
+  }
+
+  // Element order is fixed by the WordprocessingML schema
+  const order = ['rFonts', 'b', 'i', 'strike', 'color', 'sz', 'highlight', 'u', 'shd', 'vertAlign'];
+  const content = extra + order.map(key => props[key] || '').join('');
+  return content ? `<w:rPr>${content}</w:rPr>` : '';
+}
+
+function buildTextRuns(text: string, rPr: string): string {
+  return text.split(/(\t|\n)/).map(part => {
+    if (part === '\t') return `<w:r>${rPr}<w:tab/></w:r>`;
+    if (part === '\n') return `<w:r>${rPr}<w:br/></w:r>`;
+    if (!part) return '';
+    return `<w:r>${rPr}<w:t xml:space="preserve">${escapeXML(part)}</w:t></w:r>`;
+  }).join('');
+}
+
+function buildImageRun(node: ProseMirrorNode, ctx: ExportContext): string {
+  const media = ctx.media.get(node.attrs.src);
+  if (!media) {
+    return node.attrs.alt ? buildTextRuns(`[${node.attrs.alt}]`, '') : '';
+  }
+
+  const id = ++ctx.drawingId;
+  const cx = Math.round(media.width * EMU_PER_PX);
+  const cy = Math.round(media.height * EMU_PER_PX);
+  const descr = escapeXML(node.attrs.alt || '');
+  const title = node.attrs.title ? ` title="${escapeXML(node.attrs.title)}"` : '';
+
+  return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">` +
+    `<wp:extent cx="${cx}" cy="${cy}"/>` +
+    `<wp:docPr id="${id}" name="Picture ${id}" descr="${descr}"${title}/>` +
+    `<a:graphic><a:graphicData uri="${NS.pic}"><pic:pic>` +
+    `<pic:nvPicPr><pic:cNvPr id="${id}" name="${media.fileName}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${media.relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+}
+
+function buildInlineContent(node: ProseMirrorNode, ctx: ExportContext): string {
+  const parts: string[] = [];
+  let link: { href: string; runs: string[] } | null = null;
+
+  const flushLink = () => {
+    if (link) {
+      parts.push(`<w:hyperlink r:id="${getHyperlinkId(ctx, link.href)}" w:history="1">${link.runs.join('')}</w:hyperlink>`);
+      link = null;
+    }
+  };
+
+  node.forEach(child => {
+    const linkMark = child.marks.find(mark => mark.type.name === 'link');
+    let xml = '';
+
+    if (child.isText) {
+      const rStyle = linkMark ? '<w:rStyle w:val="Hyperlink"/>' : '';
+      xml = buildTextRuns(child.text || '', buildRunProperties(child.marks, rStyle));
+    } else if (child.type.name === 'hard_break') {
+      xml = '<w:r><w:br/></w:r>';
+    } else if (child.type.name === 'image') {
+      xml = buildImageRun(child, ctx);
+    } else if (child.textContent) {
+      xml = buildTextRuns(child.textContent, buildRunProperties(child.marks));
+    }
+
+    if (linkMark && linkMark.attrs.href) {
+      if (link && link.href !== linkMark.attrs.href) flushLink();
+      if (!link) link = { href: linkMark.attrs.href, runs: [] };
+      link.runs.push(xml);
+    } else {
+      flushLink();
+      parts.push(xml);
+    }
+  });
+
+  flushLink();
+  return parts.join('');
+}
+
+// =============================================================================
+// BLOCK CONTENT
+// =============================================================================
+
+function buildParagraphProperties(node: ProseMirrorNode | null, pctx: ParagraphContext, style?: string): string {
+  const parts: string[] = [];
+
+  const pStyle = style || pctx.style;
+  if (pStyle) parts.push(`<w:pStyle w:val="${pStyle}"/>`);
+
+  if (pctx.numbering) {
+    parts.push(`<w:numPr><w:ilvl w:val="${pctx.numbering.ilvl}"/><w:numId w:val="${pctx.numbering.numId}"/></w:numPr>`);
+  }
+
+  if (pctx.border) {
+    const side = 'w:val="single" w:sz="8" w:space="4" w:color="000000"';
+    parts.push(`<w:pBdr><w:top ${side}/><w:left ${side}/><w:bottom ${side}/><w:right ${side}/></w:pBdr>`);
+  }
+
+  if (node) parts.push(getLineSpacing(node.attrs.lineHeight));
+
+  if (!pctx.numbering && pctx.indentLevel) {
+    parts.push(`<w:ind w:left="${720 * pctx.indentLevel}"/>`);
+  }
+
+  const align = getWordAlignment(node?.attrs.align && node.attrs.align !== 'left' ? node.attrs.align : pctx.align);
+  if (align) parts.push(`<w:jc w:val="${align}"/>`);
+
+  const content = parts.join('');
+  return content ? `<w:pPr>${content}</w:pPr>` : '';
+}
+
+function buildParagraph(node: ProseMirrorNode, ctx: ExportContext, pctx: ParagraphContext, style?: string): string {
+  return `<w:p>${buildParagraphProperties(node, pctx, style)}${buildInlineContent(node, ctx)}</w:p>`;
+}
+
+function buildList(node: ProseMirrorNode, ctx: ExportContext, pctx: ParagraphContext): string {
+  const ilvl = pctx.numbering ? pctx.numbering.ilvl + 1 : 0;
+  const ordered = node.type.name === 'ordered_list';
+
+  // Every list gets its own numbering instance so ordered lists restart
+  const numId = ctx.numbering.length + 1;
+  ctx.numbering.push({
+    numId,
+    abstractNumId: ordered ? DECIMAL_ABSTRACT_ID : BULLET_ABSTRACT_ID,
+    ilvl,
+    start: ordered ? node.attrs.order ?? 1 : 1,
+  });
+
+  const parts: string[] = [];
+  node.forEach(item => {
+    item.forEach((child, _offset, index) => {
+      if (index === 0 && child.isTextblock) {
+        parts.push(buildBlock(child, ctx, { ...pctx, numbering: { numId, ilvl } }));
+      } else if (child.type.name === 'bullet_list' || child.type.name === 'ordered_list') {
+        parts.push(buildBlock(child, ctx, { ...pctx, numbering: { numId, ilvl } }));
+      } else {
+        // Continuation paragraphs line up with the item text
+        parts.push(buildBlock(child, ctx, { ...pctx, numbering: undefined, indentLevel: ilvl + 1 }));
+      }
+    });
+  });
+
+  return parts.join('');
+}
+
+function buildTableCell(cell: ProseMirrorNode, ctx: ExportContext, width: number, vMerge: string | null, colspan: number): string {
+  const props: string[] = [`<w:tcW w:w="${width}" w:type="dxa"/>`];
+  if (colspan > 1) props.push(`<w:gridSpan w:val="${colspan}"/>`);
+  if (vMerge) props.push(vMerge === 'restart' ? '<w:vMerge w:val="restart"/>' : '<w:vMerge/>');
+
+  const fill = toHexColor(cell.attrs.backgroundColor);
+  if (fill) props.push(`<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>`);
+
+  const vAlign: Record<string, string> = { top: 'top', middle: 'center', bottom: 'bottom' };
+  if (cell.attrs.verticalAlign && vAlign[cell.attrs.verticalAlign]) {
+    props.push(`<w:vAlign w:val="${vAlign[cell.attrs.verticalAlign]}"/>`);
+  }
+
+  let content = '';
+  if (vMerge !== 'continue') {
+    const pctx: ParagraphContext = { align: cell.attrs.textAlign || undefined };
+    if (cell.type.name === 'table_header') pctx.style = 'TableHeader';
+    cell.forEach(child => { content += buildBlock(child, ctx, pctx); });
+  }
+
+  // A cell must end with a paragraph
+  if (!content.endsWith('</w:p>')) content += '<w:p/>';
+
+  return `<w:tc><w:tcPr>${props.join('')}</w:tcPr>${content}</w:tc>`;
+}
+
+function buildTable(table: ProseMirrorNode, ctx: ExportContext): string {
+  const map = TableMap.get(table);
+
+  // Column widths: use stored colwidths where every column has one, otherwise split evenly
+  const colWidths: (number | null)[] = new Array(map.width).fill(null);
+  for (let col = 0; col < map.width; col++) {
+    const cellPos = map.map[col];
+    const cell = table.nodeAt(cellPos);
+    const rect = map.findCell(cellPos);
+    const widths: number[] | null = cell?.attrs.colwidth || null;
+    if (widths && widths[col - rect.left]) colWidths[col] = widths[col - rect.left] * TWIPS_PER_PX;
+  }
+  const grid = colWidths.every(Boolean)
+    ? (colWidths as number[]).map(Math.round)
+    : new Array(map.width).fill(Math.floor(CONTENT_WIDTH_TWIPS / map.width));
+
+  const borderStyles: Record<string, string> = { solid: 'single', dashed: 'dashed', dotted: 'dotted', double: 'double' };
+  const noBorder = table.attrs.border === '0' || table.attrs.border === 0 || table.attrs.borderStyle === 'none';
+  const borderSize = Math.max(2, Math.round((toPixels(table.attrs.border) || 1) * 0.75 * 8));
+  const borderColor = toHexColor(table.attrs.borderColor) || '000000';
+  const borderStyle = borderStyles[table.attrs.borderStyle] || 'single';
+  const side = noBorder ? 'w:val="nil"' : `w:val="${borderStyle}" w:sz="${borderSize}" w:space="0" w:color="${borderColor}"`;
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(name => `<w:${name} ${side}/>`).join('');
+
+  const parts: string[] = [
+    '<w:tbl>',
+    `<w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr>`,
+    `<w:tblGrid>${grid.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>`,
+  ];
+
+  for (let row = 0; row < map.height; row++) {
+    const rowNode = table.child(row);
+    const isHeaderRow = rowNode.childCount > 0 && Array.from({ length: rowNode.childCount }, (_, i) => rowNode.child(i))
+      .every(cell => cell.type.name === 'table_header');
+
+    parts.push('<w:tr>');
+    if (isHeaderRow) parts.push('<w:trPr><w:tblHeader/></w:trPr>');
+
+    for (let col = 0; col < map.width;) {
+      const cellPos = map.map[row * map.width + col];
+      const rect = map.findCell(cellPos);
+      const cell = table.nodeAt(cellPos)!;
+      const colspan = rect.right - rect.left;
+      const width = grid.slice(rect.left, rect.right).reduce((sum, w) => sum + w, 0);
+
+      let vMerge: string | null = null;
+      if (rect.bottom - rect.top > 1) vMerge = rect.top === row ? 'restart' : 'continue';
+
+      parts.push(buildTableCell(cell, ctx, width, vMerge, colspan));
+      col = rect.right;
+    }
+
+    parts.push('</w:tr>');
+  }
+
+  parts.push('</w:tbl>');
+
+  // Word merges tables that directly follow each other
+  parts.push('<w:p/>');
+  return parts.join('');
+}
+
+function buildBlock(node: ProseMirrorNode, ctx: ExportContext, pctx: ParagraphContext = {}): string {
+  switch (node.type.name) {
+    case 'paragraph':
+      return buildParagraph(node, ctx, pctx);
+
+    case 'heading':
+      return buildParagraph(node, ctx, { ...pctx, numbering: undefined }, `Heading${node.attrs.level}`);
+
+    case 'blockquote':
+      return mapChildren(node, child => buildBlock(child, ctx, { ...pctx, style: 'Quote' }));
+
+    case 'bordered_box':
+      return mapChildren(node, child => buildBlock(child, ctx, { ...pctx, border: true }));
+
+    case 'code_block':
+      return node.textContent.split('\n')
+        .map(line => `<w:p>${buildParagraphProperties(null, pctx, 'Code')}${buildTextRuns(line, '')}</w:p>`)
+        .join('');
+
+    case 'bullet_list':
+    case 'ordered_list':
+      return buildList(node, ctx, pctx);
+
+    case 'horizontal_rule':
+      return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+
+    case 'page_break':
+      return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+
+    case 'table':
+      return buildTable(node, ctx);
+
+    default:
+      if (node.isTextblock) return buildParagraph(node, ctx, pctx);
+      if (node.childCount > 0) return mapChildren(node, child => buildBlock(child, ctx, pctx));
+      ctx.warnings.push(`Skipped unsupported node "${node.type.name}"`);
+      return '';
+  }
+}
+
+function mapChildren(node: ProseMirrorNode, fn: (child: ProseMirrorNode) => string): string {
+  const parts: string[] = [];
+  node.forEach(child => parts.push(fn(child)));
+  return parts.join('');
+}
+
+// =============================================================================
+// PACKAGE PARTS
+// =============================================================================
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+function buildDocumentXml(body: string): string {
+  return XML_HEADER +
+    `<w:document xmlns:w="${NS.w}" xmlns:r="${NS.r}" xmlns:wp="${NS.wp}" xmlns:a="${NS.a}" xmlns:pic="${NS.pic}">` +
+    `<w:body>${body}` +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+    '</w:sectPr></w:body></w:document>';
+}
+
+function buildStylesXml(options: WordExportOptions): string {
+  const font = escapeXML(getFirstFontName(options.defaultFontFamily || 'Arial'));
+  const size = toHalfPoints(options.defaultFontSize || '12pt') || 24;
+  const headingSizes = [48, 36, 28, 24, 20, 16];
+
+  const headings = headingSizes.map((sz, i) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/>` +
+    '<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>' +
+    `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${i}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:sz w:val="${sz}"/><w:szCs w:val="${sz}"/></w:rPr></w:style>`
+  ).join('');
+
+  return XML_HEADER +
+    `<w:styles xmlns:w="${NS.w}">` +
+    '<w:docDefaults>' +
+    `<w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:rPrDefault>` +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160"/></w:pPr></w:pPrDefault>' +
+    '</w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/>' +
+    '<w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="CCCCCC"/></w:pBdr><w:ind w:left="720"/></w:pPr>' +
+    '<w:rPr><w:i/><w:color w:val="555555"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F5F5F5"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr>' +
+    '<w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="TableHeader"><w:name w:val="Table Header"/><w:basedOn w:val="Normal"/>' +
+    '<w:rPr><w:b/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>' +
+    '<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '</w:styles>';
+}
+
+function buildNumberingLevels(ordered: boolean): string {
+  const bullets = ['•', '◦', '▪'];
+  const formats = ['decimal', 'lowerLetter', 'lowerRoman'];
+
+  return Array.from({ length: 9 }, (_, ilvl) => {
+    const numFmt = ordered ? formats[ilvl % 3] : 'bullet';
+    const lvlText = ordered ? `%${ilvl + 1}.` : bullets[ilvl % 3];
+    return `<w:lvl w:ilvl="${ilvl}"><w:start w:val="1"/><w:numFmt w:val="${numFmt}"/>` +
+      `<w:lvlText w:val="${lvlText}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${720 * (ilvl + 1)}" w:hanging="360"/></w:pPr></w:lvl>`;
+  }).join('');
+}
+
+function buildNumberingXml(ctx: ExportContext): string {
+  const abstracts =
+    `<w:abstractNum w:abstractNumId="${BULLET_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${buildNumberingLevels(false)}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="${DECIMAL_ABSTRACT_ID}"><w:multiLevelType w:val="hybridMultilevel"/>${buildNumberingLevels(true)}</w:abstractNum>`;
+
+  const nums = ctx.numbering.map(num => {
+    const override = num.start !== 1 || num.abstractNumId === DECIMAL_ABSTRACT_ID
+      ? `<w:lvlOverride w:ilvl="${num.ilvl}"><w:startOverride w:val="${num.start}"/></w:lvlOverride>`
+      : '';
+    return `<w:num w:numId="${num.numId}"><w:abstractNumId w:val="${num.abstractNumId}"/>${override}</w:num>`;
+  }).join('');
+
+  return XML_HEADER + `<w:numbering xmlns:w="${NS.w}">${abstracts}${nums}</w:numbering>`;
+}
+
+function buildContentTypesXml(ctx: ExportContext): string {
+  const extensions = new Set(Array.from(ctx.media.values()).map(m => m.fileName.split('.').pop()!));
+  const defaults = Array.from(extensions)
+    .map(ext => `<Default Extension="${ext}" ContentType="image/${ext}"/>`)
+    .join('');
+
+  return XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    defaults +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>' +
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+    '</Types>';
+}
+
+function buildRootRelsXml(): string {
+  return XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+    '</Relationships>';
+}
+
+function buildDocumentRelsXml(ctx: ExportContext): string {
+  return XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    ctx.relationships.join('') +
+    '</Relationships>';
+}
+
+function buildCoreXml(options: WordExportOptions): string {
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const title = options.title ? `<dc:title>${escapeXML(options.title)}</dc:title>` : '';
+  const author = options.author ? `<dc:creator>${escapeXML(options.author)}</dc:creator>` : '';
+
+  return XML_HEADER +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    title + author +
+    `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+    `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+    '</cp:coreProperties>';
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Export a ProseMirror document to a Word document (.docx) Blob.
+ */
+export async function exportWordDocument(
+  doc: ProseMirrorNode,
+  options: WordExportOptions = {}
+): Promise<Blob> {
+  const ctx: ExportContext = {
+    relationships: [],
+    hyperlinks: new Map(),
+    media: new Map(),
+    numbering: [],
+    drawingId: 0,
+    warnings: [],
+  };
+
+  addRelationship(ctx, REL_TYPES.styles, 'styles.xml');
+  addRelationship(ctx, REL_TYPES.numbering, 'numbering.xml');
+
+  await collectMedia(doc, ctx);
+
+  const body = mapChildren(doc, child => buildBlock(child, ctx));
+
+  if (ctx.warnings.length > 0) {
+    console.warn('[WordExport]', ctx.warnings.join('\n'));
+  }
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', buildContentTypesXml(ctx));
+  zip.file('_rels/.rels', buildRootRelsXml());
+  zip.file('docProps/core.xml', buildCoreXml(options));
+  zip.file('word/document.xml', buildDocumentXml(body));
+  zip.file('word/styles.xml', buildStylesXml(options));
+  zip.file('word/numbering.xml', buildNumberingXml(ctx));
+  zip.file('word/_rels/document.xml.rels', buildDocumentRelsXml(ctx));
+
+  ctx.media.forEach(media => {
+    zip.file(`word/media/${media.fileName}`, media.data);
+  });
+
+  return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME });
+}
+
+/**
+ * Trigger a browser download for an exported Word document.
+ */
+export function downloadWordFile(blob: Blob, fileName = 'document.docx'): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.docx') ? fileName : `${fileName}.docx`;
+  link.style.display = 'none';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
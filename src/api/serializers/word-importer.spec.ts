@@ -0,0 +1,88 @@
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import { parseWordDocument } from './word-importer';
+
+// The spec DOM cannot parse namespaced XML
+const originalDOMParser = global.DOMParser;
+beforeAll(() => {
+  global.DOMParser = new JSDOM().window.DOMParser;
+});
+afterAll(() => {
+  global.DOMParser = originalDOMParser;
+});
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+async function createDocx(body: string, numbering?: string): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W}"><w:body>${body}</w:body></w:document>`);
+  if (numbering) {
+    zip.file('word/numbering.xml', `<?xml version="1.0" encoding="UTF-8"?><w:numbering xmlns:w="${W}">${numbering}</w:numbering>`);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+const cell = (content: string, tcPr = '') => `<w:tc>${tcPr ? `<w:tcPr>${tcPr}</w:tcPr>` : ''}${content}</w:tc>`;
+
+describe('parseWordDocument', () => {
+  it('imports merged cells, column widths and header rows', async () => {
+    const result = await parseWordDocument(
+      await createDocx(
+        '<w:tbl><w:tblGrid><w:gridCol w:w="1500"/><w:gridCol w:w="3000"/></w:tblGrid>' +
+          `<w:tr><w:trPr><w:tblHeader/></w:trPr>${cell(paragraph('Name'), '<w:gridSpan w:val="2"/>')}</w:tr>` +
+          `<w:tr>${cell(paragraph('A'), '<w:vMerge w:val="restart"/>')}${cell(paragraph('1'))}</w:tr>` +
+          `<w:tr>${cell('<w:p/>', '<w:vMerge/>')}${cell(paragraph('2'))}</w:tr>` +
+          '</w:tbl>'
+      )
+    );
+
+    expect(result.html).toBe(
+      '<table>' +
+        '<tr><th colspan="2" data-colwidth="100,200"><p>Name</p></th></tr>' +
+        '<tr><td rowspan="2" data-colwidth="100"><p>A</p></td><td data-colwidth="200"><p>1</p></td></tr>' +
+        '<tr><td data-colwidth="200"><p>2</p></td></tr>' +
+        '</table>'
+    );
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('flattens nested tables into the paragraphs of their parent cell', async () => {
+    const nested = `<w:tbl><w:tr>${cell(paragraph('Inner 1'))}${cell(paragraph('Inner 2'))}</w:tr></w:tbl>`;
+    const result = await parseWordDocument(await createDocx(`<w:tbl><w:tr>${cell(paragraph('Outer') + nested + '<w:p/>')}</w:tr></w:tbl>`));
+
+    expect(result.html).toBe('<table><tr><td><p>Outer</p>\n<p>Inner 1</p>\n<p>Inner 2</p></td></tr></table>');
+    expect(result.warnings).toEqual(['Nested tables were flattened into the paragraphs of their parent cell']);
+  });
+
+  it('warns about every construct it drops', async () => {
+    const result = await parseWordDocument(
+      await createDocx(
+        '<w:p><w:r><w:t>Kept</w:t></w:r><w:del><w:r><w:delText>Gone</w:delText></w:r></w:del><w:unknownInline/></w:p>' +
+          '<w:p><w:r><w:object/><w:sym w:char="F04A"/></w:r></w:p>' +
+          '<w:altChunk/>'
+      )
+    );
+
+    expect(result.text).toBe('Kept');
+    expect(result.warnings).toEqual([
+      'Tracked deletions were dropped',
+      'Unsupported element <w:unknownInline> was dropped',
+      'Embedded objects (OLE) are not supported and were dropped',
+      'Unsupported element <w:sym> was dropped',
+      'Unsupported element <w:altChunk> was dropped',
+    ]);
+  });
+
+  it('ends the list at a page break and keeps counting after it', async () => {
+    const item = (text: string, extra = '') =>
+      `<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>${text}</w:t></w:r>${extra}</w:p>`;
+    const numbering =
+      '<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/></w:lvl></w:abstractNum>' +
+      '<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>';
+
+    const result = await parseWordDocument(await createDocx(item('One', '<w:r><w:br w:type="page"/></w:r>') + item('Two'), numbering));
+
+    expect(result.html).toBe('<ol>\n<li><p>One</p>\n</li></ol>\n<div data-type="page-break"></div>\n<ol start="2">\n<li><p>Two</p>\n</li></ol>');
+  });
+});
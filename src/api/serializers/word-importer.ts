@@ -12,6 +12,7 @@
 import JSZip from 'jszip';
 import { Schema, Node as ProseMirrorNode } from 'prosemirror-model';
 import { parseFromHTML } from './html-serializer';
+import { normalizeLinkHref } from '../../core/commands/link';
 
 // =============================================================================
 // TYPES
@@ -20,6 +21,13 @@ import { parseFromHTML } from './html-serializer';
 export interface WordImportOptions {
   preserveStyles?: boolean;
   preserveLists?: boolean;
+  preserveImages?: boolean;
+  preserveTables?: boolean;
+  /**
+   * Upload an embedded image and return its URL.
+   * When omitted, images are inlined as data URIs.
+   */
+  uploadImage?: (image: Blob, fileName: string) => Promise<string>;
 }
 
 export interface WordImportResult {
@@ -35,11 +43,102 @@ export interface WordDocumentMetadata {
   subject?: string;
 }
 
+interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+interface NumberingLevel {
+  format: string;
+  start: number;
+}
+
+/** Run formatting after style inheritance; undefined means "not set at this level" */
+interface RunProperties {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  vertAlign?: 'superscript' | 'subscript' | null;
+  font?: string;
+  /** Size in half-points */
+  size?: number;
+  color?: string;
+  highlight?: string;
+  shading?: string;
+}
+
+interface StyleDefinition {
+  type: string;
+  basedOn?: string;
+  rPr?: Element;
+}
+
+interface StyleSheet {
+  defaults: RunProperties;
+  styles: Map<string, StyleDefinition>;
+  defaultParagraphStyle?: string;
+  themeFonts: { major?: string; minor?: string };
+  /** Resolved run properties per style id */
+  resolved: Map<string, RunProperties>;
+}
+
+interface ImportContext {
+  options: WordImportOptions;
+  relationships: Map<string, Relationship>;
+  styles: StyleSheet;
+  /** numId -> ilvl -> level definition */
+  numbering: Map<string, Map<number, NumberingLevel>>;
+  /** relationship id -> image URL */
+  images: Map<string, string>;
+  warnings: Set<string>;
+}
+
 // =============================================================================
 // WORD DOCUMENT PARSING
 // =============================================================================
 
 const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const VML_NS = 'urn:schemas-microsoft-com:vml';
+
+const THEME_NS = DRAWING_NS;
+
+const EMU_PER_PX = 9525;
+const TWIPS_PER_PX = 15;
+
+/** w:highlight names mapped to CSS colors */
+const HIGHLIGHT_COLORS: Record<string, string> = {
+  yellow: '#ffff00',
+  green: '#00ff00',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  blue: '#0000ff',
+  red: '#ff0000',
+  darkBlue: '#000080',
+  darkCyan: '#008080',
+  darkGreen: '#008000',
+  darkMagenta: '#800080',
+  darkRed: '#800000',
+  darkYellow: '#808000',
+  darkGray: '#808080',
+  lightGray: '#c0c0c0',
+  black: '#000000',
+  white: '#ffffff',
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+};
 
 function parseXML(xmlString: string): Document {
   const parser = new DOMParser();
@@ -50,70 +149,484 @@ function getElementsNS(parent: Element | Document, localName: string): Element[]
   return Array.from(parent.getElementsByTagNameNS(WORD_NS, localName));
 }
 
-function parseDocumentContent(documentXml: Document, options: WordImportOptions): string {
-  const body = getElementsNS(documentXml, 'body')[0];
-  if (!body) return '';
-  
-  const htmlParts: string[] = [];
-  const paragraphs = getElementsNS(body, 'p');
-  
-  let isInList = false;
-  let listType: 'ul' | 'ol' = 'ul';
-  
-  paragraphs.forEach((para) => {
-    const content = parseParagraph(para, options);
-    const listInfo = detectList(para);
-    
-    if (listInfo && options.preserveLists !== false) {
-      if (!isInList) {
-        listType = listInfo.type;
-        htmlParts.push(`<${listType}>`);
-        isInList = true;
+/**
+ * Direct children in the Word namespace, optionally filtered by local name.
+ */
+function getChildrenNS(parent: Element, localName?: string): Element[] {
+  return Array.from(parent.children).filter(
+    child => child.namespaceURI === WORD_NS && (!localName || child.localName === localName)
+  );
+}
+
+function getChildNS(parent: Element | undefined, localName: string): Element | undefined {
+  return parent ? getChildrenNS(parent, localName)[0] : undefined;
+}
+
+function getVal(el: Element | undefined): string | null {
+  return el ? el.getAttributeNS(WORD_NS, 'val') : null;
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function warn(ctx: ImportContext, message: string): void {
+  ctx.warnings.add(message);
+}
+
+// =============================================================================
+// PACKAGE PARTS
+// =============================================================================
+
+async function readRelationships(zip: JSZip): Promise<Map<string, Relationship>> {
+  const relationships = new Map<string, Relationship>();
+  const relsFile = zip.file('word/_rels/document.xml.rels');
+  if (!relsFile) return relationships;
+
+  const relsXml = parseXML(await relsFile.async('string'));
+  Array.from(relsXml.getElementsByTagName('Relationship')).forEach(rel => {
+    const id = rel.getAttribute('Id');
+    if (!id) return;
+    relationships.set(id, {
+      type: (rel.getAttribute('Type') || '').split('/').pop() || '',
+      target: rel.getAttribute('Target') || '',
+      external: rel.getAttribute('TargetMode') === 'External',
+    });
+  });
+
+  return relationships;
+}
+
+async function readNumbering(zip: JSZip): Promise<Map<string, Map<number, NumberingLevel>>> {
+  const numbering = new Map<string, Map<number, NumberingLevel>>();
+  const numberingFile = zip.file('word/numbering.xml');
+  if (!numberingFile) return numbering;
+
+  const numberingXml = parseXML(await numberingFile.async('string'));
+
+  const readLevels = (parent: Element, levels: Map<number, NumberingLevel>) => {
+    getElementsNS(parent, 'lvl').forEach(lvl => {
+      const ilvl = parseInt(lvl.getAttributeNS(WORD_NS, 'ilvl') || '0', 10);
+      const start = getVal(getChildNS(lvl, 'start'));
+      levels.set(ilvl, {
+        format: getVal(getChildNS(lvl, 'numFmt')) || 'decimal',
+        start: start ? parseInt(start, 10) : 1,
+      });
+    });
+  };
+
+  const abstracts = new Map<string, Map<number, NumberingLevel>>();
+  getElementsNS(numberingXml, 'abstractNum').forEach(abstractNum => {
+    const levels = new Map<number, NumberingLevel>();
+    readLevels(abstractNum, levels);
+    abstracts.set(abstractNum.getAttributeNS(WORD_NS, 'abstractNumId') || '', levels);
+  });
+
+  getElementsNS(numberingXml, 'num').forEach(num => {
+    const numId = num.getAttributeNS(WORD_NS, 'numId');
+    const abstractId = getVal(getChildNS(num, 'abstractNumId'));
+    if (!numId || abstractId === null) return;
+
+    const levels = new Map(abstracts.get(abstractId) || []);
+
+    // Per-instance overrides (restarted numbering, redefined levels)
+    getChildrenNS(num, 'lvlOverride').forEach(override => {
+      const ilvl = parseInt(override.getAttributeNS(WORD_NS, 'ilvl') || '0', 10);
+      const level = getChildNS(override, 'lvl');
+      if (level) {
+        const redefined = new Map<number, NumberingLevel>();
+        readLevels(override, redefined);
+        if (redefined.has(ilvl)) levels.set(ilvl, redefined.get(ilvl)!);
       }
-      htmlParts.push(`<li>${content}</li>`);
-    } else {
-      if (isInList) {
-        htmlParts.push(`</${listType}>`);
-        isInList = false;
+      const startOverride = getVal(getChildNS(override, 'startOverride'));
+      if (startOverride !== null) {
+        const base = levels.get(ilvl) || { format: 'decimal', start: 1 };
+        levels.set(ilvl, { ...base, start: parseInt(startOverride, 10) });
       }
-      
-      if (content.trim()) {
-        const tag = getHeadingTag(para) || 'p';
-        const style = getAlignment(para);
-        htmlParts.push(`<${tag}${style}>${content}</${tag}>`);
+    });
+
+    numbering.set(numId, levels);
+  });
+
+  return numbering;
+}
+
+// =============================================================================
+// STYLES
+// =============================================================================
+
+async function readThemeFonts(zip: JSZip): Promise<StyleSheet['themeFonts']> {
+  const themeFile = zip.file('word/theme/theme1.xml');
+  if (!themeFile) return {};
+
+  const themeXml = parseXML(await themeFile.async('string'));
+  const getTypeface = (name: string) => {
+    const font = themeXml.getElementsByTagNameNS(THEME_NS, name)[0];
+    const latin = font?.getElementsByTagNameNS(THEME_NS, 'latin')[0];
+    return latin?.getAttribute('typeface') || undefined;
+  };
+
+  return { major: getTypeface('majorFont'), minor: getTypeface('minorFont') };
+}
+
+async function readStyles(zip: JSZip): Promise<StyleSheet> {
+  const sheet: StyleSheet = {
+    defaults: {},
+    styles: new Map(),
+    themeFonts: await readThemeFonts(zip),
+    resolved: new Map(),
+  };
+
+  const stylesFile = zip.file('word/styles.xml');
+  if (!stylesFile) return sheet;
+
+  const stylesXml = parseXML(await stylesFile.async('string'));
+
+  const rPrDefault = getElementsNS(stylesXml, 'rPrDefault')[0];
+  const defaultRPr = getChildNS(rPrDefault, 'rPr');
+  if (defaultRPr) sheet.defaults = readRunProperties(defaultRPr, sheet);
+
+  getElementsNS(stylesXml, 'style').forEach(style => {
+    const id = style.getAttributeNS(WORD_NS, 'styleId');
+    if (!id) return;
+
+    const type = style.getAttributeNS(WORD_NS, 'type') || 'paragraph';
+    sheet.styles.set(id, {
+      type,
+      basedOn: getVal(getChildNS(style, 'basedOn')) || undefined,
+      rPr: getChildNS(style, 'rPr'),
+    });
+
+    if (type === 'paragraph' && ['1', 'true', 'on'].includes(style.getAttributeNS(WORD_NS, 'default') || '')) {
+      sheet.defaultParagraphStyle = id;
+    }
+  });
+
+  return sheet;
+}
+
+/**
+ * Read on/off properties such as w:b, where a missing w:val means "on".
+ */
+function readToggle(rPr: Element, localName: string): boolean | undefined {
+  const el = getChildNS(rPr, localName);
+  if (!el) return undefined;
+  const val = getVal(el);
+  return val === null || !['0', 'false', 'off', 'none'].includes(val);
+}
+
+function readRunProperties(rPr: Element, sheet: StyleSheet): RunProperties {
+  const props: RunProperties = {
+    bold: readToggle(rPr, 'b'),
+    italic: readToggle(rPr, 'i'),
+    underline: readToggle(rPr, 'u'),
+    strike: readToggle(rPr, 'strike') ?? readToggle(rPr, 'dstrike'),
+  };
+
+  const vertAlign = getVal(getChildNS(rPr, 'vertAlign'));
+  if (vertAlign !== null) {
+    props.vertAlign = vertAlign === 'superscript' || vertAlign === 'subscript' ? vertAlign : null;
+  }
+
+  const rFonts = getChildNS(rPr, 'rFonts');
+  if (rFonts) {
+    const font = rFonts.getAttributeNS(WORD_NS, 'ascii') || rFonts.getAttributeNS(WORD_NS, 'hAnsi');
+    const theme = rFonts.getAttributeNS(WORD_NS, 'asciiTheme') || rFonts.getAttributeNS(WORD_NS, 'hAnsiTheme');
+    if (font) {
+      props.font = font;
+    } else if (theme) {
+      props.font = theme.startsWith('major') ? sheet.themeFonts.major : sheet.themeFonts.minor;
+    }
+  }
+
+  const size = getVal(getChildNS(rPr, 'sz'));
+  if (size !== null && !isNaN(parseInt(size, 10))) props.size = parseInt(size, 10);
+
+  const color = getVal(getChildNS(rPr, 'color'));
+  if (color && /^[0-9a-f]{6}$/i.test(color)) props.color = `#${color.toLowerCase()}`;
+
+  const highlight = getVal(getChildNS(rPr, 'highlight'));
+  if (highlight !== null) props.highlight = HIGHLIGHT_COLORS[highlight] || '';
+
+  const fill = getChildNS(rPr, 'shd')?.getAttributeNS(WORD_NS, 'fill');
+  if (fill && /^[0-9a-f]{6}$/i.test(fill)) props.shading = `#${fill.toLowerCase()}`;
+
+  return props;
+}
+
+/**
+ * Layer run properties: values defined in `override` win over `base`.
+ */
+function mergeRunProperties(base: RunProperties, override: RunProperties): RunProperties {
+  const merged: RunProperties = { ...base };
+  (Object.keys(override) as (keyof RunProperties)[]).forEach(key => {
+    if (override[key] !== undefined) (merged as Record<string, unknown>)[key] = override[key];
+  });
+  return merged;
+}
+
+/**
+ * Resolve a style's run properties through its basedOn chain.
+ */
+function resolveStyle(styleId: string | null | undefined, sheet: StyleSheet, seen = new Set<string>()): RunProperties {
+  if (!styleId || seen.has(styleId)) return {};
+
+  const cached = sheet.resolved.get(styleId);
+  if (cached) return cached;
+
+  const style = sheet.styles.get(styleId);
+  if (!style) return {};
+
+  seen.add(styleId);
+  const base = resolveStyle(style.basedOn, sheet, seen);
+  const resolved = style.rPr ? mergeRunProperties(base, readRunProperties(style.rPr, sheet)) : base;
+  sheet.resolved.set(styleId, resolved);
+  return resolved;
+}
+
+/**
+ * Run properties every run in a paragraph starts from: document defaults + paragraph style.
+ */
+function getParagraphRunProperties(para: Element, sheet: StyleSheet): RunProperties {
+  const styleId = getVal(getChildNS(getChildNS(para, 'pPr'), 'pStyle')) || sheet.defaultParagraphStyle;
+  return mergeRunProperties(sheet.defaults, resolveStyle(styleId, sheet));
+}
+
+function resolvePartPath(target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = `word/${target}`.split('/');
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+}
+
+/**
+ * Load every image referenced by the document body so the HTML can be built synchronously.
+ */
+async function readImages(zip: JSZip, documentXml: Document, ctx: ImportContext): Promise<void> {
+  const ids = new Set<string>();
+  Array.from(documentXml.getElementsByTagNameNS(DRAWING_NS, 'blip')).forEach(blip => {
+    const id = blip.getAttributeNS(REL_NS, 'embed');
+    if (id) ids.add(id);
+  });
+  Array.from(documentXml.getElementsByTagNameNS(VML_NS, 'imagedata')).forEach(imageData => {
+    const id = imageData.getAttributeNS(REL_NS, 'id');
+    if (id) ids.add(id);
+  });
+
+  for (const id of ids) {
+    const rel = ctx.relationships.get(id);
+    if (!rel) continue;
+
+    if (rel.external) {
+      ctx.images.set(id, rel.target);
+      continue;
+    }
+
+    const path = resolvePartPath(rel.target);
+    const file = zip.file(path);
+    const fileName = path.split('/').pop() || path;
+    const mimeType = IMAGE_TYPES[fileName.split('.').pop()?.toLowerCase() || ''];
+
+    if (!file) {
+      warn(ctx, `Image "${fileName}" is missing from the document package`);
+      continue;
+    }
+    if (!mimeType) {
+      warn(ctx, `Image "${fileName}" was dropped: the format is not supported by browsers`);
+      continue;
+    }
+
+    if (ctx.options.uploadImage) {
+      try {
+        const blob = await file.async('blob');
+        ctx.images.set(id, await ctx.options.uploadImage(new Blob([blob], { type: mimeType }), fileName));
+        continue;
+      } catch (error) {
+        warn(ctx, `Image "${fileName}" could not be uploaded and was embedded instead: ${(error as Error).message}`);
       }
     }
+
+    ctx.images.set(id, `data:${mimeType};base64,${await file.async('base64')}`);
+  }
+}
+
+// =============================================================================
+// BLOCK CONTENT
+// =============================================================================
+
+interface OpenList {
+  tag: 'ul' | 'ol';
+  numId: string;
+  ilvl: number;
+}
+
+/**
+ * Convert a sequence of body-level elements (body, table cell, content control) to HTML.
+ */
+function parseBlocks(elements: Element[], ctx: ImportContext): string {
+  const htmlParts: string[] = [];
+  const lists: OpenList[] = [];
+  /** Items emitted so far per numId/ilvl, so interrupted lists keep counting */
+  const counters = new Map<string, number>();
+
+  const closeList = () => {
+    const list = lists.pop()!;
+    htmlParts.push(`</li></${list.tag}>`);
+  };
+
+  const closeAllLists = () => {
+    while (lists.length > 0) closeList();
+  };
+
+  elements.forEach(el => {
+    if (el.namespaceURI !== WORD_NS) return;
+
+    switch (el.localName) {
+      case 'p': {
+        const listInfo = ctx.options.preserveLists !== false ? detectList(el, ctx) : null;
+
+        if (!listInfo) {
+          closeAllLists();
+          htmlParts.push(parseParagraphBlock(el, ctx));
+          return;
+        }
+
+        const { numId, ilvl, tag } = listInfo;
+
+        // Page breaks end the list, which carries on counting after them
+        if (getChildNS(getChildNS(el, 'pPr'), 'pageBreakBefore')) {
+          closeAllLists();
+          htmlParts.push(PAGE_BREAK_HTML);
+        }
+
+        while (lists.length > 0 && lists[lists.length - 1].ilvl > ilvl) closeList();
+
+        const top = lists[lists.length - 1];
+        if (top && top.ilvl === ilvl && (top.numId !== numId || top.tag !== tag)) {
+          closeList();
+        } else if (top && top.ilvl === ilvl) {
+          htmlParts.push('</li>');
+        }
+
+        const current = lists[lists.length - 1];
+        if (!current || current.ilvl < ilvl) {
+          const key = `${numId}:${ilvl}`;
+          const start = listInfo.start + (counters.get(key) || 0);
+          htmlParts.push(tag === 'ol' && start !== 1 ? `<ol start="${start}">` : `<${tag}>`);
+          lists.push({ tag, numId, ilvl });
+        }
+
+        // A new item restarts the numbering of deeper levels
+        const key = `${numId}:${ilvl}`;
+        counters.set(key, (counters.get(key) || 0) + 1);
+        Array.from(counters.keys()).forEach(k => {
+          const [id, level] = k.split(':');
+          if (id === numId && parseInt(level, 10) > ilvl) counters.delete(k);
+        });
+
+        const content = parseParagraph(el, ctx);
+        htmlParts.push(`<li><p>${content.html}</p>`);
+        if (content.pageBreak) {
+          closeAllLists();
+          htmlParts.push(PAGE_BREAK_HTML);
+        }
+        return;
+      }
+
+      case 'tbl':
+        closeAllLists();
+        if (ctx.options.preserveTables === false) {
+          getElementsNS(el, 'p').forEach(p => htmlParts.push(parseParagraphBlock(p, ctx)));
+        } else {
+          htmlParts.push(parseTable(el, ctx));
+        }
+        return;
+
+      case 'sdt': {
+        // Content controls wrap regular content
+        const sdtContent = getChildNS(el, 'sdtContent');
+        if (sdtContent) {
+          closeAllLists();
+          htmlParts.push(parseBlocks(Array.from(sdtContent.children), ctx));
+        }
+        return;
+      }
+
+      case 'sectPr':
+      case 'bookmarkStart':
+      case 'bookmarkEnd':
+      case 'proofErr':
+      case 'permStart':
+      case 'permEnd':
+      case 'tblPr':
+      case 'tcPr':
+        return;
+
+      default:
+        warn(ctx, `Unsupported element <w:${el.localName}> was dropped`);
+    }
   });
-  
-  if (isInList) {
-    htmlParts.push(`</${listType}>`);
+
+  closeAllLists();
+  return htmlParts.filter(Boolean).join('\n');
+}
+
+function parseParagraphBlock(para: Element, ctx: ImportContext): string {
+  const pPr = getChildNS(para, 'pPr');
+  const content = parseParagraph(para, ctx);
+  const parts: string[] = [];
+
+  if (getChildNS(pPr, 'pageBreakBefore')) parts.push(PAGE_BREAK_HTML);
+
+  if (content.html.trim()) {
+    const tag = getHeadingTag(para) || 'p';
+    const style = getAlignment(para);
+    parts.push(`<${tag}${style}>${content.html}</${tag}>`);
   }
-  
-  return htmlParts.join('\n');
+
+  if (content.pageBreak) parts.push(PAGE_BREAK_HTML);
+
+  return parts.join('\n');
 }
 
-function detectList(para: Element): { type: 'ul' | 'ol' } | null {
-  const pPr = getElementsNS(para, 'pPr')[0];
-  if (!pPr) return null;
-  
-  const numPr = getElementsNS(pPr, 'numPr')[0];
+const PAGE_BREAK_HTML = '<div data-type="page-break"></div>';
+
+function detectList(para: Element, ctx: ImportContext): { tag: 'ul' | 'ol'; numId: string; ilvl: number; start: number } | null {
+  const pPr = getChildNS(para, 'pPr');
+  const numPr = getChildNS(pPr, 'numPr');
   if (!numPr) return null;
-  
-  const numId = getElementsNS(numPr, 'numId')[0];
-  if (!numId) return null;
-  
-  const val = numId.getAttributeNS(WORD_NS, 'val');
-  return { type: val && parseInt(val, 10) % 2 === 0 ? 'ul' : 'ol' };
+
+  const numId = getVal(getChildNS(numPr, 'numId'));
+  // numId 0 removes numbering inherited from a style
+  if (!numId || numId === '0') return null;
+
+  const ilvl = parseInt(getVal(getChildNS(numPr, 'ilvl')) || '0', 10);
+  const level = ctx.numbering.get(numId)?.get(ilvl);
+
+  if (!level) {
+    return { tag: 'ul', numId, ilvl, start: 1 };
+  }
+
+  const isBullet = level.format === 'bullet' || level.format === 'none';
+  return { tag: isBullet ? 'ul' : 'ol', numId, ilvl, start: level.start };
 }
 
 function getHeadingTag(para: Element): string | null {
-  const pPr = getElementsNS(para, 'pPr')[0];
+  const pPr = getChildNS(para, 'pPr');
   if (!pPr) return null;
   
-  const pStyle = getElementsNS(pPr, 'pStyle')[0];
+  const pStyle = getChildNS(pPr, 'pStyle');
   if (!pStyle) return null;
   
-  const styleVal = pStyle.getAttributeNS(WORD_NS, 'val');
+  const styleVal = getVal(pStyle);
   if (!styleVal) return null;
   
   const match = styleVal.match(/Heading(\d)/i);
@@ -126,60 +639,347 @@ function getHeadingTag(para: Element): string | null {
 }
 
 function getAlignment(para: Element): string {
-  const pPr = getElementsNS(para, 'pPr')[0];
+  const pPr = getChildNS(para, 'pPr');
   if (!pPr) return '';
   
-  const jc = getElementsNS(pPr, 'jc')[0];
+  const jc = getChildNS(pPr, 'jc');
   if (!jc) return '';
   
-  const val = jc.getAttributeNS(WORD_NS, 'val');
+  const val = getVal(jc);
   const map: Record<string, string> = {
-    left: 'left', center: 'center', right: 'right', 
+    left: 'left', start: 'left', center: 'center', right: 'right', end: 'right',
     both: 'justify', distribute: 'justify'
   };
   
   return val && map[val] ? ` style="text-align: ${map[val]};"` : '';
 }
 
-function parseParagraph(para: Element, options: WordImportOptions): string {
-  const runs = getElementsNS(para, 'r');
-  return runs.map(run => parseRun(run, options)).join('');
+// =============================================================================
+// TABLES
+// =============================================================================
+
+interface GridCell {
+  el: Element;
+  col: number;
+  colspan: number;
+  vMerge: 'restart' | 'continue' | null;
 }
 
-function parseRun(run: Element, options: WordImportOptions): string {
-  const textEls = getElementsNS(run, 't');
-  let text = textEls.map(t => t.textContent || '').join('');
-  
-  // Handle line breaks
-  const breaks = getElementsNS(run, 'br');
-  breaks.forEach(() => { text += '<br>'; });
-  
+function parseTable(tbl: Element, ctx: ImportContext): string {
+  const gridWidths = getChildrenNS(getChildNS(tbl, 'tblGrid') || tbl, 'gridCol')
+    .map(col => Math.round(parseInt(col.getAttributeNS(WORD_NS, 'w') || '0', 10) / TWIPS_PER_PX));
+
+  // Lay the cells out on the grid so vertical merges can be resolved
+  const rows: { el: Element; cells: GridCell[] }[] = getChildrenNS(tbl, 'tr').map(tr => {
+    const trPr = getChildNS(tr, 'trPr');
+    let col = parseInt(getVal(getChildNS(trPr, 'gridBefore')) || '0', 10);
+
+    const cells = getChildrenNS(tr, 'tc').map(tc => {
+      const tcPr = getChildNS(tc, 'tcPr');
+      const colspan = parseInt(getVal(getChildNS(tcPr, 'gridSpan')) || '1', 10);
+      const vMergeEl = getChildNS(tcPr, 'vMerge');
+      const vMerge = vMergeEl ? (getVal(vMergeEl) === 'restart' ? 'restart' : 'continue') : null;
+      const cell: GridCell = { el: tc, col, colspan, vMerge };
+      col += colspan;
+      return cell;
+    });
+
+    return { el: tr, cells };
+  });
+
+  if (getElementsNS(tbl, 'tbl').length > 0) {
+    warn(ctx, 'Nested tables were flattened into the paragraphs of their parent cell');
+  }
+
+  const htmlRows = rows.map((row, rowIndex) => {
+    const isHeader = !!getChildNS(getChildNS(row.el, 'trPr'), 'tblHeader');
+    const cellTag = isHeader ? 'th' : 'td';
+
+    const cells = row.cells.map(cell => {
+      if (cell.vMerge === 'continue') return '';
+
+      let rowspan = 1;
+      if (cell.vMerge === 'restart') {
+        for (let r = rowIndex + 1; r < rows.length; r++) {
+          const below = rows[r].cells.find(c => c.col === cell.col);
+          if (!below || below.vMerge !== 'continue') break;
+          rowspan++;
+        }
+      }
+
+      const attrs: string[] = [];
+      if (cell.colspan > 1) attrs.push(`colspan="${cell.colspan}"`);
+      if (rowspan > 1) attrs.push(`rowspan="${rowspan}"`);
+
+      const widths = gridWidths.slice(cell.col, cell.col + cell.colspan);
+      if (widths.length === cell.colspan && widths.every(w => w > 0)) {
+        attrs.push(`data-colwidth="${widths.join(',')}"`);
+      }
+
+      const styles = getCellStyles(cell.el);
+      if (styles) attrs.push(`style="${styles}"`);
+
+      const content = parseBlocks(flattenNestedTables(Array.from(cell.el.children)), ctx) || '<p></p>';
+
+      return `<${cellTag}${attrs.length ? ' ' + attrs.join(' ') : ''}>${content}</${cellTag}>`;
+    });
+
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  return `<table>${htmlRows.join('')}</table>`;
+}
+
+/**
+ * Replace nested tables in a cell with the paragraphs of their cells.
+ */
+function flattenNestedTables(elements: Element[]): Element[] {
+  return elements.flatMap(el => (el.namespaceURI === WORD_NS && el.localName === 'tbl' ? getElementsNS(el, 'p') : [el]));
+}
+
+function getCellStyles(tc: Element): string {
+  const tcPr = getChildNS(tc, 'tcPr');
+  if (!tcPr) return '';
+
+  const styles: string[] = [];
+
+  const fill = getChildNS(tcPr, 'shd')?.getAttributeNS(WORD_NS, 'fill');
+  if (fill && fill !== 'auto' && /^[0-9a-f]{6}$/i.test(fill)) {
+    styles.push(`background-color: #${fill.toLowerCase()}`);
+  }
+
+  const vAlign = getVal(getChildNS(tcPr, 'vAlign'));
+  const vAlignMap: Record<string, string> = { top: 'top', center: 'middle', bottom: 'bottom' };
+  if (vAlign && vAlignMap[vAlign]) {
+    styles.push(`vertical-align: ${vAlignMap[vAlign]}`);
+  }
+
+  return styles.join('; ');
+}
+
+// =============================================================================
+// INLINE CONTENT
+// =============================================================================
+
+interface InlineResult {
+  html: string;
+  pageBreak: boolean;
+  /** Run properties inherited from the document defaults and paragraph style */
+  runDefaults: RunProperties;
+}
+
+function parseParagraph(para: Element, ctx: ImportContext): InlineResult {
+  const result: InlineResult = {
+    html: '',
+    pageBreak: false,
+    runDefaults: getParagraphRunProperties(para, ctx.styles),
+  };
+  result.html = parseInlineChildren(para, ctx, result);
+  return result;
+}
+
+function parseInlineChildren(parent: Element, ctx: ImportContext, result: InlineResult): string {
+  return Array.from(parent.children).map(child => {
+    if (child.namespaceURI !== WORD_NS) {
+      if (child.localName === 'oMath' || child.localName === 'oMathPara') {
+        warn(ctx, 'Equations are not supported and were dropped');
+      } else {
+        warn(ctx, `Unsupported element <${child.nodeName}> was dropped`);
+      }
+      return '';
+    }
+
+    switch (child.localName) {
+      case 'r':
+        return parseRun(child, ctx, result);
+
+      case 'hyperlink': {
+        const content = parseInlineChildren(child, ctx, result);
+        const href = getHyperlinkTarget(child, ctx);
+        return href ? `<a href="${escapeHTML(href)}">${content}</a>` : content;
+      }
+
+      // Tracked insertions are kept, deletions dropped
+      case 'ins':
+      case 'moveTo':
+      case 'smartTag':
+      case 'fldSimple':
+      case 'customXml':
+        return parseInlineChildren(child, ctx, result);
+
+      case 'sdt': {
+        const sdtContent = getChildNS(child, 'sdtContent');
+        return sdtContent ? parseInlineChildren(sdtContent, ctx, result) : '';
+      }
+
+      case 'del':
+      case 'moveFrom':
+        warn(ctx, 'Tracked deletions were dropped');
+        return '';
+
+      case 'pPr':
+      case 'bookmarkStart':
+      case 'bookmarkEnd':
+      case 'proofErr':
+      case 'permStart':
+      case 'permEnd':
+      case 'commentRangeStart':
+      case 'commentRangeEnd':
+      case 'moveFromRangeStart':
+      case 'moveFromRangeEnd':
+      case 'moveToRangeStart':
+      case 'moveToRangeEnd':
+        return '';
+
+      default:
+        warn(ctx, `Unsupported element <w:${child.localName}> was dropped`);
+        return '';
+    }
+  }).join('');
+}
+
+function getHyperlinkTarget(hyperlink: Element, ctx: ImportContext): string | null {
+  const id = hyperlink.getAttributeNS(REL_NS, 'id');
+  const anchor = hyperlink.getAttributeNS(WORD_NS, 'anchor');
+
+  if (id) {
+    const rel = ctx.relationships.get(id);
+    if (!rel) {
+      warn(ctx, 'A hyperlink pointed to a missing relationship and was kept as plain text');
+      return null;
+    }
+    if (!normalizeLinkHref(rel.target)) {
+      warn(ctx, 'A hyperlink to a script or data address was kept as plain text');
+      return null;
+    }
+    return anchor ? `${rel.target}#${anchor}` : rel.target;
+  }
+
+  return anchor ? `#${anchor}` : null;
+}
+
+function parseRun(run: Element, ctx: ImportContext, result: InlineResult): string {
+  let text = '';
+
+  Array.from(run.children).forEach(child => {
+    if (child.namespaceURI !== WORD_NS) {
+      warn(ctx, `Unsupported element <${child.nodeName}> was dropped`);
+      return;
+    }
+
+    switch (child.localName) {
+      case 't':
+        text += escapeHTML(child.textContent || '');
+        break;
+      case 'tab':
+        text += '&emsp;';
+        break;
+      case 'br':
+      case 'cr': {
+        const type = child.getAttributeNS(WORD_NS, 'type');
+        if (type === 'page') {
+          result.pageBreak = true;
+        } else {
+          text += '<br>';
+        }
+        break;
+      }
+      case 'noBreakHyphen':
+        text += '&#8209;';
+        break;
+      case 'drawing':
+      case 'pict':
+        text += parseImage(child, ctx);
+        break;
+      case 'object':
+        warn(ctx, 'Embedded objects (OLE) are not supported and were dropped');
+        break;
+      case 'footnoteReference':
+      case 'endnoteReference':
+        warn(ctx, 'Footnotes and endnotes are not supported and were dropped');
+        break;
+      case 'commentReference':
+        warn(ctx, 'Comments are not supported and were dropped');
+        break;
+      // Formatting, layout hints and field codes (the field result is in the following runs)
+      case 'rPr':
+      case 'lastRenderedPageBreak':
+      case 'softHyphen':
+      case 'fldChar':
+      case 'instrText':
+        break;
+      default:
+        warn(ctx, `Unsupported element <w:${child.localName}> was dropped`);
+    }
+  });
+
   if (!text) return '';
   
-  if (options.preserveStyles !== false) {
-    text = applyFormatting(run, text);
+  if (ctx.options.preserveStyles !== false) {
+    text = applyFormatting(run, text, result.runDefaults, ctx.styles);
   }
   
   return text;
 }
 
-function applyFormatting(run: Element, text: string): string {
-  const rPr = getElementsNS(run, 'rPr')[0];
-  if (!rPr) return text;
+function parseImage(el: Element, ctx: ImportContext): string {
+  const blip = el.getElementsByTagNameNS(DRAWING_NS, 'blip')[0];
+  const imageData = el.getElementsByTagNameNS(VML_NS, 'imagedata')[0];
+  const id = blip?.getAttributeNS(REL_NS, 'embed') || imageData?.getAttributeNS(REL_NS, 'id');
+
+  if (!id) {
+    warn(ctx, 'Shapes, charts and text boxes are not supported and were dropped');
+    return '';
+  }
+
+  if (ctx.options.preserveImages === false) return '';
+
+  const src = ctx.images.get(id);
+  if (!src) return '';
+
+  const attrs: string[] = [`src="${escapeHTML(src)}"`];
+
+  const docPr = el.getElementsByTagNameNS(WP_NS, 'docPr')[0];
+  const alt = docPr?.getAttribute('descr');
+  const title = docPr?.getAttribute('title');
+  if (alt) attrs.push(`alt="${escapeHTML(alt)}"`);
+  if (title) attrs.push(`title="${escapeHTML(title)}"`);
+
+  const extent = el.getElementsByTagNameNS(WP_NS, 'extent')[0];
+  if (extent) {
+    const width = Math.round(parseInt(extent.getAttribute('cx') || '0', 10) / EMU_PER_PX);
+    const height = Math.round(parseInt(extent.getAttribute('cy') || '0', 10) / EMU_PER_PX);
+    if (width > 0) attrs.push(`width="${width}"`);
+    if (height > 0) attrs.push(`height="${height}"`);
+  }
+
+  return `<img ${attrs.join(' ')}>`;
+}
+
+function applyFormatting(run: Element, text: string, runDefaults: RunProperties, sheet: StyleSheet): string {
+  const rPr = getChildNS(run, 'rPr');
+  const characterStyle = resolveStyle(getVal(getChildNS(rPr, 'rStyle')), sheet);
+  let props = mergeRunProperties(runDefaults, characterStyle);
+  if (rPr) props = mergeRunProperties(props, readRunProperties(rPr, sheet));
   
   let result = text;
   
-  if (getElementsNS(rPr, 'b').length > 0) result = `<strong>${result}</strong>`;
-  if (getElementsNS(rPr, 'i').length > 0) result = `<em>${result}</em>`;
-  if (getElementsNS(rPr, 'u').length > 0) result = `<u>${result}</u>`;
-  if (getElementsNS(rPr, 'strike').length > 0) result = `<s>${result}</s>`;
+  if (props.bold) result = `<strong>${result}</strong>`;
+  if (props.italic) result = `<em>${result}</em>`;
+  if (props.underline) result = `<u>${result}</u>`;
+  if (props.strike) result = `<s>${result}</s>`;
   
-  const vertAlign = getElementsNS(rPr, 'vertAlign')[0];
-  if (vertAlign) {
-    const val = vertAlign.getAttributeNS(WORD_NS, 'val');
-    if (val === 'superscript') result = `<sup>${result}</sup>`;
-    else if (val === 'subscript') result = `<sub>${result}</sub>`;
-  }
+  if (props.vertAlign === 'superscript') result = `<sup>${result}</sup>`;
+  else if (props.vertAlign === 'subscript') result = `<sub>${result}</sub>`;
+  
+  if (props.highlight) result = `<span data-highlight="${props.highlight}">${result}</span>`;
+  
+  const styles: string[] = [];
+  if (props.font) styles.push(`font-family: '${escapeHTML(props.font)}'`);
+  if (props.size) styles.push(`font-size: ${props.size / 2}pt`);
+  if (props.color) styles.push(`color: ${props.color}`);
+  if (props.shading && !props.highlight) styles.push(`background-color: ${props.shading}`);
+  if (styles.length > 0) result = `<span style="${styles.join('; ')}">${result}</span>`;
   
   return result;
 }
@@ -215,8 +1015,22 @@ export async function parseWordDocument(
   const docXmlContent = await docFile.async('string');
   const documentXml = parseXML(docXmlContent);
   
+  const ctx: ImportContext = {
+    options,
+    relationships: await readRelationships(zip),
+    styles: await readStyles(zip),
+    numbering: await readNumbering(zip),
+    images: new Map(),
+    warnings: new Set(),
+  };
+  
+  if (options.preserveImages !== false) {
+    await readImages(zip, documentXml, ctx);
+  }
+  
   // Parse content
-  const html = parseDocumentContent(documentXml, options);
+  const body = getElementsNS(documentXml, 'body')[0];
+  const html = body ? parseBlocks(Array.from(body.children), ctx) : '';
   
   // Extract plain text
   const tempDiv = document.createElement('div');
@@ -236,7 +1050,7 @@ export async function parseWordDocument(
     }
   } catch { /* ignore metadata errors */ }
   
-  return { html, text, metadata, warnings: [] };
+  return { html, text, metadata, warnings: Array.from(ctx.warnings) };
 }
 
 /**
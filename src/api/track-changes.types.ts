@@ -0,0 +1,40 @@
+/**
+ * Track Changes Type Definitions
+ * Public types for suggestion mode (tracked insertions and deletions).
+ * DO NOT expose any ProseMirror types here.
+ */
+
+/**
+ * Kind of tracked change.
+ */
+export type TrackedChangeType = 'insertion' | 'deletion';
+
+/**
+ * A pending suggestion in the document.
+ */
+export interface TrackedChange {
+  /** Change identifier (shared by all text of one suggestion) */
+  id: string;
+  /** Whether text was suggested for insertion or deletion */
+  type: TrackedChangeType;
+  /** Display name of the author */
+  author: string;
+  /** Creation time (milliseconds since epoch) */
+  date: number;
+  /** Start of the affected range */
+  from: number;
+  /** End of the affected range */
+  to: number;
+  /** Affected text */
+  text: string;
+}
+
+/**
+ * Track changes configuration for the editor.
+ */
+export interface TrackChangesConfig {
+  /** Start in suggesting mode (default: false) */
+  enabled?: boolean;
+  /** Author name recorded on new suggestions */
+  author?: string;
+}
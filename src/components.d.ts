@@ -5,23 +5,63 @@
  * It contains typing information for all components that exist in this project.
  */
 import { HTMLStencilElement, JSXBase } from "@stencil/core/internal";
+import { ErixEditorAPI } from "./api/editor-api";
 import { ButtonSize, ButtonVariant } from "./components/ui/erix-button/erix-button.types";
+import { CommentThread } from "./api/comments.types";
 import { DividerOrientation, DividerSize } from "./components/ui/erix-divider/erix-divider";
 import { DropdownPosition } from "./components/ui/erix-dropdown/erix-dropdown";
-import { EditorConfig, ErixEditorAPI, ErixPluginConfig, ToolbarItem } from "./api/index";
+import { EditorConfig, ErixEditorAPI as ErixEditorAPI1, ErixPluginConfig, ToolbarItem } from "./api/index";
+import { ErixExtension, TableAttrs } from "./core/index";
+import { SearchOptions } from "./api/search.types";
 import { IconName } from "./components/ui/erix-icon/icons";
 import { PopoverPlacement } from "./components/ui/erix-popover/erix-popover";
 import { SelectOption, SelectWidth } from "./components/ui/erix-select/erix-select";
+import { RegisteredPlugin } from "./api/plugin-registry.types";
 import { EditorView } from "prosemirror-view";
+export { ErixEditorAPI } from "./api/editor-api";
 export { ButtonSize, ButtonVariant } from "./components/ui/erix-button/erix-button.types";
+export { CommentThread } from "./api/comments.types";
 export { DividerOrientation, DividerSize } from "./components/ui/erix-divider/erix-divider";
 export { DropdownPosition } from "./components/ui/erix-dropdown/erix-dropdown";
-export { EditorConfig, ErixEditorAPI, ErixPluginConfig, ToolbarItem } from "./api/index";
+export { EditorConfig, ErixEditorAPI as ErixEditorAPI1, ErixPluginConfig, ToolbarItem } from "./api/index";
+export { ErixExtension, TableAttrs } from "./core/index";
+export { SearchOptions } from "./api/search.types";
 export { IconName } from "./components/ui/erix-icon/icons";
 export { PopoverPlacement } from "./components/ui/erix-popover/erix-popover";
 export { SelectOption, SelectWidth } from "./components/ui/erix-select/erix-select";
+export { RegisteredPlugin } from "./api/plugin-registry.types";
 export { EditorView } from "prosemirror-view";
 export namespace Components {
+    /**
+     * @component ErixBlockToolbar
+     * Handle shown beside the current block.
+     * Opens a menu of every registry plugin with `toolbar.showInBlock`.
+     */
+    interface ErixBlockToolbar {
+        /**
+          * Editor API used to list, query and run plugins
+         */
+        "api"?: ErixEditorAPI;
+        /**
+          * Re-read plugin active/enabled state.
+         */
+        "update": () => Promise<void>;
+    }
+    /**
+     * @component ErixBubbleToolbar
+     * Floating toolbar shown over a text selection.
+     * Renders every registry plugin with `toolbar.showInBubble`.
+     */
+    interface ErixBubbleToolbar {
+        /**
+          * Editor API used to list, query and run plugins
+         */
+        "api"?: ErixEditorAPI;
+        /**
+          * Re-read plugin active/enabled state.
+         */
+        "update": () => Promise<void>;
+    }
     /**
      * @component ErixButton
      * A reusable button component for the editor toolbar and UI.
@@ -53,6 +93,58 @@ export namespace Components {
          */
         "variant": ButtonVariant;
     }
+    /**
+     * @component ErixColorPalette
+     * A grid of color swatches with recent colors and a custom hex input.
+     */
+    interface ErixColorPalette {
+        /**
+          * Label of the button that removes the color
+          * @default 'None'
+         */
+        "clearLabel": string;
+        /**
+          * Swatches to show (default: a 32-color palette)
+         */
+        "colors"?: string[];
+        /**
+          * Recently used colors, most recent first
+          * @default []
+         */
+        "recentColors": string[];
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme": 'light' | 'dark' | string;
+        /**
+          * Color of the selection ('' when none is set)
+          * @default ''
+         */
+        "value": string;
+    }
+    /**
+     * @component ErixCommentsPanel
+     * Side panel listing the document's comment threads.
+     * Displays threads in document order with replies and resolve/delete actions.
+     */
+    interface ErixCommentsPanel {
+        /**
+          * Id of the thread under the editor cursor
+          * @default null
+         */
+        "activeCommentId": string | null;
+        /**
+          * Comment threads to display
+          * @default []
+         */
+        "comments": CommentThread[];
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme": 'light' | 'dark' | string;
+    }
     /**
      * @component ErixDivider
      * A visual separator for toolbar groups and sections.
@@ -117,7 +209,16 @@ export namespace Components {
          */
         "defaultFontSize": string;
         "disabledPlugins"?: string[];
+        /**
+          * Custom nodes, marks, plugins, keymaps and input rules; read once when the editor is created
+         */
+        "extensions"?: ErixExtension[];
         "getAPI": () => Promise<ErixEditorAPI>;
+        /**
+          * 'page' shows the document as sheets of the `config.print` page size, with page gaps
+          * @default 'continuous'
+         */
+        "layout": 'continuous' | 'page';
         /**
           * @default 'Start typing...'
          */
@@ -132,6 +233,52 @@ export namespace Components {
          */
         "theme": 'light' | 'dark' | string;
     }
+    /**
+     * @component ErixFindPanel
+     * Floating find & replace bar shown over the editor content.
+     * Holds the inputs only; searching is done by the editor.
+     */
+    interface ErixFindPanel {
+        /**
+          * Index of the current match, -1 when there is none
+          * @default -1
+         */
+        "currentMatch": number;
+        /**
+          * Error for an invalid regular expression
+          * @default null
+         */
+        "error": string | null;
+        /**
+          * Focus and select the query input.
+         */
+        "focusInput": () => Promise<void>;
+        /**
+          * Number of matches
+          * @default 0
+         */
+        "matchCount": number;
+        /**
+          * Show only the find row, or the replace row as well
+          * @default 'find'
+         */
+        "mode": 'find' | 'replace';
+        /**
+          * Current search options
+          * @default {}
+         */
+        "options": SearchOptions;
+        /**
+          * Current search query
+          * @default ''
+         */
+        "query": string;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme": 'light' | 'dark' | string;
+    }
     interface ErixIcon {
         /**
           * The name of the semantic editor icon.
@@ -143,10 +290,52 @@ export namespace Components {
          */
         "size": number;
     }
+    /**
+     * @component ErixLinkPopover
+     * Shows the link under the cursor (open, copy, edit, remove) or a form
+     * to edit its address, title and target. Links are applied by the editor.
+     */
+    interface ErixLinkPopover {
+        /**
+          * Position of the link or selection
+         */
+        "anchorRect"?: DOMRect;
+        /**
+          * Address of the current link (empty for a new link)
+          * @default ''
+         */
+        "href": string;
+        /**
+          * Title of the current link
+          * @default ''
+         */
+        "linkTitle": string;
+        /**
+          * Show the link, or the form to edit it
+          * @default 'view'
+         */
+        "mode": 'view' | 'edit';
+        /**
+          * Whether the popover is visible
+          * @default false
+         */
+        "open": boolean;
+        /**
+          * Target of the current link
+          * @default '_blank'
+         */
+        "target": string | null;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme": 'light' | 'dark' | string;
+    }
     /**
      * @component ErixPopover
      * A smart popover component with auto-positioning.
-     * Appends content to body for proper positioning.
+     * Appends content to body for proper positioning, or renders it in place
+     * when `portal` is false so slotted content stays interactive.
      * Automatically flips position when there's not enough space.
      */
     interface ErixPopover {
@@ -178,6 +367,11 @@ export namespace Components {
           * @default 'top'
          */
         "placement": PopoverPlacement;
+        /**
+          * Clone content into a body-level portal. When false, the slot is rendered in place with fixed positioning and keeps its event listeners.
+          * @default true
+         */
+        "portal": boolean;
         /**
           * Open the popover at a specific anchor rect
          */
@@ -227,10 +421,41 @@ export namespace Components {
          */
         "width": SelectWidth;
     }
+    /**
+     * @component ErixSlashMenu
+     * Filterable block menu opened by typing "/" in an empty paragraph.
+     * Keyboard navigation is handled by the editor; this component only renders.
+     */
+    interface ErixSlashMenu {
+        /**
+          * Position of the "/" character
+         */
+        "anchorRect"?: DOMRect;
+        /**
+          * Plugins matching the typed filter
+          * @default []
+         */
+        "items": RegisteredPlugin[];
+        /**
+          * Whether the menu is visible
+          * @default false
+         */
+        "open": boolean;
+        /**
+          * Index of the highlighted item
+          * @default 0
+         */
+        "selectedIndex": number;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme": 'light' | 'dark' | string;
+    }
     /**
      * @component ErixStatusBar
      * A Word-like status bar component positioned at the bottom of the editor.
-     * Displays word/character count and theme toggle.
+     * Displays the page (in page layout), word/character count and theme toggle.
      */
     interface ErixStatusBar {
         /**
@@ -238,6 +463,16 @@ export namespace Components {
           * @default 0
          */
         "characterCount": number;
+        /**
+          * Page of the selection in page layout (0 when not paginated)
+          * @default 0
+         */
+        "currentPage": number;
+        /**
+          * Number of pages in page layout (0 when not paginated)
+          * @default 0
+         */
+        "pageCount": number;
         /**
           * Current theme
           * @default 'light'
@@ -259,18 +494,48 @@ export namespace Components {
          */
         "rows": number;
     }
+    /**
+     * @component ErixTableProperties
+     * A form for the border, width, cell padding and cell spacing of a table,
+     * with a preview of the result. The table is updated by the table toolbar.
+     */
+    interface ErixTableProperties {
+        /**
+          * Position to show the popover at
+         */
+        "anchorRect"?: DOMRect;
+        /**
+          * Whether the popover is visible
+          * @default false
+         */
+        "open": boolean;
+        /**
+          * Attributes of the table being edited
+          * @default null
+         */
+        "tableAttrs": TableAttrs | null;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme": 'light' | 'dark' | string;
+    }
     interface ErixTableToolbar {
         "update": () => Promise<void>;
         "view"?: EditorView;
     }
     /**
      * @component ErixToolbar
-     * Dynamic toolbar that renders plugins based on configuration.
-     * Only shows plugins that are configured - no static buttons.
+     * Dynamic toolbar that renders plugins from the editor's plugin registry.
+     * Shows the configured items, or every `showInToolbar` plugin when none are configured.
      */
     interface ErixToolbar {
         /**
-          * Toolbar items to display. Array of plugin IDs. Use '|' for separator (only shown between different groups). Example: ['bold', 'italic', '|', 'bullet-list', 'ordered-list']
+          * Editor API whose plugin registry provides the toolbar items
+         */
+        "api"?: ErixEditorAPI;
+        /**
+          * Toolbar items to display. Array of plugin IDs. Use '|' for separator (only shown between different groups). Example: ['bold', 'italic', '|', 'bullet-list', 'ordered-list'] When empty, all enabled plugins with `showInToolbar` are shown.
           * @default []
          */
         "items": ToolbarItem[];
@@ -298,10 +563,30 @@ export interface ErixButtonCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLErixButtonElement;
 }
+export interface ErixColorPaletteCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLErixColorPaletteElement;
+}
+export interface ErixCommentsPanelCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLErixCommentsPanelElement;
+}
+export interface ErixFindPanelCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLErixFindPanelElement;
+}
+export interface ErixLinkPopoverCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLErixLinkPopoverElement;
+}
 export interface ErixSelectCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLErixSelectElement;
 }
+export interface ErixSlashMenuCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLErixSlashMenuElement;
+}
 export interface ErixStatusBarCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLErixStatusBarElement;
@@ -310,11 +595,37 @@ export interface ErixTablePickerCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLErixTablePickerElement;
 }
+export interface ErixTablePropertiesCustomEvent<T> extends CustomEvent<T> {
+    detail: T;
+    target: HTMLErixTablePropertiesElement;
+}
 export interface ErixToolbarCustomEvent<T> extends CustomEvent<T> {
     detail: T;
     target: HTMLErixToolbarElement;
 }
 declare global {
+    /**
+     * @component ErixBlockToolbar
+     * Handle shown beside the current block.
+     * Opens a menu of every registry plugin with `toolbar.showInBlock`.
+     */
+    interface HTMLErixBlockToolbarElement extends Components.ErixBlockToolbar, HTMLStencilElement {
+    }
+    var HTMLErixBlockToolbarElement: {
+        prototype: HTMLErixBlockToolbarElement;
+        new (): HTMLErixBlockToolbarElement;
+    };
+    /**
+     * @component ErixBubbleToolbar
+     * Floating toolbar shown over a text selection.
+     * Renders every registry plugin with `toolbar.showInBubble`.
+     */
+    interface HTMLErixBubbleToolbarElement extends Components.ErixBubbleToolbar, HTMLStencilElement {
+    }
+    var HTMLErixBubbleToolbarElement: {
+        prototype: HTMLErixBubbleToolbarElement;
+        new (): HTMLErixBubbleToolbarElement;
+    };
     interface HTMLErixButtonElementEventMap {
         "erixClick": MouseEvent;
     }
@@ -336,6 +647,52 @@ declare global {
         prototype: HTMLErixButtonElement;
         new (): HTMLErixButtonElement;
     };
+    interface HTMLErixColorPaletteElementEventMap {
+        "colorSelect": string;
+    }
+    /**
+     * @component ErixColorPalette
+     * A grid of color swatches with recent colors and a custom hex input.
+     */
+    interface HTMLErixColorPaletteElement extends Components.ErixColorPalette, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLErixColorPaletteElementEventMap>(type: K, listener: (this: HTMLErixColorPaletteElement, ev: ErixColorPaletteCustomEvent<HTMLErixColorPaletteElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLErixColorPaletteElementEventMap>(type: K, listener: (this: HTMLErixColorPaletteElement, ev: ErixColorPaletteCustomEvent<HTMLErixColorPaletteElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLErixColorPaletteElement: {
+        prototype: HTMLErixColorPaletteElement;
+        new (): HTMLErixColorPaletteElement;
+    };
+    interface HTMLErixCommentsPanelElementEventMap {
+        "commentSelect": string;
+        "commentResolve": { id: string; resolved: boolean };
+        "commentDelete": string;
+        "commentReply": { id: string; text: string };
+    }
+    /**
+     * @component ErixCommentsPanel
+     * Side panel listing the document's comment threads.
+     * Displays threads in document order with replies and resolve/delete actions.
+     */
+    interface HTMLErixCommentsPanelElement extends Components.ErixCommentsPanel, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLErixCommentsPanelElementEventMap>(type: K, listener: (this: HTMLErixCommentsPanelElement, ev: ErixCommentsPanelCustomEvent<HTMLErixCommentsPanelElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLErixCommentsPanelElementEventMap>(type: K, listener: (this: HTMLErixCommentsPanelElement, ev: ErixCommentsPanelCustomEvent<HTMLErixCommentsPanelElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLErixCommentsPanelElement: {
+        prototype: HTMLErixCommentsPanelElement;
+        new (): HTMLErixCommentsPanelElement;
+    };
     /**
      * @component ErixDivider
      * A visual separator for toolbar groups and sections.
@@ -367,16 +724,69 @@ declare global {
         prototype: HTMLErixEditorElement;
         new (): HTMLErixEditorElement;
     };
+    interface HTMLErixFindPanelElementEventMap {
+        "searchChange": { query: string; options: SearchOptions };
+        "searchNavigate": 1 | -1;
+        "searchReplace": string;
+        "searchReplaceAll": string;
+        "searchModeChange": 'find' | 'replace';
+        "searchClose": void;
+    }
+    /**
+     * @component ErixFindPanel
+     * Floating find & replace bar shown over the editor content.
+     * Holds the inputs only; searching is done by the editor.
+     */
+    interface HTMLErixFindPanelElement extends Components.ErixFindPanel, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLErixFindPanelElementEventMap>(type: K, listener: (this: HTMLErixFindPanelElement, ev: ErixFindPanelCustomEvent<HTMLErixFindPanelElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLErixFindPanelElementEventMap>(type: K, listener: (this: HTMLErixFindPanelElement, ev: ErixFindPanelCustomEvent<HTMLErixFindPanelElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLErixFindPanelElement: {
+        prototype: HTMLErixFindPanelElement;
+        new (): HTMLErixFindPanelElement;
+    };
     interface HTMLErixIconElement extends Components.ErixIcon, HTMLStencilElement {
     }
     var HTMLErixIconElement: {
         prototype: HTMLErixIconElement;
         new (): HTMLErixIconElement;
     };
+    interface HTMLErixLinkPopoverElementEventMap {
+        "linkApply": { href: string; title: string | null; target: string | null };
+        "linkRemove": void;
+        "linkEdit": void;
+        "linkClose": void;
+    }
+    /**
+     * @component ErixLinkPopover
+     * Shows the link under the cursor (open, copy, edit, remove) or a form
+     * to edit its address, title and target. Links are applied by the editor.
+     */
+    interface HTMLErixLinkPopoverElement extends Components.ErixLinkPopover, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLErixLinkPopoverElementEventMap>(type: K, listener: (this: HTMLErixLinkPopoverElement, ev: ErixLinkPopoverCustomEvent<HTMLErixLinkPopoverElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLErixLinkPopoverElementEventMap>(type: K, listener: (this: HTMLErixLinkPopoverElement, ev: ErixLinkPopoverCustomEvent<HTMLErixLinkPopoverElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLErixLinkPopoverElement: {
+        prototype: HTMLErixLinkPopoverElement;
+        new (): HTMLErixLinkPopoverElement;
+    };
     /**
      * @component ErixPopover
      * A smart popover component with auto-positioning.
-     * Appends content to body for proper positioning.
+     * Appends content to body for proper positioning, or renders it in place
+     * when `portal` is false so slotted content stays interactive.
      * Automatically flips position when there's not enough space.
      */
     interface HTMLErixPopoverElement extends Components.ErixPopover, HTMLStencilElement {
@@ -406,13 +816,36 @@ declare global {
         prototype: HTMLErixSelectElement;
         new (): HTMLErixSelectElement;
     };
+    interface HTMLErixSlashMenuElementEventMap {
+        "slashSelect": number;
+        "slashHighlight": number;
+    }
+    /**
+     * @component ErixSlashMenu
+     * Filterable block menu opened by typing "/" in an empty paragraph.
+     * Keyboard navigation is handled by the editor; this component only renders.
+     */
+    interface HTMLErixSlashMenuElement extends Components.ErixSlashMenu, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLErixSlashMenuElementEventMap>(type: K, listener: (this: HTMLErixSlashMenuElement, ev: ErixSlashMenuCustomEvent<HTMLErixSlashMenuElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLErixSlashMenuElementEventMap>(type: K, listener: (this: HTMLErixSlashMenuElement, ev: ErixSlashMenuCustomEvent<HTMLErixSlashMenuElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLErixSlashMenuElement: {
+        prototype: HTMLErixSlashMenuElement;
+        new (): HTMLErixSlashMenuElement;
+    };
     interface HTMLErixStatusBarElementEventMap {
         "themeToggle": void;
     }
     /**
      * @component ErixStatusBar
      * A Word-like status bar component positioned at the bottom of the editor.
-     * Displays word/character count and theme toggle.
+     * Displays the page (in page layout), word/character count and theme toggle.
      */
     interface HTMLErixStatusBarElement extends Components.ErixStatusBar, HTMLStencilElement {
         addEventListener<K extends keyof HTMLErixStatusBarElementEventMap>(type: K, listener: (this: HTMLErixStatusBarElement, ev: ErixStatusBarCustomEvent<HTMLErixStatusBarElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
@@ -445,6 +878,29 @@ declare global {
         prototype: HTMLErixTablePickerElement;
         new (): HTMLErixTablePickerElement;
     };
+    interface HTMLErixTablePropertiesElementEventMap {
+        "tablePropertiesApply": TableAttrs;
+        "tablePropertiesClose": void;
+    }
+    /**
+     * @component ErixTableProperties
+     * A form for the border, width, cell padding and cell spacing of a table,
+     * with a preview of the result. The table is updated by the table toolbar.
+     */
+    interface HTMLErixTablePropertiesElement extends Components.ErixTableProperties, HTMLStencilElement {
+        addEventListener<K extends keyof HTMLErixTablePropertiesElementEventMap>(type: K, listener: (this: HTMLErixTablePropertiesElement, ev: ErixTablePropertiesCustomEvent<HTMLErixTablePropertiesElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | AddEventListenerOptions): void;
+        addEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | AddEventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLErixTablePropertiesElementEventMap>(type: K, listener: (this: HTMLErixTablePropertiesElement, ev: ErixTablePropertiesCustomEvent<HTMLErixTablePropertiesElementEventMap[K]>) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof DocumentEventMap>(type: K, listener: (this: Document, ev: DocumentEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener<K extends keyof HTMLElementEventMap>(type: K, listener: (this: HTMLElement, ev: HTMLElementEventMap[K]) => any, options?: boolean | EventListenerOptions): void;
+        removeEventListener(type: string, listener: EventListenerOrEventListenerObject, options?: boolean | EventListenerOptions): void;
+    }
+    var HTMLErixTablePropertiesElement: {
+        prototype: HTMLErixTablePropertiesElement;
+        new (): HTMLErixTablePropertiesElement;
+    };
     interface HTMLErixTableToolbarElement extends Components.ErixTableToolbar, HTMLStencilElement {
     }
     var HTMLErixTableToolbarElement: {
@@ -456,8 +912,8 @@ declare global {
     }
     /**
      * @component ErixToolbar
-     * Dynamic toolbar that renders plugins based on configuration.
-     * Only shows plugins that are configured - no static buttons.
+     * Dynamic toolbar that renders plugins from the editor's plugin registry.
+     * Shows the configured items, or every `showInToolbar` plugin when none are configured.
      */
     interface HTMLErixToolbarElement extends Components.ErixToolbar, HTMLStencilElement {
         addEventListener<K extends keyof HTMLErixToolbarElementEventMap>(type: K, listener: (this: HTMLErixToolbarElement, ev: ErixToolbarCustomEvent<HTMLErixToolbarElementEventMap[K]>) => any, options?: boolean | AddEventListenerOptions): void;
@@ -474,20 +930,50 @@ declare global {
         new (): HTMLErixToolbarElement;
     };
     interface HTMLElementTagNameMap {
+        "erix-block-toolbar": HTMLErixBlockToolbarElement;
+        "erix-bubble-toolbar": HTMLErixBubbleToolbarElement;
         "erix-button": HTMLErixButtonElement;
+        "erix-color-palette": HTMLErixColorPaletteElement;
+        "erix-comments-panel": HTMLErixCommentsPanelElement;
         "erix-divider": HTMLErixDividerElement;
         "erix-dropdown": HTMLErixDropdownElement;
         "erix-editor": HTMLErixEditorElement;
+        "erix-find-panel": HTMLErixFindPanelElement;
         "erix-icon": HTMLErixIconElement;
+        "erix-link-popover": HTMLErixLinkPopoverElement;
         "erix-popover": HTMLErixPopoverElement;
         "erix-select": HTMLErixSelectElement;
+        "erix-slash-menu": HTMLErixSlashMenuElement;
         "erix-status-bar": HTMLErixStatusBarElement;
         "erix-table-picker": HTMLErixTablePickerElement;
+        "erix-table-properties": HTMLErixTablePropertiesElement;
         "erix-table-toolbar": HTMLErixTableToolbarElement;
         "erix-toolbar": HTMLErixToolbarElement;
     }
 }
 declare namespace LocalJSX {
+    /**
+     * @component ErixBlockToolbar
+     * Handle shown beside the current block.
+     * Opens a menu of every registry plugin with `toolbar.showInBlock`.
+     */
+    interface ErixBlockToolbar {
+        /**
+          * Editor API used to list, query and run plugins
+         */
+        "api"?: ErixEditorAPI;
+    }
+    /**
+     * @component ErixBubbleToolbar
+     * Floating toolbar shown over a text selection.
+     * Renders every registry plugin with `toolbar.showInBubble`.
+     */
+    interface ErixBubbleToolbar {
+        /**
+          * Editor API used to list, query and run plugins
+         */
+        "api"?: ErixEditorAPI;
+    }
     /**
      * @component ErixButton
      * A reusable button component for the editor toolbar and UI.
@@ -523,6 +1009,78 @@ declare namespace LocalJSX {
          */
         "variant"?: ButtonVariant;
     }
+    /**
+     * @component ErixColorPalette
+     * A grid of color swatches with recent colors and a custom hex input.
+     */
+    interface ErixColorPalette {
+        /**
+          * Label of the button that removes the color
+          * @default 'None'
+         */
+        "clearLabel"?: string;
+        /**
+          * Swatches to show (default: a 32-color palette)
+         */
+        "colors"?: string[];
+        /**
+          * Event emitted when a color is picked ('' removes the color)
+         */
+        "onColorSelect"?: (event: ErixColorPaletteCustomEvent<string>) => void;
+        /**
+          * Recently used colors, most recent first
+          * @default []
+         */
+        "recentColors"?: string[];
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme"?: 'light' | 'dark' | string;
+        /**
+          * Color of the selection ('' when none is set)
+          * @default ''
+         */
+        "value"?: string;
+    }
+    /**
+     * @component ErixCommentsPanel
+     * Side panel listing the document's comment threads.
+     * Displays threads in document order with replies and resolve/delete actions.
+     */
+    interface ErixCommentsPanel {
+        /**
+          * Id of the thread under the editor cursor
+          * @default null
+         */
+        "activeCommentId"?: string | null;
+        /**
+          * Comment threads to display
+          * @default []
+         */
+        "comments"?: CommentThread[];
+        /**
+          * Event emitted when a thread is deleted
+         */
+        "onCommentDelete"?: (event: ErixCommentsPanelCustomEvent<string>) => void;
+        /**
+          * Event emitted when a reply is submitted
+         */
+        "onCommentReply"?: (event: ErixCommentsPanelCustomEvent<{ id: string; text: string }>) => void;
+        /**
+          * Event emitted when a thread is resolved or reopened
+         */
+        "onCommentResolve"?: (event: ErixCommentsPanelCustomEvent<{ id: string; resolved: boolean }>) => void;
+        /**
+          * Event emitted when a thread is clicked
+         */
+        "onCommentSelect"?: (event: ErixCommentsPanelCustomEvent<string>) => void;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme"?: 'light' | 'dark' | string;
+    }
     /**
      * @component ErixDivider
      * A visual separator for toolbar groups and sections.
@@ -587,6 +1145,15 @@ declare namespace LocalJSX {
          */
         "defaultFontSize"?: string;
         "disabledPlugins"?: string[];
+        /**
+          * Custom nodes, marks, plugins, keymaps and input rules; read once when the editor is created
+         */
+        "extensions"?: ErixExtension[];
+        /**
+          * 'page' shows the document as sheets of the `config.print` page size, with page gaps
+          * @default 'continuous'
+         */
+        "layout"?: 'continuous' | 'page';
         /**
           * @default 'Start typing...'
          */
@@ -601,6 +1168,72 @@ declare namespace LocalJSX {
          */
         "theme"?: 'light' | 'dark' | string;
     }
+    /**
+     * @component ErixFindPanel
+     * Floating find & replace bar shown over the editor content.
+     * Holds the inputs only; searching is done by the editor.
+     */
+    interface ErixFindPanel {
+        /**
+          * Index of the current match, -1 when there is none
+          * @default -1
+         */
+        "currentMatch"?: number;
+        /**
+          * Error for an invalid regular expression
+          * @default null
+         */
+        "error"?: string | null;
+        /**
+          * Number of matches
+          * @default 0
+         */
+        "matchCount"?: number;
+        /**
+          * Show only the find row, or the replace row as well
+          * @default 'find'
+         */
+        "mode"?: 'find' | 'replace';
+        /**
+          * Event emitted when the query or options change
+         */
+        "onSearchChange"?: (event: ErixFindPanelCustomEvent<{ query: string; options: SearchOptions }>) => void;
+        /**
+          * Event emitted when the panel is closed
+         */
+        "onSearchClose"?: (event: ErixFindPanelCustomEvent<void>) => void;
+        /**
+          * Event emitted when switching between find and replace
+         */
+        "onSearchModeChange"?: (event: ErixFindPanelCustomEvent<'find' | 'replace'>) => void;
+        /**
+          * Event emitted to move to the next (1) or previous (-1) match
+         */
+        "onSearchNavigate"?: (event: ErixFindPanelCustomEvent<1 | -1>) => void;
+        /**
+          * Event emitted to replace the current match
+         */
+        "onSearchReplace"?: (event: ErixFindPanelCustomEvent<string>) => void;
+        /**
+          * Event emitted to replace all matches
+         */
+        "onSearchReplaceAll"?: (event: ErixFindPanelCustomEvent<string>) => void;
+        /**
+          * Current search options
+          * @default {}
+         */
+        "options"?: SearchOptions;
+        /**
+          * Current search query
+          * @default ''
+         */
+        "query"?: string;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme"?: 'light' | 'dark' | string;
+    }
     interface ErixIcon {
         /**
           * The name of the semantic editor icon.
@@ -612,10 +1245,68 @@ declare namespace LocalJSX {
          */
         "size"?: number;
     }
+    /**
+     * @component ErixLinkPopover
+     * Shows the link under the cursor (open, copy, edit, remove) or a form
+     * to edit its address, title and target. Links are applied by the editor.
+     */
+    interface ErixLinkPopover {
+        /**
+          * Position of the link or selection
+         */
+        "anchorRect"?: DOMRect;
+        /**
+          * Address of the current link (empty for a new link)
+          * @default ''
+         */
+        "href"?: string;
+        /**
+          * Title of the current link
+          * @default ''
+         */
+        "linkTitle"?: string;
+        /**
+          * Show the link, or the form to edit it
+          * @default 'view'
+         */
+        "mode"?: 'view' | 'edit';
+        /**
+          * Event emitted to apply the link
+         */
+        "onLinkApply"?: (event: ErixLinkPopoverCustomEvent<{ href: string; title: string | null; target: string | null }>) => void;
+        /**
+          * Event emitted when the form is closed without applying
+         */
+        "onLinkClose"?: (event: ErixLinkPopoverCustomEvent<void>) => void;
+        /**
+          * Event emitted to switch from viewing to editing the link
+         */
+        "onLinkEdit"?: (event: ErixLinkPopoverCustomEvent<void>) => void;
+        /**
+          * Event emitted to remove the link
+         */
+        "onLinkRemove"?: (event: ErixLinkPopoverCustomEvent<void>) => void;
+        /**
+          * Whether the popover is visible
+          * @default false
+         */
+        "open"?: boolean;
+        /**
+          * Target of the current link
+          * @default '_blank'
+         */
+        "target"?: string | null;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme"?: 'light' | 'dark' | string;
+    }
     /**
      * @component ErixPopover
      * A smart popover component with auto-positioning.
-     * Appends content to body for proper positioning.
+     * Appends content to body for proper positioning, or renders it in place
+     * when `portal` is false so slotted content stays interactive.
      * Automatically flips position when there's not enough space.
      */
     interface ErixPopover {
@@ -643,6 +1334,11 @@ declare namespace LocalJSX {
           * @default 'top'
          */
         "placement"?: PopoverPlacement;
+        /**
+          * Clone content into a body-level portal. When false, the slot is rendered in place with fixed positioning and keeps its event listeners.
+          * @default true
+         */
+        "portal"?: boolean;
     }
     /**
      * @component ErixSelect
@@ -688,10 +1384,49 @@ declare namespace LocalJSX {
          */
         "width"?: SelectWidth;
     }
+    /**
+     * @component ErixSlashMenu
+     * Filterable block menu opened by typing "/" in an empty paragraph.
+     * Keyboard navigation is handled by the editor; this component only renders.
+     */
+    interface ErixSlashMenu {
+        /**
+          * Position of the "/" character
+         */
+        "anchorRect"?: DOMRect;
+        /**
+          * Plugins matching the typed filter
+          * @default []
+         */
+        "items"?: RegisteredPlugin[];
+        /**
+          * Event emitted when the pointer moves over an item
+         */
+        "onSlashHighlight"?: (event: ErixSlashMenuCustomEvent<number>) => void;
+        /**
+          * Event emitted when an item is clicked
+         */
+        "onSlashSelect"?: (event: ErixSlashMenuCustomEvent<number>) => void;
+        /**
+          * Whether the menu is visible
+          * @default false
+         */
+        "open"?: boolean;
+        /**
+          * Index of the highlighted item
+          * @default 0
+         */
+        "selectedIndex"?: number;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme"?: 'light' | 'dark' | string;
+    }
     /**
      * @component ErixStatusBar
      * A Word-like status bar component positioned at the bottom of the editor.
-     * Displays word/character count and theme toggle.
+     * Displays the page (in page layout), word/character count and theme toggle.
      */
     interface ErixStatusBar {
         /**
@@ -699,10 +1434,20 @@ declare namespace LocalJSX {
           * @default 0
          */
         "characterCount"?: number;
+        /**
+          * Page of the selection in page layout (0 when not paginated)
+          * @default 0
+         */
+        "currentPage"?: number;
         /**
           * Event emitted when theme toggle is requested
          */
         "onThemeToggle"?: (event: ErixStatusBarCustomEvent<void>) => void;
+        /**
+          * Number of pages in page layout (0 when not paginated)
+          * @default 0
+         */
+        "pageCount"?: number;
         /**
           * Current theme
           * @default 'light'
@@ -725,17 +1470,55 @@ declare namespace LocalJSX {
          */
         "rows"?: number;
     }
+    /**
+     * @component ErixTableProperties
+     * A form for the border, width, cell padding and cell spacing of a table,
+     * with a preview of the result. The table is updated by the table toolbar.
+     */
+    interface ErixTableProperties {
+        /**
+          * Position to show the popover at
+         */
+        "anchorRect"?: DOMRect;
+        /**
+          * Event emitted to apply the attributes to the table
+         */
+        "onTablePropertiesApply"?: (event: ErixTablePropertiesCustomEvent<TableAttrs>) => void;
+        /**
+          * Event emitted when the popover is closed without applying
+         */
+        "onTablePropertiesClose"?: (event: ErixTablePropertiesCustomEvent<void>) => void;
+        /**
+          * Whether the popover is visible
+          * @default false
+         */
+        "open"?: boolean;
+        /**
+          * Attributes of the table being edited
+          * @default null
+         */
+        "tableAttrs"?: TableAttrs | null;
+        /**
+          * Current theme
+          * @default 'light'
+         */
+        "theme"?: 'light' | 'dark' | string;
+    }
     interface ErixTableToolbar {
         "view"?: EditorView;
     }
     /**
      * @component ErixToolbar
-     * Dynamic toolbar that renders plugins based on configuration.
-     * Only shows plugins that are configured - no static buttons.
+     * Dynamic toolbar that renders plugins from the editor's plugin registry.
+     * Shows the configured items, or every `showInToolbar` plugin when none are configured.
      */
     interface ErixToolbar {
         /**
-          * Toolbar items to display. Array of plugin IDs. Use '|' for separator (only shown between different groups). Example: ['bold', 'italic', '|', 'bullet-list', 'ordered-list']
+          * Editor API whose plugin registry provides the toolbar items
+         */
+        "api"?: ErixEditorAPI;
+        /**
+          * Toolbar items to display. Array of plugin IDs. Use '|' for separator (only shown between different groups). Example: ['bold', 'italic', '|', 'bullet-list', 'ordered-list'] When empty, all enabled plugins with `showInToolbar` are shown.
           * @default []
          */
         "items"?: ToolbarItem[];
@@ -759,15 +1542,23 @@ declare namespace LocalJSX {
         "view"?: EditorView;
     }
     interface IntrinsicElements {
+        "erix-block-toolbar": ErixBlockToolbar;
+        "erix-bubble-toolbar": ErixBubbleToolbar;
         "erix-button": ErixButton;
+        "erix-color-palette": ErixColorPalette;
+        "erix-comments-panel": ErixCommentsPanel;
         "erix-divider": ErixDivider;
         "erix-dropdown": ErixDropdown;
         "erix-editor": ErixEditor;
+        "erix-find-panel": ErixFindPanel;
         "erix-icon": ErixIcon;
+        "erix-link-popover": ErixLinkPopover;
         "erix-popover": ErixPopover;
         "erix-select": ErixSelect;
+        "erix-slash-menu": ErixSlashMenu;
         "erix-status-bar": ErixStatusBar;
         "erix-table-picker": ErixTablePicker;
+        "erix-table-properties": ErixTableProperties;
         "erix-table-toolbar": ErixTableToolbar;
         "erix-toolbar": ErixToolbar;
     }
@@ -776,11 +1567,34 @@ export { LocalJSX as JSX };
 declare module "@stencil/core" {
     export namespace JSX {
         interface IntrinsicElements {
+            /**
+             * @component ErixBlockToolbar
+             * Handle shown beside the current block.
+             * Opens a menu of every registry plugin with `toolbar.showInBlock`.
+             */
+            "erix-block-toolbar": LocalJSX.ErixBlockToolbar & JSXBase.HTMLAttributes<HTMLErixBlockToolbarElement>;
+            /**
+             * @component ErixBubbleToolbar
+             * Floating toolbar shown over a text selection.
+             * Renders every registry plugin with `toolbar.showInBubble`.
+             */
+            "erix-bubble-toolbar": LocalJSX.ErixBubbleToolbar & JSXBase.HTMLAttributes<HTMLErixBubbleToolbarElement>;
             /**
              * @component ErixButton
              * A reusable button component for the editor toolbar and UI.
              */
             "erix-button": LocalJSX.ErixButton & JSXBase.HTMLAttributes<HTMLErixButtonElement>;
+            /**
+             * @component ErixColorPalette
+             * A grid of color swatches with recent colors and a custom hex input.
+             */
+            "erix-color-palette": LocalJSX.ErixColorPalette & JSXBase.HTMLAttributes<HTMLErixColorPaletteElement>;
+            /**
+             * @component ErixCommentsPanel
+             * Side panel listing the document's comment threads.
+             * Displays threads in document order with replies and resolve/delete actions.
+             */
+            "erix-comments-panel": LocalJSX.ErixCommentsPanel & JSXBase.HTMLAttributes<HTMLErixCommentsPanelElement>;
             /**
              * @component ErixDivider
              * A visual separator for toolbar groups and sections.
@@ -797,11 +1611,24 @@ declare module "@stencil/core" {
              * A rich text editor component with built-in toolbar and plugin system.
              */
             "erix-editor": LocalJSX.ErixEditor & JSXBase.HTMLAttributes<HTMLErixEditorElement>;
+            /**
+             * @component ErixFindPanel
+             * Floating find & replace bar shown over the editor content.
+             * Holds the inputs only; searching is done by the editor.
+             */
+            "erix-find-panel": LocalJSX.ErixFindPanel & JSXBase.HTMLAttributes<HTMLErixFindPanelElement>;
             "erix-icon": LocalJSX.ErixIcon & JSXBase.HTMLAttributes<HTMLErixIconElement>;
+            /**
+             * @component ErixLinkPopover
+             * Shows the link under the cursor (open, copy, edit, remove) or a form
+             * to edit its address, title and target. Links are applied by the editor.
+             */
+            "erix-link-popover": LocalJSX.ErixLinkPopover & JSXBase.HTMLAttributes<HTMLErixLinkPopoverElement>;
             /**
              * @component ErixPopover
              * A smart popover component with auto-positioning.
-             * Appends content to body for proper positioning.
+             * Appends content to body for proper positioning, or renders it in place
+             * when `portal` is false so slotted content stays interactive.
              * Automatically flips position when there's not enough space.
              */
             "erix-popover": LocalJSX.ErixPopover & JSXBase.HTMLAttributes<HTMLErixPopoverElement>;
@@ -810,18 +1637,30 @@ declare module "@stencil/core" {
              * A reusable select/dropdown component for the editor toolbar.
              */
             "erix-select": LocalJSX.ErixSelect & JSXBase.HTMLAttributes<HTMLErixSelectElement>;
+            /**
+             * @component ErixSlashMenu
+             * Filterable block menu opened by typing "/" in an empty paragraph.
+             * Keyboard navigation is handled by the editor; this component only renders.
+             */
+            "erix-slash-menu": LocalJSX.ErixSlashMenu & JSXBase.HTMLAttributes<HTMLErixSlashMenuElement>;
             /**
              * @component ErixStatusBar
              * A Word-like status bar component positioned at the bottom of the editor.
-             * Displays word/character count and theme toggle.
+             * Displays the page (in page layout), word/character count and theme toggle.
              */
             "erix-status-bar": LocalJSX.ErixStatusBar & JSXBase.HTMLAttributes<HTMLErixStatusBarElement>;
             "erix-table-picker": LocalJSX.ErixTablePicker & JSXBase.HTMLAttributes<HTMLErixTablePickerElement>;
+            /**
+             * @component ErixTableProperties
+             * A form for the border, width, cell padding and cell spacing of a table,
+             * with a preview of the result. The table is updated by the table toolbar.
+             */
+            "erix-table-properties": LocalJSX.ErixTableProperties & JSXBase.HTMLAttributes<HTMLErixTablePropertiesElement>;
             "erix-table-toolbar": LocalJSX.ErixTableToolbar & JSXBase.HTMLAttributes<HTMLErixTableToolbarElement>;
             /**
              * @component ErixToolbar
-             * Dynamic toolbar that renders plugins based on configuration.
-             * Only shows plugins that are configured - no static buttons.
+             * Dynamic toolbar that renders plugins from the editor's plugin registry.
+             * Shows the configured items, or every `showInToolbar` plugin when none are configured.
              */
             "erix-toolbar": LocalJSX.ErixToolbar & JSXBase.HTMLAttributes<HTMLErixToolbarElement>;
         }
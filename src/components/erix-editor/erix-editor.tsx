@@ -1,10 +1,14 @@
 import { Component, Host, h, Prop, State, Element, Watch, Method } from '@stencil/core';
-import { EditorState } from 'prosemirror-state';
+import { EditorState, Transaction } from 'prosemirror-state';
 import { EditorView } from 'prosemirror-view';
-import { editorSchema, createEditorPlugins } from '@src/core';
+import { createEditorSchema, createEditorPlugins, validateExtensions, trackTransaction, findReplacePluginKey, getFindReplaceState } from '@src/core';
+import { getLinkRange, setLink, unsetLink, getLinkEditorState, openLinkEditor, closeLinkEditor, getPageInfo, setPageLayout, PAGE_GAP } from '@src/core';
+import type { ErixExtension, LinkAttrs, PageLayout } from '@src/core';
+import { getSlashMenuState, setSlashMenuIndex, selectSlashMenuItem } from '@src/core/plugins';
+import type { FindReplaceState, SlashMenuState } from '@src/core/plugins';
 import { EditorController } from '@src/core/editor';
-import { ErixEditorAPI } from '@src/api';
-import type { EditorConfig, ErixPluginConfig } from '@src/api';
+import { ErixEditorAPI, getPageLayout } from '@src/api';
+import type { EditorConfig, ErixPluginConfig, CommentThread, SearchOptions, RegisteredPlugin } from '@src/api';
 
 /**
  * @component ErixEditor
@@ -29,8 +33,12 @@ export class ErixEditor {
   @Prop() config?: EditorConfig;
   @Prop() plugins?: ErixPluginConfig[];
   @Prop() disabledPlugins?: string[];
+  /** Custom nodes, marks, plugins, keymaps and input rules; read once when the editor is created */
+  @Prop() extensions?: ErixExtension[];
   @Prop() defaultFontSize: string = '12pt';
   @Prop() defaultFontFamily: string = 'Arial, sans-serif';
+  /** 'page' shows the document as sheets of the `config.print` page size, with page gaps */
+  @Prop({ reflect: true }) layout: 'continuous' | 'page' = 'continuous';
 
   // ===========================================================================
   // STATE
@@ -39,11 +47,20 @@ export class ErixEditor {
   @State() private editorView?: EditorView;
   @State() private wordCount: number = 0;
   @State() private characterCount: number = 0;
+  @State() private comments: CommentThread[] = [];
+  @State() private activeCommentId: string | null = null;
+  @State() private search?: FindReplaceState;
+  @State() private slashMenu?: { state: SlashMenuState; items: RegisteredPlugin[]; anchorRect: DOMRect };
+  @State() private pageLayout: PageLayout | null = null;
+  @State() private pageInfo: { current: number; count: number } | null = null;
+  @State() private linkPopover?: { mode: 'view' | 'edit'; from: number; to: number; attrs: LinkAttrs | null; anchorRect: DOMRect };
 
   private _api?: ErixEditorAPI;
   private _controller?: EditorController;
   private editorContainer?: HTMLDivElement;
   private toolbarRef?: HTMLErixToolbarElement;
+  private findPanelRef?: HTMLErixFindPanelElement;
+  private pendingFindFocus = false;
 
   // ===========================================================================
   // PUBLIC METHODS
@@ -72,6 +89,13 @@ export class ErixEditor {
     this.initializeEditor();
   }
 
+  componentDidRender() {
+    if (this.pendingFindFocus && this.findPanelRef) {
+      this.pendingFindFocus = false;
+      this.findPanelRef.focusInput();
+    }
+  }
+
   disconnectedCallback() {
     if (this._api) {
       this._api.destroy();
@@ -95,6 +119,17 @@ export class ErixEditor {
     }
   }
 
+  @Watch('layout')
+  onLayoutChange() {
+    this.applyPageLayout();
+  }
+
+  @Watch('config')
+  onConfigChange() {
+    // The sheets take their size from config.print
+    this.applyPageLayout();
+  }
+
   @Watch('readonly')
   onReadonlyChange(newValue: boolean) {
     if (this.editorView) {
@@ -121,20 +156,112 @@ export class ErixEditor {
     this.wordCount = words.length;
   }
 
+  private updatePageInfo(state: EditorState) {
+    const info = getPageInfo(state);
+    if (info?.current !== this.pageInfo?.current || info?.count !== this.pageInfo?.count) {
+      this.pageInfo = info;
+    }
+  }
+
+  private applyPageLayout() {
+    if (!this.editorView) return;
+    const layout = this.layout === 'page' ? getPageLayout(this.config?.print) : null;
+    if (setPageLayout(layout)(this.editorView.state, this.editorView.dispatch)) {
+      this.pageLayout = layout;
+    }
+  }
+
+  private updateSearch(tr: Transaction, state: EditorState) {
+    this.search = getFindReplaceState(state);
+
+    // Opening the panel (again) moves focus to the query input
+    if (tr.getMeta(findReplacePluginKey)?.panel) {
+      if (this.findPanelRef) {
+        this.findPanelRef.focusInput();
+      } else {
+        this.pendingFindFocus = true;
+      }
+    }
+  }
+
+  private updateSlashMenu(state: EditorState) {
+    const menu = getSlashMenuState(state);
+    if (!menu?.active || !this._api || !this.editorView) {
+      if (this.slashMenu) this.slashMenu = undefined;
+      return;
+    }
+    if (this.slashMenu?.state === menu) return;
+
+    const coords = this.editorView.coordsAtPos(menu.from);
+    this.slashMenu = {
+      state: menu,
+      items: this._api.getSlashMenuItems(menu.query),
+      anchorRect: new DOMRect(coords.left, coords.top, 1, coords.bottom - coords.top),
+    };
+  }
+
+  private updateLinkPopover(state: EditorState) {
+    if (!this.editorView) return;
+
+    const editing = getLinkEditorState(state)?.editing;
+    const { from, to, empty } = state.selection;
+    const link = getLinkRange(state);
+    // The link card shows only while the cursor is in a link in the focused editor
+    const next = editing
+      ? { mode: 'edit' as const, from: link && empty ? link.from : from, to: link && empty ? link.to : to, attrs: link?.attrs ?? null }
+      : empty && link && this.editorView.hasFocus()
+        ? { mode: 'view' as const, from: link.from, to: link.to, attrs: link.attrs }
+        : undefined;
+
+    const current = this.linkPopover;
+    if (!next) {
+      if (current) this.linkPopover = undefined;
+      return;
+    }
+    if (current && current.mode === next.mode && current.from === next.from && current.to === next.to && current.attrs === next.attrs) return;
+
+    const start = this.editorView.coordsAtPos(next.from);
+    const end = this.editorView.coordsAtPos(next.to);
+    const top = Math.min(start.top, end.top);
+    this.linkPopover = { ...next, anchorRect: new DOMRect(start.left, top, Math.max(end.right - start.left, 1), Math.max(end.bottom, start.bottom) - top) };
+  }
+
   private initializeEditor() {
     if (!this.editorContainer) return;
 
+    const extensions = this.extensions ?? [];
+    validateExtensions(extensions);
+    const schema = createEditorSchema(extensions);
+
     const state = EditorState.create({
-      schema: editorSchema,
-      plugins: createEditorPlugins({ placeholder: this.placeholder }),
+      schema,
+      plugins: createEditorPlugins({
+        placeholder: this.placeholder,
+        schema,
+        extensions,
+        inputRules: this.config?.inputRules,
+        uploadImage: this.config?.uploadImage,
+        codeLanguages: this.config?.codeLanguages,
+        slashMenu: {
+          getItems: query => this._api?.getSlashMenuItems(query) ?? [],
+          onSelect: (item: RegisteredPlugin) => this._api?.invokePlugin(item.id),
+        },
+        getAPI: () => this._api,
+        shortcuts: {
+          getBindings: () => this._api?.getShortcutBindings() ?? {},
+          run: id => this._api?.invokePlugin(id) ?? false,
+        },
+      }),
     });
 
     this.editorView = new EditorView(this.editorContainer, {
       state,
       editable: () => !this.readonly,
-      dispatchTransaction: tr => {
+      dispatchTransaction: transaction => {
         if (!this.editorView) return;
 
+        // In suggestion mode, edits are rewritten into insertion/deletion marks
+        const tr = trackTransaction(transaction, this.editorView.state);
         const newState = this.editorView.state.apply(tr);
         this.editorView.updateState(newState);
 
@@ -142,11 +269,14 @@ export class ErixEditor {
           this._controller.notifyTransactionListeners(tr, newState);
         }
 
-        if (this.toolbarRef) {
-          this.toolbarRef.updateActiveFormats();
-        }
+        // The toolbar's methods are only there once it has loaded
+        this.toolbarRef?.updateActiveFormats?.();
 
         this.updateCounts(newState);
+        this.updatePageInfo(newState);
+        this.updateSearch(tr, newState);
+        this.updateSlashMenu(newState);
+        this.updateLinkPopover(newState);
       },
     });
 
@@ -157,6 +287,8 @@ export class ErixEditor {
     if (this.content) {
       this._api.setContent(this.content, 'html');
     }
+    this.applyPageLayout();
+    this.comments = this._api.getComments();
 
     this._api.on('change', ({ content }) => {
       this.el.dispatchEvent(new CustomEvent('erix-content-change', { bubbles: true, composed: true, detail: { content } }));
@@ -166,11 +298,22 @@ export class ErixEditor {
       this.el.dispatchEvent(new CustomEvent('erix-selection-change', { bubbles: true, composed: true, detail: { selection } }));
     });
 
+    this._api.on('commentsChange', ({ comments }) => {
+      this.comments = comments;
+      this.el.dispatchEvent(new CustomEvent('erix-comments-change', { bubbles: true, composed: true, detail: { comments } }));
+    });
+
+    this._api.on('activeCommentChange', ({ id }) => {
+      this.activeCommentId = id;
+    });
+
     this._api.on('focus', () => {
+      this.updateLinkPopover(this.editorView!.state);
       this.el.dispatchEvent(new CustomEvent('erix-focus', { bubbles: true, composed: true }));
     });
 
     this._api.on('blur', () => {
+      this.updateLinkPopover(this.editorView!.state);
       this.el.dispatchEvent(new CustomEvent('erix-blur', { bubbles: true, composed: true }));
     });
 
@@ -202,6 +345,93 @@ export class ErixEditor {
     this.theme = this.theme === 'light' ? 'dark' : 'light';
   };
 
+  private handleCommentSelect = (event: CustomEvent<string>) => {
+    this._api?.selectComment(event.detail);
+  };
+
+  private handleCommentResolve = (event: CustomEvent<{ id: string; resolved: boolean }>) => {
+    this._api?.resolveComment(event.detail.id, event.detail.resolved);
+  };
+
+  private handleCommentDelete = (event: CustomEvent<string>) => {
+    this._api?.deleteComment(event.detail);
+  };
+
+  private handleCommentReply = (event: CustomEvent<{ id: string; text: string }>) => {
+    this._api?.replyToComment(event.detail.id, { text: event.detail.text });
+  };
+
+  private handleSlashSelect = (event: CustomEvent<number>) => {
+    if (this.editorView) selectSlashMenuItem(this.editorView, event.detail);
+  };
+
+  private handleSlashHighlight = (event: CustomEvent<number>) => {
+    if (this.editorView && this.slashMenu?.state.index !== event.detail) setSlashMenuIndex(this.editorView, event.detail);
+  };
+
+  private handleLinkApply = (event: CustomEvent<LinkAttrs>) => {
+    if (!this.editorView) return;
+    setLink(event.detail)(this.editorView.state, this.editorView.dispatch);
+    this.editorView.focus();
+  };
+
+  private handleLinkRemove = () => {
+    if (!this.editorView) return;
+    unsetLink(this.editorView.state, this.editorView.dispatch);
+    closeLinkEditor(this.editorView.state, this.editorView.dispatch);
+    this.editorView.focus();
+  };
+
+  private handleLinkEdit = () => {
+    if (this.editorView) openLinkEditor(this.editorView.state, this.editorView.dispatch);
+  };
+
+  private handleLinkClose = () => {
+    if (!this.editorView) return;
+    closeLinkEditor(this.editorView.state, this.editorView.dispatch);
+    this.editorView.focus();
+  };
+
+  private handleSearchChange = (event: CustomEvent<{ query: string; options: SearchOptions }>) => {
+    this._api?.find(event.detail.query, event.detail.options);
+  };
+
+  private handleSearchNavigate = (event: CustomEvent<1 | -1>) => {
+    if (event.detail === 1) {
+      this._api?.findNext();
+    } else {
+      this._api?.findPrevious();
+    }
+  };
+
+  private handleSearchReplace = (event: CustomEvent<string>) => {
+    this._api?.replace(event.detail);
+  };
+
+  private handleSearchReplaceAll = (event: CustomEvent<string>) => {
+    this._api?.replaceAll(event.detail);
+  };
+
+  private handleSearchModeChange = (event: CustomEvent<'find' | 'replace'>) => {
+    this._api?.openFindPanel(event.detail);
+  };
+
+  private handleSearchClose = () => {
+    this._api?.closeFindPanel();
+    this._api?.focus();
+  };
+
+  private getPageStyle(layout: PageLayout): Record<string, string> {
+    return {
+      '--erix-page-width': `${layout.width}px`,
+      '--erix-page-margin-top': `${layout.margins.top}px`,
+      '--erix-page-margin-right': `${layout.margins.right}px`,
+      '--erix-page-margin-bottom': `${layout.margins.bottom}px`,
+      '--erix-page-margin-left': `${layout.margins.left}px`,
+      '--erix-page-gap': `${PAGE_GAP}px`,
+    };
+  }
+
   render() {
     return (
       <Host 
@@ -215,24 +445,83 @@ export class ErixEditor {
           <erix-toolbar
             ref={el => (this.toolbarRef = el)}
             view={this.editorView}
+            api={this._api}
             theme={this.theme}
-            items={this.config?.toolbar?.items || [
-              'undo', 'redo', '|', 'font-family', 'font-size', '|',
-              'bold', 'italic', 'underline', 'strikethrough', 'blockquote', 'superscript', 'subscript', '|',
-              'uppercase', 'lowercase', '|', 'align-left', 'align-center', 'align-right', 'align-justify', 'line-spacing', '|',
-              'bullet-list', 'ordered-list', '|', 'table', '|', 'page-break', 'print', 'import-word'
-            ]}
+            items={this.config?.toolbar?.items}
             showThemeToggle={false}
           ></erix-toolbar>
 
-          <div class="editor-content">
-            <div class="editor-canvas" ref={el => (this.editorContainer = el)}></div>
+          <div class="editor-body">
+            <div class="editor-content">
+              <div
+                class={{ 'editor-canvas': true, 'editor-canvas--page': !!this.pageLayout }}
+                style={this.pageLayout ? this.getPageStyle(this.pageLayout) : undefined}
+                ref={el => (this.editorContainer = el)}
+              ></div>
+            </div>
+
+            {this.search?.panel && (
+              <erix-find-panel
+                ref={el => (this.findPanelRef = el)}
+                theme={this.theme}
+                mode={this.search.panel}
+                query={this.search.query}
+                options={this.search.options}
+                matchCount={this.search.matches.length}
+                currentMatch={this.search.current}
+                error={this.search.error}
+                onSearchChange={this.handleSearchChange}
+                onSearchNavigate={this.handleSearchNavigate}
+                onSearchReplace={this.handleSearchReplace}
+                onSearchReplaceAll={this.handleSearchReplaceAll}
+                onSearchModeChange={this.handleSearchModeChange}
+                onSearchClose={this.handleSearchClose}
+              ></erix-find-panel>
+            )}
+
+            {this.config?.comments?.showPanel !== false && this.comments.length > 0 && (
+              <erix-comments-panel
+                theme={this.theme}
+                comments={this.comments}
+                activeCommentId={this.activeCommentId}
+                onCommentSelect={this.handleCommentSelect}
+                onCommentResolve={this.handleCommentResolve}
+                onCommentDelete={this.handleCommentDelete}
+                onCommentReply={this.handleCommentReply}
+              ></erix-comments-panel>
+            )}
           </div>
 
+          <erix-slash-menu
+            theme={this.theme}
+            open={!!this.slashMenu}
+            items={this.slashMenu?.items ?? []}
+            selectedIndex={this.slashMenu?.state.index ?? 0}
+            anchorRect={this.slashMenu?.anchorRect}
+            onSlashSelect={this.handleSlashSelect}
+            onSlashHighlight={this.handleSlashHighlight}
+          ></erix-slash-menu>
+
+          <erix-link-popover
+            theme={this.theme}
+            open={!!this.linkPopover}
+            mode={this.linkPopover?.mode ?? 'view'}
+            href={this.linkPopover?.attrs?.href ?? ''}
+            linkTitle={this.linkPopover?.attrs?.title ?? ''}
+            target={this.linkPopover?.attrs ? this.linkPopover.attrs.target : '_blank'}
+            anchorRect={this.linkPopover?.anchorRect}
+            onLinkApply={this.handleLinkApply}
+            onLinkRemove={this.handleLinkRemove}
+            onLinkEdit={this.handleLinkEdit}
+            onLinkClose={this.handleLinkClose}
+          ></erix-link-popover>
+
           <erix-status-bar
             theme={this.theme}
             wordCount={this.wordCount}
             characterCount={this.characterCount}
+            currentPage={this.pageInfo?.current ?? 0}
+            pageCount={this.pageInfo?.count ?? 0}
             onThemeToggle={this.handleThemeToggle}
           ></erix-status-bar>
         </div>
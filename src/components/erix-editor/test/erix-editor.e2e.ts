@@ -8,4 +8,71 @@ describe('erix-editor', () => {
     const element = await page.find('erix-editor');
     expect(element).toHaveClass('hydrated');
   });
+
+  it('keeps editors on the same page independent', async () => {
+    const page = await newE2EPage();
+    await page.setContent('');
+
+    // Configure before attaching: extensions are read when the editor is created
+    await page.evaluate(() => {
+      const first = document.createElement('erix-editor');
+      first.id = 'first';
+      first.config = { toolbar: { items: ['bold', 'italic'] } };
+
+      const second = document.createElement('erix-editor');
+      second.id = 'second';
+      second.disabledPlugins = ['italic'];
+      second.extensions = [
+        {
+          name: 'callout',
+          nodes: {
+            callout: {
+              group: 'block',
+              content: 'paragraph+',
+              toDOM: () => ['div', { 'data-callout': '' }, 0],
+              parseDOM: [{ tag: 'div[data-callout]' }],
+            },
+          },
+        },
+      ];
+
+      document.body.append(first, second);
+    });
+    await page.waitForChanges();
+
+    // Each editor renders its own toolbar
+    const firstButtons = await page.findAll('#first >>> erix-toolbar >>> erix-button');
+    const secondButtons = await page.findAll('#second >>> erix-toolbar >>> erix-button');
+    expect(firstButtons.length).toBe(2);
+    expect(secondButtons.length).toBeGreaterThan(2);
+
+    // Only the second editor's schema knows the extension node
+    const html = await page.evaluate(async () => {
+      const callout = '<div data-callout=""><p>Note</p></div>';
+      const first = await (document.querySelector('#first') as HTMLErixEditorElement).getAPI();
+      const second = await (document.querySelector('#second') as HTMLErixEditorElement).getAPI();
+      first.setContent(callout, 'html');
+      second.setContent(callout, 'html');
+      return { first: first.getContent('html'), second: second.getContent('html') };
+    });
+    expect(html.first).not.toContain('data-callout');
+    expect(html.second).toContain('data-callout');
+
+    // Commands and plugin state apply to one editor only
+    const state = await page.evaluate(async () => {
+      const first = await (document.querySelector('#first') as HTMLErixEditorElement).getAPI();
+      const second = await (document.querySelector('#second') as HTMLErixEditorElement).getAPI();
+      first.setContent('<p>Hello</p>', 'html');
+      first.selectAll();
+      first.invokePlugin('bold');
+      return {
+        first: first.getContent('html'),
+        second: second.getContent('html'),
+        italic: [first.getPlugin('italic')?.enabled, second.getPlugin('italic')?.enabled],
+      };
+    });
+    expect(state.first).toContain('<strong>Hello</strong>');
+    expect(state.second).not.toContain('Hello');
+    expect(state.italic).toEqual([true, false]);
+  });
 });
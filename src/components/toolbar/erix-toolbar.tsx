@@ -1,229 +1,67 @@
 import { Component, Host, h, Prop, Event, EventEmitter, Element, Listen, State, Method, Watch } from '@stencil/core';
 import { EditorView } from 'prosemirror-view';
 import {
-  toggleBold,
-  toggleItalic,
-  toggleUnderline,
-  toggleStrikethrough,
-  toggleSuperscript,
-  toggleSubscript,
-  toggleBulletList,
-  toggleOrderedList,
-  isBoldActive,
-  isItalicActive,
-  isUnderlineActive,
-  isStrikethroughActive,
-  isSuperscriptActive,
-  isSubscriptActive,
-  isInBulletList,
-  isInOrderedList,
-  printDocument,
-  insertPageBreak,
-  setTextCase,
-  setTextAlignment,
-  getActiveAlignment,
   setFontSize,
   getActiveFontSize,
   setFontFamily,
   getActiveFontFamily,
-  undo,
-  redo,
+  setTextColor,
+  getActiveTextColor,
+  setHighlight,
+  getActiveHighlight,
   insertTable,
   setTextLineSpacing,
   getActiveLineSpacing,
-  toggleBlockquote,
-  isBlockquoteActive,
+  formatShortcut,
 } from '@src/core';
-import type { ToolbarItem } from '@src/api';
+import type { ErixEditorAPI } from '@src/api/editor-api';
+import type { PluginGroup, RegisteredPlugin, ToolbarItem } from '@src/api';
 import type { SelectOption } from '../ui/erix-select/erix-select';
+import { PluginIcon } from '../ui/erix-icon/plugin-icon';
 
 /**
- * Plugin definition for toolbar items
+ * Select widget for a built-in plugin whose toolbar UI is a value picker
  */
-export interface ToolbarPluginDef {
-  id: string;
-  label: string;
-  icon: string;
-  group: string;
-  shortcut?: string;
-  execute: (view: EditorView) => void | Promise<void>;
-  isActive?: (view: EditorView) => boolean;
-  isDisabled?: (view: EditorView) => boolean;
-  type?: 'button' | 'dropdown' | 'select';
-  options?: { value: string; label: string, icon?: string }[];
+interface SelectWidget {
+  options: SelectOption[];
+  width: 'sm' | 'md' | 'lg';
+  iconOnly?: boolean;
+  getValue: (view: EditorView) => string;
+  apply: (view: EditorView, value: string) => void;
 }
 
 /**
- * Built-in plugin definitions
+ * Color palette for a built-in plugin that sets a color
  */
-const BUILTIN_PLUGINS: Record<string, ToolbarPluginDef> = {
-  // History
-  'undo': {
-    id: 'undo',
-    label: 'Undo',
-    icon: 'undo',
-    group: 'history',
-    shortcut: 'Ctrl+Z',
-    execute: (view) => { undo(view.state, view.dispatch); view.focus(); },
-    isDisabled: (view) => !undo(view.state),
-  },
-  'redo': {
-    id: 'redo',
-    label: 'Redo',
-    icon: 'redo',
-    group: 'history',
-    shortcut: 'Ctrl+Y',
-    execute: (view) => { redo(view.state, view.dispatch); view.focus(); },
-    isDisabled: (view) => !redo(view.state),
-  },
-
-  // Formatting
-  'bold': {
-    id: 'bold',
-    label: 'Bold',
-    icon: 'formatBold',
-    group: 'formatting',
-    shortcut: 'Ctrl+B',
-    execute: (view) => { toggleBold(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isBoldActive(view.state),
-  },
-  'italic': {
-    id: 'italic',
-    label: 'Italic',
-    icon: 'formatItalic',
-    group: 'formatting',
-    shortcut: 'Ctrl+I',
-    execute: (view) => { toggleItalic(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isItalicActive(view.state),
-  },
-  'underline': {
-    id: 'underline',
-    label: 'Underline',
-    icon: 'formatUnderline',
-    group: 'formatting',
-    shortcut: 'Ctrl+U',
-    execute: (view) => { toggleUnderline(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isUnderlineActive(view.state),
-  },
-  'strikethrough': {
-    id: 'strikethrough',
-    label: 'Strikethrough',
-    icon: 'formatStrikethrough',
-    group: 'formatting',
-    execute: (view) => { toggleStrikethrough(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isStrikethroughActive(view.state),
-  },
-  'superscript': {
-    id: 'superscript',
-    label: 'Superscript',
-    icon: 'superScript',
-    group: 'formatting',
-    execute: (view) => { toggleSuperscript(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isSuperscriptActive(view.state),
-  },
-  'subscript': {
-    id: 'subscript',
-    label: 'Subscript',
-    icon: 'subScript',
-    group: 'formatting',
-    execute: (view) => { toggleSubscript(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isSubscriptActive(view.state),
-  },
-
-  // Text Case
-  'uppercase': {
-    id: 'uppercase',
-    label: 'Uppercase',
-    icon: 'upperCase',
-    group: 'textcase',
-    execute: (view) => { setTextCase('uppercase')(view.state, view.dispatch); view.focus(); },
-  },
-  'lowercase': {
-    id: 'lowercase',
-    label: 'Lowercase',
-    icon: 'lowerCase',
-    group: 'textcase',
-    execute: (view) => { setTextCase('lowercase')(view.state, view.dispatch); view.focus(); },
-  },
+interface ColorWidget {
+  colors?: string[];
+  clearLabel: string;
+  getValue: (view: EditorView) => string;
+  apply: (view: EditorView, color: string) => void;
+}
 
-  // Blockquote
-  'blockquote': {
-    id: 'blockquote',
-    label: 'Blockquote',
-    icon: 'blockQuote',
-    group: 'formatting',
-    execute: (view) => { toggleBlockquote(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isBlockquoteActive(view.state),
-  },
+/**
+ * A plugin placed in the toolbar. `groupKey` decides where dividers go.
+ */
+interface ToolbarEntry {
+  plugin: RegisteredPlugin;
+  groupKey: string;
+}
 
-  // Lists
-  'bullet-list': {
-    id: 'bullet-list',
-    label: 'Bullet List',
-    icon: 'bulletList',
-    group: 'lists',
-    execute: (view) => { toggleBulletList(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isInBulletList(view.state),
-  },
-  'ordered-list': {
-    id: 'ordered-list',
-    label: 'Numbered List',
-    icon: 'numberList',
-    group: 'lists',
-    execute: (view) => { toggleOrderedList(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => isInOrderedList(view.state),
-  },
+/**
+ * Group order when the toolbar is built from the registry
+ */
+const GROUP_ORDER: PluginGroup[] = ['history', 'font', 'formatting', 'alignment', 'lists', 'insert', 'table', 'media', 'tools', 'review', 'custom'];
 
-  // Insert
-  'page-break': {
-    id: 'page-break',
-    label: 'Page Break',
-    icon: 'pageBreak',
-    group: 'insert',
-    execute: (view) => { insertPageBreak(view.state, view.dispatch); view.focus(); },
-  },
+const POSITION_ORDER = { start: 0, middle: 1, end: 2 };
 
-  // Alignment
-  'align-left': {
-    id: 'align-left',
-    label: 'Align Left',
-    icon: 'textAlignLeft',
-    group: 'alignment',
-    execute: (view) => { setTextAlignment('left')(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => getActiveAlignment(view.state) === 'left',
-  },
-  'align-center': {
-    id: 'align-center',
-    label: 'Align Center',
-    icon: 'textAlignCenter',
-    group: 'alignment',
-    execute: (view) => { setTextAlignment('center')(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => getActiveAlignment(view.state) === 'center',
-  },
-  'align-right': {
-    id: 'align-right',
-    label: 'Align Right',
-    icon: 'textAlignRight',
-    group: 'alignment',
-    execute: (view) => { setTextAlignment('right')(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => getActiveAlignment(view.state) === 'right',
-  },
-  'align-justify': {
-    id: 'align-justify',
-    label: 'Justify',
-    icon: 'textAlignJustify',
-    group: 'alignment',
-    execute: (view) => { setTextAlignment('justify')(view.state, view.dispatch); view.focus(); },
-    isActive: (view) => getActiveAlignment(view.state) === 'justify',
-  },
+const MAX_RECENT_COLORS = 8;
 
-  // Line Spacing
+/**
+ * Built-in plugins rendered as a select instead of a button
+ */
+const SELECT_WIDGETS: Record<string, SelectWidget> = {
   'line-spacing': {
-    id: 'line-spacing',
-    label: 'Line Spacing',
-    icon: 'textLineSpacing',
-    group: 'alignment',
-    type: 'select',
     options: [
       { value: 'normal', label: 'Default' },
       { value: '1', label: 'Single' },
@@ -231,109 +69,71 @@ const BUILTIN_PLUGINS: Record<string, ToolbarPluginDef> = {
       { value: '1.5', label: '1.5' },
       { value: '2', label: 'Double' },
     ],
-    execute: (view) => { /* Handled by select change */ view.focus(); },
+    width: 'sm',
+    iconOnly: true,
+    getValue: view => getActiveLineSpacing(view.state) || 'normal',
+    apply: (view, value) => {
+      if (value) setTextLineSpacing(value)(view.state, view.dispatch);
+    },
   },
-
-  // Font Family
   'font-family': {
-    id: 'font-family',
-    label: 'Font Family',
-    icon: 'fontFamily',
-    group: 'font',
-    type: 'select',
     options: [
       { value: '', label: 'Font' },
-      { value: 'Arial, sans-serif', label: 'Arial', icon: 'A' },
-      { value: '"Times New Roman", serif', label: 'Times New Roman', icon: 'T' },
-      { value: 'Georgia, serif', label: 'Georgia', icon: 'G' },
-      { value: '"Courier New", monospace', label: 'Courier New', icon: 'C' },
-      { value: 'Verdana, sans-serif', label: 'Verdana', icon: 'V' },
-      { value: 'Tahoma, sans-serif', label: 'Tahoma', icon: 'T' },
-      { value: '"Trebuchet MS", sans-serif', label: 'Trebuchet MS', icon: 'T' },
-      { value: 'Impact, sans-serif', label: 'Impact', icon: 'I' },
-      { value: '"Comic Sans MS", cursive', label: 'Comic Sans MS', icon: 'C' },
-      { value: '"Lucida Console", monospace', label: 'Lucida Console', icon: 'L' },
+      { value: 'Arial, sans-serif', label: 'Arial' },
+      { value: '"Times New Roman", serif', label: 'Times New Roman' },
+      { value: 'Georgia, serif', label: 'Georgia' },
+      { value: '"Courier New", monospace', label: 'Courier New' },
+      { value: 'Verdana, sans-serif', label: 'Verdana' },
+      { value: 'Tahoma, sans-serif', label: 'Tahoma' },
+      { value: '"Trebuchet MS", sans-serif', label: 'Trebuchet MS' },
+      { value: 'Impact, sans-serif', label: 'Impact' },
+      { value: '"Comic Sans MS", cursive', label: 'Comic Sans MS' },
+      { value: '"Lucida Console", monospace', label: 'Lucida Console' },
     ],
-    execute: (view) => { /* Handled by select change */ view.focus(); },
+    width: 'lg',
+    getValue: view => getActiveFontFamily(view.state) || '',
+    apply: (view, value) => {
+      setFontFamily(value)(view.state, view.dispatch);
+    },
   },
-
-  // Font Size
   'font-size': {
-    id: 'font-size',
-    label: 'Font Size',
-    icon: 'fontSize',
-    group: 'font',
-    type: 'select',
     options: [
       { value: '', label: 'Size' },
-      { value: '8pt', label: '8' },
-      { value: '9pt', label: '9' },
-      { value: '10pt', label: '10' },
-      { value: '11pt', label: '11' },
-      { value: '12pt', label: '12' },
-      { value: '14pt', label: '14' },
-      { value: '16pt', label: '16' },
-      { value: '18pt', label: '18' },
-      { value: '20pt', label: '20' },
-      { value: '22pt', label: '22' },
-      { value: '24pt', label: '24' },
-      { value: '26pt', label: '26' },
-      { value: '28pt', label: '28' },
-      { value: '36pt', label: '36' },
-      { value: '48pt', label: '48' },
-      { value: '72pt', label: '72' },
+      ...['8', '9', '10', '11', '12', '14', '16', '18', '20', '22', '24', '26', '28', '36', '48', '72'].map(size => ({ value: `${size}pt`, label: size })),
     ],
-    execute: (view) => { /* Handled by select change */ view.focus(); },
+    width: 'sm',
+    getValue: view => getActiveFontSize(view.state) || '',
+    apply: (view, value) => {
+      if (value) setFontSize(value)(view.state, view.dispatch);
+    },
   },
+};
 
-  // Tools
-  'print': {
-    id: 'print',
-    label: 'Print',
-    icon: 'print',
-    group: 'tools',
-    shortcut: 'Ctrl+P',
-    execute: () => { printDocument(); },
-  },
-  'import-word': {
-    id: 'import-word',
-    label: 'Import from Word',
-    icon: 'importFromWord',
-    group: 'tools',
-    execute: async (view) => {
-      try {
-        const { openWordFileDialog, parseFromHTML } = await import('@src/api/serializers');
-        const result = await openWordFileDialog();
-
-        if (result && view) {
-          const schema = view.state.schema;
-          const doc = parseFromHTML(result.html, schema);
-
-          // Replace content
-          const tr = view.state.tr.replaceWith(0, view.state.doc.content.size, doc.content);
-          view.dispatch(tr);
-          view.focus();
-        }
-      } catch (error) {
-        console.error('[import-word] Failed:', error);
-        alert('Failed to import Word document. Error: ' + (error as Error).message);
-      }
+/**
+ * Built-in plugins rendered as a color palette
+ */
+const COLOR_WIDGETS: Record<string, ColorWidget> = {
+  'text-color': {
+    clearLabel: 'Automatic',
+    getValue: view => getActiveTextColor(view.state),
+    apply: (view, color) => {
+      setTextColor(color)(view.state, view.dispatch);
     },
   },
-  'table': {
-    id: 'table',
-    label: 'Insert Table',
-    icon: 'table',
-    group: 'insert',
-    type: 'dropdown',
-    execute: () => { },
+  'highlight': {
+    colors: ['#fff2cc', '#ffff00', '#d9ead3', '#00ff00', '#d0e0e3', '#00ffff', '#c9daf8', '#4a86e8', '#f4cccc', '#ff0000', '#fce5cd', '#ff9900', '#d9d2e9', '#9900ff', '#efefef', '#cccccc'],
+    clearLabel: 'None',
+    getValue: view => getActiveHighlight(view.state),
+    apply: (view, color) => {
+      setHighlight(color)(view.state, view.dispatch);
+    },
   },
 };
 
 /**
  * @component ErixToolbar
- * Dynamic toolbar that renders plugins based on configuration.
- * Only shows plugins that are configured - no static buttons.
+ * Dynamic toolbar that renders plugins from the editor's plugin registry.
+ * Shows the configured items, or every `showInToolbar` plugin when none are configured.
  */
 @Component({
   tag: 'erix-toolbar',
@@ -348,6 +148,11 @@ export class ErixToolbar {
    */
   @Prop() view?: EditorView;
 
+  /**
+   * Editor API whose plugin registry provides the toolbar items
+   */
+  @Prop() api?: ErixEditorAPI;
+
   /**
    * Current theme
    * @default 'light'
@@ -358,6 +163,7 @@ export class ErixToolbar {
    * Toolbar items to display. Array of plugin IDs.
    * Use '|' for separator (only shown between different groups).
    * Example: ['bold', 'italic', '|', 'bullet-list', 'ordered-list']
+   * When empty, all enabled plugins with `showInToolbar` are shown.
    */
   @Prop() items: ToolbarItem[] = [];
 
@@ -377,20 +183,48 @@ export class ErixToolbar {
    */
   @State() private updateCounter: number = 0;
 
+  /**
+   * Colors picked in each color palette, most recent first
+   */
+  @State() private recentColors: Record<string, string[]> = {};
+
   /**
    * Event emitted when theme toggle is requested
    */
   @Event() themeToggle: EventEmitter<void>;
 
+  /** Elements created by plugin `render` functions, kept across re-renders */
+  private customElements = new Map<string, HTMLElement>();
+  private unsubscribePlugins?: () => void;
+
   componentWillLoad() {
+    this.onApiChange();
     this.updateActiveFormats();
   }
 
+  disconnectedCallback() {
+    this.unsubscribePlugins?.();
+    this.unsubscribePlugins = undefined;
+  }
+
   @Watch('view')
   onViewChange() {
     this.updateActiveFormats();
   }
 
+  @Watch('api')
+  onApiChange() {
+    this.unsubscribePlugins?.();
+    this.unsubscribePlugins = this.api?.on('pluginsChange', ({ plugins }) => {
+      // Drop custom elements of plugins that are gone
+      for (const id of this.customElements.keys()) {
+        if (!plugins.some(plugin => plugin.id === id)) this.customElements.delete(id);
+      }
+      this.updateCounter++;
+    });
+    this.updateCounter++;
+  }
+
   @Listen('mousedown', { target: 'document' })
   handleDocumentClick(event: MouseEvent) {
     const path = event.composedPath();
@@ -417,50 +251,30 @@ export class ErixToolbar {
     this.themeToggle.emit();
   };
 
-  private getPlugin(id: string): ToolbarPluginDef | null {
-    return BUILTIN_PLUGINS[id] || null;
-  }
-
-  private handlePluginClick = async (plugin: ToolbarPluginDef) => {
-    if (!this.view) return;
-
-    const result = plugin.execute(this.view);
-    // Handle async execute functions
-    if (result instanceof Promise) {
-      await result;
-    }
+  private handlePluginClick = (plugin: RegisteredPlugin) => {
+    if (!this.api) return;
 
+    this.api.invokePlugin(plugin.id);
+    this.view?.focus();
     this.updateActiveFormats();
   };
 
-  private handleFontSizeChange = (event: CustomEvent<string>) => {
-    if (!this.view) return;
-    const size = event.detail;
-    if (size) {
-      setFontSize(size)(this.view.state, this.view.dispatch);
-      this.view.focus();
-      this.updateActiveFormats();
-    }
-  };
-
-  private handleFontFamilyChange = (event: CustomEvent<string>) => {
+  private handleSelectChange = (widget: SelectWidget, value: string) => {
     if (!this.view) return;
-    const family = event.detail;
-    setFontFamily(family)(this.view.state, this.view.dispatch);
+    widget.apply(this.view, value);
     this.view.focus();
     this.updateActiveFormats();
   };
 
-
-
-  private handleLineSpacingChange = (event: CustomEvent<string>) => {
+  private handleColorSelect = (plugin: RegisteredPlugin, widget: ColorWidget, color: string) => {
     if (!this.view) return;
-    const spacing = event.detail;
-    if (spacing) {
-      setTextLineSpacing(spacing)(this.view.state, this.view.dispatch);
-      this.view.focus();
-      this.updateActiveFormats();
+    widget.apply(this.view, color);
+    if (color) {
+      const recent = (this.recentColors[plugin.id] ?? []).filter(recentColor => recentColor !== color);
+      this.recentColors = { ...this.recentColors, [plugin.id]: [color, ...recent].slice(0, MAX_RECENT_COLORS) };
     }
+    this.view.focus();
+    this.updateActiveFormats();
   };
 
   private handleInsertTable = (rows: number, cols: number) => {
@@ -470,25 +284,69 @@ export class ErixToolbar {
     this.updateActiveFormats();
   };
 
+  private getTooltip(plugin: RegisteredPlugin): string {
+    return plugin.shortcut ? `${plugin.label} (${formatShortcut(plugin.shortcut)})` : plugin.label;
+  }
+
   /**
-   * Render a single plugin button
+   * Resolve the configured items, or the registry's toolbar plugins, to toolbar entries.
+   * `null` marks an explicit separator.
    */
-  private renderPluginButton(plugin: ToolbarPluginDef) {
-    if (!this.view) return null;
+  private getEntries(): (ToolbarEntry | null)[] {
+    if (!this.api) return [];
 
-    const isActive = plugin.isActive ? plugin.isActive(this.view) : false;
-    const isDisabled = plugin.isDisabled ? plugin.isDisabled(this.view) : false;
-    const tooltip = plugin.shortcut ? `${plugin.label} (${plugin.shortcut})` : plugin.label;
+    if (!this.items || this.items.length === 0) {
+      const rank = (group?: PluginGroup) => (GROUP_ORDER.includes(group!) ? GROUP_ORDER.indexOf(group!) : GROUP_ORDER.length);
+      return this.api
+        .getPlugins({ showInToolbar: true })
+        .sort(
+          (a, b) =>
+            POSITION_ORDER[a.toolbar?.position ?? 'middle'] - POSITION_ORDER[b.toolbar?.position ?? 'middle'] ||
+            rank(a.group) - rank(b.group) ||
+            (a.priority ?? 100) - (b.priority ?? 100)
+        )
+        .map(plugin => ({ plugin, groupKey: plugin.group! }));
+    }
 
+    const entries: (ToolbarEntry | null)[] = [];
+    const resolve = (id: string, groupKey?: string) => {
+      const plugin = this.api!.getPlugin(id);
+      if (!plugin) {
+        console.warn(`[erix-toolbar] Unknown plugin: ${id}`);
+      } else if (plugin.enabled) {
+        entries.push({ plugin, groupKey: groupKey ?? plugin.group! });
+      }
+    };
+
+    for (const item of this.items) {
+      if (item === '|' || item === '-') {
+        entries.push(null);
+      } else if (typeof item === 'string') {
+        resolve(item);
+      } else {
+        // Named groups stay together regardless of plugin groups
+        entries.push(null);
+        item.items.forEach(id => resolve(id, `group:${item.name}`));
+        entries.push(null);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Render a single plugin button
+   */
+  private renderPluginButton(plugin: RegisteredPlugin) {
     return (
       <erix-button
         key={plugin.id}
-        active={isActive}
-        disabled={isDisabled}
-        buttonTitle={tooltip}
+        active={this.api!.isPluginActive(plugin.id)}
+        disabled={!this.api!.canExecutePlugin(plugin.id)}
+        buttonTitle={this.getTooltip(plugin)}
         onErixClick={() => this.handlePluginClick(plugin)}
       >
-        <erix-icon name={plugin.icon as any} size={18}></erix-icon>
+        <PluginIcon icon={plugin.icon} />
       </erix-button>
     );
   }
@@ -496,86 +354,143 @@ export class ErixToolbar {
   /**
    * Render a select-type plugin (dropdown) using erix-select component
    */
-  private renderSelectPlugin(plugin: ToolbarPluginDef) {
-    if (!this.view || !plugin.options) return null;
-
-    // Determine current value and handler based on plugin type
-    let currentValue = '';
-    let changeHandler: (event: CustomEvent<string>) => void;
-    let width: 'sm' | 'md' | 'lg' = 'md';
-    let iconOnly = false;
-
-    if (plugin.id === 'font-size') {
-      currentValue = getActiveFontSize(this.view.state) || '';
-      changeHandler = this.handleFontSizeChange;
-      width = 'sm';
-
-    } else if (plugin.id === 'font-family') {
-      currentValue = getActiveFontFamily(this.view.state) || '';
-      changeHandler = this.handleFontFamilyChange;
-      width = 'lg';
-    } else if (plugin.id === 'line-spacing') {
-      currentValue = getActiveLineSpacing(this.view.state) || 'normal';
-      changeHandler = this.handleLineSpacingChange;
-      width = 'sm';
-      iconOnly = true;
-    } else {
-      // Generic fallback
-      currentValue = '';
-      changeHandler = () => { };
-    }
-
-    // Convert options to SelectOption format
-    const selectOptions: SelectOption[] = plugin.options.map(opt => ({
-      value: opt.value,
-      label: opt.label,
-    }));
+  private renderSelectPlugin(plugin: RegisteredPlugin, widget: SelectWidget) {
+    if (!this.view) return null;
 
     return (
       <erix-select
         key={plugin.id}
-        options={selectOptions}
-        value={currentValue}
+        options={widget.options}
+        value={widget.getValue(this.view)}
         selectTitle={plugin.label}
-        width={width}
-        iconOnly={iconOnly}
+        width={widget.width}
+        iconOnly={!!widget.iconOnly}
         triggerIcon={plugin.icon}
-        onErixChange={changeHandler}
+        onErixChange={(event: CustomEvent<string>) => this.handleSelectChange(widget, event.detail)}
       />
     );
   }
 
   /**
-   * Render a dropdown-type plugin (e.g. Table Picker)
+   * Render a color plugin as a palette dropdown. The bar under the icon shows the current color.
    */
-  private renderDropdownPlugin(plugin: ToolbarPluginDef) {
+  private renderColorPlugin(plugin: RegisteredPlugin, widget: ColorWidget) {
     if (!this.view) return null;
+    const value = widget.getValue(this.view);
 
-    if (plugin.id === 'table') {
-      return (
-        <erix-dropdown key={plugin.id} triggerTitle={plugin.label}>
-          <div slot="trigger">
-            <erix-icon name="table" size={18}></erix-icon>
-          </div>
-          <div slot="menu">
-            <erix-table-picker
-              onSelectGrid={(e: CustomEvent<{ rows: number; cols: number }>) => {
-                this.handleInsertTable(e.detail.rows, e.detail.cols);
-              }}
-            ></erix-table-picker>
-          </div>
-        </erix-dropdown>
-      );
-    }
+    return (
+      <erix-dropdown key={plugin.id} triggerTitle={plugin.label}>
+        <div slot="trigger" class="color-trigger">
+          <PluginIcon icon={plugin.icon} />
+          <span class="color-trigger__bar" style={{ backgroundColor: value || 'transparent' }}></span>
+        </div>
+        <div slot="menu">
+          <erix-color-palette
+            theme={this.theme}
+            value={value}
+            colors={widget.colors}
+            recentColors={this.recentColors[plugin.id] ?? []}
+            clearLabel={widget.clearLabel}
+            onColorSelect={(event: CustomEvent<string>) => this.handleColorSelect(plugin, widget, event.detail)}
+          ></erix-color-palette>
+        </div>
+      </erix-dropdown>
+    );
+  }
 
-    return null;
+  /**
+   * Render the table picker for the built-in table plugin
+   */
+  private renderTablePicker(plugin: RegisteredPlugin) {
+    return (
+      <erix-dropdown key={plugin.id} triggerTitle={plugin.label}>
+        <div slot="trigger">
+          <erix-icon name="table" size={18}></erix-icon>
+        </div>
+        <div slot="menu">
+          <erix-table-picker
+            onSelectGrid={(e: CustomEvent<{ rows: number; cols: number }>) => {
+              this.handleInsertTable(e.detail.rows, e.detail.cols);
+            }}
+          ></erix-table-picker>
+        </div>
+      </erix-dropdown>
+    );
+  }
+
+  /**
+   * Render a plugin with `dropdown` config as a menu of other plugins
+   */
+  private renderDropdownPlugin(plugin: RegisteredPlugin) {
+    const items = plugin.dropdown!.items.map(id => this.api!.getPlugin(id)).filter(item => item?.enabled) as RegisteredPlugin[];
+
+    return (
+      <erix-dropdown key={plugin.id} triggerTitle={plugin.dropdown!.title ?? plugin.label}>
+        <div slot="trigger">
+          <PluginIcon icon={plugin.dropdown!.icon ?? plugin.icon} />
+        </div>
+        <div slot="menu">
+          {items.map(item => (
+            <button
+              key={item.id}
+              type="button"
+              class={{ 'dropdown-item': true, 'active': this.api!.isPluginActive(item.id) }}
+              title={this.getTooltip(item)}
+              disabled={!this.api!.canExecutePlugin(item.id)}
+              onClick={() => this.handlePluginClick(item)}
+            >
+              <PluginIcon icon={item.icon} />
+            </button>
+          ))}
+        </div>
+      </erix-dropdown>
+    );
+  }
+
+  /**
+   * Render a plugin with a custom `render` function. The element is created once.
+   */
+  private renderCustomPlugin(plugin: RegisteredPlugin) {
+    const mount = (container?: HTMLElement) => {
+      if (!container) return;
+
+      let element = this.customElements.get(plugin.id);
+      if (!element) {
+        try {
+          element = plugin.render!();
+        } catch (error) {
+          console.error(`[erix-toolbar] Error rendering plugin "${plugin.id}":`, error);
+          return;
+        }
+        this.customElements.set(plugin.id, element);
+      }
+
+      if (container.firstChild !== element) {
+        container.textContent = '';
+        container.appendChild(element);
+      }
+    };
+
+    return <span key={plugin.id} class="toolbar-custom-item" ref={mount}></span>;
+  }
+
+  private renderPlugin(plugin: RegisteredPlugin) {
+    if (plugin.render) return this.renderCustomPlugin(plugin);
+    if (plugin.dropdown) return this.renderDropdownPlugin(plugin);
+
+    if (plugin.isBuiltin && SELECT_WIDGETS[plugin.id]) return this.renderSelectPlugin(plugin, SELECT_WIDGETS[plugin.id]);
+    if (plugin.isBuiltin && COLOR_WIDGETS[plugin.id]) return this.renderColorPlugin(plugin, COLOR_WIDGETS[plugin.id]);
+    if (plugin.isBuiltin && plugin.id === 'table') return this.renderTablePicker(plugin);
+
+    return this.renderPluginButton(plugin);
   }
 
   /**
    * Render toolbar items dynamically
    */
   private renderItems() {
-    if (!this.items || this.items.length === 0) {
+    const entries = this.getEntries();
+    if (entries.length === 0) {
       return null;
     }
 
@@ -594,41 +509,22 @@ export class ErixToolbar {
       }
     };
 
-    for (let i = 0; i < this.items.length; i++) {
-      const item = this.items[i];
-
+    for (const entry of entries) {
       // Handle separator
-      if (item === '|' || item === '-') {
+      if (entry === null) {
         flushGroup();
         lastGroup = null;
         continue;
       }
 
-      // Handle plugin ID
-      if (typeof item === 'string') {
-        const plugin = this.getPlugin(item);
-        if (!plugin) {
-          console.warn(`[erix-toolbar] Unknown plugin: ${item}`);
-          continue;
-        }
-
-        // Check if we need to start a new group (different group from last item)
-        if (lastGroup !== null && lastGroup !== plugin.group) {
-          flushGroup();
-          // Add divider between different groups
-          elements.push(<erix-divider key={`divider-${elements.length}`}></erix-divider>);
-        }
-
-        // Render based on plugin type
-        if (plugin.type === 'select') {
-          currentGroupItems.push(this.renderSelectPlugin(plugin));
-        } else if (plugin.type === 'dropdown') {
-          currentGroupItems.push(this.renderDropdownPlugin(plugin));
-        } else {
-          currentGroupItems.push(this.renderPluginButton(plugin));
-        }
-        lastGroup = plugin.group;
+      // Start a new group when the group changes or the plugin asks for a separator
+      if (lastGroup !== null && (lastGroup !== entry.groupKey || entry.plugin.toolbar?.separator)) {
+        flushGroup();
+        elements.push(<erix-divider key={`divider-${elements.length}`}></erix-divider>);
       }
+
+      currentGroupItems.push(this.renderPlugin(entry.plugin));
+      lastGroup = entry.groupKey;
     }
 
     // Flush remaining items
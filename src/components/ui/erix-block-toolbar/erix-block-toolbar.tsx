@@ -0,0 +1,71 @@
+import { Component, Host, h, Prop, State, Method } from '@stencil/core';
+import type { ErixEditorAPI } from '@src/api/editor-api';
+import { PluginIcon } from '../erix-icon/plugin-icon';
+
+/**
+ * @component ErixBlockToolbar
+ * Handle shown beside the current block.
+ * Opens a menu of every registry plugin with `toolbar.showInBlock`.
+ */
+@Component({
+  tag: 'erix-block-toolbar',
+  styleUrl: 'erix-block-toolbar.css',
+  shadow: true,
+})
+export class ErixBlockToolbar {
+  /**
+   * Editor API used to list, query and run plugins
+   */
+  @Prop() api?: ErixEditorAPI;
+
+  @State() private updateCounter: number = 0;
+
+  /**
+   * Re-read plugin active/enabled state.
+   */
+  @Method()
+  async update() {
+    this.updateCounter++;
+  }
+
+  private handleClick = (id: string) => {
+    if (this.api?.invokePlugin(id)) {
+      this.updateCounter++;
+    }
+  };
+
+  render() {
+    if (!this.api) return null;
+
+    const plugins = this.api.getPlugins({ showInBlock: true });
+    if (plugins.length === 0) return null;
+
+    return (
+      <Host>
+        {/* Keep the editor selection while clicking */}
+        <div class="block-handle" key={this.updateCounter} onMouseDown={event => event.preventDefault()}>
+          <erix-dropdown triggerTitle="Block type" extended={true}>
+            <div slot="trigger">
+              <erix-icon name="dragHandle" size={18}></erix-icon>
+            </div>
+            <div slot="menu" class="block-menu" role="menu">
+              {plugins.map(plugin => (
+                <button
+                  key={plugin.id}
+                  type="button"
+                  role="menuitem"
+                  class={{ 'block-item': true, 'active': this.api.isPluginActive(plugin.id) }}
+                  disabled={!this.api.canExecutePlugin(plugin.id)}
+                  onClick={() => this.handleClick(plugin.id)}
+                >
+                  <PluginIcon icon={plugin.icon} />
+                  <span class="block-item-label">{plugin.label}</span>
+                </button>
+              ))}
+            </div>
+          </erix-dropdown>
+        </div>
+      </Host>
+    );
+  }
+}
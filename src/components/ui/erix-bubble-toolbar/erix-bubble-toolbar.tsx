@@ -0,0 +1,63 @@
+import { Component, Host, h, Prop, State, Method } from '@stencil/core';
+import { formatShortcut } from '@src/core';
+import type { ErixEditorAPI } from '@src/api/editor-api';
+import { PluginIcon } from '../erix-icon/plugin-icon';
+
+/**
+ * @component ErixBubbleToolbar
+ * Floating toolbar shown over a text selection.
+ * Renders every registry plugin with `toolbar.showInBubble`.
+ */
+@Component({
+  tag: 'erix-bubble-toolbar',
+  styleUrl: 'erix-bubble-toolbar.css',
+  shadow: true,
+})
+export class ErixBubbleToolbar {
+  /**
+   * Editor API used to list, query and run plugins
+   */
+  @Prop() api?: ErixEditorAPI;
+
+  @State() private updateCounter: number = 0;
+
+  /**
+   * Re-read plugin active/enabled state.
+   */
+  @Method()
+  async update() {
+    this.updateCounter++;
+  }
+
+  private handleClick = (id: string) => {
+    if (this.api?.invokePlugin(id)) {
+      this.updateCounter++;
+    }
+  };
+
+  render() {
+    if (!this.api) return null;
+
+    const plugins = this.api.getPlugins({ showInBubble: true });
+    if (plugins.length === 0) return null;
+
+    return (
+      <Host>
+        {/* Keep the editor selection while clicking */}
+        <div class="erix-toolbar" key={this.updateCounter} onMouseDown={event => event.preventDefault()}>
+          {plugins.map(plugin => (
+            <erix-button
+              key={plugin.id}
+              buttonTitle={plugin.shortcut ? `${plugin.label} (${formatShortcut(plugin.shortcut)})` : plugin.label}
+              active={this.api.isPluginActive(plugin.id)}
+              disabled={!this.api.canExecutePlugin(plugin.id)}
+              onErixClick={() => this.handleClick(plugin.id)}
+            >
+              <PluginIcon icon={plugin.icon} />
+            </erix-button>
+          ))}
+        </div>
+      </Host>
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { Component, Host, h, Prop, State, Event, EventEmitter } from '@stencil/core';
+
+/**
+ * Colors shown when no palette is given
+ */
+const DEFAULT_PALETTE_COLORS = [
+  '#000000', '#434343', '#666666', '#999999', '#b7b7b7', '#cccccc', '#efefef', '#ffffff',
+  '#980000', '#ff0000', '#ff9900', '#ffff00', '#00ff00', '#00ffff', '#4a86e8', '#9900ff',
+  '#e6b8af', '#f4cccc', '#fce5cd', '#fff2cc', '#d9ead3', '#d0e0e3', '#c9daf8', '#d9d2e9',
+  '#a61c00', '#cc0000', '#e69138', '#f1c232', '#6aa84f', '#45818e', '#3c78d8', '#674ea7',
+];
+
+/**
+ * Normalize a hex color typed by the user to `#rrggbb`.
+ * @returns The color, or null if it is not a 3 or 6 digit hex color
+ */
+function normalizeHexColor(value: string): string | null {
+  const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim())?.[1].toLowerCase();
+  if (!hex) return null;
+  return `#${hex.length === 3 ? [...hex].map(digit => digit + digit).join('') : hex}`;
+}
+
+/**
+ * @component ErixColorPalette
+ * A grid of color swatches with recent colors and a custom hex input.
+ */
+@Component({
+  tag: 'erix-color-palette',
+  styleUrl: 'erix-color-palette.css',
+  shadow: true,
+})
+export class ErixColorPalette {
+  /**
+   * Current theme
+   */
+  @Prop() theme: 'light' | 'dark' | string = 'light';
+
+  /**
+   * Color of the selection ('' when none is set)
+   */
+  @Prop() value: string = '';
+
+  /**
+   * Swatches to show (default: a 32-color palette)
+   */
+  @Prop() colors?: string[];
+
+  /**
+   * Recently used colors, most recent first
+   */
+  @Prop() recentColors: string[] = [];
+
+  /**
+   * Label of the button that removes the color
+   */
+  @Prop() clearLabel: string = 'None';
+
+  @State() private customColor: string = '';
+  @State() private invalid: boolean = false;
+
+  /**
+   * Event emitted when a color is picked ('' removes the color)
+   */
+  @Event() colorSelect: EventEmitter<string>;
+
+  private applyButton?: HTMLButtonElement;
+
+  private applyCustom = (event: Event) => {
+    const color = normalizeHexColor(this.customColor);
+    if (!color) {
+      this.invalid = true;
+      // Keep the menu open to fix the value
+      event.stopPropagation();
+      return;
+    }
+    this.customColor = '';
+    this.colorSelect.emit(color);
+  };
+
+  private renderSwatch(color: string) {
+    const selected = color.toLowerCase() === this.value.toLowerCase();
+    return (
+      <button
+        key={color}
+        type="button"
+        class={{ 'swatch': true, 'swatch--selected': selected }}
+        style={{ backgroundColor: color }}
+        title={color}
+        aria-label={color}
+        aria-pressed={selected ? 'true' : 'false'}
+        onClick={() => this.colorSelect.emit(color)}
+      ></button>
+    );
+  }
+
+  render() {
+    return (
+      <Host data-theme={this.theme}>
+        {/* Swatches keep focus (and the selection) in the editor */}
+        <div class="palette" onMouseDown={event => (event.target as HTMLElement).tagName !== 'INPUT' && event.preventDefault()}>
+          <button type="button" class="palette-clear" onClick={() => this.colorSelect.emit('')}>
+            <span class="swatch swatch--none"></span>
+            {this.clearLabel}
+          </button>
+
+          <div class="swatches">{(this.colors ?? DEFAULT_PALETTE_COLORS).map(color => this.renderSwatch(color))}</div>
+
+          {this.recentColors.length > 0 && [
+            <div class="palette-label">Recent</div>,
+            <div class="swatches">{this.recentColors.map(color => this.renderSwatch(color))}</div>,
+          ]}
+
+          {/* Enter clicks Apply, so the click reaches the dropdown and closes it */}
+          <form
+            class="palette-custom"
+            onSubmit={event => {
+              event.preventDefault();
+              this.applyButton?.click();
+            }}
+          >
+            <input
+              class={{ 'palette-input': true, 'palette-input--invalid': this.invalid }}
+              type="text"
+              placeholder="#rrggbb"
+              aria-label="Custom color"
+              value={this.customColor}
+              onClick={event => event.stopPropagation()}
+              onInput={event => {
+                this.customColor = (event.target as HTMLInputElement).value;
+                this.invalid = false;
+              }}
+            />
+            <span class="swatch swatch--preview" style={{ backgroundColor: normalizeHexColor(this.customColor) ?? 'transparent' }}></span>
+            <button ref={el => (this.applyButton = el)} type="button" class="palette-apply" onClick={this.applyCustom}>
+              Apply
+            </button>
+          </form>
+        </div>
+      </Host>
+    );
+  }
+}
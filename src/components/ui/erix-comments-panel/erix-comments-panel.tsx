@@ -0,0 +1,149 @@
+import { Component, Host, h, Prop, State, Event, EventEmitter } from '@stencil/core';
+import type { CommentThread } from '@src/api/comments.types';
+
+/**
+ * @component ErixCommentsPanel
+ * Side panel listing the document's comment threads.
+ * Displays threads in document order with replies and resolve/delete actions.
+ */
+@Component({
+  tag: 'erix-comments-panel',
+  styleUrl: 'erix-comments-panel.css',
+  shadow: true,
+})
+export class ErixCommentsPanel {
+  /**
+   * Current theme
+   */
+  @Prop() theme: 'light' | 'dark' | string = 'light';
+
+  /**
+   * Comment threads to display
+   */
+  @Prop() comments: CommentThread[] = [];
+
+  /**
+   * Id of the thread under the editor cursor
+   */
+  @Prop() activeCommentId: string | null = null;
+
+  /**
+   * Reply being typed for the active thread
+   */
+  @State() private replyText: string = '';
+
+  /**
+   * Event emitted when a thread is clicked
+   */
+  @Event() commentSelect: EventEmitter<string>;
+
+  /**
+   * Event emitted when a thread is resolved or reopened
+   */
+  @Event() commentResolve: EventEmitter<{ id: string; resolved: boolean }>;
+
+  /**
+   * Event emitted when a thread is deleted
+   */
+  @Event() commentDelete: EventEmitter<string>;
+
+  /**
+   * Event emitted when a reply is submitted
+   */
+  @Event() commentReply: EventEmitter<{ id: string; text: string }>;
+
+  private submitReply = (id: string) => {
+    const text = this.replyText.trim();
+    if (!text) return;
+
+    this.commentReply.emit({ id, text });
+    this.replyText = '';
+  };
+
+  private handleReplyKeyDown = (event: KeyboardEvent, id: string) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      this.submitReply(id);
+    }
+  };
+
+  private formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  }
+
+  private renderThread(comment: CommentThread) {
+    const isActive = comment.id === this.activeCommentId;
+    const classes = {
+      'comment-thread': true,
+      'comment-thread--active': isActive,
+      'comment-thread--resolved': comment.resolved,
+      'comment-thread--detached': !comment.range,
+    };
+
+    return (
+      <article class={classes} onClick={() => this.commentSelect.emit(comment.id)}>
+        {comment.quote && <blockquote class="comment-quote">{comment.quote}</blockquote>}
+
+        <header class="comment-meta">
+          <span class="comment-author">{comment.author || 'Anonymous'}</span>
+          <time class="comment-time">{this.formatTime(comment.createdAt)}</time>
+        </header>
+        <p class="comment-text">{comment.text}</p>
+
+        {comment.replies.map(reply => (
+          <div class="comment-reply" key={reply.id}>
+            <header class="comment-meta">
+              <span class="comment-author">{reply.author || 'Anonymous'}</span>
+              <time class="comment-time">{this.formatTime(reply.createdAt)}</time>
+            </header>
+            <p class="comment-text">{reply.text}</p>
+          </div>
+        ))}
+
+        {isActive && !comment.resolved && (
+          <textarea
+            class="comment-reply-input"
+            placeholder="Reply..."
+            rows={2}
+            value={this.replyText}
+            onClick={event => event.stopPropagation()}
+            onInput={event => (this.replyText = (event.target as HTMLTextAreaElement).value)}
+            onKeyDown={event => this.handleReplyKeyDown(event, comment.id)}
+          ></textarea>
+        )}
+
+        <footer class="comment-actions">
+          <button
+            class="comment-btn"
+            onClick={event => {
+              event.stopPropagation();
+              this.commentResolve.emit({ id: comment.id, resolved: !comment.resolved });
+            }}
+          >
+            {comment.resolved ? 'Reopen' : 'Resolve'}
+          </button>
+          <button
+            class="comment-btn comment-btn--danger"
+            onClick={event => {
+              event.stopPropagation();
+              this.commentDelete.emit(comment.id);
+            }}
+          >
+            Delete
+          </button>
+        </footer>
+      </article>
+    );
+  }
+
+  render() {
+    return (
+      <Host data-theme={this.theme}>
+        <aside class="comments-panel">
+          <h2 class="comments-panel__title">Comments ({this.comments.filter(comment => !comment.resolved).length})</h2>
+          {this.comments.map(comment => this.renderThread(comment))}
+        </aside>
+      </Host>
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { Component, Host, h, Prop, State, Event, EventEmitter, Method } from '@stencil/core';
+import type { SearchOptions } from '@src/api/search.types';
+
+/**
+ * @component ErixFindPanel
+ * Floating find & replace bar shown over the editor content.
+ * Holds the inputs only; searching is done by the editor.
+ */
+@Component({
+  tag: 'erix-find-panel',
+  styleUrl: 'erix-find-panel.css',
+  shadow: true,
+})
+export class ErixFindPanel {
+  /**
+   * Current theme
+   */
+  @Prop() theme: 'light' | 'dark' | string = 'light';
+
+  /**
+   * Show only the find row, or the replace row as well
+   */
+  @Prop() mode: 'find' | 'replace' = 'find';
+
+  /**
+   * Current search query
+   */
+  @Prop() query: string = '';
+
+  /**
+   * Current search options
+   */
+  @Prop() options: SearchOptions = {};
+
+  /**
+   * Number of matches
+   */
+  @Prop() matchCount: number = 0;
+
+  /**
+   * Index of the current match, -1 when there is none
+   */
+  @Prop() currentMatch: number = -1;
+
+  /**
+   * Error for an invalid regular expression
+   */
+  @Prop() error: string | null = null;
+
+  /**
+   * Replacement being typed
+   */
+  @State() private replacement: string = '';
+
+  /**
+   * Event emitted when the query or options change
+   */
+  @Event() searchChange: EventEmitter<{ query: string; options: SearchOptions }>;
+
+  /**
+   * Event emitted to move to the next (1) or previous (-1) match
+   */
+  @Event() searchNavigate: EventEmitter<1 | -1>;
+
+  /**
+   * Event emitted to replace the current match
+   */
+  @Event() searchReplace: EventEmitter<string>;
+
+  /**
+   * Event emitted to replace all matches
+   */
+  @Event() searchReplaceAll: EventEmitter<string>;
+
+  /**
+   * Event emitted when switching between find and replace
+   */
+  @Event() searchModeChange: EventEmitter<'find' | 'replace'>;
+
+  /**
+   * Event emitted when the panel is closed
+   */
+  @Event() searchClose: EventEmitter<void>;
+
+  private queryInput?: HTMLInputElement;
+
+  /**
+   * Focus and select the query input.
+   */
+  @Method()
+  async focusInput() {
+    this.queryInput?.focus();
+    this.queryInput?.select();
+  }
+
+  private toggleOption(option: keyof SearchOptions) {
+    this.searchChange.emit({ query: this.query, options: { ...this.options, [option]: !this.options[option] } });
+  }
+
+  private handleQueryKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.searchNavigate.emit(event.shiftKey ? -1 : 1);
+    }
+  };
+
+  private handleReplaceKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.metaKey || event.ctrlKey) {
+        this.searchReplaceAll.emit(this.replacement);
+      } else {
+        this.searchReplace.emit(this.replacement);
+      }
+    }
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.searchClose.emit();
+    }
+  };
+
+  private renderCounter() {
+    if (this.error) return <span class="find-counter find-counter--error" title={this.error}>Invalid</span>;
+    if (!this.query) return <span class="find-counter"></span>;
+    if (this.matchCount === 0) return <span class="find-counter">No results</span>;
+    return (
+      <span class="find-counter">
+        {this.currentMatch + 1} of {this.matchCount}
+      </span>
+    );
+  }
+
+  private renderToggle(option: keyof SearchOptions, label: string, title: string) {
+    const active = !!this.options[option];
+    return (
+      <button class={{ 'find-toggle': true, 'find-toggle--active': active }} title={title} aria-pressed={active ? 'true' : 'false'} onClick={() => this.toggleOption(option)}>
+        {label}
+      </button>
+    );
+  }
+
+  render() {
+    const isReplace = this.mode === 'replace';
+    const hasMatches = this.matchCount > 0;
+
+    return (
+      <Host data-theme={this.theme} onKeyDown={this.handleKeyDown}>
+        <div class="find-panel" role="search">
+          <button
+            class="find-btn find-expand"
+            title={isReplace ? 'Hide replace' : 'Show replace'}
+            onClick={() => this.searchModeChange.emit(isReplace ? 'find' : 'replace')}
+          >
+            <erix-icon name={isReplace ? 'chevronDown' : 'chevronRight'} size={16}></erix-icon>
+          </button>
+
+          <div class="find-rows">
+            <div class="find-row">
+              <input
+                ref={el => (this.queryInput = el)}
+                class={{ 'find-input': true, 'find-input--error': !!this.error }}
+                type="text"
+                placeholder="Find"
+                aria-label="Find"
+                value={this.query}
+                onInput={event => this.searchChange.emit({ query: (event.target as HTMLInputElement).value, options: this.options })}
+                onKeyDown={this.handleQueryKeyDown}
+              />
+              {this.renderToggle('caseSensitive', 'Aa', 'Match case')}
+              {this.renderToggle('wholeWord', 'ab', 'Match whole word')}
+              {this.renderToggle('regex', '.*', 'Use regular expression')}
+              {this.renderCounter()}
+              <button class="find-btn" title="Previous match (Shift+Enter)" disabled={!hasMatches} onClick={() => this.searchNavigate.emit(-1)}>
+                <erix-icon name="chevronUp" size={16}></erix-icon>
+              </button>
+              <button class="find-btn" title="Next match (Enter)" disabled={!hasMatches} onClick={() => this.searchNavigate.emit(1)}>
+                <erix-icon name="chevronDown" size={16}></erix-icon>
+              </button>
+              <button class="find-btn" title="Close (Escape)" onClick={() => this.searchClose.emit()}>
+                <erix-icon name="close" size={16}></erix-icon>
+              </button>
+            </div>
+
+            {isReplace && (
+              <div class="find-row">
+                <input
+                  class="find-input"
+                  type="text"
+                  placeholder="Replace"
+                  aria-label="Replace"
+                  value={this.replacement}
+                  onInput={event => (this.replacement = (event.target as HTMLInputElement).value)}
+                  onKeyDown={this.handleReplaceKeyDown}
+                />
+                <button class="find-action" disabled={!hasMatches} onClick={() => this.searchReplace.emit(this.replacement)}>
+                  Replace
+                </button>
+                <button class="find-action" disabled={!hasMatches} onClick={() => this.searchReplaceAll.emit(this.replacement)}>
+                  Replace all
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </Host>
+    );
+  }
+}
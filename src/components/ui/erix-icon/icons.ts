@@ -62,9 +62,21 @@ export const ICONS = {
 `,
   importFromWord: `
 <svg width="24" height="24" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="m14 0 5 4.5v8.892l-1.5-1.8V6.5h-5v-5h-8v3H3V0zm0 2v3h3.3zm-3.26 16a2.8 2.8 0 0 1-.469-.5H3V19h9.25v-.374A2.74 2.74 0 0 1 10.74 18" fill="currentColor"></path><path d="M8.5 6a1.5 1.5 0 0 1 1.493 1.356L10 7.5v7a1.5 1.5 0 0 1-1.356 1.493L8.5 16h-7a1.5 1.5 0 0 1-1.493-1.356L0 14.5v-7a1.5 1.5 0 0 1 1.356-1.493L1.5 6zM7.483 8.795l-.042.088-.986 2.534-.947-2.528-.043-.092a.601.601 0 0 0-1.042.008l-.042.093-.883 2.465-.937-2.475-.042-.089a.6.6 0 0 0-1.107.42l.027.093 1.514 4 .044.092a.6.6 0 0 0 1.041-.01l.041-.092.88-2.458.925 2.467.046.096a.602.602 0 0 0 1.032 0l.043-.09 1.554-4 .028-.093a.6.6 0 0 0-1.104-.43zm4.191 6.612a.75.75 0 1 0 1.152.96L14 14.96V20h1.5v-5.04l1.174 1.408a.75.75 0 1 0 1.152-.96l-2.346-2.816a.95.95 0 0 0-1.46 0z" fill="currentColor"/></svg>
+`,
+  exportToWord: `
+<svg width="24" height="24" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="m14 0 5 4.5v8.892l-1.5-1.8V6.5h-5v-5h-8v3H3V0zm0 2v3h3.3zm-3.26 16a2.8 2.8 0 0 1-.469-.5H3V19h9.25v-.374A2.74 2.74 0 0 1 10.74 18" fill="currentColor"></path><path d="M8.5 6a1.5 1.5 0 0 1 1.493 1.356L10 7.5v7a1.5 1.5 0 0 1-1.356 1.493L8.5 16h-7a1.5 1.5 0 0 1-1.493-1.356L0 14.5v-7a1.5 1.5 0 0 1 1.356-1.493L1.5 6zM7.483 8.795l-.042.088-.986 2.534-.947-2.528-.043-.092a.601.601 0 0 0-1.042.008l-.042.093-.883 2.465-.937-2.475-.042-.089a.6.6 0 0 0-1.107.42l.027.093 1.514 4 .044.092a.6.6 0 0 0 1.041-.01l.041-.092.88-2.458.925 2.467.046.096a.602.602 0 0 0 1.032 0l.043-.09 1.554-4 .028-.093a.6.6 0 0 0-1.104-.43zm4.191 7.798a.75.75 0 1 1 1.152-.96L14 17.04V12h1.5v5.04l1.174-1.408a.75.75 0 1 1 1.152.96l-2.346 2.816a.95.95 0 0 1-1.46 0z" fill="currentColor"/></svg>
 `,
   fontFamily: `
 <svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M10.5 5h-4a1 1 0 0 0-1 1v2M10.5 5v14M10.5 5h4a1 1 0 0 1 1 1v2M10.5 19H8M10.5 19h2.5M17 14h4M19 12v6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>
+`,
+  clearFormatting: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M5 5.75h11M10.5 5.75 8 18.25M14 14l6 6M20 14l-6 6" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>
+`,
+  textColor: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="m6.5 16.5 4.8-12.03a.75.75 0 0 1 1.4 0l4.8 12.03M8.3 12h7.4" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><rect x="4" y="19" width="16" height="2.5" rx="1" fill="currentColor"/></svg>
+`,
+  highlight: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="m14.5 3.5 5 5-7.75 7.75h-3.5l-.75.75-2.5-2.5.75-.75v-3.5L14.5 3.5Zm-8 12.25L5 17.25h3.5" stroke="currentColor" stroke-width="1.5" stroke-linejoin="round"/><rect x="4" y="19" width="16" height="2.5" rx="1" fill="currentColor"/></svg>
 `,
   table: `
 <svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M6.25 3A3.25 3.25 0 0 0 3 6.25v11.5A3.25 3.25 0 0 0 6.25 21h11.5A3.25 3.25 0 0 0 21 17.75V6.25A3.25 3.25 0 0 0 17.75 3H6.25ZM4.5 6.25c0-.966.784-1.75 1.75-1.75h11.5c.966 0 1.75.784 1.75 1.75V8.5h-15V6.25ZM10 10h4v4h-4v-4Zm-1.5 0v4h-4v-4h4Zm0 5.5v4H6.25a1.75 1.75 0 0 1-1.75-1.75V15.5h4Zm1.5 4v-4h4v4h-4Zm5.5-5.5v-4h4v4h-4Zm0 1.5h4v2.25a1.75 1.75 0 0 1-1.75 1.75H15.5v-4Z" fill="currentColor"/></svg>
@@ -103,11 +115,64 @@ delete: `
   tableSplitCell: `
 <svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M3.5 5.75C3.5 4.507 4.507 3.5 5.75 3.5h12.5C19.493 3.5 20.5 4.507 20.5 5.75v12.5c0 1.243-1.007 2.25-2.25 2.25H5.75C4.507 20.5 3.5 19.493 3.5 18.25V5.75ZM5.75 5a.75.75 0 0 0-.75.75v11.75c0 .414.336.75.75.75h12.5a.75.75 0 0 0 .75-.75V5.75a.75.75 0 0 0-.75-.75H5.75ZM12.75 5.75v12.5a.75.75 0 0 1-1.5 0V5.75a.75.75 0 0 1 1.5 0ZM5.5 12h13a.75.75 0 0 1 0 1.5h-13a.75.75 0 0 1 0-1.5Z" fill="currentColor"/></svg>
 `,
+  tableCellBackground: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="m4.5 10.5 6-6 7 7-6 6a1.5 1.5 0 0 1-2.12 0L4.5 12.62a1.5 1.5 0 0 1 0-2.12ZM4.5 11.5h13M8 2.5l2.5 2.5M19.5 14.5s1.5 1.7 1.5 2.75a1.5 1.5 0 0 1-3 0c0-1.05 1.5-2.75 1.5-2.75Z" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/><rect x="4" y="19" width="16" height="2.5" rx="1" fill="currentColor"/></svg>`,
+  tableCellBorder: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M4 6.25A2.25 2.25 0 0 1 6.25 4h11.5A2.25 2.25 0 0 1 20 6.25v11.5A2.25 2.25 0 0 1 17.75 20H6.25A2.25 2.25 0 0 1 4 17.75V6.25Z" stroke="currentColor" stroke-width="1.5"/><path d="M12 8v.01M12 12v.01M12 16v.01M8 12h.01M16 12h.01" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>`,
+  tableCellVerticalAlign: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M4 3.75h16M4 20.25h16M12 6.5v11M9 9.5l3-3 3 3M9 14.5l3 3 3-3" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/></svg>`,
+  tableProperties: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M11 20H6.25A2.25 2.25 0 0 1 4 17.75V6.25A2.25 2.25 0 0 1 6.25 4h11.5A2.25 2.25 0 0 1 20 6.25V11M4 9h16M9 9v11" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/><circle cx="17.5" cy="17.5" r="2" stroke="currentColor" stroke-width="1.5"/><path d="M17.5 13.5v2M17.5 19.5v2M13.5 17.5h2M19.5 17.5h2" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>`,
   tableDelete: `
 <svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M5.75 3.5C4.507 3.5 3.5 4.507 3.5 5.75v12.5c0 1.243 1.007 2.25 2.25 2.25h12.5c1.243 0 2.25-1.007 2.25-2.25V5.75c0-1.243-1.007-2.25-2.25-2.25H5.75ZM5 5.75a.75.75 0 0 1 .75-.75h12.5a.75.75 0 0 1 .75.75v2.25h-14V5.75ZM5 9.5h14v8.75a.75.75 0 0 1-.75.75H5.75a.75.75 0 0 1-.75-.75V9.5ZM9.25 11.25a.75.75 0 0 0-1.5 0v4.5a.75.75 0 0 0 1.5 0v-4.5ZM12.75 11.25a.75.75 0 0 0-1.5 0v4.5a.75.75 0 0 0 1.5 0v-4.5ZM16.25 11.25a.75.75 0 0 0-1.5 0v4.5a.75.75 0 0 0 1.5 0v-4.5Z" fill="currentColor"/></svg>
 `,
 blockQuote: `
 <svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M7.5 6a2.5 2.5 0 0 1 2.495 2.336l.005.206c-.01 3.555-1.24 6.614-3.705 9.223a.75.75 0 1 1-1.09-1.03c1.64-1.737 2.66-3.674 3.077-5.859A2.5 2.5 0 1 1 7.5 6Zm9 0a2.5 2.5 0 0 1 2.495 2.336l.005.206c-.01 3.56-1.238 6.614-3.705 9.223a.75.75 0 1 1-1.09-1.03c1.643-1.738 2.662-3.672 3.078-5.859A2.5 2.5 0 1 1 16.5 6Z" fill="currentColor"/></svg>
+`,
+  trackChanges: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M3 5.75A.75.75 0 0 1 3.75 5h12.5a.75.75 0 0 1 0 1.5H3.75A.75.75 0 0 1 3 5.75Zm0 4A.75.75 0 0 1 3.75 9h9.5a.75.75 0 0 1 0 1.5h-9.5A.75.75 0 0 1 3 9.75Zm0 4a.75.75 0 0 1 .75-.75h5.5a.75.75 0 0 1 0 1.5h-5.5a.75.75 0 0 1-.75-.75Zm15.4-3.45a1.8 1.8 0 0 1 2.55 2.55l-5.7 5.7a1.5 1.5 0 0 1-.7.4l-2.3.57a.5.5 0 0 1-.6-.6l.57-2.3a1.5 1.5 0 0 1 .4-.7l5.78-5.62Z" fill="currentColor"/></svg>
+`,
+  acceptChange: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M4.53 12.97a.75.75 0 0 0-1.06 1.06l4.5 4.5a.75.75 0 0 0 1.06 0l11-11a.75.75 0 0 0-1.06-1.06L8.5 16.94l-3.97-3.97Z" fill="currentColor"/></svg>
+`,
+  rejectChange: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M5.47 5.47a.75.75 0 0 1 1.06 0L12 10.94l5.47-5.47a.75.75 0 1 1 1.06 1.06L13.06 12l5.47 5.47a.75.75 0 1 1-1.06 1.06L12 13.06l-5.47 5.47a.75.75 0 0 1-1.06-1.06L10.94 12 5.47 6.53a.75.75 0 0 1 0-1.06Z" fill="currentColor"/></svg>
+`,
+  acceptAllChanges: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M12 2a10 10 0 1 1 0 20 10 10 0 0 1 0-20Zm0 1.5a8.5 8.5 0 1 0 0 17 8.5 8.5 0 0 0 0-17Zm3.22 5.47a.75.75 0 1 1 1.06 1.06l-5.25 5.25a.75.75 0 0 1-1.06 0l-2.25-2.25a.75.75 0 1 1 1.06-1.06l1.72 1.72 4.72-4.72Z" fill="currentColor"/></svg>
+`,
+  rejectAllChanges: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M12 2a10 10 0 1 1 0 20 10 10 0 0 1 0-20Zm0 1.5a8.5 8.5 0 1 0 0 17 8.5 8.5 0 0 0 0-17ZM9.28 8.22 12 10.94l2.72-2.72a.75.75 0 1 1 1.06 1.06L13.06 12l2.72 2.72a.75.75 0 1 1-1.06 1.06L12 13.06l-2.72 2.72a.75.75 0 1 1-1.06-1.06L10.94 12 8.22 9.28a.75.75 0 0 1 1.06-1.06Z" fill="currentColor"/></svg>
+`,
+  chevronUp: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M4.22 15.53a.75.75 0 0 0 1.06 0L12 8.81l6.72 6.72a.75.75 0 1 0 1.06-1.06l-7.25-7.25a.75.75 0 0 0-1.06 0l-7.25 7.25a.75.75 0 0 0 0 1.06Z" fill="currentColor"/></svg>
+`,
+  chevronDown: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M4.22 8.47a.75.75 0 0 1 1.06 0L12 15.19l6.72-6.72a.75.75 0 1 1 1.06 1.06l-7.25 7.25a.75.75 0 0 1-1.06 0L4.22 9.53a.75.75 0 0 1 0-1.06Z" fill="currentColor"/></svg>
+`,
+  chevronRight: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M8.47 4.22a.75.75 0 0 0 0 1.06L15.19 12l-6.72 6.72a.75.75 0 1 0 1.06 1.06l7.25-7.25a.75.75 0 0 0 0-1.06L9.53 4.22a.75.75 0 0 0-1.06 0Z" fill="currentColor"/></svg>
+`,
+  close: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="m4.397 4.554.073-.084a.75.75 0 0 1 .976-.073l.084.073L12 10.939l6.47-6.47a.75.75 0 1 1 1.06 1.061L13.061 12l6.47 6.47a.75.75 0 0 1 .072.976l-.073.084a.75.75 0 0 1-.976.073l-.084-.073L12 13.061l-6.47 6.47a.75.75 0 0 1-1.06-1.061L10.939 12l-6.47-6.47a.75.75 0 0 1-.072-.976l.073-.084-.073.084Z" fill="currentColor"/></svg>
+`,
+  codeBlock: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M8.066 18.943a.75.75 0 0 1-1.06.03l-6-5.75a.75.75 0 0 1 0-1.083l6-5.75a.75.75 0 1 1 1.038 1.083L2.62 12.682l5.415 5.2a.75.75 0 0 1 .03 1.06Zm7.868 0a.75.75 0 0 0 1.06.03l6-5.75a.75.75 0 0 0 0-1.083l-6-5.75a.75.75 0 1 0-1.038 1.083l5.424 5.209-5.415 5.2a.75.75 0 0 0-.03 1.06Z" fill="currentColor"/></svg>
+`,
+  horizontalRule: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M2 12a.75.75 0 0 1 .75-.75h18.5a.75.75 0 0 1 0 1.5H2.75A.75.75 0 0 1 2 12Z" fill="currentColor"/></svg>
+`,
+  image: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><rect x="3" y="4.75" width="18" height="14.5" rx="2.5" stroke="currentColor" stroke-width="1.5"/><path d="m3.5 17 5.5-5.5 4 4 2.5-2.5 5 5" stroke="currentColor" stroke-width="1.5" stroke-linejoin="round"/><circle cx="16" cy="9" r="1.5" fill="currentColor"/></svg>
+`,
+  link: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M10 13.5a4 4 0 0 0 5.66 0l3.18-3.18a4 4 0 0 0-5.66-5.66l-1.06 1.06M14 10.5a4 4 0 0 0-5.66 0l-3.18 3.18a4 4 0 0 0 5.66 5.66l1.06-1.06" stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/></svg>
+`,
+  paragraph: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><path d="M10 4a5 5 0 0 0 0 10h1v5.25a.75.75 0 0 0 1.5 0V5.5h2v13.75a.75.75 0 0 0 1.5 0V5.5h2.25a.75.75 0 0 0 0-1.5H10Zm1 1.5v7h-1a3.5 3.5 0 1 1 0-7h1Z" fill="currentColor"/></svg>
+`,
+  dragHandle: `
+<svg width="24" height="24" fill="none" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg"><circle cx="9" cy="6" r="1.5" fill="currentColor"/><circle cx="15" cy="6" r="1.5" fill="currentColor"/><circle cx="9" cy="12" r="1.5" fill="currentColor"/><circle cx="15" cy="12" r="1.5" fill="currentColor"/><circle cx="9" cy="18" r="1.5" fill="currentColor"/><circle cx="15" cy="18" r="1.5" fill="currentColor"/></svg>
 `
 } as const;
 
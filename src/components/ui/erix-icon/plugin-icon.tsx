@@ -0,0 +1,15 @@
+import { FunctionalComponent, h } from '@stencil/core';
+import { ICONS, IconName } from './icons';
+import { sanitizeSvg } from '@src/utils';
+
+/**
+ * Icon for a registry plugin: `icon` is either an erix-icon name or raw SVG markup.
+ */
+export const PluginIcon: FunctionalComponent<{ icon?: string; size?: number }> = ({ icon, size = 18 }) => {
+  if (icon && icon in ICONS) {
+    return <erix-icon name={icon as IconName} size={size}></erix-icon>;
+  }
+
+  const svg = icon?.trim().startsWith('<svg') ? sanitizeSvg(icon) : '';
+  return <span class="plugin-icon" style={{ display: 'inline-flex', width: `${size}px`, height: `${size}px` }} innerHTML={svg}></span>;
+};
@@ -0,0 +1,216 @@
+import { Component, Host, h, Prop, State, Event, EventEmitter, Element, Watch } from '@stencil/core';
+import { normalizeLinkHref } from '@src/core';
+
+/**
+ * @component ErixLinkPopover
+ * Shows the link under the cursor (open, copy, edit, remove) or a form
+ * to edit its address, title and target. Links are applied by the editor.
+ */
+@Component({
+  tag: 'erix-link-popover',
+  styleUrl: 'erix-link-popover.css',
+  shadow: true,
+})
+export class ErixLinkPopover {
+  @Element() el!: HTMLElement;
+
+  /**
+   * Current theme
+   */
+  @Prop() theme: 'light' | 'dark' | string = 'light';
+
+  /**
+   * Whether the popover is visible
+   */
+  @Prop() open: boolean = false;
+
+  /**
+   * Show the link, or the form to edit it
+   */
+  @Prop() mode: 'view' | 'edit' = 'view';
+
+  /**
+   * Address of the current link (empty for a new link)
+   */
+  @Prop() href: string = '';
+
+  /**
+   * Title of the current link
+   */
+  @Prop() linkTitle: string = '';
+
+  /**
+   * Target of the current link
+   */
+  @Prop() target: string | null = '_blank';
+
+  /**
+   * Position of the link or selection
+   */
+  @Prop() anchorRect?: DOMRect;
+
+  @State() private draftHref: string = '';
+  @State() private draftTitle: string = '';
+  @State() private newTab: boolean = true;
+  @State() private error: string | null = null;
+  @State() private copied: boolean = false;
+
+  /**
+   * Event emitted to apply the link
+   */
+  @Event() linkApply: EventEmitter<{ href: string; title: string | null; target: string | null }>;
+
+  /**
+   * Event emitted to remove the link
+   */
+  @Event() linkRemove: EventEmitter<void>;
+
+  /**
+   * Event emitted to switch from viewing to editing the link
+   */
+  @Event() linkEdit: EventEmitter<void>;
+
+  /**
+   * Event emitted when the form is closed without applying
+   */
+  @Event() linkClose: EventEmitter<void>;
+
+  private hrefInput?: HTMLInputElement;
+  private pendingFocus = false;
+
+  componentWillLoad() {
+    this.resetDraft();
+  }
+
+  componentDidRender() {
+    if (this.pendingFocus && this.hrefInput) {
+      this.pendingFocus = false;
+      this.hrefInput.focus();
+      this.hrefInput.select();
+    }
+  }
+
+  @Watch('open')
+  @Watch('mode')
+  @Watch('href')
+  resetDraft() {
+    this.draftHref = this.href;
+    this.draftTitle = this.linkTitle ?? '';
+    this.newTab = this.target === '_blank' || !this.href;
+    this.error = null;
+    this.copied = false;
+    this.pendingFocus = this.open && this.mode === 'edit';
+  }
+
+  private apply = (event: Event) => {
+    event.preventDefault();
+    if (!normalizeLinkHref(this.draftHref)) {
+      this.error = this.draftHref.trim() ? 'This type of link is not allowed' : 'Enter a link';
+      return;
+    }
+    this.linkApply.emit({ href: this.draftHref.trim(), title: this.draftTitle.trim() || null, target: this.newTab ? '_blank' : null });
+  };
+
+  private copy = async () => {
+    try {
+      await navigator.clipboard.writeText(this.href);
+      this.copied = true;
+    } catch (error) {
+      console.warn('[LinkPopover] Could not copy link:', error);
+    }
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.linkClose.emit();
+    }
+  };
+
+  private renderView() {
+    // Script and data links are shown but never followed
+    const safe = !!normalizeLinkHref(this.href);
+    return (
+      <div class="link-view">
+        {safe ? (
+          <a class="link-href" href={this.href} target="_blank" rel="noopener noreferrer" title={this.linkTitle || this.href}>
+            {this.href}
+          </a>
+        ) : (
+          <span class="link-href" title={this.linkTitle || this.href}>
+            {this.href}
+          </span>
+        )}
+        {safe && (
+          <button class="link-action" onClick={() => window.open(this.href, '_blank', 'noopener,noreferrer')}>
+            Open
+          </button>
+        )}
+        <button class="link-action" onClick={this.copy}>
+          {this.copied ? 'Copied' : 'Copy'}
+        </button>
+        <button class="link-action" onClick={() => this.linkEdit.emit()}>
+          Edit
+        </button>
+        <button class="link-action" onClick={() => this.linkRemove.emit()}>
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  private renderForm() {
+    return (
+      <form class="link-form" onSubmit={this.apply}>
+        <input
+          ref={el => (this.hrefInput = el)}
+          class={{ 'link-input': true, 'link-input--error': !!this.error }}
+          type="text"
+          placeholder="Paste or type a link"
+          aria-label="Link address"
+          value={this.draftHref}
+          onInput={event => {
+            this.draftHref = (event.target as HTMLInputElement).value;
+            this.error = null;
+          }}
+        />
+        <input
+          class="link-input"
+          type="text"
+          placeholder="Title (optional)"
+          aria-label="Link title"
+          value={this.draftTitle}
+          onInput={event => (this.draftTitle = (event.target as HTMLInputElement).value)}
+        />
+        {this.error && <div class="link-error">{this.error}</div>}
+        <div class="link-row">
+          <label class="link-option">
+            <input type="checkbox" checked={this.newTab} onChange={event => (this.newTab = (event.target as HTMLInputElement).checked)} />
+            Open in new tab
+          </label>
+          {this.href && (
+            <button type="button" class="link-action" onClick={() => this.linkRemove.emit()}>
+              Remove
+            </button>
+          )}
+          <button type="submit" class="link-action link-action--primary">
+            Apply
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  render() {
+    return (
+      <Host data-theme={this.theme} onKeyDown={this.handleKeyDown}>
+        <erix-popover open={this.open} anchorRect={this.anchorRect} placement="bottom-start" offset={6} portal={false}>
+          {/* Buttons keep focus (and the selection) in the editor; the form takes focus */}
+          <div class="link-popover" onMouseDown={event => this.mode === 'view' && event.preventDefault()}>
+            {this.mode === 'edit' ? this.renderForm() : this.renderView()}
+          </div>
+        </erix-popover>
+      </Host>
+    );
+  }
+}
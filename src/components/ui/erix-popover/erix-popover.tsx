@@ -17,7 +17,8 @@ export type PopoverPlacement =
 /**
  * @component ErixPopover
  * A smart popover component with auto-positioning.
- * Appends content to body for proper positioning.
+ * Appends content to body for proper positioning, or renders it in place
+ * when `portal` is false so slotted content stays interactive.
  * Automatically flips position when there's not enough space.
  */
 @Component({
@@ -56,9 +57,15 @@ export class ErixPopover {
    */
   @Prop() anchorRect?: DOMRect;
 
-
+  /**
+   * Clone content into a body-level portal. When false, the slot is rendered
+   * in place with fixed positioning and keeps its event listeners.
+   */
+  @Prop() portal: boolean = true;
 
   componentWillLoad() {
+    if (!this.portal) return;
+
     // Create portal element that will be appended to body
     this.portalEl = document.createElement('div');
     this.portalEl.className = 'erix-popover-portal';
@@ -74,7 +81,9 @@ export class ErixPopover {
   }
 
   componentDidLoad() {
-    document.body.appendChild(this.portalEl!);
+    if (this.portalEl) {
+      document.body.appendChild(this.portalEl);
+    }
     if (this.open) {
       this.showPopover();
     }
@@ -131,6 +140,12 @@ export class ErixPopover {
   }
 
   private showPopover() {
+    if (!this.portal) {
+      // Content is already in the DOM (hidden), position it before it shows
+      this.updatePopoverPosition();
+      requestAnimationFrame(() => this.updatePopoverPosition());
+      return;
+    }
     if (!this.portalEl) return;
 
     // Get slotted content
@@ -172,6 +187,7 @@ export class ErixPopover {
   }
 
   private hidePopover() {
+    if (!this.portal) return;
     if (this.contentEl) {
       this.contentEl.remove();
       this.contentEl = undefined;
@@ -289,6 +305,19 @@ export class ErixPopover {
   }
 
   render() {
+    if (!this.portal) {
+      return (
+        <Host>
+          <div
+            class={{ 'popover-content': true, 'popover-content--open': this.open }}
+            ref={el => (this.contentEl = el)}
+          >
+            <slot></slot>
+          </div>
+        </Host>
+      );
+    }
+
     // The slot is here to receive content, but actual rendering happens in the portal
     return (
       <Host style={{ display: 'none' }}>
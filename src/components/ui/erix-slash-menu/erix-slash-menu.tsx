@@ -0,0 +1,89 @@
+import { Component, Host, h, Prop, Event, EventEmitter, Element } from '@stencil/core';
+import type { RegisteredPlugin } from '@src/api/plugin-registry.types';
+import { PluginIcon } from '../erix-icon/plugin-icon';
+
+/**
+ * @component ErixSlashMenu
+ * Filterable block menu opened by typing "/" in an empty paragraph.
+ * Keyboard navigation is handled by the editor; this component only renders.
+ */
+@Component({
+  tag: 'erix-slash-menu',
+  styleUrl: 'erix-slash-menu.css',
+  shadow: true,
+})
+export class ErixSlashMenu {
+  @Element() el!: HTMLElement;
+
+  /**
+   * Current theme
+   */
+  @Prop() theme: 'light' | 'dark' | string = 'light';
+
+  /**
+   * Whether the menu is visible
+   */
+  @Prop() open: boolean = false;
+
+  /**
+   * Plugins matching the typed filter
+   */
+  @Prop() items: RegisteredPlugin[] = [];
+
+  /**
+   * Index of the highlighted item
+   */
+  @Prop() selectedIndex: number = 0;
+
+  /**
+   * Position of the "/" character
+   */
+  @Prop() anchorRect?: DOMRect;
+
+  /**
+   * Event emitted when an item is clicked
+   */
+  @Event() slashSelect: EventEmitter<number>;
+
+  /**
+   * Event emitted when the pointer moves over an item
+   */
+  @Event() slashHighlight: EventEmitter<number>;
+
+  componentDidRender() {
+    const selected = this.el.shadowRoot?.querySelector('.slash-item--selected');
+    selected?.scrollIntoView({ block: 'nearest' });
+  }
+
+  render() {
+    return (
+      <Host data-theme={this.theme}>
+        <erix-popover open={this.open} anchorRect={this.anchorRect} placement="bottom-start" offset={4} portal={false}>
+          <div class="slash-menu" role="listbox" aria-label="Insert block">
+            {this.items.length === 0 && <div class="slash-empty">No matching blocks</div>}
+            {this.items.map((item, index) => (
+              <div
+                key={item.id}
+                class={{ 'slash-item': true, 'slash-item--selected': index === this.selectedIndex }}
+                role="option"
+                aria-selected={index === this.selectedIndex ? 'true' : 'false'}
+                // Keep focus (and the selection) in the editor
+                onMouseDown={event => event.preventDefault()}
+                onMouseEnter={() => this.slashHighlight.emit(index)}
+                onClick={() => this.slashSelect.emit(index)}
+              >
+                <span class="slash-item__icon">
+                  <PluginIcon icon={item.icon} />
+                </span>
+                <span class="slash-item__text">
+                  <span class="slash-item__label">{item.label}</span>
+                  {item.description && <span class="slash-item__description">{item.description}</span>}
+                </span>
+              </div>
+            ))}
+          </div>
+        </erix-popover>
+      </Host>
+    );
+  }
+}
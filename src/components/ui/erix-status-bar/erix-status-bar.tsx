@@ -3,7 +3,7 @@ import { Component, Host, h, Prop, Event, EventEmitter } from '@stencil/core';
 /**
  * @component ErixStatusBar
  * A Word-like status bar component positioned at the bottom of the editor.
- * Displays word/character count and theme toggle.
+ * Displays the page (in page layout), word/character count and theme toggle.
  */
 @Component({
     tag: 'erix-status-bar',
@@ -26,6 +26,16 @@ export class ErixStatusBar {
      */
     @Prop() characterCount: number = 0;
 
+    /**
+     * Page of the selection in page layout (0 when not paginated)
+     */
+    @Prop() currentPage: number = 0;
+
+    /**
+     * Number of pages in page layout (0 when not paginated)
+     */
+    @Prop() pageCount: number = 0;
+
     /**
      * Event emitted when theme toggle is requested
      */
@@ -39,8 +49,13 @@ export class ErixStatusBar {
         return (
             <Host data-theme={this.theme}>
                 <div class="status-bar">
-                    {/* Left section - Word and character count */}
+                    {/* Left section - Page, word and character count */}
                     <div class="status-bar__left">
+                        {this.pageCount > 0 && (
+                            <span class="status-text">
+                                Page {this.currentPage} of {this.pageCount}
+                            </span>
+                        )}
                         <span class="status-text">Words: {this.wordCount}</span>
                         <span class="status-text">Characters: {this.characterCount}</span>
                     </div>
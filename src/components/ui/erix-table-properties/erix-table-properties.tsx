@@ -0,0 +1,239 @@
+import { Component, Host, h, Prop, State, Event, EventEmitter, Watch } from '@stencil/core';
+import { getTableDOMAttrs, type TableAttrs } from '@src/core';
+
+const BORDER_STYLES: { value: NonNullable<TableAttrs['borderStyle']>; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+  { value: 'double', label: 'Double' },
+];
+
+/**
+ * Read a pixel field: '' is unset, anything else a number of at least 0.
+ */
+function parsePixels(value: string): number | null {
+  const pixels = parseFloat(value);
+  return value.trim() === '' || isNaN(pixels) ? null : Math.max(0, pixels);
+}
+
+/**
+ * Read the width field: '' is auto, a bare number is pixels.
+ * @returns The CSS width, undefined if it is not a pixel or percent width
+ */
+function parseWidth(value: string): string | null | undefined {
+  if (!value.trim()) return null;
+  const match = /^(\d+(?:\.\d+)?)\s*(px|%)?$/.exec(value.trim());
+  return match ? `${match[1]}${match[2] || 'px'}` : undefined;
+}
+
+/**
+ * Convert a `#rrggbb` or `rgb()` color to `#rrggbb` for the color input.
+ * Browsers report colors parsed from HTML as `rgb()`.
+ */
+function toHexColor(color: string | null | undefined): string | null {
+  if (/^#[0-9a-f]{6}$/i.test(color || '')) return color!.toLowerCase();
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i.exec(color || '');
+  return rgb ? `#${rgb.slice(1, 4).map(value => Math.min(255, Number(value)).toString(16).padStart(2, '0')).join('')}` : null;
+}
+
+/**
+ * @component ErixTableProperties
+ * A form for the border, width, cell padding and cell spacing of a table,
+ * with a preview of the result. The table is updated by the table toolbar.
+ */
+@Component({
+  tag: 'erix-table-properties',
+  styleUrl: 'erix-table-properties.css',
+  shadow: true,
+})
+export class ErixTableProperties {
+  /**
+   * Current theme
+   */
+  @Prop() theme: 'light' | 'dark' | string = 'light';
+
+  /**
+   * Whether the popover is visible
+   */
+  @Prop() open: boolean = false;
+
+  /**
+   * Attributes of the table being edited
+   */
+  @Prop() tableAttrs: TableAttrs | null = null;
+
+  /**
+   * Position to show the popover at
+   */
+  @Prop() anchorRect?: DOMRect;
+
+  @State() private border: string = '';
+  @State() private borderStyle: string = 'solid';
+  @State() private borderColor: string = '#000000';
+  @State() private width: string = '';
+  @State() private cellpadding: string = '';
+  @State() private cellspacing: string = '';
+  @State() private widthError: boolean = false;
+
+  /**
+   * Event emitted to apply the attributes to the table
+   */
+  @Event() tablePropertiesApply: EventEmitter<TableAttrs>;
+
+  /**
+   * Event emitted when the popover is closed without applying
+   */
+  @Event() tablePropertiesClose: EventEmitter<void>;
+
+  componentWillLoad() {
+    this.resetDraft();
+  }
+
+  @Watch('open')
+  resetDraft() {
+    const attrs = this.tableAttrs ?? {};
+    const pixels = (value: unknown) => (value === null || value === undefined || isNaN(parseFloat(String(value))) ? '' : String(parseFloat(String(value))));
+
+    this.border = pixels(attrs.border);
+    this.borderStyle = attrs.borderStyle || 'solid';
+    this.borderColor = toHexColor(attrs.borderColor) ?? '#000000';
+    this.width = attrs.width || '';
+    this.cellpadding = pixels(attrs.cellpadding);
+    this.cellspacing = pixels(attrs.cellspacing);
+    this.widthError = false;
+  }
+
+  private getDraft(): TableAttrs {
+    const border = parsePixels(this.border);
+    return {
+      border,
+      borderStyle: border ? (this.borderStyle as TableAttrs['borderStyle']) : null,
+      borderColor: border ? this.borderColor : null,
+      width: parseWidth(this.width) ?? null,
+      cellpadding: parsePixels(this.cellpadding),
+      cellspacing: parsePixels(this.cellspacing),
+    };
+  }
+
+  private apply = (event: Event) => {
+    event.preventDefault();
+    if (parseWidth(this.width) === undefined) {
+      this.widthError = true;
+      return;
+    }
+    this.tablePropertiesApply.emit(this.getDraft());
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      this.tablePropertiesClose.emit();
+    }
+  };
+
+  private renderNumberField(label: string, value: string, onInput: (value: string) => void) {
+    return (
+      <label class="table-properties-field">
+        <span class="table-properties-label">{label}</span>
+        <input
+          class="table-properties-input"
+          type="number"
+          min="0"
+          placeholder="Default"
+          value={value}
+          onInput={event => onInput((event.target as HTMLInputElement).value)}
+        />
+        <span class="table-properties-unit">px</span>
+      </label>
+    );
+  }
+
+  private renderPreview() {
+    const draft = this.getDraft();
+    const { attributes, styles } = getTableDOMAttrs(draft);
+    const padding = draft.cellpadding === null ? undefined : `${draft.cellpadding}px`;
+
+    return (
+      <div class="table-properties-preview" aria-hidden="true">
+        <table {...attributes} style={{ 'border-collapse': 'collapse', ...styles }}>
+          {[0, 1].map(row => (
+            <tr key={row}>
+              {[0, 1, 2].map(col => (
+                <td key={col} style={{ padding }}>
+                  <span class="table-properties-preview-text"></span>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </table>
+      </div>
+    );
+  }
+
+  render() {
+    return (
+      <Host data-theme={this.theme} onKeyDown={this.handleKeyDown}>
+        <erix-popover open={this.open} anchorRect={this.anchorRect} placement="bottom-start" offset={6} portal={false}>
+          <form class="table-properties" onSubmit={this.apply}>
+            <div class="table-properties-title">Table properties</div>
+
+            <div class="table-properties-row">
+              {this.renderNumberField('Border', this.border, value => (this.border = value))}
+              <select
+                class="table-properties-input"
+                aria-label="Border style"
+                disabled={!parsePixels(this.border)}
+                onChange={event => (this.borderStyle = (event.target as HTMLSelectElement).value)}
+              >
+                {BORDER_STYLES.map(style => (
+                  <option value={style.value} selected={style.value === this.borderStyle}>
+                    {style.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                class="table-properties-color"
+                type="color"
+                aria-label="Border color"
+                disabled={!parsePixels(this.border)}
+                value={this.borderColor}
+                onInput={event => (this.borderColor = (event.target as HTMLInputElement).value)}
+              />
+            </div>
+
+            <label class="table-properties-field">
+              <span class="table-properties-label">Width</span>
+              <input
+                class={{ 'table-properties-input': true, 'table-properties-input--error': this.widthError }}
+                type="text"
+                placeholder="Auto, 100% or 600px"
+                value={this.width}
+                onInput={event => {
+                  this.width = (event.target as HTMLInputElement).value;
+                  this.widthError = false;
+                }}
+              />
+            </label>
+            {this.widthError && <div class="table-properties-error">Enter a width in px or %</div>}
+
+            <div class="table-properties-row">
+              {this.renderNumberField('Cell padding', this.cellpadding, value => (this.cellpadding = value))}
+              {this.renderNumberField('Cell spacing', this.cellspacing, value => (this.cellspacing = value))}
+            </div>
+
+            {this.renderPreview()}
+
+            <div class="table-properties-actions">
+              <button type="button" class="table-properties-action" onClick={() => this.tablePropertiesClose.emit()}>
+                Cancel
+              </button>
+              <button type="submit" class="table-properties-action table-properties-action--primary">
+                Apply
+              </button>
+            </div>
+          </form>
+        </erix-popover>
+      </Host>
+    );
+  }
+}
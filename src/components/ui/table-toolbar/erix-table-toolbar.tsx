@@ -1,6 +1,18 @@
-import { Component, Host, h, Prop, State, Method } from '@stencil/core';
+import { Component, Host, h, Prop, State, Method, Element } from '@stencil/core';
 import { EditorView } from 'prosemirror-view';
-import { tableCommands, getTableSelectionInfo } from '@src/core';
+import {
+  tableCommands,
+  getTableSelectionInfo,
+  getActiveCellAttrs,
+  getTableAttrs,
+  setCellBackground,
+  setCellBorder,
+  setCellBorderColor,
+  setCellVerticalAlign,
+  setTableAttrs,
+  type TableAttrs,
+  type TableCellAttrs,
+} from '@src/core';
 
 @Component({
   tag: 'erix-table-toolbar',
@@ -8,23 +20,54 @@ import { tableCommands, getTableSelectionInfo } from '@src/core';
   shadow: true,
 })
 export class ErixTableToolbar {
+  @Element() el!: HTMLElement;
   @Prop() view?: EditorView;
   @State() private updateCounter: number = 0;
+  @State() private propertiesOpen: boolean = false;
+
+  private propertiesAnchor?: DOMRect;
+  // Start of the table the properties popover edits
+  private propertiesTableStart: number | null = null;
 
   private rowOptions = [
     { value: 'insert-above', label: 'Insert row above' },
     { value: 'insert-below', label: 'Insert row below' },
     { value: 'delete', label: 'Delete row' },
+    { value: 'header', label: 'Toggle header row' },
   ];
 
   private columnOptions = [
     { value: 'insert-left', label: 'Insert column left' },
     { value: 'insert-right', label: 'Insert column right' },
     { value: 'delete', label: 'Delete column' },
+    { value: 'header', label: 'Toggle header column' },
+    { value: 'sort-text-asc', label: 'Sort A → Z' },
+    { value: 'sort-text-desc', label: 'Sort Z → A' },
+    { value: 'sort-number-asc', label: 'Sort 0 → 9' },
+    { value: 'sort-number-desc', label: 'Sort 9 → 0' },
+  ];
+
+  private borderOptions = [
+    { value: '', label: 'Default' },
+    { value: '1px solid', label: 'Thin' },
+    { value: '2px solid', label: 'Medium' },
+    { value: '3px solid', label: 'Thick' },
+    { value: '1px dashed', label: 'Dashed' },
+    { value: 'none', label: 'None' },
+  ];
+
+  private verticalAlignOptions = [
+    { value: 'top', label: 'Align top' },
+    { value: 'middle', label: 'Align middle' },
+    { value: 'bottom', label: 'Align bottom' },
   ];
 
   @Method()
   async update() {
+    // Close the table properties when the cursor moves to another table
+    if (this.propertiesOpen && this.view && getTableSelectionInfo(this.view.state)?.rect.tableStart !== this.propertiesTableStart) {
+      this.propertiesOpen = false;
+    }
     this.updateCounter++;
   }
 
@@ -49,6 +92,9 @@ export class ErixTableToolbar {
       case 'delete':
         this.execCommand(tableCommands.deleteRow);
         break;
+      case 'header':
+        this.execCommand(tableCommands.toggleHeaderRow);
+        break;
     }
   };
 
@@ -64,6 +110,17 @@ export class ErixTableToolbar {
       case 'delete':
         this.execCommand(tableCommands.deleteColumn);
         break;
+      case 'header':
+        this.execCommand(tableCommands.toggleHeaderColumn);
+        break;
+      case 'sort-text-asc':
+      case 'sort-text-desc':
+      case 'sort-number-asc':
+      case 'sort-number-desc': {
+        const [, type, order] = action.split('-') as [string, 'text' | 'number', 'asc' | 'desc'];
+        this.execCommand(tableCommands.sortTableByColumn(order, type));
+        break;
+      }
     }
   };
 
@@ -71,11 +128,68 @@ export class ErixTableToolbar {
     this.execCommand(tableCommands.deleteTable);
   };
 
+  private openTableProperties = () => {
+    if (!this.view) return;
+    this.propertiesAnchor = this.el.getBoundingClientRect();
+    this.propertiesTableStart = getTableSelectionInfo(this.view.state)?.rect.tableStart ?? null;
+    this.propertiesOpen = true;
+  };
+
+  private handleTablePropertiesApply = (event: CustomEvent<TableAttrs>) => {
+    this.propertiesOpen = false;
+    this.execCommand(setTableAttrs(event.detail));
+  };
+
+  private handleTablePropertiesClose = () => {
+    this.propertiesOpen = false;
+    this.view?.focus();
+  };
+
+  private handleVerticalAlign = (event: CustomEvent<string>) => {
+    this.execCommand(setCellVerticalAlign(event.detail as 'top' | 'middle' | 'bottom'));
+  };
+
+  /**
+   * Render the cell border menu: border styles above a palette for the border color
+   */
+  private renderBorderMenu(cellAttrs: TableCellAttrs) {
+    const border = cellAttrs.border || '';
+
+    return (
+      <erix-dropdown triggerTitle="Cell border">
+        <div slot="trigger">
+          <erix-icon name="tableCellBorder" size={18}></erix-icon>
+        </div>
+        <div slot="menu">
+          {/* Keep the cell selection while picking a style */}
+          <div class="border-styles" onMouseDown={event => event.preventDefault()}>
+            {this.borderOptions.map(option => (
+              <button
+                type="button"
+                class={{ 'border-style': true, 'border-style--selected': option.value === border }}
+                onClick={() => this.execCommand(setCellBorder(option.value || null))}
+              >
+                <span class="border-style__sample" style={{ borderBottom: option.value ? `${option.value} currentColor` : '1px solid var(--editor-border)' }}></span>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <erix-color-palette
+            value={cellAttrs.borderColor || ''}
+            clearLabel="Default color"
+            onColorSelect={(event: CustomEvent<string>) => this.execCommand(setCellBorderColor(event.detail))}
+          ></erix-color-palette>
+        </div>
+      </erix-dropdown>
+    );
+  }
+
   render() {
     if (!this.view) return null;
 
     const info = getTableSelectionInfo(this.view.state);
-    if (!info) return null;
+    const cellAttrs = getActiveCellAttrs(this.view.state);
+    if (!info || !cellAttrs) return null;
 
     return (
       <Host>
@@ -102,6 +216,48 @@ export class ErixTableToolbar {
 
           <div class="erix-toolbar-divider"></div>
 
+          <erix-button buttonTitle="Merge cells" disabled={!info.canMerge} onErixClick={() => this.execCommand(tableCommands.mergeCells)}>
+            <erix-icon name="tableMergeCells" size={18}></erix-icon>
+          </erix-button>
+
+          <erix-button buttonTitle="Split cell" disabled={!info.canSplit} onErixClick={() => this.execCommand(tableCommands.splitCell)}>
+            <erix-icon name="tableSplitCell" size={18}></erix-icon>
+          </erix-button>
+
+          <div class="erix-toolbar-divider"></div>
+
+          {/* Cell background */}
+          <erix-dropdown triggerTitle="Cell background">
+            <div slot="trigger" class="color-trigger">
+              <erix-icon name="tableCellBackground" size={18}></erix-icon>
+              <span class="color-trigger__bar" style={{ backgroundColor: cellAttrs.backgroundColor || 'transparent' }}></span>
+            </div>
+            <div slot="menu">
+              <erix-color-palette
+                value={cellAttrs.backgroundColor || ''}
+                onColorSelect={(event: CustomEvent<string>) => this.execCommand(setCellBackground(event.detail))}
+              ></erix-color-palette>
+            </div>
+          </erix-dropdown>
+
+          {this.renderBorderMenu(cellAttrs)}
+
+          <erix-select
+            iconOnly={true}
+            triggerIcon="tableCellVerticalAlign"
+            options={this.verticalAlignOptions}
+            value={cellAttrs.verticalAlign || 'top'}
+            selectTitle="Vertical alignment"
+            width="auto"
+            onErixChange={this.handleVerticalAlign}
+          ></erix-select>
+
+          <div class="erix-toolbar-divider"></div>
+
+          <erix-button buttonTitle="Table properties" active={this.propertiesOpen} onErixClick={this.openTableProperties}>
+            <erix-icon name="tableProperties" size={18}></erix-icon>
+          </erix-button>
+
           {/* Delete table button - using erix-button for consistency */}
           <erix-button
             buttonTitle="Delete Table"
@@ -111,6 +267,15 @@ export class ErixTableToolbar {
             <erix-icon name="delete" size={18}></erix-icon>
           </erix-button>
         </div>
+
+        {/* Outside the keyed toolbar so the form keeps its values while the toolbar updates */}
+        <erix-table-properties
+          tableAttrs={getTableAttrs(this.view.state)}
+          open={this.propertiesOpen}
+          anchorRect={this.propertiesAnchor}
+          onTablePropertiesApply={this.handleTablePropertiesApply}
+          onTablePropertiesClose={this.handleTablePropertiesClose}
+        ></erix-table-properties>
       </Host>
     );
   }
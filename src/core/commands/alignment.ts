@@ -4,7 +4,6 @@
  */
 
 import { EditorState, Transaction } from 'prosemirror-state';
-import { editorSchema } from '../schema/index';
 
 type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
 
@@ -19,7 +18,7 @@ export function setTextAlignment(align: string): Command {
     let hasChanged = false;
 
     state.doc.nodesBetween(from, to, (node, pos) => {
-      if (node.type === editorSchema.nodes.paragraph || node.type === editorSchema.nodes.heading) {
+      if (node.type === state.schema.nodes.paragraph || node.type === state.schema.nodes.heading) {
         tr = tr.setNodeMarkup(pos, undefined, { ...node.attrs, align });
         hasChanged = true;
       }
@@ -55,7 +54,7 @@ export function setTextLineSpacing(lineHeight: string): Command {
     let hasChanged = false;
 
     state.doc.nodesBetween(from, to, (node, pos) => {
-      if (node.type === editorSchema.nodes.paragraph || node.type === editorSchema.nodes.heading) {
+      if (node.type === state.schema.nodes.paragraph || node.type === state.schema.nodes.heading) {
         tr = tr.setNodeMarkup(pos, undefined, { ...node.attrs, lineHeight });
         hasChanged = true;
       }
@@ -5,7 +5,6 @@
 
 import { EditorState, Transaction } from 'prosemirror-state';
 import { wrapIn, lift } from 'prosemirror-commands';
-import { editorSchema } from '../schema/index';
 
 /**
  * Helper to find the parent node of a specific type
@@ -27,7 +26,7 @@ function findParentNode(predicate: (node: any) => boolean) {
  * Toggle blockquote command
  */
 export function toggleBlockquote(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  const { blockquote } = editorSchema.nodes;
+  const { blockquote } = state.schema.nodes;
   if (!blockquote) return false;
 
   if (isBlockquoteActive(state)) {
@@ -41,7 +40,7 @@ export function toggleBlockquote(state: EditorState, dispatch?: (tr: Transaction
  * Check if blockquote is active at current selection
  */
 export function isBlockquoteActive(state: EditorState): boolean {
-  const { blockquote } = editorSchema.nodes;
+  const { blockquote } = state.schema.nodes;
   if (!blockquote) return false;
   
   const parent = findParentNode(node => node.type === blockquote)(state.selection);
@@ -0,0 +1,157 @@
+/**
+ * Code Block Commands
+ * Commands for turning blocks into code blocks and back, setting their
+ * language, and editing code inside them.
+ */
+
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { setBlockType } from 'prosemirror-commands';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+/** Text inserted by Tab inside a code block */
+const INDENT = '  ';
+
+/**
+ * Toggle code block command
+ */
+export function toggleCodeBlock(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
+  const { code_block, paragraph } = state.schema.nodes;
+  if (!code_block) return false;
+
+  if (isCodeBlockActive(state)) {
+    return setBlockType(paragraph)(state, dispatch);
+  }
+
+  return setBlockType(code_block)(state, dispatch);
+}
+
+/**
+ * Check if the selection is inside a code block
+ */
+export function isCodeBlockActive(state: EditorState): boolean {
+  return state.selection.$from.parent.type === state.schema.nodes.code_block;
+}
+
+/**
+ * Set the language of the code block at a position (defaults to the one around the selection).
+ * @param language - Language id, or null for plain text
+ * @param pos - Position of the code block node
+ */
+export function setCodeBlockLanguage(language: string | null, pos?: number): Command {
+  return (state, dispatch) => {
+    const { code_block } = state.schema.nodes;
+    const { $from } = state.selection;
+    const target = pos ?? ($from.parent.type === code_block ? $from.before() : -1);
+    const node = target >= 0 ? state.doc.nodeAt(target) : null;
+    if (!code_block || node?.type !== code_block) return false;
+
+    if (dispatch) {
+      dispatch(state.tr.setNodeMarkup(target, undefined, { ...node.attrs, language: language || null }));
+    }
+    return true;
+  };
+}
+
+/**
+ * Get the code block the whole selection is in, with the start of its content.
+ */
+function getSelectedCodeBlock(state: EditorState) {
+  const { $from, $to } = state.selection;
+  if ($from.parent.type !== state.schema.nodes.code_block || !$from.sameParent($to)) return null;
+  return { text: $from.parent.textContent, start: $from.start() };
+}
+
+/**
+ * Offset of the start of the line containing `offset`.
+ */
+function getLineStart(text: string, offset: number): number {
+  return offset > 0 ? text.lastIndexOf('\n', offset - 1) + 1 : 0;
+}
+
+/**
+ * Start offsets of the lines touched by the selection, last line first.
+ */
+function getSelectedLineStarts(state: EditorState, text: string, start: number): number[] {
+  const from = state.selection.from - start;
+  const to = state.selection.to - start;
+  const starts = [getLineStart(text, from)];
+  // A line starting right at the end of the selection is not touched
+  for (let next = text.indexOf('\n', starts[0]); next >= 0 && next + 1 < to; next = text.indexOf('\n', next + 1)) {
+    starts.push(next + 1);
+  }
+  return starts.reverse();
+}
+
+/**
+ * Insert a line break in a code block, keeping the indentation of the current line.
+ * Pressing Enter on two empty lines at the end leaves the code block.
+ */
+export const insertCodeNewline: Command = (state, dispatch) => {
+  const block = getSelectedCodeBlock(state);
+  if (!block) return false;
+
+  const { from, to, $to } = state.selection;
+  const { text, start } = block;
+
+  if (from === to && to - start === text.length && text.endsWith('\n\n')) {
+    const after = $to.after();
+    const type = $to.node(-1).contentMatchAt($to.indexAfter(-1)).defaultType;
+    if (type?.isTextblock) {
+      if (dispatch) {
+        const tr = state.tr.delete(to - 2, to);
+        const pos = tr.mapping.map(after);
+        tr.insert(pos, type.create());
+        dispatch(tr.setSelection(TextSelection.create(tr.doc, pos + 1)).scrollIntoView());
+      }
+      return true;
+    }
+  }
+
+  if (dispatch) {
+    const line = text.slice(getLineStart(text, from - start), from - start);
+    const indent = /^[ \t]*/.exec(line)![0];
+    dispatch(state.tr.insertText(`\n${indent}`, from, to).scrollIntoView());
+  }
+  return true;
+};
+
+/**
+ * Indent the selected lines of a code block, or insert an indent at the cursor.
+ */
+export const indentCodeBlock: Command = (state, dispatch) => {
+  const block = getSelectedCodeBlock(state);
+  if (!block) return false;
+
+  if (dispatch) {
+    const tr = state.tr;
+    if (state.selection.empty) {
+      tr.insertText(INDENT);
+    } else {
+      for (const line of getSelectedLineStarts(state, block.text, block.start)) {
+        tr.insertText(INDENT, block.start + line);
+      }
+    }
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
+
+/**
+ * Remove one indent from the selected lines of a code block.
+ * Handled inside code blocks even with nothing to remove, so lists are not lifted.
+ */
+export const outdentCodeBlock: Command = (state, dispatch) => {
+  const block = getSelectedCodeBlock(state);
+  if (!block) return false;
+
+  if (dispatch) {
+    const tr = state.tr;
+    for (const line of getSelectedLineStarts(state, block.text, block.start)) {
+      const width = /^(?: {1,2}|\t)?/.exec(block.text.slice(line))![0].length;
+      if (width) tr.delete(block.start + line, block.start + line + width);
+    }
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+};
@@ -0,0 +1,116 @@
+/**
+ * Color Commands
+ * Commands for setting text and highlight colors.
+ */
+
+import { EditorState, Transaction } from 'prosemirror-state';
+import { MarkType } from 'prosemirror-model';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+/**
+ * Get the mark of a type at the selection (as in getActiveFontFamily).
+ */
+function getActiveMark(state: EditorState, type: MarkType | undefined) {
+  const { $from, empty, from, to } = state.selection;
+  if (!type) return null;
+
+  return empty
+    ? type.isInSet(state.storedMarks || $from.marks())
+    : state.doc.rangeHasMark(from, to, type)
+    ? $from.marks().find(m => m.type === type)
+    : null;
+}
+
+/**
+ * Remove marks from the selection (or the stored marks at the cursor).
+ */
+function removeMarks(state: EditorState, tr: Transaction, types: (MarkType | undefined)[]): Transaction {
+  const { from, to, empty } = state.selection;
+  for (const type of types) {
+    if (!type) continue;
+    tr = empty ? tr.removeStoredMark(type) : tr.removeMark(from, to, type);
+  }
+  return tr;
+}
+
+// ============================================================================
+// TEXT COLOR COMMANDS
+// ============================================================================
+
+/**
+ * Set the text color of the selection.
+ * @param color - CSS color, or '' to remove it
+ */
+export function setTextColor(color: string): Command {
+  return (state: EditorState, dispatch?: (tr: Transaction) => void): boolean => {
+    const { from, to, empty } = state.selection;
+    const { textColor } = state.schema.marks;
+    if (!textColor) return false;
+
+    if (dispatch) {
+      let tr = state.tr;
+      if (!color) {
+        tr = removeMarks(state, tr, [textColor]);
+      } else if (empty) {
+        tr = tr.addStoredMark(textColor.create({ color }));
+      } else {
+        tr = tr.addMark(from, to, textColor.create({ color }));
+      }
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+export function getActiveTextColor(state: EditorState): string {
+  const mark = getActiveMark(state, state.schema.marks.textColor);
+  return mark ? mark.attrs.color : '';
+}
+
+// ============================================================================
+// HIGHLIGHT COMMANDS
+// ============================================================================
+
+/**
+ * Highlight the selection. Replaces a pasted background color on the same text.
+ * @param color - CSS color, or '' to remove the highlight
+ */
+export function setHighlight(color: string): Command {
+  return (state: EditorState, dispatch?: (tr: Transaction) => void): boolean => {
+    const { from, to, empty } = state.selection;
+    const { highlight, backgroundColor } = state.schema.marks;
+    if (!highlight) return false;
+
+    if (dispatch) {
+      let tr = removeMarks(state, state.tr, [backgroundColor, ...(color ? [] : [highlight])]);
+      if (color) {
+        tr = empty ? tr.addStoredMark(highlight.create({ color })) : tr.addMark(from, to, highlight.create({ color }));
+      }
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Get the highlight color at the selection, including pasted background colors.
+ */
+export function getActiveHighlight(state: EditorState): string {
+  const { highlight, backgroundColor } = state.schema.marks;
+  const mark = getActiveMark(state, highlight) || getActiveMark(state, backgroundColor);
+  return mark ? mark.attrs.color : '';
+}
+
+/**
+ * Remove text colors, highlights and background colors from the selection.
+ */
+export const clearColor: Command = (state, dispatch) => {
+  const { textColor, backgroundColor, highlight } = state.schema.marks;
+  if (!textColor && !backgroundColor && !highlight) return false;
+
+  if (dispatch) {
+    dispatch(removeMarks(state, state.tr, [textColor, backgroundColor, highlight]));
+  }
+  return true;
+};
@@ -0,0 +1,86 @@
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import type { CommentData } from '../../api/comments.types';
+import { addComment, findCommentRanges, getCommentData, getCommentIdsAt, removeComment, updateComment } from './comment';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const comment = (id: string): CommentData => ({ id, author: 'alice', text: `Note ${id}`, createdAt: 0, resolved: false, replies: [] });
+
+function run(state: EditorState, command: Command): EditorState {
+  let next = state;
+  expect(command(state, tr => (next = state.apply(tr)))).toBe(true);
+  return next;
+}
+
+function select(state: EditorState, from: number, to = from): EditorState {
+  return state.apply(state.tr.setSelection(TextSelection.create(state.doc, from, to)));
+}
+
+function quote(state: EditorState, id: string): string | null {
+  const range = findCommentRanges(state.doc).get(id);
+  return range ? state.doc.textBetween(range.from, range.to) : null;
+}
+
+/**
+ * 'Hello brave new world' with comment 'a' on 'brave'.
+ */
+function createState(): EditorState {
+  const state = EditorState.create({ doc: parseFromHTML('<p>Hello brave new world</p>', editorSchema) });
+  return run(select(state, 7, 12), addComment(comment('a')));
+}
+
+describe('comment commands', () => {
+  it('anchors a thread to the selection and stores it on the document', () => {
+    const state = createState();
+
+    expect(quote(state, 'a')).toBe('brave');
+    expect(getCommentData(state)).toEqual([comment('a')]);
+    expect(getCommentIdsAt(select(state, 9))).toEqual(['a']);
+    expect(getCommentIdsAt(select(state, 3))).toEqual([]);
+  });
+
+  it('needs a selection', () => {
+    const state = EditorState.create({ doc: parseFromHTML('<p>Hello</p>', editorSchema) });
+    expect(addComment(comment('a'))(state)).toBe(false);
+  });
+
+  it('maps the anchor through edits', () => {
+    let state = createState();
+
+    state = state.apply(state.tr.insertText('Oh, ', 1));
+    expect(quote(state, 'a')).toBe('brave');
+
+    state = state.apply(state.tr.insertText('r', 14));
+    expect(quote(state, 'a')).toBe('brarve');
+
+    state = state.apply(state.tr.delete(11, 15));
+    expect(quote(state, 'a')).toBe('ve');
+
+    state = state.apply(state.tr.delete(11, 13));
+    expect(quote(state, 'a')).toBeNull();
+    expect(getCommentData(state)).toEqual([comment('a')]);
+  });
+
+  it('keeps overlapping threads apart', () => {
+    let state = run(select(createState(), 10, 16), addComment(comment('b')));
+
+    expect(quote(state, 'a')).toBe('brave');
+    expect(quote(state, 'b')).toBe('ve new');
+    expect(getCommentIdsAt(select(state, 11))).toEqual(['a', 'b']);
+
+    state = run(state, removeComment('a'));
+    expect(quote(state, 'a')).toBeNull();
+    expect(quote(state, 'b')).toBe('ve new');
+    expect(getCommentData(state).map(thread => thread.id)).toEqual(['b']);
+  });
+
+  it('updates a stored thread', () => {
+    const state = run(createState(), updateComment('a', thread => ({ ...thread, resolved: true })));
+
+    expect(getCommentData(state)[0].resolved).toBe(true);
+    expect(updateComment('missing', thread => thread)(state)).toBe(false);
+    expect(removeComment('missing')(state)).toBe(false);
+  });
+});
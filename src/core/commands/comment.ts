@@ -0,0 +1,125 @@
+/**
+ * Comment Commands
+ * Commands for anchoring review comments to document ranges.
+ *
+ * Threads live in the `comments` doc attribute so they persist with the JSON
+ * document; the `comment` mark ties each thread to its text and is mapped
+ * through every transaction like any other mark.
+ */
+
+import { EditorState, Transaction } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import type { CommentData } from '../../api/comments.types';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Get the comment threads stored in the document.
+ */
+export function getCommentData(state: EditorState): CommentData[] {
+  return (state.doc.attrs.comments as CommentData[]) || [];
+}
+
+/**
+ * Find the range covered by each comment anchor.
+ * @returns Map of comment id to the outermost anchored range
+ */
+export function findCommentRanges(doc: ProseMirrorNode): Map<string, { from: number; to: number }> {
+  const ranges = new Map<string, { from: number; to: number }>();
+
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+
+    for (const mark of node.marks) {
+      if (mark.type.name !== 'comment') continue;
+
+      const id = mark.attrs.id as string;
+      const range = ranges.get(id);
+      const end = pos + node.nodeSize;
+      if (range) {
+        range.from = Math.min(range.from, pos);
+        range.to = Math.max(range.to, end);
+      } else {
+        ranges.set(id, { from: pos, to: end });
+      }
+    }
+  });
+
+  return ranges;
+}
+
+/**
+ * Get the ids of comments at the selection head.
+ */
+export function getCommentIdsAt(state: EditorState): string[] {
+  const { $head } = state.selection;
+  const marks = [...$head.marks(), ...($head.nodeAfter?.marks || [])];
+
+  return Array.from(new Set(marks.filter(mark => mark.type.name === 'comment').map(mark => mark.attrs.id as string)));
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Anchor a new comment thread to the current selection.
+ * @param comment - Thread data to store
+ */
+export function addComment(comment: CommentData): Command {
+  return (state, dispatch) => {
+    const { from, to, empty } = state.selection;
+    const markType = state.schema.marks.comment;
+    if (empty || !markType) return false;
+
+    if (dispatch) {
+      const tr = state.tr
+        .addMark(from, to, markType.create({ id: comment.id }))
+        .setDocAttribute('comments', [...getCommentData(state), comment]);
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Update a stored comment thread.
+ * @param id - Thread id
+ * @param update - Function returning the new thread data
+ */
+export function updateComment(id: string, update: (comment: CommentData) => CommentData): Command {
+  return (state, dispatch) => {
+    const comments = getCommentData(state);
+    if (!comments.some(comment => comment.id === id)) return false;
+
+    if (dispatch) {
+      const next = comments.map(comment => (comment.id === id ? update(comment) : comment));
+      dispatch(state.tr.setDocAttribute('comments', next));
+    }
+    return true;
+  };
+}
+
+/**
+ * Delete a comment thread and its anchor.
+ * @param id - Thread id
+ */
+export function removeComment(id: string): Command {
+  return (state, dispatch) => {
+    const comments = getCommentData(state);
+    const markType = state.schema.marks.comment;
+    if (!markType || !comments.some(comment => comment.id === id)) return false;
+
+    if (dispatch) {
+      const tr = state.tr
+        .removeMark(0, state.doc.content.size, markType.create({ id }))
+        .setDocAttribute('comments', comments.filter(comment => comment.id !== id));
+      dispatch(tr);
+    }
+    return true;
+  };
+}
@@ -4,7 +4,6 @@
  */
 
 import { EditorState, Transaction, TextSelection } from 'prosemirror-state';
-import { editorSchema } from '../schema/index';
 
 // ============================================================================
 // DOCUMENT COMMANDS
@@ -16,7 +15,7 @@ export function printDocument(): boolean {
 }
 
 export function insertPageBreak(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  const { page_break, paragraph } = editorSchema.nodes;
+  const { page_break, paragraph } = state.schema.nodes;
   if (!page_break) return false;
 
   if (dispatch) {
@@ -45,3 +44,22 @@ export function insertPageBreak(state: EditorState, dispatch?: (tr: Transaction)
   }
   return true;
 }
+
+export function insertHorizontalRule(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
+  const { horizontal_rule, paragraph } = state.schema.nodes;
+  if (!horizontal_rule) return false;
+
+  if (dispatch) {
+    const { tr } = state;
+    tr.replaceSelectionWith(horizontal_rule.create());
+
+    // Make sure there is a block after the rule to keep typing in
+    if (!tr.doc.resolve(tr.selection.to).nodeAfter) {
+      tr.insert(tr.selection.to, paragraph.create());
+    }
+
+    tr.setSelection(TextSelection.near(tr.doc.resolve(tr.selection.to)));
+    dispatch(tr.scrollIntoView());
+  }
+  return true;
+}
@@ -4,7 +4,6 @@
  */
 
 import { EditorState, Transaction } from 'prosemirror-state';
-import { editorSchema } from '../schema/index';
 
 type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
 
@@ -15,7 +14,7 @@ type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boo
 export function setFontFamily(family: string): Command {
   return (state: EditorState, dispatch?: (tr: Transaction) => void): boolean => {
     const { from, to, empty } = state.selection;
-    const { fontFamily } = editorSchema.marks;
+    const { fontFamily } = state.schema.marks;
     if (!fontFamily) return false;
 
     if (dispatch) {
@@ -41,7 +40,7 @@ export function setFontFamily(family: string): Command {
 
 export function getActiveFontFamily(state: EditorState): string {
   const { $from, empty } = state.selection;
-  const { fontFamily } = editorSchema.marks;
+  const { fontFamily } = state.schema.marks;
   if (!fontFamily) return '';
 
   const mark = empty
@@ -60,7 +59,7 @@ export function getActiveFontFamily(state: EditorState): string {
 export function setFontSize(size: string): Command {
   return (state: EditorState, dispatch?: (tr: Transaction) => void): boolean => {
     const { from, to, empty } = state.selection;
-    const { fontSize } = editorSchema.marks;
+    const { fontSize } = state.schema.marks;
     if (!fontSize) return false;
 
     if (dispatch) {
@@ -86,7 +85,7 @@ export function setFontSize(size: string): Command {
 
 export function getActiveFontSize(state: EditorState): string {
   const { $from, empty } = state.selection;
-  const { fontSize } = editorSchema.marks;
+  const { fontSize } = state.schema.marks;
   if (!fontSize) return '';
 
   const mark = empty
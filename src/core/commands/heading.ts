@@ -4,7 +4,6 @@
  */
 
 import { EditorState, Transaction } from 'prosemirror-state';
-import { editorSchema } from '../schema/index';
 
 type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
 
@@ -21,7 +20,7 @@ export function setHeading(level: number): Command {
 
     if (dispatch) {
       const tr = state.tr;
-      const headingType = editorSchema.nodes.heading;
+      const headingType = state.schema.nodes.heading;
 
       tr.setBlockType(range.start, range.end, headingType, { level });
       dispatch(tr);
@@ -39,7 +38,7 @@ export function setParagraph(state: EditorState, dispatch?: (tr: Transaction) =>
 
   if (dispatch) {
     const tr = state.tr;
-    tr.setBlockType(range.start, range.end, editorSchema.nodes.paragraph);
+    tr.setBlockType(range.start, range.end, state.schema.nodes.paragraph);
     dispatch(tr);
   }
 
@@ -54,7 +53,7 @@ export function getCurrentHeadingLevel(state: EditorState): number | null {
   const { $from } = state.selection;
   const node = $from.parent;
 
-  if (node.type === editorSchema.nodes.heading) {
+  if (node.type === state.schema.nodes.heading) {
     return node.attrs.level;
   }
 
@@ -0,0 +1,50 @@
+/**
+ * Image Commands
+ * Commands for inserting and editing images.
+ */
+
+import { EditorState, NodeSelection, Transaction } from 'prosemirror-state';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export interface ImageAttrs {
+  src: string;
+  alt?: string;
+  title?: string;
+  width?: string | null;
+  height?: string | null;
+}
+
+/**
+ * Insert an image at the selection.
+ * @param attrs - Image source and optional alt text, title and size
+ */
+export function insertImage(attrs: ImageAttrs): Command {
+  return (state, dispatch) => {
+    const { image } = state.schema.nodes;
+    if (!image || !attrs.src) return false;
+
+    if (dispatch) {
+      dispatch(state.tr.replaceSelectionWith(image.create(attrs)).scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Update the attributes of an image.
+ * @param attrs - Attributes to change (e.g. alt text or size)
+ * @param pos - Position of the image (defaults to the selected image)
+ */
+export function updateImage(attrs: Partial<ImageAttrs>, pos?: number): Command {
+  return (state, dispatch) => {
+    const at = pos ?? (state.selection instanceof NodeSelection ? state.selection.from : -1);
+    const node = at >= 0 ? state.doc.nodeAt(at) : null;
+    if (!node || node.type !== state.schema.nodes.image) return false;
+
+    if (dispatch) {
+      dispatch(state.tr.setNodeMarkup(at, undefined, { ...node.attrs, ...attrs }));
+    }
+    return true;
+  };
+}
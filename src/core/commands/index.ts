@@ -19,6 +19,7 @@ export {
   isSubscriptActive,
   isMarkActive,
   setTextCase,
+  clearFormatting,
 } from './text-format';
 
 // List Commands
@@ -46,6 +47,15 @@ export {
   getActiveFontSize,
 } from './font';
 
+// Color Commands
+export {
+  setTextColor,
+  setHighlight,
+  clearColor,
+  getActiveTextColor,
+  getActiveHighlight,
+} from './color';
+
 // Alignment Commands
 export {
   setTextAlignment,
@@ -58,6 +68,7 @@ export {
 export {
   printDocument,
   insertPageBreak,
+  insertHorizontalRule,
 } from './document';
 
 // Blockquote Commands
@@ -66,6 +77,44 @@ export {
   isBlockquoteActive,
 } from './blockquote';
 
+// Code Block Commands
+export {
+  toggleCodeBlock,
+  isCodeBlockActive,
+  setCodeBlockLanguage,
+  insertCodeNewline,
+  indentCodeBlock,
+  outdentCodeBlock,
+} from './code-block';
+
+// Image Commands
+export { insertImage, updateImage, type ImageAttrs } from './image';
+
+// Link Commands
+export { setLink, unsetLink, getLinkRange, isLinkActive, normalizeLinkHref, type LinkAttrs, type LinkRange } from './link';
+
+// Comment Commands
+export {
+  addComment,
+  updateComment,
+  removeComment,
+  getCommentData,
+  findCommentRanges,
+  getCommentIdsAt,
+} from './comment';
+
+// Track Changes Commands
+export {
+  getTrackedChanges,
+  getTrackedChangesAtSelection,
+  acceptChange,
+  rejectChange,
+  acceptChangesAtSelection,
+  rejectChangesAtSelection,
+  acceptAllChanges,
+  rejectAllChanges,
+} from './track-changes';
+
 // History Commands
 export { undo, redo } from './history';
 
@@ -0,0 +1,58 @@
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML, serializeToHTML } from '../../api/serializers/html-serializer';
+import { normalizeLinkHref, setLink } from './link';
+
+describe('normalizeLinkHref', () => {
+  it('keeps full addresses', () => {
+    expect(normalizeLinkHref('https://example.com/a?b#c')).toBe('https://example.com/a?b#c');
+    expect(normalizeLinkHref('  mailto:a@example.com ')).toBe('mailto:a@example.com');
+    expect(normalizeLinkHref('#section')).toBe('#section');
+    expect(normalizeLinkHref('/docs/page')).toBe('/docs/page');
+  });
+
+  it('adds https:// to bare domains and mailto: to email addresses', () => {
+    expect(normalizeLinkHref('www.example.com')).toBe('https://www.example.com');
+    expect(normalizeLinkHref('example.co.uk/path')).toBe('https://example.co.uk/path');
+    expect(normalizeLinkHref('someone@example.com')).toBe('mailto:someone@example.com');
+  });
+
+  it('rejects empty and script addresses', () => {
+    expect(normalizeLinkHref('   ')).toBeNull();
+    expect(normalizeLinkHref('javascript:alert(1)')).toBeNull();
+    expect(normalizeLinkHref('JavaScript:alert(1)')).toBeNull();
+    expect(normalizeLinkHref('java\tscript:alert(1)')).toBeNull();
+    expect(normalizeLinkHref(' vbscript:msgbox')).toBeNull();
+    expect(normalizeLinkHref('data:text/html,<script>alert(1)</script>')).toBeNull();
+  });
+});
+
+describe('link mark', () => {
+  it('keeps script links from HTML as plain text', () => {
+    const doc = parseFromHTML('<p><a href="javascript:alert(1)">bad</a> <a href="https://example.com">good</a></p>', editorSchema);
+    const links: string[] = [];
+    doc.descendants(node => {
+      node.marks.forEach(mark => mark.type.name === 'link' && links.push(mark.attrs.href));
+    });
+
+    expect(doc.textContent).toBe('bad good');
+    expect(links).toEqual(['https://example.com']);
+  });
+
+  it('renders no address for script links loaded from JSON', () => {
+    const doc = editorSchema.nodeFromJSON({
+      type: 'doc',
+      content: [{ type: 'paragraph', content: [{ type: 'text', text: 'bad', marks: [{ type: 'link', attrs: { href: 'javascript:alert(1)' } }] }] }],
+    });
+
+    expect(serializeToHTML(doc, editorSchema)).not.toContain('javascript:');
+  });
+
+  it('setLink rejects script addresses', () => {
+    const doc = parseFromHTML('<p>text</p>', editorSchema);
+    const state = EditorState.create({ doc, selection: TextSelection.create(doc, 1, 5) });
+
+    expect(setLink({ href: 'javascript:alert(1)' })(state)).toBe(false);
+    expect(setLink({ href: 'example.com' })(state)).toBe(true);
+  });
+});
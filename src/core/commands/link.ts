@@ -0,0 +1,135 @@
+/**
+ * Link Commands
+ * Commands for adding, editing and removing links.
+ */
+
+import { EditorState, Transaction } from 'prosemirror-state';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export interface LinkAttrs {
+  href: string;
+  title?: string | null;
+  /** Browsing context, e.g. '_blank' (null opens in the same tab) */
+  target?: string | null;
+}
+
+export interface LinkRange {
+  from: number;
+  to: number;
+  attrs: Required<LinkAttrs>;
+}
+
+// Schemes that run code or embed documents when the link is followed
+const UNSAFE_SCHEME = /^(?:javascript|vbscript|data):/i;
+
+/**
+ * Clean up a link address for insertion.
+ * Adds `https://` to bare domains and `mailto:` to email addresses.
+ * @param href - Address as typed or pasted
+ * @returns The address, or null if it is empty or uses a script scheme
+ */
+export function normalizeLinkHref(href: string): string | null {
+  const trimmed = href.trim();
+  // Browsers ignore whitespace and control characters inside the scheme
+  const scheme = trimmed.replace(/[\u0000- ]/g, '');
+  if (!trimmed || UNSAFE_SCHEME.test(scheme)) return null;
+
+  if (/^[^\s@/:]+@[^\s@/]+\.[^\s@/]+$/.test(trimmed)) return `mailto:${trimmed}`;
+  if (/^www\./i.test(trimmed) || /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(?=$|[/:?#])/i.test(trimmed)) return `https://${trimmed}`;
+  return trimmed;
+}
+
+/**
+ * Get the link around a position (defaults to the selection start).
+ * @returns The link's extent and attributes, or null outside a link
+ */
+export function getLinkRange(state: EditorState, pos: number = state.selection.from): LinkRange | null {
+  const { link } = state.schema.marks;
+  if (!link) return null;
+
+  const $pos = state.doc.resolve(pos);
+  const parent = $pos.parent;
+  const index = $pos.index();
+  // At the end of a link the cursor sits after it, so also look at the node before
+  const candidates = [$pos.textOffset === 0 && index > 0 ? index - 1 : -1, index];
+
+  for (const start of candidates) {
+    const mark = start >= 0 && start < parent.childCount ? link.isInSet(parent.child(start).marks) : undefined;
+    if (!mark) continue;
+
+    let first = start;
+    let last = start;
+    while (first > 0 && mark.isInSet(parent.child(first - 1).marks)) first--;
+    while (last < parent.childCount - 1 && mark.isInSet(parent.child(last + 1).marks)) last++;
+
+    let from = $pos.start();
+    for (let i = 0; i < first; i++) from += parent.child(i).nodeSize;
+    let to = from;
+    for (let i = first; i <= last; i++) to += parent.child(i).nodeSize;
+
+    return { from, to, attrs: mark.attrs as Required<LinkAttrs> };
+  }
+  return null;
+}
+
+/**
+ * Whether the selection is in or covers a link.
+ */
+export function isLinkActive(state: EditorState): boolean {
+  const { link } = state.schema.marks;
+  if (!link) return false;
+
+  const { from, to, empty } = state.selection;
+  return empty ? getLinkRange(state) !== null : state.doc.rangeHasMark(from, to, link);
+}
+
+/**
+ * Link the selection, or update the link around the cursor.
+ * With an empty selection outside a link, the address is inserted as linked text.
+ * @param attrs - Link address, title and target
+ * @returns false if the address is rejected (see `normalizeLinkHref`)
+ */
+export function setLink(attrs: LinkAttrs): Command {
+  return (state, dispatch) => {
+    const { link } = state.schema.marks;
+    const href = normalizeLinkHref(attrs.href);
+    if (!link || !href) return false;
+
+    if (dispatch) {
+      const mark = link.create({ href, title: attrs.title || null, target: attrs.target === undefined ? '_blank' : attrs.target });
+      const { from, to, empty } = state.selection;
+      const tr = state.tr;
+
+      if (empty) {
+        const range = getLinkRange(state);
+        if (range) {
+          tr.removeMark(range.from, range.to, link).addMark(range.from, range.to, mark);
+        } else {
+          tr.insert(from, state.schema.text(attrs.href.trim(), mark.addToSet(state.storedMarks ?? state.selection.$from.marks())));
+        }
+      } else {
+        tr.removeMark(from, to, link).addMark(from, to, mark);
+      }
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Remove the link around the cursor, or all links in the selection.
+ */
+export const unsetLink: Command = (state, dispatch) => {
+  const { link } = state.schema.marks;
+  if (!link) return false;
+
+  const { from, to, empty } = state.selection;
+  const range = empty ? getLinkRange(state) : { from, to };
+  if (!range || !state.doc.rangeHasMark(range.from, range.to, link)) return false;
+
+  if (dispatch) {
+    dispatch(state.tr.removeMark(range.from, range.to, link));
+  }
+  return true;
+};
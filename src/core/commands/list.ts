@@ -6,7 +6,6 @@
 import { EditorState, Transaction } from 'prosemirror-state';
 import { NodeType } from 'prosemirror-model';
 import { wrapInList, liftListItem, sinkListItem } from 'prosemirror-schema-list';
-import { editorSchema } from '../schema/index';
 
 type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
 
@@ -35,7 +34,7 @@ function toggleList(listType: NodeType, itemType: NodeType): Command {
     if (!range) return false;
 
     // Check if we're already in a list
-    const inAnyList = findParentNode(node => node.type === editorSchema.nodes.bullet_list || node.type === editorSchema.nodes.ordered_list)(state.selection);
+    const inAnyList = findParentNode(node => node.type === state.schema.nodes.bullet_list || node.type === state.schema.nodes.ordered_list)(state.selection);
 
     if (inAnyList) {
       if (inAnyList.node.type === listType) {
@@ -60,12 +59,12 @@ function toggleList(listType: NodeType, itemType: NodeType): Command {
 // ============================================================================
 
 export function toggleBulletList(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  const { bullet_list, list_item } = editorSchema.nodes;
+  const { bullet_list, list_item } = state.schema.nodes;
   return toggleList(bullet_list, list_item)(state, dispatch);
 }
 
 export function toggleOrderedList(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  const { ordered_list, list_item } = editorSchema.nodes;
+  const { ordered_list, list_item } = state.schema.nodes;
   return toggleList(ordered_list, list_item)(state, dispatch);
 }
 
@@ -74,12 +73,12 @@ export function toggleOrderedList(state: EditorState, dispatch?: (tr: Transactio
 // ============================================================================
 
 export function isInBulletList(state: EditorState): boolean {
-  const parentList = findParentNode(node => node.type === editorSchema.nodes.bullet_list)(state.selection);
+  const parentList = findParentNode(node => node.type === state.schema.nodes.bullet_list)(state.selection);
   return !!parentList;
 }
 
 export function isInOrderedList(state: EditorState): boolean {
-  const parentList = findParentNode(node => node.type === editorSchema.nodes.ordered_list)(state.selection);
+  const parentList = findParentNode(node => node.type === state.schema.nodes.ordered_list)(state.selection);
   return !!parentList;
 }
 
@@ -88,11 +87,11 @@ export function isInOrderedList(state: EditorState): boolean {
 // ============================================================================
 
 export function increaseIndent(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  const { list_item } = editorSchema.nodes;
+  const { list_item } = state.schema.nodes;
   return sinkListItem(list_item)(state, dispatch);
 }
 
 export function decreaseIndent(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  const { list_item } = editorSchema.nodes;
+  const { list_item } = state.schema.nodes;
   return liftListItem(list_item)(state, dispatch);
 }
@@ -0,0 +1,66 @@
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { sortTableByColumn } from './table';
+
+/**
+ * Create a state with the cursor in the cell containing `cursorText`.
+ */
+function createState(html: string, cursorText: string): EditorState {
+  const doc = parseFromHTML(html, editorSchema);
+  let cursor = -1;
+  doc.descendants((node, pos) => {
+    if (cursor === -1 && node.isText && node.text === cursorText) cursor = pos;
+  });
+  return EditorState.create({ doc, selection: TextSelection.create(doc, cursor) });
+}
+
+function columnText(doc: ProseMirrorNode, col: number): string[] {
+  const texts: string[] = [];
+  doc.firstChild!.forEach(row => texts.push(row.child(col).textContent));
+  return texts;
+}
+
+function sort(state: EditorState, order: 'asc' | 'desc', type: 'text' | 'number'): EditorState {
+  let next = state;
+  expect(sortTableByColumn(order, type)(state, tr => (next = state.apply(tr)))).toBe(true);
+  return next;
+}
+
+const tableHTML = (rows: string[][], header?: string[]) =>
+  '<table>' +
+  (header ? `<tr>${header.map(text => `<th><p>${text}</p></th>`).join('')}</tr>` : '') +
+  rows.map(row => `<tr>${row.map(text => `<td><p>${text}</p></td>`).join('')}</tr>`).join('') +
+  '</table>';
+
+describe('sortTableByColumn', () => {
+  it('sorts text in natural, case-insensitive order below the header', () => {
+    const state = createState(tableHTML([['item 10', 'a'], ['Item 2', 'b'], ['', 'c'], ['apple', 'd']], ['Name', 'Key']), 'apple');
+
+    expect(columnText(sort(state, 'asc', 'text').doc, 0)).toEqual(['Name', 'apple', 'Item 2', 'item 10', '']);
+    expect(columnText(sort(state, 'desc', 'text').doc, 0)).toEqual(['Name', 'item 10', 'Item 2', 'apple', '']);
+  });
+
+  it('sorts by the first number, ignoring words, currency and thousands separators', () => {
+    const state = createState(tableHTML([['Level 3'], ['$1,200.50'], ['n/a'], ['-4 kg'], ['1e2 units']]), 'n/a');
+
+    expect(columnText(sort(state, 'asc', 'number').doc, 0)).toEqual(['-4 kg', 'Level 3', '1e2 units', '$1,200.50', 'n/a']);
+    expect(columnText(sort(state, 'desc', 'number').doc, 0)).toEqual(['$1,200.50', '1e2 units', 'Level 3', '-4 kg', 'n/a']);
+  });
+
+  it('keeps the cursor in its cell', () => {
+    const state = sort(createState(tableHTML([['b'], ['c'], ['a']]), 'c'), 'asc', 'text');
+    expect(state.selection.$from.parent.textContent).toBe('c');
+  });
+
+  it('refuses tables with merged rows', () => {
+    const { table, table_row, table_cell, paragraph } = editorSchema.nodes;
+    const cell = (text: string, rowspan = 1) => table_cell.create({ rowspan }, paragraph.create(null, editorSchema.text(text)));
+    const doc = editorSchema.node('doc', null, [table.create(null, [table_row.create(null, [cell('x', 2), cell('b')]), table_row.create(null, [cell('a')])])]);
+    const state = EditorState.create({ doc, selection: TextSelection.create(doc, 10) });
+
+    expect(state.selection.$from.parent.textContent).toBe('b');
+    expect(sortTableByColumn()(state)).toBe(false);
+  });
+});
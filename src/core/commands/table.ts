@@ -14,7 +14,13 @@ import {
   toggleHeaderCell,
   goToNextCell,
   isInTable,
-  selectedRect
+  selectedRect,
+  selectionCell,
+  rowIsHeader,
+  columnIsHeader,
+  findTable,
+  CellSelection,
+  TableMap
 } from 'prosemirror-tables';
 import { Command } from 'prosemirror-state';
 
@@ -215,6 +221,180 @@ export const exitTableDown: Command = (state, dispatch) => {
   return true;
 };
 
+/**
+ * Cell attributes that the table toolbar can change.
+ */
+export interface TableCellAttrs {
+  backgroundColor?: string | null;
+  border?: string | null;
+  borderColor?: string | null;
+  verticalAlign?: 'top' | 'middle' | 'bottom' | null;
+}
+
+/**
+ * Sets attributes on the selected cells, or on the cell at the cursor.
+ * A null value resets the attribute to the stylesheet default.
+ */
+export const setCellAttrs = (attrs: TableCellAttrs): Command => {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+
+    if (dispatch) {
+      const tr = state.tr;
+      const { selection } = state;
+
+      if (selection instanceof CellSelection) {
+        selection.forEachCell((cell, pos) => {
+          tr.setNodeMarkup(pos, null, { ...cell.attrs, ...attrs });
+        });
+      } else {
+        const $cell = selectionCell(state);
+        tr.setNodeMarkup($cell.pos, null, { ...$cell.nodeAfter!.attrs, ...attrs });
+      }
+      dispatch(tr);
+    }
+    return true;
+  };
+};
+
+/**
+ * Sets the background color of the selected cells ('' or null removes it).
+ */
+export const setCellBackground = (color: string | null): Command => {
+  return setCellAttrs({ backgroundColor: color || null });
+};
+
+/**
+ * Sets the border of the selected cells.
+ * @param border - CSS border shorthand such as '1px solid', or null for the default border
+ * @param color - Border color; leave it out to keep the current color
+ */
+export const setCellBorder = (border: string | null, color?: string | null): Command => {
+  return setCellAttrs(color === undefined ? { border } : { border, borderColor: color || null });
+};
+
+/**
+ * Sets the border color of the selected cells ('' or null removes it).
+ */
+export const setCellBorderColor = (color: string | null): Command => {
+  return setCellAttrs({ borderColor: color || null });
+};
+
+/**
+ * Sets the vertical alignment of the selected cells (null for the default, top).
+ */
+export const setCellVerticalAlign = (align: 'top' | 'middle' | 'bottom' | null): Command => {
+  return setCellAttrs({ verticalAlign: align });
+};
+
+/**
+ * Gets the attributes of the cell at the cursor, or the anchor cell of a cell selection
+ */
+export const getActiveCellAttrs = (state: EditorState): TableCellAttrs | null => {
+  if (!isInTable(state)) return null;
+  return (selectionCell(state).nodeAfter?.attrs as TableCellAttrs | undefined) ?? null;
+};
+
+/**
+ * Table attributes edited in the table properties popover.
+ * Border, padding and spacing are pixels; width is a CSS width such as '100%' or '600px'.
+ */
+export interface TableAttrs {
+  border?: number | string | null;
+  borderColor?: string | null;
+  borderStyle?: 'solid' | 'dashed' | 'dotted' | 'double' | null;
+  width?: string | null;
+  cellpadding?: number | string | null;
+  cellspacing?: number | string | null;
+}
+
+/**
+ * Sets attributes of the table at the cursor. A null value resets the attribute.
+ */
+export const setTableAttrs = (attrs: TableAttrs): Command => {
+  return (state, dispatch) => {
+    const table = findTable(state.selection.$from);
+    if (!table) return false;
+
+    if (dispatch) {
+      dispatch(state.tr.setNodeMarkup(table.pos, null, { ...table.node.attrs, ...attrs }));
+    }
+    return true;
+  };
+};
+
+/**
+ * Gets the attributes of the table at the cursor
+ */
+export const getTableAttrs = (state: EditorState): TableAttrs | null => {
+  return findTable(state.selection.$from)?.node.attrs ?? null;
+};
+
+/**
+ * Reads the first number in a cell's text, ignoring words, currency signs, units and thousands separators
+ */
+const parseCellNumber = (text: string): number => {
+  const match = /[-+]?(?:\d[\d,]*(?:\.\d+)?|\.\d+)(?:e[-+]?\d+)?/i.exec(text);
+  return match ? parseFloat(match[0].replace(/,/g, '')) : NaN;
+};
+
+/**
+ * Sorts the rows below the header rows by the column at the cursor.
+ * Empty cells (and, for numbers, cells without a number) always sort last.
+ * Tables with merged rows (rowspan) can't be sorted.
+ * @param order - 'asc' or 'desc'
+ * @param type - Compare cells as 'text' (natural order, case-insensitive) or as 'number'
+ */
+export const sortTableByColumn = (order: 'asc' | 'desc' = 'asc', type: 'text' | 'number' = 'text'): Command => {
+  return (state, dispatch) => {
+    if (!isInTable(state)) return false;
+
+    const { map, table, tableStart, left: col, top } = selectedRect(state);
+    let firstRow = 0;
+    while (firstRow < map.height && rowIsHeader(map, table, firstRow)) firstRow++;
+    if (map.height - firstRow < 2) return false;
+
+    let hasRowspan = false;
+    table.descendants(node => {
+      if (node.attrs.rowspan > 1) hasRowspan = true;
+      return node.type.spec.tableRole === 'row';
+    });
+    if (hasRowspan) return false;
+
+    if (dispatch) {
+      const rows = Array.from({ length: map.height - firstRow }, (_, i) => firstRow + i);
+      const key = (row: number) => table.nodeAt(map.map[row * map.width + col])!.textContent.trim();
+      const direction = order === 'asc' ? 1 : -1;
+
+      rows.sort((a, b) => {
+        const textA = key(a);
+        const textB = key(b);
+        if (type === 'number') {
+          const numA = parseCellNumber(textA);
+          const numB = parseCellNumber(textB);
+          if (isNaN(numA) || isNaN(numB)) return Number(isNaN(numA)) - Number(isNaN(numB));
+          return (numA - numB) * direction;
+        }
+        if (!textA || !textB) return Number(!textA) - Number(!textB);
+        return textA.localeCompare(textB, undefined, { numeric: true, sensitivity: 'base' }) * direction;
+      });
+
+      let from = tableStart;
+      for (let row = 0; row < firstRow; row++) from += table.child(row).nodeSize;
+      const tr = state.tr.replaceWith(from, tableStart + table.content.size, rows.map(row => table.child(row)));
+
+      // Keep the cursor in the cell it was in
+      const newTable = tr.doc.nodeAt(tableStart - 1)!;
+      const newRow = top < firstRow ? top : firstRow + rows.indexOf(top);
+      const cellPos = tableStart + TableMap.get(newTable).map[newRow * map.width + col];
+      tr.setSelection(Selection.near(tr.doc.resolve(cellPos + 1)));
+
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+};
+
 /**
  * Table Commands Wrapper
  */
@@ -232,6 +412,13 @@ export const tableCommands = {
   toggleHeaderRow,
   toggleHeaderColumn,
   toggleHeaderCell,
+  setCellAttrs,
+  setCellBackground,
+  setCellBorder,
+  setCellBorderColor,
+  setCellVerticalAlign,
+  sortTableByColumn,
+  setTableAttrs,
   nextCell: goToNextCell(1),
   prevCell: goToNextCell(-1),
   exitTableUp,
@@ -272,6 +459,8 @@ export const getTableSelectionInfo = (state: EditorState) => {
   const rect = selectedRect(state);
   return {
     rect,
+    isHeaderRow: rowIsHeader(rect.map, rect.table, 0),
+    isHeaderColumn: columnIsHeader(rect.map, rect.table, 0),
     canMerge: mergeCells(state),
     canSplit: splitCell(state),
     canAddColumnBefore: addColumnBefore(state),
@@ -281,5 +470,6 @@ export const getTableSelectionInfo = (state: EditorState) => {
     canAddRowAfter: addRowAfter(state),
     canDeleteRow: deleteRow(state),
     canDeleteTable: deleteTable(state),
+    canSort: sortTableByColumn()(state),
   };
 };
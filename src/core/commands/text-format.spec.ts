@@ -0,0 +1,72 @@
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { addComment } from './comment';
+import { clearFormatting } from './text-format';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+const HTML =
+  '<p style="text-align: center; line-height: 2"><strong>Bold</strong> <a href="https://example.com"><em>link</em></a> <u>under</u></p>' +
+  '<h2 style="text-align: right">Title</h2>';
+
+function createState(from: number, to = from): EditorState {
+  const doc = parseFromHTML(HTML, editorSchema);
+  return EditorState.create({ doc, selection: TextSelection.create(doc, from, to) });
+}
+
+function run(state: EditorState, command: Command): EditorState {
+  let next = state;
+  expect(command(state, tr => (next = state.apply(tr)))).toBe(true);
+  return next;
+}
+
+function markNames(doc: ProseMirrorNode): string[] {
+  const names = new Set<string>();
+  doc.descendants(node => node.marks.forEach(mark => names.add(mark.type.name)));
+  return Array.from(names).sort();
+}
+
+describe('clearFormatting', () => {
+  it('removes marks but links and resets the block formatting of the selection', () => {
+    const state = createState(1, 16);
+    const next = run(state, clearFormatting());
+
+    expect(markNames(next.doc)).toEqual(['link']);
+    expect(next.doc.child(0).attrs).toMatchObject({ align: 'left', lineHeight: 'normal' });
+    expect(next.doc.child(1).attrs.align).toBe('right');
+  });
+
+  it('resets every block the selection touches', () => {
+    const state = run(createState(3, 24), clearFormatting());
+
+    expect(state.doc.child(0).attrs.align).toBe('left');
+    expect(state.doc.child(1).attrs).toMatchObject({ level: 2, align: 'left' });
+  });
+
+  it('keeps the marks listed in keepMarks instead of links', () => {
+    const state = run(createState(1, 16), clearFormatting({ keepMarks: ['underline'] }));
+    expect(markNames(state.doc)).toEqual(['underline']);
+  });
+
+  it('never removes comments', () => {
+    let state = run(createState(1, 5), addComment({ id: 'c', author: 'a', text: '', createdAt: 0, resolved: false, replies: [] }));
+    state = run(state.apply(state.tr.setSelection(TextSelection.create(state.doc, 1, 16))), clearFormatting({ keepMarks: [] }));
+
+    expect(markNames(state.doc)).toEqual(['comment']);
+  });
+
+  it('with an empty selection, resets the block and clears the marks to type with', () => {
+    const state = run(createState(3), clearFormatting());
+
+    expect(markNames(state.doc)).toEqual(['em', 'link', 'strong', 'underline']);
+    expect(state.doc.child(0).attrs.align).toBe('left');
+    expect(state.storedMarks).toEqual([]);
+  });
+
+  it('with an empty selection in a link, keeps typing the link', () => {
+    const state = run(createState(8), clearFormatting());
+    expect(state.storedMarks!.map(mark => mark.type.name)).toEqual(['link']);
+  });
+});
@@ -6,7 +6,8 @@
 import { EditorState, Transaction } from 'prosemirror-state';
 import { MarkType } from 'prosemirror-model';
 import { toggleMark } from 'prosemirror-commands';
-import { editorSchema } from '../schema/index';
+import { BLOCK_FORMATTING_ATTRS } from '../schema/index';
+import type { ClearFormattingOptions } from '../../api/plugin-registry.types';
 
 type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
 
@@ -15,27 +16,27 @@ type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boo
 // ============================================================================
 
 export function toggleBold(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  return toggleMark(editorSchema.marks.strong)(state, dispatch);
+  return toggleMark(state.schema.marks.strong)(state, dispatch);
 }
 
 export function toggleItalic(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  return toggleMark(editorSchema.marks.em)(state, dispatch);
+  return toggleMark(state.schema.marks.em)(state, dispatch);
 }
 
 export function toggleUnderline(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  return toggleMark(editorSchema.marks.underline)(state, dispatch);
+  return toggleMark(state.schema.marks.underline)(state, dispatch);
 }
 
 export function toggleStrikethrough(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  return toggleMark(editorSchema.marks.strikethrough)(state, dispatch);
+  return toggleMark(state.schema.marks.strikethrough)(state, dispatch);
 }
 
 export function toggleSuperscript(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  return toggleMark(editorSchema.marks.superscript)(state, dispatch);
+  return toggleMark(state.schema.marks.superscript)(state, dispatch);
 }
 
 export function toggleSubscript(state: EditorState, dispatch?: (tr: Transaction) => void): boolean {
-  return toggleMark(editorSchema.marks.subscript)(state, dispatch);
+  return toggleMark(state.schema.marks.subscript)(state, dispatch);
 }
 
 // ============================================================================
@@ -51,27 +52,27 @@ export function isMarkActive(state: EditorState, markType: MarkType): boolean {
 }
 
 export function isBoldActive(state: EditorState): boolean {
-  return isMarkActive(state, editorSchema.marks.strong);
+  return isMarkActive(state, state.schema.marks.strong);
 }
 
 export function isItalicActive(state: EditorState): boolean {
-  return isMarkActive(state, editorSchema.marks.em);
+  return isMarkActive(state, state.schema.marks.em);
 }
 
 export function isUnderlineActive(state: EditorState): boolean {
-  return isMarkActive(state, editorSchema.marks.underline);
+  return isMarkActive(state, state.schema.marks.underline);
 }
 
 export function isStrikethroughActive(state: EditorState): boolean {
-  return isMarkActive(state, editorSchema.marks.strikethrough);
+  return isMarkActive(state, state.schema.marks.strikethrough);
 }
 
 export function isSuperscriptActive(state: EditorState): boolean {
-  return editorSchema.marks.superscript ? isMarkActive(state, editorSchema.marks.superscript) : false;
+  return state.schema.marks.superscript ? isMarkActive(state, state.schema.marks.superscript) : false;
 }
 
 export function isSubscriptActive(state: EditorState): boolean {
-  return editorSchema.marks.subscript ? isMarkActive(state, editorSchema.marks.subscript) : false;
+  return state.schema.marks.subscript ? isMarkActive(state, state.schema.marks.subscript) : false;
 }
 
 // ============================================================================
@@ -110,3 +111,52 @@ export function setTextCase(type: 'uppercase' | 'lowercase'): Command {
     return true;
   };
 }
+
+// ============================================================================
+// CLEAR FORMATTING COMMANDS
+// ============================================================================
+
+/** Annotations rather than formatting, never cleared */
+const ANNOTATION_MARKS = ['comment', 'insertion', 'deletion'];
+
+/**
+ * Remove all marks from the selection and reset the block formatting
+ * (alignment, line height...) of the blocks it touches. With an empty selection, clears the stored marks
+ * and resets the current block.
+ * @param options - Marks to keep (default: links)
+ */
+export function clearFormatting(options: ClearFormattingOptions = {}): Command {
+  return (state: EditorState, dispatch?: (tr: Transaction) => void): boolean => {
+    const { from, to, empty, $from } = state.selection;
+    const keep = new Set([...(options.keepMarks ?? ['link']), ...ANNOTATION_MARKS]);
+    const markTypes = Object.values(state.schema.marks).filter(type => !keep.has(type.name));
+
+    if (dispatch) {
+      const tr = state.tr;
+
+      if (!empty) {
+        for (const type of markTypes) tr.removeMark(from, to, type);
+      }
+
+      state.doc.nodesBetween(from, to, (node, pos) => {
+        if (!node.isTextblock) return true;
+        const attrs = { ...node.attrs };
+        for (const name of BLOCK_FORMATTING_ATTRS) {
+          if (name in attrs) attrs[name] = node.type.spec.attrs?.[name]?.default ?? null;
+        }
+        if (BLOCK_FORMATTING_ATTRS.some(name => attrs[name] !== node.attrs[name])) {
+          tr.setNodeMarkup(pos, undefined, attrs);
+        }
+        return false;
+      });
+
+      // After the block changes, which reset stored marks
+      if (empty) {
+        tr.setStoredMarks((state.storedMarks ?? $from.marks()).filter(mark => keep.has(mark.type.name)));
+      }
+
+      dispatch(tr);
+    }
+    return true;
+  };
+}
@@ -0,0 +1,74 @@
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { createTrackChangesPlugin, trackTransaction } from '../plugins/track-changes';
+import { acceptAllChanges, acceptChange, rejectAllChanges, rejectChangesAtSelection, getTrackedChanges } from './track-changes';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+/**
+ * 'Hello world' with 'big ' suggested before 'world' and 'Hello ' suggested for deletion.
+ */
+function createState(): EditorState {
+  let state = EditorState.create({
+    doc: parseFromHTML('<p>Hello world</p>', editorSchema),
+    plugins: [createTrackChangesPlugin({ enabled: true, author: 'alice' })],
+  });
+  const edit = (tr: Transaction) => (state = state.apply(trackTransaction(tr, state)));
+  edit(state.tr.insertText('big ', 7));
+  edit(state.tr.delete(1, 7));
+  return state;
+}
+
+function run(state: EditorState, command: Command): EditorState {
+  let next = state;
+  // Resolving changes bypasses suggestion mode, as the editor does when dispatching
+  expect(command(state, tr => (next = state.apply(trackTransaction(tr, state))))).toBe(true);
+  return next;
+}
+
+describe('track changes commands', () => {
+  it('lists the suggestions in document order', () => {
+    expect(getTrackedChanges(createState().doc).map(({ type, text, author }) => ({ type, text, author }))).toEqual([
+      { type: 'deletion', text: 'Hello ', author: 'alice' },
+      { type: 'insertion', text: 'big ', author: 'alice' },
+    ]);
+  });
+
+  it('accepts every suggestion', () => {
+    const state = run(createState(), acceptAllChanges);
+
+    expect(state.doc.textContent).toBe('big world');
+    expect(getTrackedChanges(state.doc)).toEqual([]);
+  });
+
+  it('rejects every suggestion', () => {
+    const state = run(createState(), rejectAllChanges);
+
+    expect(state.doc.textContent).toBe('Hello world');
+    expect(getTrackedChanges(state.doc)).toEqual([]);
+  });
+
+  it('accepts a single suggestion by id', () => {
+    const state = createState();
+    const [deletion] = getTrackedChanges(state.doc);
+    const next = run(state, acceptChange(deletion.id));
+
+    expect(next.doc.textContent).toBe('big world');
+    expect(getTrackedChanges(next.doc).map(change => change.type)).toEqual(['insertion']);
+  });
+
+  it('rejects the suggestions at the selection', () => {
+    let state = createState();
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 9)));
+    const next = run(state, rejectChangesAtSelection);
+
+    expect(next.doc.textContent).toBe('Hello world');
+    expect(getTrackedChanges(next.doc).map(change => change.type)).toEqual(['deletion']);
+  });
+
+  it('does nothing without suggestions', () => {
+    const state = EditorState.create({ doc: parseFromHTML('<p>Plain</p>', editorSchema) });
+    expect(acceptAllChanges(state)).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Track Changes Commands
+ * Commands for listing, accepting and rejecting suggestions.
+ */
+
+import { EditorState, Transaction } from 'prosemirror-state';
+import { Mark, Node as ProseMirrorNode } from 'prosemirror-model';
+import { skipTrackChanges } from '../plugins/track-changes';
+import type { TrackedChange, TrackedChangeType } from '../../api/track-changes.types';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+interface ChangeSegment {
+  from: number;
+  to: number;
+  mark: Mark;
+}
+
+interface ChangeGroup {
+  change: TrackedChange;
+  segments: ChangeSegment[];
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+function collectChanges(doc: ProseMirrorNode): ChangeGroup[] {
+  const groups = new Map<string, ChangeGroup>();
+
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+
+    for (const mark of node.marks) {
+      const type = mark.type.name;
+      if (type !== 'insertion' && type !== 'deletion') continue;
+
+      const key = `${type}:${mark.attrs.id}`;
+      const end = pos + node.nodeSize;
+      const text = node.isText ? node.text! : '';
+      const group = groups.get(key);
+
+      if (group) {
+        group.change.to = end;
+        group.change.text += text;
+        group.segments.push({ from: pos, to: end, mark });
+      } else {
+        groups.set(key, {
+          change: {
+            id: mark.attrs.id,
+            type: type as TrackedChangeType,
+            author: mark.attrs.author,
+            date: mark.attrs.date,
+            from: pos,
+            to: end,
+            text,
+          },
+          segments: [{ from: pos, to: end, mark }],
+        });
+      }
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) => a.change.from - b.change.from);
+}
+
+/**
+ * Get all pending suggestions in document order.
+ */
+export function getTrackedChanges(doc: ProseMirrorNode): TrackedChange[] {
+  return collectChanges(doc).map(group => group.change);
+}
+
+function touchesSelection(change: TrackedChange, state: EditorState): boolean {
+  return change.from <= state.selection.to && change.to >= state.selection.from;
+}
+
+/**
+ * Get the suggestions touching the current selection.
+ */
+export function getTrackedChangesAtSelection(state: EditorState): TrackedChange[] {
+  return getTrackedChanges(state.doc).filter(change => touchesSelection(change, state));
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Accept or reject the suggestions selected by a filter.
+ * Accepting keeps insertions and removes deleted text; rejecting does the opposite.
+ */
+function resolveChanges(accept: boolean, filter: (change: TrackedChange, state: EditorState) => boolean): Command {
+  return (state, dispatch) => {
+    const groups = collectChanges(state.doc).filter(group => filter(group.change, state));
+    if (groups.length === 0) return false;
+
+    if (dispatch) {
+      const tr = state.tr;
+
+      for (const group of groups) {
+        const removeText = accept === (group.change.type === 'deletion');
+
+        for (const segment of group.segments) {
+          const from = tr.mapping.map(segment.from, 1);
+          const to = tr.mapping.map(segment.to, -1);
+          if (from >= to) continue;
+
+          if (removeText) {
+            tr.delete(from, to);
+          } else {
+            tr.removeMark(from, to, segment.mark);
+          }
+        }
+      }
+
+      dispatch(skipTrackChanges(tr));
+    }
+    return true;
+  };
+}
+
+/**
+ * Accept a single suggestion.
+ * @param id - Change id
+ */
+export function acceptChange(id: string): Command {
+  return resolveChanges(true, change => change.id === id);
+}
+
+/**
+ * Reject a single suggestion.
+ * @param id - Change id
+ */
+export function rejectChange(id: string): Command {
+  return resolveChanges(false, change => change.id === id);
+}
+
+/**
+ * Accept the suggestions touching the selection.
+ */
+export const acceptChangesAtSelection: Command = resolveChanges(true, touchesSelection);
+
+/**
+ * Reject the suggestions touching the selection.
+ */
+export const rejectChangesAtSelection: Command = resolveChanges(false, touchesSelection);
+
+/**
+ * Accept every suggestion in the document.
+ */
+export const acceptAllChanges: Command = resolveChanges(true, () => true);
+
+/**
+ * Reject every suggestion in the document.
+ */
+export const rejectAllChanges: Command = resolveChanges(false, () => true);
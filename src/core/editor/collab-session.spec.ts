@@ -0,0 +1,179 @@
+import { EditorState, Transaction } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { getVersion } from 'prosemirror-collab';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { InMemoryCollabHub } from '../../api/collaboration/in-memory-hub';
+import type { CollabStepsMessage, CollabTransport, CollabUser } from '../../api/collaboration.types';
+import type { EditorDocumentJSON } from '../../api/editor-api.types';
+import { EditorController } from './editor-controller';
+import { CollabSession } from './collab-session';
+
+const docJSON = (html: string) => parseFromHTML(html, editorSchema).toJSON() as EditorDocumentJSON;
+
+// Let the hub deliver its messages and the clients resend rebased steps
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * An editor without a DOM: a state that the controller updates and that
+ * notifies the session of every transaction, as the editor component does.
+ */
+function createClient(transport: CollabTransport, html = '<p>Hello</p>', name = 'client') {
+  let state = EditorState.create({ doc: parseFromHTML(html, editorSchema) });
+  const view = {
+    get state() {
+      return state;
+    },
+    updateState(next: EditorState) {
+      state = next;
+    },
+    dispatch(tr: Transaction) {
+      state = state.apply(tr);
+      controller.notifyTransactionListeners(tr, state);
+    },
+    destroy() {},
+  };
+
+  const controller = new EditorController(view as unknown as EditorView);
+  const user: CollabUser = { id: name, name, color: '#000' };
+  const client = {
+    controller,
+    collaborators: [] as CollabUser[],
+    session: null as unknown as CollabSession,
+    get text() {
+      return state.doc.textContent;
+    },
+    get version() {
+      return getVersion(state);
+    },
+    type(text: string, pos = state.doc.content.size - 1) {
+      controller.dispatch(state.tr.insertText(text, pos));
+    },
+  };
+
+  client.session = new CollabSession(controller, { transport, user, clientID: name }, users => (client.collaborators = users));
+  client.session.start();
+  return client;
+}
+
+describe('CollabSession', () => {
+  it('converges after concurrent edits', async () => {
+    const hub = new InMemoryCollabHub(docJSON('<p>Hello</p>'));
+    const alice = createClient(hub.createTransport(), '<p></p>', 'alice');
+    const bob = createClient(hub.createTransport(), '<p></p>', 'bob');
+    await flush();
+
+    alice.type('A: ', 1);
+    bob.type(' world');
+    alice.type('!');
+    await flush();
+
+    // Alice's steps reach the hub first, Bob's are rebased over them
+    expect(alice.text).toBe('A: Hello! world');
+    expect(bob.text).toBe(alice.text);
+    expect(alice.version).toBe(hub.version);
+    expect(bob.version).toBe(hub.version);
+  });
+
+  it('brings a late joiner up to date from the starting document', async () => {
+    const hub = new InMemoryCollabHub(docJSON('<p>Hello</p>'));
+    const alice = createClient(hub.createTransport(), '<p>Hello</p>', 'alice');
+    alice.type(' world');
+    await flush();
+
+    const carol = createClient(hub.createTransport(), '<p>Unrelated</p>', 'carol');
+    await flush();
+    expect(carol.text).toBe('Hello world');
+
+    carol.type('!');
+    await flush();
+    expect(alice.text).toBe('Hello world!');
+  });
+
+  it('brings a late joiner up to date without a starting document', async () => {
+    const hub = new InMemoryCollabHub();
+    const alice = createClient(hub.createTransport(), '<p>Hello</p>', 'alice');
+    alice.type(' world');
+    await flush();
+
+    const carol = createClient(hub.createTransport(), '<p>Hello</p>', 'carol');
+    await flush();
+    expect(carol.text).toBe('Hello world');
+    expect(carol.version).toBe(hub.version);
+  });
+
+  it('fetches the steps of a lost message', async () => {
+    const hub = new InMemoryCollabHub(docJSON('<p>Hello</p>'));
+    const lossy = hub.createTransport();
+    let dropped = 0;
+    const transport: CollabTransport = {
+      ...lossy,
+      onSteps: callback =>
+        lossy.onSteps(message => {
+          if (message.steps.length > 0 && dropped++ === 0) return;
+          callback(message);
+        }),
+    };
+
+    const alice = createClient(hub.createTransport(), '<p>Hello</p>', 'alice');
+    const bob = createClient(transport, '<p>Hello</p>', 'bob');
+    await flush();
+
+    alice.type(' there');
+    await flush();
+    expect(bob.text).toBe('Hello');
+
+    alice.type(' world');
+    await flush();
+    expect(bob.text).toBe('Hello there world');
+  });
+
+  it('reports a history the transport cannot provide', async () => {
+    const hub = new InMemoryCollabHub();
+    const transport: CollabTransport = {
+      ...hub.createTransport(),
+      stepsSince: () => Promise.reject(new Error('History truncated')),
+    };
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    createClient(transport);
+    await flush();
+
+    expect(error).toHaveBeenCalledWith(
+      '[CollabSession] Could not fetch the steps since version 0, the document is out of sync:',
+      new Error('History truncated')
+    );
+    error.mockRestore();
+  });
+
+  it('leaves the session on stop', async () => {
+    const hub = new InMemoryCollabHub(docJSON('<p>Hello</p>'));
+    const alice = createClient(hub.createTransport(), '<p>Hello</p>', 'alice');
+    const bob = createClient(hub.createTransport(), '<p>Hello</p>', 'bob');
+    await flush();
+    expect(bob.collaborators.map(user => user.id)).toEqual(['alice']);
+
+    alice.session.stop();
+    await flush();
+    expect(bob.collaborators).toEqual([]);
+
+    bob.type(' world');
+    await flush();
+    expect(alice.text).toBe('Hello');
+    expect(bob.text).toBe('Hello world');
+  });
+
+  it('ignores batches it has already applied', async () => {
+    const hub = new InMemoryCollabHub(docJSON('<p>Hello</p>'));
+    let deliver: ((message: CollabStepsMessage) => void) | null = null;
+    const transport = hub.createTransport();
+    const alice = createClient({ ...transport, onSteps: callback => transport.onSteps((deliver = callback)) }, '<p>Hello</p>', 'alice');
+
+    alice.type(' world');
+    await flush();
+    const again = await transport.stepsSince(0);
+    deliver!(again);
+
+    expect(alice.text).toBe('Hello world');
+  });
+});
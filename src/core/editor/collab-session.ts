@@ -0,0 +1,189 @@
+/**
+ * Collaboration Session
+ *
+ * Internal class that connects an EditorController to a collaboration
+ * transport using prosemirror-collab.
+ *
+ * IMPORTANT: This class is internal and should NOT be exposed publicly.
+ */
+
+import { Plugin, EditorState, Transaction } from 'prosemirror-state';
+import { Step } from 'prosemirror-transform';
+import { collab, getVersion, receiveTransaction, sendableSteps } from 'prosemirror-collab';
+import { EditorController } from './editor-controller';
+import { createCollabCursorsPlugin, setRemoteCursor, removeRemoteCursor } from '../plugins/collab-cursors';
+import type {
+  CollabClientID,
+  CollabPresence,
+  CollabStepsMessage,
+  CollabUser,
+  CollaborationOptions,
+} from '../../api/collaboration.types';
+
+/**
+ * CollabSession sends local steps, applies remote ones and tracks presence.
+ */
+export class CollabSession {
+  private controller: EditorController;
+  private options: CollaborationOptions;
+  private clientID: CollabClientID;
+  private plugins: Plugin[] = [];
+  private unsubscribers: (() => void)[] = [];
+  private collaborators: Map<CollabClientID, CollabPresence> = new Map();
+  private onCollaboratorsChange: (users: CollabUser[]) => void;
+  private active = false;
+  private catchingUp = false;
+
+  constructor(
+    controller: EditorController,
+    options: CollaborationOptions,
+    onCollaboratorsChange: (users: CollabUser[]) => void
+  ) {
+    this.controller = controller;
+    this.options = options;
+    this.clientID = options.clientID ?? Math.floor(Math.random() * 0xffffffff);
+    this.onCollaboratorsChange = onCollaboratorsChange;
+  }
+
+  /**
+   * Join the session. Without a snapshot the editor starts at version 0
+   * and replays the history, so its content must be the starting document.
+   */
+  start(): void {
+    const { transport } = this.options;
+    let version = 0;
+
+    const snapshot = transport.getDocument?.();
+    if (snapshot) {
+      this.controller.setDoc(this.controller.getSchema().nodeFromJSON(snapshot.doc));
+      version = snapshot.version;
+    }
+
+    this.plugins = [collab({ version, clientID: this.clientID }), createCollabCursorsPlugin()];
+    this.controller.addPlugins(this.plugins);
+    this.controller.addTransactionListener(this.handleTransaction);
+    this.active = true;
+
+    this.unsubscribers.push(transport.onSteps(message => this.receiveSteps(message)));
+    if (transport.onPresence) {
+      this.unsubscribers.push(transport.onPresence(presence => this.receivePresence(presence)));
+    }
+
+    this.sendPresence(this.controller.getState());
+    this.catchUp();
+  }
+
+  /**
+   * Leave the session and remove remote cursors.
+   */
+  stop(): void {
+    this.active = false;
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.options.transport.disconnect?.();
+
+    this.controller.removeTransactionListener(this.handleTransaction);
+    if (!this.controller.isDestroyed()) {
+      this.controller.removePlugins(this.plugins);
+    }
+    this.plugins = [];
+
+    this.collaborators.clear();
+    this.onCollaboratorsChange([]);
+  }
+
+  /**
+   * Users currently present in the session (excluding the local user).
+   */
+  getCollaborators(): CollabUser[] {
+    return Array.from(this.collaborators.values()).map(presence => presence.user);
+  }
+
+  private handleTransaction = (tr: Transaction, state: EditorState): void => {
+    const sendable = sendableSteps(state);
+    if (sendable) {
+      this.options.transport.sendSteps(
+        sendable.version,
+        sendable.steps.map(step => step.toJSON()),
+        sendable.clientID
+      );
+    }
+
+    if (tr.docChanged || tr.selectionSet) {
+      this.sendPresence(state);
+    }
+  };
+
+  /**
+   * Fetch the steps accepted since the local version.
+   */
+  private catchUp(): void {
+    if (this.catchingUp) return;
+    this.catchingUp = true;
+
+    const version = getVersion(this.controller.getState());
+    this.options.transport.stepsSince(version).then(
+      message => {
+        this.catchingUp = false;
+        this.receiveSteps(message);
+      },
+      error => {
+        this.catchingUp = false;
+        console.error(`[CollabSession] Could not fetch the steps since version ${version}, the document is out of sync:`, error);
+      }
+    );
+  }
+
+  private receiveSteps(message: CollabStepsMessage): void {
+    if (!this.active || this.controller.isDestroyed()) return;
+
+    const state = this.controller.getState();
+    const current = getVersion(state);
+
+    // Already applied
+    if (message.version + message.steps.length <= current) return;
+
+    // Steps in between were lost or are late: fetch everything after our version
+    if (message.version > current) {
+      this.catchUp();
+      return;
+    }
+
+    const skip = current - message.version;
+    const schema = state.schema;
+    const steps = message.steps.slice(skip).map(json => Step.fromJSON(schema, json));
+    const tr = receiveTransaction(state, steps, message.clientIDs.slice(skip), { mapSelectionBackward: true });
+
+    this.controller.dispatch(tr);
+  }
+
+  private receivePresence(presence: CollabPresence): void {
+    if (presence.clientID === this.clientID || this.controller.isDestroyed()) return;
+
+    const tr = this.controller.getState().tr;
+    if (presence.selection) {
+      this.collaborators.set(presence.clientID, presence);
+      setRemoteCursor(tr, {
+        clientID: presence.clientID,
+        name: presence.user.name,
+        color: presence.user.color,
+        anchor: presence.selection.anchor,
+        head: presence.selection.head,
+      });
+    } else {
+      this.collaborators.delete(presence.clientID);
+      removeRemoteCursor(tr, presence.clientID);
+    }
+
+    this.controller.dispatch(tr);
+    this.onCollaboratorsChange(this.getCollaborators());
+  }
+
+  private sendPresence(state: EditorState): void {
+    this.options.transport.sendPresence?.({
+      clientID: this.clientID,
+      user: this.options.user,
+      selection: { anchor: state.selection.anchor, head: state.selection.head },
+    });
+  }
+}
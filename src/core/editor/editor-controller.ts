@@ -8,10 +8,11 @@
  */
 
 import { EditorView } from 'prosemirror-view';
-import { EditorState, Transaction } from 'prosemirror-state';
+import { EditorState, Plugin, Transaction } from 'prosemirror-state';
 import { Schema, Node as ProseMirrorNode } from 'prosemirror-model';
 import { undo as pmUndo, redo as pmRedo, undoDepth, redoDepth } from 'prosemirror-history';
 import type { EditorSelection } from '../../api/editor-api.types';
+import { skipTrackChanges } from '../plugins/track-changes';
 import type { TransactionListener } from './editor-controller.types';
 
 /**
@@ -75,7 +76,16 @@ export class EditorController {
       this.view.state.doc.content.size,
       doc.content
     );
-    this.dispatch(tr);
+
+    // Carry over document-level attributes (e.g. comment threads)
+    for (const [name, value] of Object.entries(doc.attrs)) {
+      if (tr.doc.attrs[name] !== value) {
+        tr.setDocAttribute(name, value);
+      }
+    }
+
+    // Loading content is never recorded as a suggestion
+    this.dispatch(skipTrackChanges(tr));
   }
 
   /**
@@ -235,6 +245,30 @@ export class EditorController {
     return marks;
   }
 
+  // ===========================================================================
+  // PLUGIN OPERATIONS
+  // ===========================================================================
+
+  /**
+   * Add ProseMirror plugins to the running editor.
+   * @param plugins - Plugins to add
+   */
+  addPlugins(plugins: Plugin[]): void {
+    this.ensureNotDestroyed();
+    const state = this.view.state;
+    this.view.updateState(state.reconfigure({ plugins: [...state.plugins, ...plugins] }));
+  }
+
+  /**
+   * Remove previously added ProseMirror plugins.
+   * @param plugins - Plugins to remove
+   */
+  removePlugins(plugins: Plugin[]): void {
+    this.ensureNotDestroyed();
+    const state = this.view.state;
+    this.view.updateState(state.reconfigure({ plugins: state.plugins.filter(p => !plugins.includes(p)) }));
+  }
+
   // ===========================================================================
   // TRANSACTION HANDLING
   // ===========================================================================
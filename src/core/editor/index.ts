@@ -4,6 +4,7 @@
  */
 
 export { EditorController } from './editor-controller';
+export { CollabSession } from './collab-session';
 export type { 
   DispatchFn, 
   TransactionListener, 
@@ -5,10 +5,30 @@
  */
 
 // Schema
-export { editorSchema, type TextAlignment } from './schema/index';
+export { editorSchema, createEditorSchema, getTableDOMAttrs, type TextAlignment, type SchemaExtension } from './schema/index';
 
 // Plugins
-export { editorPlugins, createEditorPlugins } from './plugins/index';
+export { createEditorPlugins } from './plugins/index';
+export { trackTransaction, isTrackingChanges, configureTrackChanges, skipTrackChanges } from './plugins/index';
+export {
+  findReplacePluginKey,
+  getFindReplaceState,
+  setSearchQuery,
+  clearSearch,
+  findNext,
+  findPrevious,
+  replaceMatch,
+  replaceAllMatches,
+  openFindPanel,
+  closeFindPanel,
+} from './plugins/index';
+export { normalizeShortcut, formatShortcut, isMacPlatform } from './plugins/index';
+export { createExtensionPlugins, validateExtensions, type ErixExtension } from './plugins/index';
+export { createMarkdownInputRulesPlugin } from './plugins/index';
+export { uploadImageFiles, isImageFile, readFileAsDataURL, type ImageUploader } from './plugins/index';
+export { getLinkEditorState, openLinkEditor, closeLinkEditor } from './plugins/index';
+export { DEFAULT_CODE_LANGUAGES } from './plugins/index';
+export { getPageInfo, setPageLayout, PAGE_GAP, type PageLayout } from './plugins/index';
 
 // Commands - Text Format
 export {
@@ -26,6 +46,7 @@ export {
   isSubscriptActive,
   isMarkActive,
   setTextCase,
+  clearFormatting,
 } from './commands/index';
 
 // Commands - List
@@ -53,6 +74,15 @@ export {
   getActiveFontSize,
 } from './commands/index';
 
+// Commands - Color
+export {
+  setTextColor,
+  setHighlight,
+  clearColor,
+  getActiveTextColor,
+  getActiveHighlight,
+} from './commands/index';
+
 // Commands - Alignment
 export {
   setTextAlignment,
@@ -71,6 +101,45 @@ export {
 export {
   printDocument,
   insertPageBreak,
+  insertHorizontalRule,
+} from './commands/index';
+
+// Commands - Code Block
+export {
+  toggleCodeBlock,
+  isCodeBlockActive,
+  setCodeBlockLanguage,
+  insertCodeNewline,
+  indentCodeBlock,
+  outdentCodeBlock,
+} from './commands/index';
+
+// Commands - Image
+export { insertImage, updateImage, type ImageAttrs } from './commands/index';
+
+// Commands - Link
+export { setLink, unsetLink, getLinkRange, isLinkActive, normalizeLinkHref, type LinkAttrs, type LinkRange } from './commands/index';
+
+// Commands - Comments
+export {
+  addComment,
+  updateComment,
+  removeComment,
+  getCommentData,
+  findCommentRanges,
+  getCommentIdsAt,
+} from './commands/index';
+
+// Commands - Track Changes
+export {
+  getTrackedChanges,
+  getTrackedChangesAtSelection,
+  acceptChange,
+  rejectChange,
+  acceptChangesAtSelection,
+  rejectChangesAtSelection,
+  acceptAllChanges,
+  rejectAllChanges,
 } from './commands/index';
 
 // Commands - History
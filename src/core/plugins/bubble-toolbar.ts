@@ -0,0 +1,164 @@
+/**
+ * Bubble & Block Toolbar Plugins
+ * Floating toolbars for registry plugins: a bubble over text selections
+ * (`toolbar.showInBubble`) and a handle beside the current block
+ * (`toolbar.showInBlock`).
+ */
+
+import { EditorState, Plugin, PluginKey, TextSelection } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+import { createFloatingContainer, setFloatingVisible, getRangeRect, positionAbove, positionBeside } from './floating';
+import type { ErixEditorAPI } from '../../api/editor-api';
+
+export const bubbleToolbarKey = new PluginKey('bubble-toolbar');
+export const blockToolbarKey = new PluginKey('block-toolbar');
+
+type GetAPI = () => ErixEditorAPI | undefined;
+
+/**
+ * Base view: keeps a floating element in sync with the editor and hides it
+ * when the editor loses focus to anything outside the element.
+ */
+abstract class FloatingToolbarView {
+  container: HTMLDivElement;
+  toolbar: any;
+  isVisible: boolean = false;
+  /** Pending frame that shows the toolbar, 0 when none */
+  private frame = 0;
+
+  constructor(
+    protected view: EditorView,
+    protected getAPI: GetAPI,
+    tag: string
+  ) {
+    this.container = createFloatingContainer(`${tag}-container`);
+    this.toolbar = document.createElement(tag);
+    this.container.appendChild(this.toolbar);
+
+    view.dom.addEventListener('focus', this.handleFocus);
+    view.dom.addEventListener('blur', this.handleBlur);
+  }
+
+  /** Anchor rect when the toolbar should show, otherwise null */
+  protected abstract getAnchor(view: EditorView): DOMRect | null;
+
+  protected abstract position(anchorRect: DOMRect): void;
+
+  update(view: EditorView, lastState: EditorState | null) {
+    this.view = view;
+    const state = view.state;
+
+    if (lastState && lastState.doc.eq(state.doc) && lastState.selection.eq(state.selection)) {
+      return;
+    }
+
+    const anchorRect = view.hasFocus() ? this.getAnchor(view) : null;
+    if (!anchorRect) {
+      this.setVisible(false);
+      return;
+    }
+
+    this.toolbar.api = this.getAPI();
+
+    cancelAnimationFrame(this.frame);
+    this.frame = requestAnimationFrame(() => {
+      this.frame = 0;
+      this.position(anchorRect);
+      this.setVisible(true);
+      this.toolbar.update?.();
+    });
+  }
+
+  destroy() {
+    cancelAnimationFrame(this.frame);
+    this.view.dom.removeEventListener('focus', this.handleFocus);
+    this.view.dom.removeEventListener('blur', this.handleBlur);
+    this.container.remove();
+  }
+
+  private setVisible(visible: boolean) {
+    // A toolbar shown in a pending frame would appear at a stale position
+    if (!visible && this.frame) {
+      cancelAnimationFrame(this.frame);
+      this.frame = 0;
+    }
+    if (this.isVisible !== visible) {
+      setFloatingVisible(this.container, visible);
+      this.isVisible = visible;
+    }
+  }
+
+  private handleFocus = () => {
+    this.update(this.view, null);
+  };
+
+  private handleBlur = (event: FocusEvent) => {
+    if (event.relatedTarget instanceof Node && this.container.contains(event.relatedTarget)) return;
+    this.setVisible(false);
+  };
+}
+
+class BubbleToolbarView extends FloatingToolbarView {
+  constructor(view: EditorView, getAPI: GetAPI) {
+    super(view, getAPI, 'erix-bubble-toolbar');
+    this.update(view, null);
+  }
+
+  protected getAnchor(view: EditorView): DOMRect | null {
+    const { selection } = view.state;
+    if (!view.editable || selection.empty || !(selection instanceof TextSelection)) return null;
+    if (!this.getAPI()?.getPlugins({ showInBubble: true }).length) return null;
+
+    return getRangeRect(view, selection.from, selection.to);
+  }
+
+  protected position(anchorRect: DOMRect) {
+    positionAbove(this.container, anchorRect);
+  }
+}
+
+class BlockToolbarView extends FloatingToolbarView {
+  constructor(view: EditorView, getAPI: GetAPI) {
+    super(view, getAPI, 'erix-block-toolbar');
+    this.update(view, null);
+  }
+
+  protected getAnchor(view: EditorView): DOMRect | null {
+    const { $from } = view.state.selection;
+    if (!view.editable || !$from.parent.isTextblock || $from.depth === 0) return null;
+    if (!this.getAPI()?.getPlugins({ showInBlock: true }).length) return null;
+
+    const dom = view.nodeDOM($from.before());
+    return dom?.nodeType === Node.ELEMENT_NODE ? (dom as HTMLElement).getBoundingClientRect() : null;
+  }
+
+  protected position(anchorRect: DOMRect) {
+    positionBeside(this.container, anchorRect);
+  }
+}
+
+/**
+ * Creates the selection bubble toolbar plugin.
+ * @param getAPI - Returns the editor API used to list and run plugins
+ */
+export const createBubbleToolbarPlugin = (getAPI: GetAPI) => {
+  return new Plugin({
+    key: bubbleToolbarKey,
+    view(editorView) {
+      return new BubbleToolbarView(editorView, getAPI);
+    },
+  });
+};
+
+/**
+ * Creates the block handle toolbar plugin.
+ * @param getAPI - Returns the editor API used to list and run plugins
+ */
+export const createBlockToolbarPlugin = (getAPI: GetAPI) => {
+  return new Plugin({
+    key: blockToolbarKey,
+    view(editorView) {
+      return new BlockToolbarView(editorView, getAPI);
+    },
+  });
+};
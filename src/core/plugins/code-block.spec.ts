@@ -0,0 +1,60 @@
+import { EditorState } from 'prosemirror-state';
+import { editorSchema } from '../schema/index';
+import type { CodeLanguage } from '../../api/plugin-registry.types';
+import { codeBlockPluginKey, createCodeBlockPlugin } from './code-block';
+
+const { code_block, paragraph } = editorSchema.nodes;
+
+const LANGUAGES: CodeLanguage[] = [
+  {
+    id: 'test',
+    label: 'Test',
+    tokens: [
+      { type: 'keyword', pattern: /\bif\b/g },
+      { type: 'string', pattern: /"[^"]*"/ },
+      { type: 'symbol', pattern: /\p{Emoji_Presentation}/u },
+      { type: 'comment', pattern: /#.*?(?=;)/s },
+    ],
+  },
+];
+
+function createState(...blocks: string[]): EditorState {
+  const doc = editorSchema.node(
+    'doc',
+    null,
+    blocks.map(text => code_block.create({ language: 'test' }, text ? editorSchema.text(text) : undefined))
+  );
+  return EditorState.create({ doc, plugins: [createCodeBlockPlugin({ languages: LANGUAGES })] });
+}
+
+function tokens(state: EditorState): string[] {
+  return codeBlockPluginKey
+    .getState(state)!
+    .find()
+    .map(decoration => state.doc.textBetween(decoration.from, decoration.to));
+}
+
+describe('createCodeBlockPlugin', () => {
+  it('keeps the unicode and dotAll flags of a grammar', () => {
+    expect(tokens(createState('x 🎉 #a\nb; "s"'))).toEqual(['🎉', '#a\nb', '"s"']);
+  });
+
+  it('highlights the changed code block and keeps the others in place', () => {
+    const state = createState('if "a"', 'x', 'if "b"');
+    const next = state.apply(state.tr.insertText(' "c"', state.doc.child(0).nodeSize + 2));
+
+    expect(tokens(next)).toEqual(['if', '"a"', '"c"', 'if', '"b"']);
+  });
+
+  it('highlights a block again when its language changes and after it is split', () => {
+    let state = createState('if "a"');
+    state = state.apply(state.tr.setNodeMarkup(0, undefined, { language: null }));
+    expect(tokens(state)).toEqual([]);
+
+    state = state.apply(state.tr.setNodeMarkup(0, undefined, { language: 'test' }));
+    expect(tokens(state)).toEqual(['if', '"a"']);
+
+    state = state.apply(state.tr.split(3).insert(0, paragraph.create()));
+    expect(tokens(state)).toEqual(['if', '"a"']);
+  });
+});
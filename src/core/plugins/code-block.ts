@@ -0,0 +1,218 @@
+/**
+ * Code Block Plugin for ProseMirror
+ * Highlights code blocks with decorations from their language's grammar
+ * and renders a language picker above each block.
+ */
+
+import { Plugin, PluginKey, Transaction } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { Decoration, DecorationSet, EditorView, NodeView, ViewMutationRecord } from 'prosemirror-view';
+import { setCodeBlockLanguage } from '../commands/code-block';
+import { DEFAULT_CODE_LANGUAGES } from './code-languages';
+import type { CodeLanguage } from '../../api/plugin-registry.types';
+
+export const codeBlockPluginKey = new PluginKey<DecorationSet>('codeBlock');
+
+interface CodeToken {
+  from: number;
+  to: number;
+  type: string;
+}
+
+type CompiledRules = { type: string; pattern: RegExp }[];
+
+const IDENTIFIER = /[\w$]+/y;
+
+/**
+ * Find the language for an id or alias (case-insensitive).
+ */
+function findCodeLanguage(languages: CodeLanguage[], id: string | null | undefined): CodeLanguage | undefined {
+  const name = id?.toLowerCase();
+  return name ? languages.find(language => language.id.toLowerCase() === name || language.aliases?.some(alias => alias.toLowerCase() === name)) : undefined;
+}
+
+function compileLanguage(language: CodeLanguage): CompiledRules {
+  // Sticky patterns only match at the position being scanned
+  return language.tokens.map(({ type, pattern }) => ({ type, pattern: new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '') + 'y') }));
+}
+
+function tokenize(code: string, rules: CompiledRules): CodeToken[] {
+  const tokens: CodeToken[] = [];
+  let pos = 0;
+
+  scan: while (pos < code.length) {
+    for (const { type, pattern } of rules) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        tokens.push({ from: pos, to: pos + match[0].length, type });
+        pos += match[0].length;
+        continue scan;
+      }
+    }
+    // Skip whole identifiers so rules never match inside a word
+    IDENTIFIER.lastIndex = pos;
+    pos += IDENTIFIER.exec(code)?.[0].length || 1;
+  }
+  return tokens;
+}
+
+function highlightCodeBlock(node: ProseMirrorNode, pos: number, languages: CodeLanguage[], compiled: Map<CodeLanguage, CompiledRules>): Decoration[] {
+  const language = findCodeLanguage(languages, node.attrs.language);
+  if (!language || !node.textContent) return [];
+
+  if (!compiled.has(language)) compiled.set(language, compileLanguage(language));
+  return tokenize(node.textContent, compiled.get(language)!).map(token =>
+    Decoration.inline(pos + 1 + token.from, pos + 1 + token.to, { class: `erix-token erix-token-${token.type}` })
+  );
+}
+
+function buildDecorations(doc: ProseMirrorNode, languages: CodeLanguage[], compiled: Map<CodeLanguage, CompiledRules>): DecorationSet {
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'code_block') return !node.isTextblock;
+    decorations.push(...highlightCodeBlock(node, pos, languages, compiled));
+    return false;
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Map the decorations through a change and highlight again only the code
+ * blocks the change touched.
+ */
+function updateDecorations(tr: Transaction, decorations: DecorationSet, languages: CodeLanguage[], compiled: Map<CodeLanguage, CompiledRules>): DecorationSet {
+  const changed = new Map<number, ProseMirrorNode>();
+
+  tr.mapping.maps.forEach((map, index) => {
+    const rest = tr.mapping.slice(index + 1);
+    map.forEach((_oldStart, _oldEnd, newStart, newEnd) => {
+      const from = rest.map(newStart, -1);
+      const to = Math.max(from, rest.map(newEnd, 1));
+      tr.doc.nodesBetween(from, to, (node, pos) => {
+        if (node.type.name !== 'code_block') return !node.isTextblock;
+        changed.set(pos, node);
+        return false;
+      });
+    });
+  });
+
+  let result = decorations.map(tr.mapping, tr.doc);
+  changed.forEach((node, pos) => {
+    result = result.remove(result.find(pos + 1, pos + 1 + node.content.size));
+    result = result.add(tr.doc, highlightCodeBlock(node, pos, languages, compiled));
+  });
+  return result;
+}
+
+class CodeBlockView implements NodeView {
+  dom: HTMLElement;
+  contentDOM: HTMLElement;
+  private picker: HTMLElement;
+  private select: HTMLSelectElement;
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined,
+    private languages: CodeLanguage[],
+  ) {
+    this.dom = document.createElement('div');
+    this.dom.className = 'erix-code-block';
+
+    this.picker = document.createElement('div');
+    this.picker.className = 'erix-code-block-picker';
+    this.picker.contentEditable = 'false';
+
+    this.select = document.createElement('select');
+    this.select.className = 'erix-code-block-language';
+    this.select.setAttribute('aria-label', 'Code language');
+    this.select.addEventListener('change', () => this.changeLanguage(this.select.value || null));
+    this.picker.appendChild(this.select);
+    this.dom.appendChild(this.picker);
+
+    const pre = document.createElement('pre');
+    this.contentDOM = document.createElement('code');
+    pre.appendChild(this.contentDOM);
+    this.dom.appendChild(pre);
+
+    this.render();
+  }
+
+  private render() {
+    const current: string | null = this.node.attrs.language;
+    const known = findCodeLanguage(this.languages, current);
+    const options: [string, string][] = [['', 'Plain text'], ...this.languages.map(language => [language.id, language.label] as [string, string])];
+    // Keep a language the picker does not know, such as one from pasted HTML
+    if (current && !known) options.push([current, current]);
+
+    this.select.textContent = '';
+    for (const [value, label] of options) {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      this.select.appendChild(option);
+    }
+    this.select.value = known?.id ?? current ?? '';
+    this.select.disabled = !this.view.editable;
+
+    this.contentDOM.className = current ? `language-${current}` : '';
+  }
+
+  private changeLanguage(language: string | null) {
+    const pos = this.getPos();
+    if (pos === undefined || !this.view.editable) return;
+    setCodeBlockLanguage(language, pos)(this.view.state, this.view.dispatch);
+  }
+
+  update(node: ProseMirrorNode): boolean {
+    if (node.type !== this.node.type) return false;
+    const changed = node.attrs.language !== this.node.attrs.language;
+    this.node = node;
+    if (changed || this.select.disabled === this.view.editable) this.render();
+    return true;
+  }
+
+  stopEvent(event: Event): boolean {
+    return this.picker.contains(event.target as Node | null);
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord): boolean {
+    return mutation.type !== 'selection' && this.picker.contains(mutation.target);
+  }
+}
+
+export interface CodeBlockPluginOptions {
+  /** Languages for the picker and highlighting (default: DEFAULT_CODE_LANGUAGES) */
+  languages?: CodeLanguage[];
+}
+
+/**
+ * Creates the code block plugin.
+ * @param options - Languages for the picker and highlighting
+ * @returns ProseMirror Plugin
+ */
+export function createCodeBlockPlugin(options: CodeBlockPluginOptions = {}): Plugin {
+  const languages = options.languages ?? DEFAULT_CODE_LANGUAGES;
+  const compiled = new Map<CodeLanguage, CompiledRules>();
+
+  return new Plugin<DecorationSet>({
+    key: codeBlockPluginKey,
+
+    state: {
+      init: (_config, state) => buildDecorations(state.doc, languages, compiled),
+      apply: (tr, decorations) => (tr.docChanged ? updateDecorations(tr, decorations, languages, compiled) : decorations),
+    },
+
+    props: {
+      decorations(state) {
+        return codeBlockPluginKey.getState(state);
+      },
+      nodeViews: {
+        code_block: (node, view, getPos) => new CodeBlockView(node, view, getPos, languages),
+      },
+    },
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Code Languages
+ * Built-in grammars for code block highlighting. They are kept small on
+ * purpose: they color comments, strings, numbers and keywords, not parse code.
+ */
+
+import type { CodeLanguage, CodeTokenRule } from '../../api/plugin-registry.types';
+
+const keywords = (words: string): CodeTokenRule => ({ type: 'keyword', pattern: new RegExp(`\\b(?:${words.trim().split(/\s+/).join('|')})\\b`) });
+
+const SLASH_COMMENTS: CodeTokenRule[] = [
+  { type: 'comment', pattern: /\/\/.*/ },
+  { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/ },
+];
+const HASH_COMMENT: CodeTokenRule = { type: 'comment', pattern: /#.*/ };
+const QUOTED_STRINGS: CodeTokenRule = { type: 'string', pattern: /"(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?/ };
+const NUMBER: CodeTokenRule = { type: 'number', pattern: /\b(?:0x[\da-f]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b/i };
+const FUNCTION_CALL: CodeTokenRule = { type: 'function', pattern: /\b[a-z_$][\w$]*(?=\s*\()/i };
+
+const JAVASCRIPT_TOKENS: CodeTokenRule[] = [
+  ...SLASH_COMMENTS,
+  QUOTED_STRINGS,
+  { type: 'string', pattern: /`(?:\\[\s\S]|[^`\\])*`?/ },
+  NUMBER,
+  { type: 'literal', pattern: /\b(?:true|false|null|undefined|NaN|Infinity|this)\b/ },
+  keywords(`
+    async await break case catch class const continue debugger default delete do else export extends finally for
+    from function get if import in instanceof let new of return set static super switch throw try typeof var void while with yield
+  `),
+  FUNCTION_CALL,
+];
+
+/**
+ * Languages offered in the code block picker unless `codeLanguages` is configured.
+ */
+export const DEFAULT_CODE_LANGUAGES: CodeLanguage[] = [
+  {
+    id: 'javascript',
+    label: 'JavaScript',
+    aliases: ['js', 'jsx', 'mjs', 'cjs'],
+    tokens: JAVASCRIPT_TOKENS,
+  },
+  {
+    id: 'typescript',
+    label: 'TypeScript',
+    aliases: ['ts', 'tsx'],
+    tokens: [
+      ...JAVASCRIPT_TOKENS,
+      keywords('abstract any as asserts boolean declare enum implements infer interface is keyof namespace never number private protected public readonly satisfies string type unknown'),
+    ],
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    tokens: [
+      { type: 'property', pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/ },
+      { type: 'string', pattern: /"(?:\\.|[^"\\\n])*"?/ },
+      { type: 'number', pattern: /-?\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/i },
+      { type: 'literal', pattern: /\b(?:true|false|null)\b/ },
+    ],
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    aliases: ['xml', 'svg'],
+    tokens: [
+      { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/ },
+      { type: 'tag', pattern: /<\/?[a-z][\w:-]*|\/?>/i },
+      { type: 'attribute', pattern: /\b[a-z_:][\w:.-]*(?=\s*=)/i },
+      QUOTED_STRINGS,
+    ],
+  },
+  {
+    id: 'css',
+    label: 'CSS',
+    aliases: ['scss', 'less'],
+    tokens: [
+      { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/ },
+      QUOTED_STRINGS,
+      { type: 'keyword', pattern: /@[\w-]+/ },
+      { type: 'property', pattern: /\b[a-z-]+(?=\s*:(?!:))/i },
+      { type: 'number', pattern: /#[\da-f]{3,8}\b|-?\b\d+(?:\.\d+)?(?:%|[a-z]+)?/i },
+      FUNCTION_CALL,
+    ],
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    aliases: ['py'],
+    tokens: [
+      HASH_COMMENT,
+      { type: 'string', pattern: /("""|''')[\s\S]*?(?:\1|$)/ },
+      QUOTED_STRINGS,
+      NUMBER,
+      { type: 'literal', pattern: /\b(?:True|False|None|self)\b/ },
+      keywords(`
+        and as assert async await break class continue def del elif else except finally for from global if import in is
+        lambda nonlocal not or pass raise return try while with yield
+      `),
+      FUNCTION_CALL,
+    ],
+  },
+  {
+    id: 'bash',
+    label: 'Shell',
+    aliases: ['sh', 'shell', 'zsh'],
+    tokens: [
+      HASH_COMMENT,
+      QUOTED_STRINGS,
+      { type: 'property', pattern: /\$(?:\{[^}\n]*\}?|\w+)/ },
+      keywords('case do done elif else esac export fi for function if in local return then until while'),
+    ],
+  },
+  {
+    id: 'sql',
+    label: 'SQL',
+    tokens: [
+      { type: 'comment', pattern: /--.*/ },
+      { type: 'comment', pattern: /\/\*[\s\S]*?(?:\*\/|$)/ },
+      QUOTED_STRINGS,
+      NUMBER,
+      { type: 'literal', pattern: /\b(?:null|true|false)\b/i },
+      {
+        type: 'keyword',
+        pattern:
+          /\b(?:select|from|where|and|or|not|insert|into|values|update|set|delete|create|alter|drop|table|index|view|join|left|right|inner|outer|on|as|group|order|by|having|limit|offset|distinct|union|all|case|when|then|else|end|is|in|like|between|exists|primary|key|foreign|references|default)\b/i,
+      },
+    ],
+  },
+];
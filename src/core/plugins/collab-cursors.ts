@@ -0,0 +1,120 @@
+/**
+ * Collaboration Cursors Plugin for ProseMirror
+ * Renders the cursors and selections of remote collaborators.
+ */
+
+import { Plugin, PluginKey, Transaction } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+
+export interface RemoteCursor {
+  clientID: string | number;
+  name: string;
+  color: string;
+  anchor: number;
+  head: number;
+}
+
+type CollabCursorsMeta =
+  | { type: 'update'; cursor: RemoteCursor }
+  | { type: 'remove'; clientID: string | number };
+
+export const collabCursorsPluginKey = new PluginKey<Map<string | number, RemoteCursor>>('collabCursors');
+
+function createCaret(cursor: RemoteCursor): HTMLElement {
+  const caret = document.createElement('span');
+  caret.className = 'erix-remote-cursor';
+  caret.style.borderColor = cursor.color;
+
+  const label = document.createElement('span');
+  label.className = 'erix-remote-cursor-label';
+  label.style.backgroundColor = cursor.color;
+  label.textContent = cursor.name;
+
+  caret.appendChild(label);
+  return caret;
+}
+
+/**
+ * Creates a plugin that displays remote cursors and selections.
+ * Cursor positions are mapped through local changes until the next update arrives.
+ * @returns ProseMirror Plugin
+ */
+export function createCollabCursorsPlugin(): Plugin {
+  return new Plugin({
+    key: collabCursorsPluginKey,
+
+    state: {
+      init: () => new Map<string | number, RemoteCursor>(),
+      apply(tr, cursors) {
+        const meta = tr.getMeta(collabCursorsPluginKey) as CollabCursorsMeta | undefined;
+        if (!tr.docChanged && !meta) return cursors;
+
+        const next = new Map<string | number, RemoteCursor>();
+        cursors.forEach((cursor, clientID) => {
+          next.set(clientID, tr.docChanged
+            ? { ...cursor, anchor: tr.mapping.map(cursor.anchor), head: tr.mapping.map(cursor.head) }
+            : cursor);
+        });
+
+        if (meta?.type === 'update') next.set(meta.cursor.clientID, meta.cursor);
+        if (meta?.type === 'remove') next.delete(meta.clientID);
+
+        return next;
+      },
+    },
+
+    props: {
+      decorations(state) {
+        const cursors = this.getState(state);
+        if (!cursors || cursors.size === 0) return DecorationSet.empty;
+
+        const size = state.doc.content.size;
+        const clamp = (pos: number) => Math.max(0, Math.min(pos, size));
+        const decorations: Decoration[] = [];
+
+        cursors.forEach(cursor => {
+          const anchor = clamp(cursor.anchor);
+          const head = clamp(cursor.head);
+          const from = Math.min(anchor, head);
+          const to = Math.max(anchor, head);
+
+          if (from !== to) {
+            decorations.push(
+              Decoration.inline(from, to, {
+                class: 'erix-remote-selection',
+                style: `background-color: color-mix(in srgb, ${cursor.color} 25%, transparent)`,
+              })
+            );
+          }
+
+          decorations.push(
+            Decoration.widget(head, () => createCaret(cursor), {
+              key: `remote-cursor-${cursor.clientID}-${cursor.name}-${cursor.color}`,
+              side: 1,
+            })
+          );
+        });
+
+        return DecorationSet.create(state.doc, decorations);
+      },
+    },
+  });
+}
+
+/**
+ * Add or move a remote cursor.
+ * @param tr - Transaction to annotate
+ * @param cursor - Remote cursor data
+ */
+export function setRemoteCursor(tr: Transaction, cursor: RemoteCursor): Transaction {
+  return tr.setMeta(collabCursorsPluginKey, { type: 'update', cursor });
+}
+
+/**
+ * Remove a remote cursor.
+ * @param tr - Transaction to annotate
+ * @param clientID - Client whose cursor should be removed
+ */
+export function removeRemoteCursor(tr: Transaction, clientID: string | number): Transaction {
+  return tr.setMeta(collabCursorsPluginKey, { type: 'remove', clientID });
+}
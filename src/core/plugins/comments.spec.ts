@@ -0,0 +1,41 @@
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { addComment, updateComment } from '../commands/comment';
+import { commentsPluginKey, createCommentsPlugin, getActiveCommentId } from './comments';
+
+function createState(): EditorState {
+  let state = EditorState.create({ doc: parseFromHTML('<p>Hello brave world</p>', editorSchema), plugins: [createCommentsPlugin()] });
+  state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 7, 12)));
+  addComment({ id: 'a', author: 'alice', text: 'Note', createdAt: 0, resolved: false, replies: [] })(state, tr => (state = state.apply(tr)));
+  return state;
+}
+
+function classes(state: EditorState): string[] {
+  return commentsPluginKey
+    .getState(state)!
+    .decorations.find()
+    .map(decoration => `${state.doc.textBetween(decoration.from, decoration.to)}: ${(decoration as unknown as { type: { attrs: { class: string } } }).type.attrs.class}`);
+}
+
+describe('createCommentsPlugin', () => {
+  it('tracks the comment under the cursor', () => {
+    let state = createState();
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 9)));
+    expect(getActiveCommentId(state)).toBe('a');
+    expect(classes(state)).toEqual(['brave: erix-comment erix-comment--active']);
+
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 2)));
+    expect(getActiveCommentId(state)).toBeNull();
+    expect(classes(state)).toEqual(['brave: erix-comment']);
+  });
+
+  it('highlights resolved threads differently and follows edits', () => {
+    let state = createState();
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 2)));
+    updateComment('a', thread => ({ ...thread, resolved: true }))(state, tr => (state = state.apply(tr)));
+    state = state.apply(state.tr.insertText('Oh ', 1));
+
+    expect(classes(state)).toEqual(['brave: erix-comment erix-comment--resolved']);
+  });
+});
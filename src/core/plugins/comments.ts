@@ -0,0 +1,85 @@
+/**
+ * Comments Plugin for ProseMirror
+ * Highlights commented text and tracks the comment under the cursor.
+ */
+
+import { EditorState, Plugin, PluginKey } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import { getCommentIdsAt } from '../commands/comment';
+import type { CommentData } from '../../api/comments.types';
+
+interface CommentsPluginState {
+  activeId: string | null;
+  decorations: DecorationSet;
+}
+
+export const commentsPluginKey = new PluginKey<CommentsPluginState>('comments');
+
+function buildDecorations(doc: ProseMirrorNode, activeId: string | null): DecorationSet {
+  const comments = (doc.attrs.comments as CommentData[]) || [];
+  if (comments.length === 0) return DecorationSet.empty;
+
+  const resolved = new Set(comments.filter(comment => comment.resolved).map(comment => comment.id));
+  const decorations: Decoration[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isInline) return;
+
+    for (const mark of node.marks) {
+      if (mark.type.name !== 'comment') continue;
+
+      const id = mark.attrs.id as string;
+      const classes = ['erix-comment'];
+      if (resolved.has(id)) classes.push('erix-comment--resolved');
+      if (id === activeId) classes.push('erix-comment--active');
+
+      decorations.push(Decoration.inline(pos, pos + node.nodeSize, { class: classes.join(' ') }));
+    }
+  });
+
+  return DecorationSet.create(doc, decorations);
+}
+
+function findActiveId(state: EditorState): string | null {
+  const ids = getCommentIdsAt(state);
+  return ids.length > 0 ? ids[ids.length - 1] : null;
+}
+
+/**
+ * Creates the comments plugin.
+ * @returns ProseMirror Plugin
+ */
+export function createCommentsPlugin(): Plugin {
+  return new Plugin<CommentsPluginState>({
+    key: commentsPluginKey,
+
+    state: {
+      init: (_config, state) => {
+        const activeId = findActiveId(state);
+        return { activeId, decorations: buildDecorations(state.doc, activeId) };
+      },
+      apply(tr, value, _oldState, newState) {
+        if (!tr.docChanged && !tr.selectionSet) return value;
+
+        const activeId = findActiveId(newState);
+        if (!tr.docChanged && activeId === value.activeId) return value;
+
+        return { activeId, decorations: buildDecorations(newState.doc, activeId) };
+      },
+    },
+
+    props: {
+      decorations(state) {
+        return this.getState(state)?.decorations;
+      },
+    },
+  });
+}
+
+/**
+ * Get the id of the comment under the cursor.
+ */
+export function getActiveCommentId(state: EditorState): string | null {
+  return commentsPluginKey.getState(state)?.activeId ?? null;
+}
@@ -0,0 +1,72 @@
+/**
+ * Editor Extensions
+ * Lets consumers add node and mark types (e.g. a mention or callout) together
+ * with the plugins, keymaps and input rules that work on them.
+ */
+
+import { Command, Plugin } from 'prosemirror-state';
+import { Schema } from 'prosemirror-model';
+import { keymap } from 'prosemirror-keymap';
+import { inputRules, InputRule } from 'prosemirror-inputrules';
+import type { SchemaExtension } from '../schema/index';
+
+/**
+ * Values that need node or mark types can be given as a function of the
+ * editor's schema, which is built per editor instance.
+ */
+type SchemaDependent<T> = T | ((schema: Schema) => T);
+
+export interface ErixExtension extends SchemaExtension {
+  /** Unique extension name */
+  name: string;
+  /** ProseMirror plugins */
+  plugins?: SchemaDependent<Plugin[]>;
+  /** Key bindings, in ProseMirror key-name form (e.g. 'Mod-Shift-m') */
+  keymap?: SchemaDependent<Record<string, Command>>;
+  /** Input rules (e.g. turn "@name " into a mention) */
+  inputRules?: SchemaDependent<InputRule[]>;
+}
+
+function resolve<T>(value: SchemaDependent<T> | undefined, schema: Schema): T | undefined {
+  return typeof value === 'function' ? (value as (schema: Schema) => T)(schema) : value;
+}
+
+/**
+ * Check that extension names are unique.
+ * @throws Error if two extensions share a name
+ */
+export function validateExtensions(extensions: ErixExtension[]): void {
+  const names = new Set<string>();
+  for (const extension of extensions) {
+    if (names.has(extension.name)) {
+      throw new Error(`Extension with name "${extension.name}" is already registered.`);
+    }
+    names.add(extension.name);
+  }
+}
+
+/**
+ * Collect the plugins, keymaps and input rules of extensions.
+ * Keymaps keep extension order; all input rules share one plugin.
+ * @param extensions - Editor extensions
+ * @param schema - Schema built with `createEditorSchema(extensions)`
+ */
+export function createExtensionPlugins(extensions: ErixExtension[], schema: Schema): Plugin[] {
+  const plugins: Plugin[] = [];
+  const rules: InputRule[] = [];
+
+  for (const extension of extensions) {
+    plugins.push(...(resolve(extension.plugins, schema) ?? []));
+
+    const bindings = resolve(extension.keymap, schema);
+    if (bindings) plugins.push(keymap(bindings));
+
+    rules.push(...(resolve(extension.inputRules, schema) ?? []));
+  }
+
+  if (rules.length > 0) {
+    plugins.push(inputRules({ rules }));
+  }
+
+  return plugins;
+}
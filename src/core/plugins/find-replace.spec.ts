@@ -0,0 +1,111 @@
+import { EditorState, TextSelection, Transaction } from 'prosemirror-state';
+import { history, undo } from 'prosemirror-history';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import type { SearchOptions } from '../../api/search.types';
+import {
+  createFindReplacePlugin,
+  findNext,
+  findPrevious,
+  getFindReplaceState,
+  openFindPanel,
+  replaceAllMatches,
+  replaceMatch,
+  setSearchQuery,
+} from './find-replace';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+function createState(html: string, query = '', options: SearchOptions = {}): EditorState {
+  const state = EditorState.create({ doc: parseFromHTML(html, editorSchema), plugins: [createFindReplacePlugin(), history()] });
+  return query ? run(state, setSearchQuery(query, options)) : state;
+}
+
+function run(state: EditorState, command: Command): EditorState {
+  let next = state;
+  expect(command(state, tr => (next = state.apply(tr)))).toBe(true);
+  return next;
+}
+
+function matchTexts(state: EditorState): string[] {
+  return getFindReplaceState(state)!.matches.map(match => state.doc.textBetween(match.from, match.to));
+}
+
+describe('find & replace', () => {
+  it('matches plain text case-insensitively by default', () => {
+    const state = createState('<p>Cat cat CAT c.t</p>', 'cat');
+    expect(matchTexts(state)).toEqual(['Cat', 'cat', 'CAT']);
+  });
+
+  it('matches case and whole words when asked', () => {
+    expect(matchTexts(createState('<p>Cat cat CAT</p>', 'cat', { caseSensitive: true }))).toEqual(['cat']);
+    expect(matchTexts(createState('<p>cat concat cats café</p>', 'cat', { wholeWord: true }))).toEqual(['cat']);
+    expect(matchTexts(createState('<p>caf café</p>', 'caf', { wholeWord: true }))).toEqual(['caf']);
+  });
+
+  it('treats regex characters literally unless regex is on', () => {
+    expect(matchTexts(createState('<p>c.t cat</p>', 'c.t'))).toEqual(['c.t']);
+    expect(matchTexts(createState('<p>c.t cat</p>', 'c.t', { regex: true }))).toEqual(['c.t', 'cat']);
+  });
+
+  it('reports an invalid pattern instead of throwing', () => {
+    const search = getFindReplaceState(createState('<p>text</p>', '(', { regex: true }))!;
+    expect(search.matches).toEqual([]);
+    expect(search.error).toEqual(expect.any(String));
+  });
+
+  it('matches within each textblock only', () => {
+    expect(matchTexts(createState('<p>end</p><p>start</p>', 'd s'))).toEqual([]);
+  });
+
+  it('steps through the matches, wrapping around', () => {
+    const selected = (state: EditorState) => state.doc.textBetween(state.selection.from, state.selection.to);
+    let state = createState('<p>a1 a2 a3</p>', 'a\\d', { regex: true });
+    expect(getFindReplaceState(state)!.current).toBe(0);
+
+    state = run(state, findNext);
+    expect(selected(state)).toBe('a2');
+
+    state = run(run(state, findPrevious), findPrevious);
+    expect(selected(state)).toBe('a3');
+
+    state = run(state, findNext);
+    expect(selected(state)).toBe('a1');
+  });
+
+  it('replaces the current match and moves to the next', () => {
+    let state = createState('<p>one two one</p>', 'one');
+    state = run(state, replaceMatch('1'));
+
+    expect(state.doc.textContent).toBe('1 two one');
+    const search = getFindReplaceState(state)!;
+    expect(search.matches).toHaveLength(1);
+    expect(search.current).toBe(0);
+  });
+
+  it('replaces every match in one undoable transaction', () => {
+    let state = createState('<p>one two one</p><p>one</p>', 'one');
+    state = run(state, replaceAllMatches('three'));
+    expect(state.doc.textContent).toBe('three two threethree');
+    expect(getFindReplaceState(state)!.matches).toEqual([]);
+
+    state = run(state, undo);
+    expect(state.doc.textContent).toBe('one two oneone');
+  });
+
+  it('expands capture groups in regex replacements', () => {
+    const state = run(createState('<p>John Smith</p>', '(\\w+) (\\w+)', { regex: true }), replaceAllMatches('$2, $1 ($&) $$'));
+    expect(state.doc.textContent).toBe('Smith, John (John Smith) $');
+  });
+
+  it('seeds the query from the selection when opening the panel', () => {
+    let state = createState('<p>find me, me</p>');
+    state = state.apply(state.tr.setSelection(TextSelection.create(state.doc, 6, 8)));
+    state = run(state, openFindPanel('replace'));
+
+    const search = getFindReplaceState(state)!;
+    expect(search.panel).toBe('replace');
+    expect(search.query).toBe('me');
+    expect(matchTexts(state)).toEqual(['me', 'me']);
+  });
+});
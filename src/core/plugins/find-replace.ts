@@ -0,0 +1,332 @@
+/**
+ * Find & Replace Plugin for ProseMirror
+ * Highlights search matches, steps through them and replaces them.
+ */
+
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import type { SearchOptions } from '../../api/search.types';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export type FindPanelMode = 'find' | 'replace';
+
+export interface FindMatch {
+  from: number;
+  to: number;
+  /** Full match followed by capture groups, used for `$1` replacements */
+  groups: string[];
+}
+
+export interface FindReplaceState {
+  query: string;
+  options: SearchOptions;
+  matches: FindMatch[];
+  current: number;
+  error: string | null;
+  panel: FindPanelMode | null;
+  decorations: DecorationSet;
+}
+
+interface FindReplaceMeta {
+  query?: string;
+  options?: SearchOptions;
+  current?: number;
+  panel?: FindPanelMode | null;
+  /** Move past the match that was just replaced */
+  advance?: boolean;
+}
+
+export const findReplacePluginKey = new PluginKey<FindReplaceState>('findReplace');
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build the regular expression for a query.
+ * @throws SyntaxError when `options.regex` is set and the pattern is invalid
+ */
+function buildPattern(query: string, options: SearchOptions): RegExp {
+  let source = options.regex ? query : escapeRegExp(query);
+  let flags = options.caseSensitive ? 'g' : 'gi';
+
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+    flags += 'u';
+  }
+
+  return new RegExp(source, flags);
+}
+
+function findMatches(doc: ProseMirrorNode, pattern: RegExp): FindMatch[] {
+  const matches: FindMatch[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    // Non-text inline nodes take one position, so stand in one character for them
+    let text = '';
+    node.forEach(child => {
+      text += child.isText ? child.text! : '￼';
+    });
+
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++;
+        continue;
+      }
+      const from = pos + 1 + match.index;
+      matches.push({ from, to: from + match[0].length, groups: Array.from(match, group => group ?? '') });
+    }
+
+    return false;
+  });
+
+  return matches;
+}
+
+function search(doc: ProseMirrorNode, query: string, options: SearchOptions): { matches: FindMatch[]; error: string | null } {
+  if (!query) return { matches: [], error: null };
+
+  try {
+    return { matches: findMatches(doc, buildPattern(query, options)), error: null };
+  } catch (error) {
+    return { matches: [], error: (error as Error).message };
+  }
+}
+
+function buildDecorations(doc: ProseMirrorNode, matches: FindMatch[], current: number): DecorationSet {
+  if (matches.length === 0) return DecorationSet.empty;
+
+  return DecorationSet.create(
+    doc,
+    matches.map((match, index) =>
+      Decoration.inline(match.from, match.to, {
+        class: index === current ? 'erix-search-match erix-search-match--current' : 'erix-search-match',
+      })
+    )
+  );
+}
+
+function firstMatchFrom(matches: FindMatch[], pos: number): number {
+  if (matches.length === 0) return -1;
+  const index = matches.findIndex(match => match.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+/**
+ * Creates the find & replace plugin.
+ * @returns ProseMirror Plugin
+ */
+export function createFindReplacePlugin(): Plugin {
+  return new Plugin<FindReplaceState>({
+    key: findReplacePluginKey,
+
+    state: {
+      init: () => ({
+        query: '',
+        options: {},
+        matches: [],
+        current: -1,
+        error: null,
+        panel: null,
+        decorations: DecorationSet.empty,
+      }),
+      apply(tr, value, _oldState, newState) {
+        const meta = tr.getMeta(findReplacePluginKey) as FindReplaceMeta | undefined;
+        if (!meta && !(tr.docChanged && value.query)) return value;
+
+        const query = meta?.query ?? value.query;
+        const options = meta?.options ?? value.options;
+        const panel = meta?.panel !== undefined ? meta.panel : value.panel;
+        const searchChanged = meta?.query !== undefined || meta?.options !== undefined;
+
+        if (!searchChanged && !tr.docChanged) {
+          const current = meta?.current ?? value.current;
+          if (current === value.current) return { ...value, panel };
+          return { ...value, current, panel, decorations: buildDecorations(newState.doc, value.matches, current) };
+        }
+
+        const { matches, error } = search(newState.doc, query, options);
+
+        let current: number;
+        if (meta?.current !== undefined) {
+          current = Math.min(meta.current, matches.length - 1);
+        } else if (searchChanged || value.current === -1) {
+          current = firstMatchFrom(matches, newState.selection.from);
+        } else {
+          // Stay on the same match, or move past it after a replacement
+          const previous = value.matches[value.current];
+          const anchor = meta?.advance ? tr.mapping.map(previous.to) : tr.mapping.map(previous.from, -1);
+          current = firstMatchFrom(matches, anchor);
+        }
+
+        return { query, options, matches, current, error, panel, decorations: buildDecorations(newState.doc, matches, current) };
+      },
+    },
+
+    props: {
+      decorations(state) {
+        return this.getState(state)?.decorations;
+      },
+    },
+  });
+}
+
+/**
+ * Get the find & replace state.
+ */
+export function getFindReplaceState(state: EditorState): FindReplaceState | undefined {
+  return findReplacePluginKey.getState(state);
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Set the search query and options, highlighting all matches.
+ * @param query - Text or pattern to find (empty clears the search)
+ * @param options - Matching options
+ */
+export function setSearchQuery(query: string, options: SearchOptions = {}): Command {
+  return (state, dispatch) => {
+    if (dispatch) {
+      dispatch(state.tr.setMeta(findReplacePluginKey, { query, options }));
+    }
+    return true;
+  };
+}
+
+/**
+ * Clear the search and its highlights.
+ */
+export const clearSearch: Command = setSearchQuery('');
+
+function selectMatch(direction: 1 | -1): Command {
+  return (state, dispatch) => {
+    const search = getFindReplaceState(state);
+    if (!search || search.matches.length === 0) return false;
+
+    if (dispatch) {
+      const count = search.matches.length;
+      const current = search.current === -1 ? (direction === 1 ? 0 : count - 1) : (search.current + direction + count) % count;
+      const match = search.matches[current];
+
+      const tr = state.tr
+        .setSelection(TextSelection.create(state.doc, match.from, match.to))
+        .setMeta(findReplacePluginKey, { current })
+        .scrollIntoView();
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Select the next match, wrapping around at the end.
+ */
+export const findNext: Command = selectMatch(1);
+
+/**
+ * Select the previous match, wrapping around at the start.
+ */
+export const findPrevious: Command = selectMatch(-1);
+
+/**
+ * Expand `$&`, `$1`... `$$` in a replacement for regex searches.
+ */
+function expandReplacement(replacement: string, match: FindMatch, options: SearchOptions): string {
+  if (!options.regex) return replacement;
+
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match.groups[0];
+    const index = parseInt(ref, 10);
+    return index < match.groups.length ? match.groups[index] : token;
+  });
+}
+
+/**
+ * Replace the current match and move to the next one.
+ * @param replacement - Replacement text
+ */
+export function replaceMatch(replacement: string): Command {
+  return (state, dispatch) => {
+    const search = getFindReplaceState(state);
+    const match = search?.matches[search.current];
+    if (!search || !match) return false;
+
+    if (dispatch) {
+      const tr = state.tr
+        .insertText(expandReplacement(replacement, match, search.options), match.from, match.to)
+        .setMeta(findReplacePluginKey, { advance: true })
+        .scrollIntoView();
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Replace every match in a single undoable transaction.
+ * @param replacement - Replacement text
+ */
+export function replaceAllMatches(replacement: string): Command {
+  return (state, dispatch) => {
+    const search = getFindReplaceState(state);
+    if (!search || search.matches.length === 0) return false;
+
+    if (dispatch) {
+      const tr = state.tr;
+      for (let i = search.matches.length - 1; i >= 0; i--) {
+        const match = search.matches[i];
+        tr.insertText(expandReplacement(replacement, match, search.options), match.from, match.to);
+      }
+      dispatch(tr);
+    }
+    return true;
+  };
+}
+
+/**
+ * Open the find panel, seeding the query from a single-line selection.
+ * @param mode - Show only find, or find and replace
+ */
+export function openFindPanel(mode: FindPanelMode): Command {
+  return (state, dispatch) => {
+    if (dispatch) {
+      const { from, to, empty, $from, $to } = state.selection;
+      const meta: FindReplaceMeta = { panel: mode };
+
+      if (!empty && $from.sameParent($to)) {
+        meta.query = state.doc.textBetween(from, to);
+        meta.options = getFindReplaceState(state)?.options ?? {};
+      }
+      dispatch(state.tr.setMeta(findReplacePluginKey, meta));
+    }
+    return true;
+  };
+}
+
+/**
+ * Close the find panel and clear highlights.
+ */
+export const closeFindPanel: Command = (state, dispatch) => {
+  if (dispatch) {
+    dispatch(state.tr.setMeta(findReplacePluginKey, { panel: null, query: '' }));
+  }
+  return true;
+};
@@ -0,0 +1,99 @@
+/**
+ * Floating UI helpers
+ * Shared by the plugin views that float toolbars over the editor
+ * (table toolbar, bubble toolbar, block toolbar).
+ */
+
+import { EditorView } from 'prosemirror-view';
+
+/**
+ * Create a hidden, fixed-position container appended to the body.
+ * @param className - Container class name
+ */
+export function createFloatingContainer(className: string): HTMLDivElement {
+  const container = document.createElement('div');
+  container.className = className;
+  container.style.cssText = `
+    position: fixed;
+    z-index: 9999;
+    pointer-events: auto;
+    opacity: 0;
+    visibility: hidden;
+    transition: opacity 0.12s ease;
+  `;
+
+  // Append to body for proper fixed positioning
+  document.body.appendChild(container);
+  return container;
+}
+
+/**
+ * Show or hide a floating container.
+ */
+export function setFloatingVisible(container: HTMLElement, visible: boolean): void {
+  container.style.opacity = visible ? '1' : '0';
+  container.style.visibility = visible ? 'visible' : 'hidden';
+}
+
+/**
+ * Bounding rect of a document range in viewport coordinates.
+ */
+export function getRangeRect(view: EditorView, from: number, to: number): DOMRect {
+  const start = view.coordsAtPos(from);
+  const end = view.coordsAtPos(to);
+
+  return new DOMRect(
+    Math.min(start.left, end.left),
+    Math.min(start.top, end.top),
+    Math.abs(end.left - start.left) || 1,
+    Math.abs(end.bottom - start.top) || 1
+  );
+}
+
+/**
+ * Place a container above an anchor rect, centered, flipping below when
+ * there is no room and clamping to the viewport.
+ * @param container - Fixed-position container
+ * @param anchorRect - Rect to position against
+ * @param offset - Gap between anchor and container
+ */
+export function positionAbove(container: HTMLElement, anchorRect: DOMRect, offset: number = 10): void {
+  const containerRect = container.getBoundingClientRect();
+  const viewport = {
+    width: window.innerWidth,
+    height: window.innerHeight,
+  };
+
+  // Try to position above the selection
+  let top = anchorRect.top - containerRect.height - offset;
+  let left = anchorRect.left + (anchorRect.width - containerRect.width) / 2;
+
+  // If not enough space above, position below
+  if (top < 8) {
+    top = anchorRect.bottom + offset;
+  }
+
+  // Clamp to viewport edges
+  left = Math.max(8, Math.min(left, viewport.width - containerRect.width - 8));
+  top = Math.max(8, Math.min(top, viewport.height - containerRect.height - 8));
+
+  container.style.top = `${top}px`;
+  container.style.left = `${left}px`;
+}
+
+/**
+ * Place a container to the left of an anchor rect, top-aligned,
+ * clamped to the viewport.
+ * @param container - Fixed-position container
+ * @param anchorRect - Rect to position against
+ * @param offset - Gap between container and anchor
+ */
+export function positionBeside(container: HTMLElement, anchorRect: DOMRect, offset: number = 8): void {
+  const containerRect = container.getBoundingClientRect();
+
+  const left = Math.max(8, anchorRect.left - containerRect.width - offset);
+  const top = Math.max(8, Math.min(anchorRect.top, window.innerHeight - containerRect.height - 8));
+
+  container.style.top = `${top}px`;
+  container.style.left = `${left}px`;
+}
@@ -0,0 +1,163 @@
+/**
+ * Image Upload Plugin for ProseMirror
+ * Inserts dropped, pasted or picked image files. A placeholder marks the spot
+ * while an upload is pending; without an upload hook images become data URLs.
+ */
+
+import { Plugin, PluginKey } from 'prosemirror-state';
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view';
+
+/** Upload a file and resolve to the URL the image should use */
+export type ImageUploader = (file: File) => Promise<string>;
+
+export interface ImageUploadOptions {
+  /** Upload hook (default: read the file as a data URL) */
+  upload?: ImageUploader;
+}
+
+interface PlaceholderMeta {
+  add?: { id: object; pos: number }[];
+  remove?: object[];
+}
+
+export const imageUploadPluginKey = new PluginKey<DecorationSet>('imageUpload');
+
+/**
+ * Whether a file is an image.
+ */
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
+/**
+ * Read a file as a data URL.
+ */
+export function readFileAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function createPlaceholder(): HTMLElement {
+  const placeholder = document.createElement('span');
+  placeholder.className = 'erix-image-placeholder';
+  placeholder.setAttribute('aria-label', 'Uploading image');
+  return placeholder;
+}
+
+function findPlaceholder(view: EditorView, id: object): number | null {
+  const found = imageUploadPluginKey.getState(view.state)?.find(undefined, undefined, spec => spec.id === id);
+  return found?.length ? found[0].from : null;
+}
+
+/**
+ * Upload image files and insert them at `pos` (defaults to the selection).
+ * Each file shows a placeholder until its upload finishes; failed uploads
+ * and uploads whose placeholder was deleted are dropped.
+ * @param view - Editor view (needs the image upload plugin)
+ * @param files - Files to insert; non-images are ignored
+ * @param pos - Document position to insert at
+ * @returns false if there are no images or the editor cannot hold them
+ */
+export function uploadImageFiles(view: EditorView, files: File[], pos?: number): boolean {
+  const plugin = imageUploadPluginKey.get(view.state);
+  const { image } = view.state.schema.nodes;
+  const images = files.filter(isImageFile);
+  if (!plugin || !image || images.length === 0) return false;
+
+  const upload: ImageUploader = plugin.spec.upload ?? readFileAsDataURL;
+  const tr = view.state.tr;
+  if (pos === undefined) {
+    tr.deleteSelection();
+    pos = tr.selection.from;
+  }
+
+  const ids = images.map(() => ({}));
+  const meta: PlaceholderMeta = { add: ids.map(id => ({ id, pos: pos! })) };
+  view.dispatch(tr.setMeta(imageUploadPluginKey, meta));
+
+  images.forEach((file, index) => {
+    const id = ids[index];
+    const done = (src: string | null) => {
+      if (view.isDestroyed) return;
+      const at = findPlaceholder(view, id);
+      if (at === null) return;
+
+      const remove: PlaceholderMeta = { remove: [id] };
+      const tr = view.state.tr.setMeta(imageUploadPluginKey, remove);
+      if (src) tr.insert(at, image.create({ src, alt: file.name }));
+      view.dispatch(tr);
+    };
+
+    upload(file).then(done, error => {
+      console.error('[ImageUpload] Failed to upload image:', error);
+      done(null);
+    });
+  });
+
+  return true;
+}
+
+function imageFiles(data: DataTransfer | null): File[] {
+  return Array.from(data?.files ?? []).filter(isImageFile);
+}
+
+/**
+ * Creates the image upload plugin.
+ * @param options - Upload hook
+ * @returns ProseMirror Plugin
+ */
+export function createImageUploadPlugin(options: ImageUploadOptions = {}): Plugin {
+  return new Plugin<DecorationSet>({
+    key: imageUploadPluginKey,
+    upload: options.upload,
+
+    state: {
+      init: () => DecorationSet.empty,
+      apply(tr, placeholders) {
+        placeholders = placeholders.map(tr.mapping, tr.doc);
+
+        const meta = tr.getMeta(imageUploadPluginKey) as PlaceholderMeta | undefined;
+        if (meta?.add) {
+          placeholders = placeholders.add(
+            tr.doc,
+            meta.add.map(({ id, pos }) => Decoration.widget(pos, createPlaceholder, { id })),
+          );
+        }
+        if (meta?.remove) {
+          placeholders = placeholders.remove(placeholders.find(undefined, undefined, spec => meta.remove!.includes(spec.id)));
+        }
+
+        return placeholders;
+      },
+    },
+
+    props: {
+      decorations(state) {
+        return imageUploadPluginKey.getState(state);
+      },
+
+      handleDrop(view, event, _slice, moved) {
+        const files = imageFiles(event.dataTransfer);
+        if (moved || files.length === 0) return false;
+
+        const target = view.posAtCoords({ left: event.clientX, top: event.clientY });
+        if (!target) return false;
+
+        event.preventDefault();
+        return uploadImageFiles(view, files, target.pos);
+      },
+
+      handlePaste(view, event) {
+        // Office apps put a picture of the copied content next to the HTML
+        if (!event.clipboardData || event.clipboardData.getData('text/html')) return false;
+
+        const files = imageFiles(event.clipboardData);
+        return files.length > 0 && uploadImageFiles(view, files);
+      },
+    },
+  });
+}
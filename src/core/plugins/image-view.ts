@@ -0,0 +1,191 @@
+/**
+ * Image View Plugin for ProseMirror
+ * Renders images with corner handles to resize them and a small form
+ * to edit their alt text and title while they are selected.
+ */
+
+import { Plugin, PluginKey } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { EditorView, NodeView, ViewMutationRecord } from 'prosemirror-view';
+import { updateImage, ImageAttrs } from '../commands/image';
+
+export const imageViewPluginKey = new PluginKey('imageView');
+
+const MIN_WIDTH = 24;
+const CORNERS = ['nw', 'ne', 'sw', 'se'] as const;
+
+class ImageView implements NodeView {
+  dom: HTMLElement;
+  private img: HTMLImageElement;
+  private form: HTMLFormElement | null = null;
+  private stopResize: (() => void) | null = null;
+
+  constructor(
+    private node: ProseMirrorNode,
+    private view: EditorView,
+    private getPos: () => number | undefined,
+  ) {
+    this.dom = document.createElement('span');
+    this.dom.className = 'erix-image';
+
+    this.img = document.createElement('img');
+    this.dom.appendChild(this.img);
+
+    for (const corner of CORNERS) {
+      const handle = document.createElement('span');
+      handle.className = `erix-image-handle erix-image-handle--${corner}`;
+      handle.addEventListener('mousedown', event => this.startResize(event, corner));
+      this.dom.appendChild(handle);
+    }
+
+    const altButton = document.createElement('button');
+    altButton.type = 'button';
+    altButton.className = 'erix-image-alt-button';
+    altButton.textContent = 'Alt';
+    altButton.title = 'Edit alt text and title';
+    altButton.addEventListener('mousedown', event => event.preventDefault());
+    altButton.addEventListener('click', () => (this.form ? this.closeForm() : this.openForm()));
+    this.dom.appendChild(altButton);
+
+    this.render();
+  }
+
+  private render() {
+    const { src, alt, title, width, height } = this.node.attrs;
+    this.img.src = src;
+    for (const [name, value] of Object.entries({ alt, title, width, height })) {
+      if (value) {
+        this.img.setAttribute(name, value);
+      } else {
+        this.img.removeAttribute(name);
+      }
+    }
+  }
+
+  private apply(attrs: Partial<ImageAttrs>) {
+    const pos = this.getPos();
+    if (pos === undefined) return;
+    updateImage(attrs, pos)(this.view.state, this.view.dispatch);
+  }
+
+  private startResize(event: MouseEvent, corner: (typeof CORNERS)[number]) {
+    if (!this.view.editable) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    const startX = event.clientX;
+    const startWidth = this.img.getBoundingClientRect().width;
+    const ratio = startWidth > 0 ? this.img.getBoundingClientRect().height / startWidth : 0;
+    // Dragging a left handle to the left makes the image wider
+    const direction = corner.endsWith('w') ? -1 : 1;
+    const widthAt = (x: number) => Math.max(MIN_WIDTH, Math.round(startWidth + direction * (x - startX)));
+
+    const onMove = (move: MouseEvent) => {
+      this.img.style.width = `${widthAt(move.clientX)}px`;
+    };
+    const onUp = (up: MouseEvent) => {
+      this.stopResize?.();
+      const width = widthAt(up.clientX);
+      this.apply({ width: String(width), height: ratio ? String(Math.round(width * ratio)) : null });
+    };
+
+    this.stopResize = () => {
+      document.removeEventListener('mousemove', onMove);
+      document.removeEventListener('mouseup', onUp);
+      this.img.style.width = '';
+      this.stopResize = null;
+    };
+    document.addEventListener('mousemove', onMove);
+    document.addEventListener('mouseup', onUp);
+  }
+
+  private openForm() {
+    if (!this.view.editable) return;
+
+    const form = document.createElement('form');
+    form.className = 'erix-image-form';
+
+    const field = (label: string, value: string) => {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.placeholder = label;
+      input.setAttribute('aria-label', label);
+      input.value = value;
+      form.appendChild(input);
+      return input;
+    };
+    const alt = field('Alt text', this.node.attrs.alt);
+    const title = field('Title', this.node.attrs.title);
+
+    const save = document.createElement('button');
+    save.type = 'submit';
+    save.textContent = 'Save';
+    form.appendChild(save);
+
+    form.addEventListener('submit', event => {
+      event.preventDefault();
+      this.apply({ alt: alt.value.trim(), title: title.value.trim() });
+      this.closeForm();
+      this.view.focus();
+    });
+    form.addEventListener('keydown', event => {
+      if (event.key === 'Escape') {
+        this.closeForm();
+        this.view.focus();
+      }
+    });
+
+    this.form = form;
+    this.dom.appendChild(form);
+    alt.focus();
+  }
+
+  private closeForm() {
+    this.form?.remove();
+    this.form = null;
+  }
+
+  update(node: ProseMirrorNode): boolean {
+    if (node.type !== this.node.type) return false;
+    this.node = node;
+    this.render();
+    return true;
+  }
+
+  selectNode() {
+    this.dom.classList.add('ProseMirror-selectednode');
+  }
+
+  deselectNode() {
+    this.dom.classList.remove('ProseMirror-selectednode');
+    this.closeForm();
+  }
+
+  stopEvent(event: Event): boolean {
+    const target = event.target as Node | null;
+    return !!target && (!!this.form?.contains(target) || (target as Element).classList?.contains('erix-image-handle'));
+  }
+
+  ignoreMutation(mutation: ViewMutationRecord): boolean {
+    return mutation.type !== 'selection' || !!this.form?.contains(mutation.target);
+  }
+
+  destroy() {
+    this.stopResize?.();
+  }
+}
+
+/**
+ * Creates the image view plugin.
+ * @returns ProseMirror Plugin
+ */
+export function createImageViewPlugin(): Plugin {
+  return new Plugin({
+    key: imageViewPluginKey,
+    props: {
+      nodeViews: {
+        image: (node, view, getPos) => new ImageView(node, view, getPos),
+      },
+    },
+  });
+}
@@ -3,8 +3,9 @@ import { keymap } from 'prosemirror-keymap';
 import { baseKeymap, toggleMark } from 'prosemirror-commands';
 import { splitListItem, liftListItem, sinkListItem } from 'prosemirror-schema-list';
 import { Plugin } from 'prosemirror-state';
+import { Schema } from 'prosemirror-model';
 import { editorSchema } from '../schema/index';
-import { insertPageBreak, printDocument, onTab, exitTableUp, exitTableDown } from '../commands/index';
+import { insertPageBreak, printDocument, clearFormatting, onTab, exitTableUp, exitTableDown, insertCodeNewline, indentCodeBlock, outdentCodeBlock } from '../commands/index';
 import { createPlaceholderPlugin } from './placeholder';
 import { createClipboardPastePlugin } from './clipboard-paste';
 import { 
@@ -18,19 +19,89 @@ import {
   deleteColumn 
 } from 'prosemirror-tables';
 import { createTableToolbarPlugin } from './table-toolbar';
+import { ErixTableView } from './table-view';
+import { createCommentsPlugin } from './comments';
+import { createTrackChangesPlugin } from './track-changes';
+import { createFindReplacePlugin, openFindPanel } from './find-replace';
+import { createSlashMenuPlugin, SlashMenuItem, SlashMenuOptions } from './slash-menu';
+import { createBubbleToolbarPlugin, createBlockToolbarPlugin } from './bubble-toolbar';
+import { createShortcutKeymapPlugin, ShortcutKeymapOptions } from './shortcuts';
+import { createExtensionPlugins, ErixExtension } from './extensions';
+import { createMarkdownInputRulesPlugin } from './input-rules';
+import { createImageUploadPlugin, ImageUploader } from './image-upload';
+import { createImageViewPlugin } from './image-view';
+import { createLinksPlugin, openLinkEditor } from './links';
+import { createCodeBlockPlugin } from './code-block';
+import { createPaginationPlugin } from './pagination';
+import { undoInputRule } from 'prosemirror-inputrules';
+import type { ErixEditorAPI } from '../../api/editor-api';
+import type { CodeLanguage, InputRulesConfig } from '../../api/plugin-registry.types';
 
 // Re-export placeholder utilities for external API usage
 export { placeholderPluginKey, updatePlaceholder } from './placeholder';
 export { clipboardPastePluginKey, transformWordHTML } from './clipboard-paste';
+export { createCollabCursorsPlugin, collabCursorsPluginKey, setRemoteCursor, removeRemoteCursor } from './collab-cursors';
+export type { RemoteCursor } from './collab-cursors';
+export { createCommentsPlugin, commentsPluginKey, getActiveCommentId } from './comments';
+export {
+  createTrackChangesPlugin,
+  trackChangesPluginKey,
+  trackTransaction,
+  isTrackingChanges,
+  configureTrackChanges,
+  skipTrackChanges,
+} from './track-changes';
+export type { TrackChangesState } from './track-changes';
+export {
+  createFindReplacePlugin,
+  findReplacePluginKey,
+  getFindReplaceState,
+  setSearchQuery,
+  clearSearch,
+  findNext,
+  findPrevious,
+  replaceMatch,
+  replaceAllMatches,
+  openFindPanel,
+  closeFindPanel,
+} from './find-replace';
+export type { FindReplaceState, FindMatch, FindPanelMode } from './find-replace';
+export {
+  createSlashMenuPlugin,
+  slashMenuPluginKey,
+  getSlashMenuState,
+  setSlashMenuIndex,
+  closeSlashMenu,
+  selectSlashMenuItem,
+} from './slash-menu';
+export type { SlashMenuItem, SlashMenuOptions, SlashMenuState } from './slash-menu';
+export { createBubbleToolbarPlugin, createBlockToolbarPlugin, bubbleToolbarKey, blockToolbarKey } from './bubble-toolbar';
+export { createShortcutKeymapPlugin, shortcutKeymapPluginKey, normalizeShortcut, formatShortcut, isMacPlatform } from './shortcuts';
+export type { ShortcutKeymapOptions } from './shortcuts';
+export { createExtensionPlugins, validateExtensions } from './extensions';
+export type { ErixExtension } from './extensions';
+export { createMarkdownInputRulesPlugin } from './input-rules';
+export { createImageUploadPlugin, imageUploadPluginKey, uploadImageFiles, isImageFile, readFileAsDataURL } from './image-upload';
+export type { ImageUploader, ImageUploadOptions } from './image-upload';
+export { createImageViewPlugin, imageViewPluginKey } from './image-view';
+export { createLinksPlugin, linksPluginKey, getLinkEditorState, openLinkEditor, closeLinkEditor } from './links';
+export type { LinkEditorState } from './links';
+export { createCodeBlockPlugin, codeBlockPluginKey } from './code-block';
+export type { CodeBlockPluginOptions } from './code-block';
+export { DEFAULT_CODE_LANGUAGES } from './code-languages';
+export { createPaginationPlugin, paginationPluginKey, getPaginationState, getPageInfo, setPageLayout, PAGE_GAP } from './pagination';
+export type { PageLayout, PageBoundary, PaginationState } from './pagination';
 
 /**
- * Keyboard shortcuts for formatting marks
+ * Keyboard shortcuts for formatting marks (used when no shortcut bridge is given)
  */
-const markKeymap = {
-  'Mod-b': toggleMark(editorSchema.marks.strong),
-  'Mod-i': toggleMark(editorSchema.marks.em),
-  'Mod-u': toggleMark(editorSchema.marks.underline),
-};
+const createMarkKeymap = (schema: Schema) => ({
+  'Mod-b': toggleMark(schema.marks.strong),
+  'Mod-i': toggleMark(schema.marks.em),
+  'Mod-u': toggleMark(schema.marks.underline),
+  'Mod-k': openLinkEditor,
+  'Mod-\\': clearFormatting(),
+});
 
 /**
  * Keyboard shortcuts for history (undo/redo)
@@ -44,10 +115,19 @@ const historyKeymap = {
 /**
  * Keyboard shortcuts for list operations
  */
-const listKeymap = {
-  'Enter': splitListItem(editorSchema.nodes.list_item),
-  'Tab': sinkListItem(editorSchema.nodes.list_item),
-  'Shift-Tab': liftListItem(editorSchema.nodes.list_item),
+const createListKeymap = (schema: Schema) => ({
+  'Enter': splitListItem(schema.nodes.list_item),
+  'Tab': sinkListItem(schema.nodes.list_item),
+  'Shift-Tab': liftListItem(schema.nodes.list_item),
+});
+
+/**
+ * Keyboard shortcuts inside code blocks (ahead of the list and table keys)
+ */
+const codeBlockKeymap = {
+  'Enter': insertCodeNewline,
+  'Tab': indentCodeBlock,
+  'Shift-Tab': outdentCodeBlock,
 };
 
 /**
@@ -67,21 +147,75 @@ const tableKeymap = {
 };
 
 /**
- * Keyboard shortcuts for document operations
+ * Keyboard shortcuts for document operations.
+ * Mod-p prints through the API when there is one, so only the document is printed.
+ */
+function createDocKeymap(getAPI?: () => ErixEditorAPI | undefined) {
+  return {
+    'Mod-Enter': insertPageBreak,
+    'Mod-p': (_state: any, _dispatch: any) => {
+      const api = getAPI?.();
+      if (!api) return printDocument();
+      api.print().catch(error => console.error('[ErixEditor] Print failed:', error));
+      return true;
+    },
+  };
+}
+
+/**
+ * Keyboard shortcuts for find & replace
  */
-const docKeymap = {
-  'Mod-Enter': insertPageBreak,
-  'Mod-p': (_state: any, _dispatch: any) => {
-    printDocument();
-    return true;
-  },
+const searchKeymap = {
+  'Mod-f': openFindPanel('find'),
+  'Mod-h': openFindPanel('replace'),
 };
 
-export interface EditorPluginsOptions {
+export interface EditorPluginsOptions<T extends SlashMenuItem = SlashMenuItem> {
   /**
    * Placeholder text to show when editor is empty
    */
   placeholder?: string;
+
+  /**
+   * Items and handler for the "/" block menu (menu is off when omitted)
+   */
+  slashMenu?: SlashMenuOptions<T>;
+
+  /**
+   * Editor API accessor for the bubble and block toolbars (toolbars are off when omitted)
+   */
+  getAPI?: () => ErixEditorAPI | undefined;
+
+  /**
+   * Runtime shortcut bindings (e.g. from the plugin registry); replaces the built-in mark keymap
+   */
+  shortcuts?: ShortcutKeymapOptions;
+
+  /**
+   * Schema the editor state uses (defaults to `editorSchema`)
+   */
+  schema?: Schema;
+
+  /**
+   * Extensions whose plugins, keymaps and input rules to add; their
+   * nodes and marks must already be in `schema` (see `createEditorSchema`)
+   */
+  extensions?: ErixExtension[];
+
+  /**
+   * Markdown-style typing shortcuts to turn off, or false for none
+   */
+  inputRules?: InputRulesConfig | false;
+
+  /**
+   * Upload hook for dropped, pasted and picked images (default: data URLs)
+   */
+  uploadImage?: ImageUploader;
+
+  /**
+   * Code block languages for the picker and highlighting (default: DEFAULT_CODE_LANGUAGES)
+   */
+  codeLanguages?: CodeLanguage[];
 }
 
 /**
@@ -89,10 +223,16 @@ export interface EditorPluginsOptions {
  * Order matters - more specific keymaps should come before less specific ones.
  * @param options - Configuration options for plugins
  */
-export function createEditorPlugins(options: EditorPluginsOptions = {}): Plugin[] {
-  const { placeholder = 'Start typing...' } = options;
+export function createEditorPlugins<T extends SlashMenuItem = SlashMenuItem>(options: EditorPluginsOptions<T> = {}): Plugin[] {
+  const { placeholder = 'Start typing...', slashMenu, getAPI, shortcuts, schema = editorSchema, extensions = [], inputRules = {}, uploadImage, codeLanguages } = options;
 
   return [
+    // Image files from drops and pastes, with upload placeholders
+    createImageUploadPlugin({ upload: uploadImage }),
+
+    // Images with resize handles and alt text editing
+    createImageViewPlugin(),
+
     // Clipboard paste plugin for Word/RTF formatting
     createClipboardPastePlugin(),
 
@@ -103,19 +243,51 @@ export function createEditorPlugins(options: EditorPluginsOptions = {}): Plugin[
     history(),
 
     // Table plugins
-    columnResizing({ handleWidth: 12 }),
+    columnResizing({ handleWidth: 12, View: ErixTableView }),
     tableEditing(),
     createTableToolbarPlugin(),
 
+    // Floating toolbars for registry plugins
+    ...(getAPI ? [createBubbleToolbarPlugin(getAPI), createBlockToolbarPlugin(getAPI)] : []),
+
+    // Comment highlights
+    createCommentsPlugin(),
+
+    // Suggestion mode state
+    createTrackChangesPlugin(),
+
+    // Search highlights
+    createFindReplacePlugin(),
+
+    // Link editor state and autolinking
+    createLinksPlugin(),
+
+    // Code block language picker and syntax highlighting
+    createCodeBlockPlugin({ languages: codeLanguages }),
+
+    // Page gaps in page layout mode
+    createPaginationPlugin(),
+
+    // "/" block menu (handles its keys before the keymaps below)
+    ...(slashMenu ? [createSlashMenuPlugin(slashMenu)] : []),
+
+    // Backspace right after an input rule fires undoes it
+    keymap({ Backspace: undoInputRule }),
+
+    // Extension plugins, keymaps and input rules (ahead of the built-in keys)
+    ...createExtensionPlugins(extensions, schema),
+
+    // Markdown typing shortcuts ("# ", "- ", **bold**...)
+    ...(inputRules !== false ? [createMarkdownInputRulesPlugin(schema, inputRules)] : []),
+
     // Custom keymaps (order: most specific to least specific)
     keymap(historyKeymap),
+    keymap(codeBlockKeymap),
     keymap(tableKeymap),
-    keymap(markKeymap),
-    keymap(docKeymap),
-    keymap(listKeymap),
+    shortcuts ? createShortcutKeymapPlugin(shortcuts) : keymap(createMarkKeymap(schema)),
+    keymap(createDocKeymap(getAPI)),
+    keymap(searchKeymap),
+    keymap(createListKeymap(schema)),
     keymap(baseKeymap),
   ];
 }
-
-// Export the plugins array for direct usage (with default options)
-export const editorPlugins = createEditorPlugins();
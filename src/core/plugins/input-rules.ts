@@ -0,0 +1,96 @@
+/**
+ * Markdown Input Rules for ProseMirror
+ * Turns Markdown-style typing ("# ", "- ", **bold**...) into formatting as you type.
+ * Backspace right after a rule fires undoes it (see `undoInputRule`).
+ */
+
+import { Plugin } from 'prosemirror-state';
+import { MarkType, NodeType, Schema } from 'prosemirror-model';
+import { inputRules, InputRule, textblockTypeInputRule, wrappingInputRule } from 'prosemirror-inputrules';
+import type { InputRulesConfig } from '../../api/plugin-registry.types';
+
+/**
+ * Wrap delimited text in a mark, e.g. **bold**.
+ * The pattern's first group is the delimited text, the second its content.
+ */
+function markInputRule(pattern: RegExp, type: MarkType): InputRule {
+  return new InputRule(pattern, (state, match, start, end) => {
+    const [full, delimited, content] = match;
+    const from = start + full.length - delimited.length;
+    const contentFrom = from + delimited.indexOf(content);
+    const contentTo = contentFrom + content.length;
+
+    // The last delimiter character is being typed and is not in the document yet
+    const tr = state.tr.delete(contentTo, end).delete(from, contentFrom);
+    tr.addMark(from, from + content.length, type.create());
+    tr.removeStoredMark(type);
+    return tr;
+  });
+}
+
+/**
+ * Insert a horizontal rule before the current block for "---".
+ */
+function horizontalRuleInputRule(type: NodeType): InputRule {
+  return new InputRule(/^---$/, (state, _match, start, end) => {
+    const $start = state.doc.resolve(start);
+    const index = $start.index(-1);
+    if (!$start.node(-1).canReplaceWith(index, index, type)) return null;
+
+    return state.tr.delete(start, end).insert($start.before(), type.create());
+  });
+}
+
+/**
+ * Create the Markdown input rules plugin.
+ * Rules whose node or mark type is missing from the schema are skipped.
+ * @param schema - Editor schema
+ * @param config - Rules to turn off
+ * @returns ProseMirror Plugin
+ */
+export function createMarkdownInputRulesPlugin(schema: Schema, config: InputRulesConfig = {}): Plugin {
+  const { nodes, marks } = schema;
+  const enabled = (rule: keyof InputRulesConfig) => config[rule] !== false;
+  const rules: InputRule[] = [];
+
+  if (enabled('headings') && nodes.heading) {
+    rules.push(textblockTypeInputRule(/^(#{1,6})\s$/, nodes.heading, match => ({ level: match[1].length })));
+  }
+  if (enabled('bulletList') && nodes.bullet_list) {
+    rules.push(wrappingInputRule(/^\s*([-*])\s$/, nodes.bullet_list));
+  }
+  if (enabled('orderedList') && nodes.ordered_list) {
+    rules.push(
+      wrappingInputRule(
+        /^(\d+)\.\s$/,
+        nodes.ordered_list,
+        match => ({ order: +match[1] }),
+        // Join a list above only when the number continues it
+        (match, node) => node.childCount + node.attrs.order === +match[1],
+      ),
+    );
+  }
+  if (enabled('blockquote') && nodes.blockquote) {
+    rules.push(wrappingInputRule(/^\s*>\s$/, nodes.blockquote));
+  }
+  if (enabled('codeBlock') && nodes.code_block) {
+    rules.push(textblockTypeInputRule(/^```$/, nodes.code_block));
+  }
+  if (enabled('horizontalRule') && nodes.horizontal_rule) {
+    rules.push(horizontalRuleInputRule(nodes.horizontal_rule));
+  }
+  if (enabled('bold') && marks.strong) {
+    rules.push(markInputRule(/(?:^|[^*])(\*\*([^*\s](?:[^*]*[^*\s])?)\*\*)$/, marks.strong));
+  }
+  if (enabled('italic') && marks.em) {
+    rules.push(markInputRule(/(?:^|[^\w_])(_([^_\s](?:[^_]*[^_\s])?)_)$/, marks.em));
+  }
+  if (enabled('strikethrough') && marks.strikethrough) {
+    rules.push(markInputRule(/(?:^|[^~])(~~([^~\s](?:[^~]*[^~\s])?)~~)$/, marks.strikethrough));
+  }
+  if (enabled('code') && marks.code) {
+    rules.push(markInputRule(/(?:^|[^`])(`([^`\s](?:[^`]*[^`\s])?)`)$/, marks.code));
+  }
+
+  return inputRules({ rules });
+}
@@ -0,0 +1,169 @@
+/**
+ * Links Plugin for ProseMirror
+ * Tracks whether the link editor is open and turns typed or pasted URLs into links.
+ */
+
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from 'prosemirror-state';
+import { Fragment, MarkType, Node as ProseMirrorNode, Slice } from 'prosemirror-model';
+import { normalizeLinkHref, setLink } from '../commands/link';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+export interface LinkEditorState {
+  /** Whether the link editor is open */
+  editing: boolean;
+}
+
+export const linksPluginKey = new PluginKey<LinkEditorState>('links');
+
+const URL_PATTERN = /(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+/**
+ * Find URLs in plain text.
+ */
+function findUrls(text: string): { start: number; end: number; href: string }[] {
+  const urls: { start: number; end: number; href: string }[] = [];
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(TRAILING_PUNCTUATION, '');
+    const href = /^(?:https?:\/\/|www\.)./i.test(url) ? normalizeLinkHref(url) : null;
+    if (href) urls.push({ start: match.index!, end: match.index! + url.length, href });
+  }
+  return urls;
+}
+
+/**
+ * Add links to URLs in pasted text that is not linked or code already.
+ */
+function linkifyFragment(fragment: Fragment, link: MarkType): Fragment {
+  const nodes: ProseMirrorNode[] = [];
+
+  fragment.forEach(node => {
+    if (!node.isText) {
+      nodes.push(node.type.spec.code ? node : node.copy(linkifyFragment(node.content, link)));
+      return;
+    }
+    if (link.isInSet(node.marks) || node.marks.some(mark => mark.type.spec.code)) {
+      nodes.push(node);
+      return;
+    }
+
+    const text = node.text!;
+    let pos = 0;
+    for (const { start, end, href } of findUrls(text)) {
+      if (start > pos) nodes.push(node.cut(pos, start));
+      nodes.push(node.cut(start, end).mark(link.create({ href }).addToSet(node.marks)));
+      pos = end;
+    }
+    nodes.push(pos === 0 ? node : node.cut(pos));
+  });
+
+  return Fragment.from(nodes.filter(node => !node.isText || node.text!.length > 0));
+}
+
+/**
+ * Link the URL that ends at `end`, if there is one.
+ */
+function autolinkBefore(state: EditorState, end: number, link: MarkType): Transaction | null {
+  const $end = state.doc.resolve(end);
+  if ($end.parent.type.spec.code) return null;
+
+  const word = /\S+$/.exec($end.parent.textBetween(0, $end.parentOffset, undefined, '￼'))?.[0];
+  if (!word) return null;
+
+  const url = findUrls(word).find(found => found.start === 0);
+  if (!url) return null;
+
+  const from = end - word.length;
+  const to = from + url.end;
+  const marked = (mark: MarkType) => state.doc.rangeHasMark(from, to, mark);
+  if (marked(link) || Object.values(state.schema.marks).some(mark => mark.spec.code && marked(mark))) return null;
+
+  return state.tr.addMark(from, to, link.create({ href: url.href }));
+}
+
+/**
+ * Creates the links plugin.
+ * @returns ProseMirror Plugin
+ */
+export function createLinksPlugin(): Plugin {
+  return new Plugin<LinkEditorState>({
+    key: linksPluginKey,
+
+    state: {
+      init: () => ({ editing: false }),
+      apply(tr, value) {
+        const meta = tr.getMeta(linksPluginKey) as LinkEditorState | undefined;
+        if (meta) return meta;
+        // Editing the document or moving the cursor closes the editor
+        return value.editing && (tr.docChanged || tr.selectionSet) ? { editing: false } : value;
+      },
+    },
+
+    // Link a URL once a space or line break is typed after it
+    appendTransaction(trs, _oldState, newState) {
+      const { link } = newState.schema.marks;
+      const typed = trs.some(tr => tr.docChanged) && trs.every(tr => tr.getMeta('addToHistory') !== false && !tr.getMeta('uiEvent'));
+      const $cursor = newState.selection instanceof TextSelection ? newState.selection.$cursor : null;
+      if (!link || !typed || !$cursor) return null;
+
+      if ($cursor.parentOffset > 0) {
+        if (!/\s/.test(newState.doc.textBetween($cursor.pos - 1, $cursor.pos))) return null;
+        return autolinkBefore(newState, $cursor.pos - 1, link);
+      }
+
+      // At the start of a block just split off: look at the end of the previous one
+      const previous = newState.doc.resolve($cursor.before()).nodeBefore;
+      return previous?.isTextblock ? autolinkBefore(newState, $cursor.before() - 1, link) : null;
+    },
+
+    props: {
+      transformPasted(slice, view) {
+        const { link } = view.state.schema.marks;
+        return link ? new Slice(linkifyFragment(slice.content, link), slice.openStart, slice.openEnd) : slice;
+      },
+
+      handlePaste(view, event) {
+        // Pasting a lone URL over selected text links the text
+        const text = event.clipboardData?.getData('text/plain').trim() ?? '';
+        if (view.state.selection.empty || !/^\S+$/.test(text)) return false;
+
+        const url = findUrls(text)[0];
+        if (!url || url.start !== 0 || url.end !== text.length) return false;
+        return setLink({ href: url.href })(view.state, view.dispatch);
+      },
+    },
+  });
+}
+
+/**
+ * Get the link editor state.
+ */
+export function getLinkEditorState(state: EditorState): LinkEditorState | undefined {
+  return linksPluginKey.getState(state);
+}
+
+/**
+ * Open the link editor for the selection or the link around the cursor.
+ */
+export const openLinkEditor: Command = (state, dispatch) => {
+  if (!state.schema.marks.link || !linksPluginKey.get(state)) return false;
+
+  if (dispatch) {
+    dispatch(state.tr.setMeta(linksPluginKey, { editing: true }));
+  }
+  return true;
+};
+
+/**
+ * Close the link editor.
+ */
+export const closeLinkEditor: Command = (state, dispatch) => {
+  if (!getLinkEditorState(state)?.editing) return false;
+
+  if (dispatch) {
+    dispatch(state.tr.setMeta(linksPluginKey, { editing: false }));
+  }
+  return true;
+};
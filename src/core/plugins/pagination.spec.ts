@@ -0,0 +1,82 @@
+import { EditorState, TextSelection } from 'prosemirror-state';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { createPaginationPlugin, getPageInfo, getPaginationState, paginationPluginKey, setPageLayout, PageLayout } from './pagination';
+
+const LAYOUT: PageLayout = { width: 800, height: 1000, margins: { top: 100, right: 100, bottom: 100, left: 100 } };
+
+function createState(): EditorState {
+  return EditorState.create({ doc: parseFromHTML('<p>One</p><p>Two</p><p>Three</p>', editorSchema), plugins: [createPaginationPlugin()] });
+}
+
+function paginate(state: EditorState, layout: PageLayout | null = LAYOUT): EditorState {
+  setPageLayout(layout)(state, tr => (state = state.apply(tr)));
+  return state;
+}
+
+/**
+ * Report measured page starts, as the plugin view does after measuring.
+ */
+function measured(state: EditorState, positions: number[]): EditorState {
+  const boundaries = positions.map(pos => ({ pos, height: 300 }));
+  return state.apply(state.tr.setMeta(paginationPluginKey, { boundaries, fill: 50 }));
+}
+
+function select(state: EditorState, pos: number): EditorState {
+  return state.apply(state.tr.setSelection(TextSelection.create(state.doc, pos)));
+}
+
+describe('pagination', () => {
+  it('does nothing until a layout is set', () => {
+    const state = createState();
+
+    expect(getPageInfo(state)).toBeNull();
+    expect(getPaginationState(state)!.decorations.find()).toEqual([]);
+  });
+
+  it('skips setting the layout it already has', () => {
+    const state = paginate(createState());
+
+    expect(getPaginationState(state)!.layout).toEqual(LAYOUT);
+    expect(setPageLayout({ ...LAYOUT, margins: { ...LAYOUT.margins } })(state)).toBe(false);
+    expect(setPageLayout({ ...LAYOUT, width: 600 })(state)).toBe(true);
+    expect(setPageLayout(null)(createState())).toBe(false);
+  });
+
+  it('counts the pages and finds the page of the selection', () => {
+    // Pages start at "Two" (5) and "Three" (10)
+    const state = measured(paginate(createState()), [5, 10]);
+
+    expect(getPageInfo(select(state, 2))).toEqual({ current: 1, count: 3 });
+    expect(getPageInfo(select(state, 7))).toEqual({ current: 2, count: 3 });
+    expect(getPageInfo(select(state, 12))).toEqual({ current: 3, count: 3 });
+  });
+
+  it('adds a gap before each page and fills the last one', () => {
+    const state = measured(paginate(createState()), [5]);
+    const decorations = getPaginationState(state)!.decorations.find();
+
+    expect(decorations.map(decoration => [decoration.from, decoration.spec.key])).toEqual([
+      [5, 'page-0-300'],
+      [state.doc.content.size, 'page-fill-50'],
+    ]);
+  });
+
+  it('keeps the page starts on block boundaries until measured again', () => {
+    let state = measured(paginate(createState()), [5, 10]);
+
+    state = state.apply(state.tr.insertText('Zero ', 1));
+    expect(getPaginationState(state)!.boundaries.map(boundary => boundary.pos)).toEqual([10, 15]);
+
+    // Joining "Two" into "One" leaves no block start for its page
+    state = state.apply(state.tr.join(10));
+    expect(getPaginationState(state)!.boundaries.map(boundary => boundary.pos)).toEqual([13]);
+  });
+
+  it('stops paginating when the layout is removed', () => {
+    const state = paginate(measured(paginate(createState()), [5]), null);
+
+    expect(getPageInfo(state)).toBeNull();
+    expect(getPaginationState(state)!.decorations.find()).toEqual([]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Pagination Plugin for ProseMirror
+ * Lays the document out as sheets of paper in page layout mode. Top-level
+ * blocks are measured after each change, and a page gap is inserted before the
+ * first block that does not fit on a page and after each page break.
+ */
+
+import { EditorState, Plugin, PluginKey, Transaction } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view';
+
+type Command = (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean;
+
+/**
+ * Sheet size and margins in CSS pixels.
+ */
+export interface PageLayout {
+  width: number;
+  height: number;
+  margins: { top: number; right: number; bottom: number; left: number };
+}
+
+export interface PageBoundary {
+  /** Position of the block that starts the page */
+  pos: number;
+  /** Height of the gap widget, filling the rest of the previous page */
+  height: number;
+}
+
+export interface PaginationState {
+  /** Page layout, null when the document is not paginated */
+  layout: PageLayout | null;
+  /** Starts of the pages after the first */
+  boundaries: PageBoundary[];
+  /** Blank space at the end of the last page */
+  fill: number;
+  decorations: DecorationSet;
+}
+
+interface PaginationMeta {
+  layout?: PageLayout | null;
+  boundaries?: PageBoundary[];
+  fill?: number;
+}
+
+/**
+ * Space between two sheets, in pixels
+ */
+export const PAGE_GAP = 24;
+
+export const paginationPluginKey = new PluginKey<PaginationState>('pagination');
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Split the top-level blocks into pages.
+ * Blocks are measured as if there were no page gaps: the space between two
+ * blocks separated by a gap is their collapsed margin.
+ */
+function measurePages(view: EditorView, layout: PageLayout): { boundaries: PageBoundary[]; fill: number } {
+  const { doc } = view.state;
+  const pageHeight = layout.height - layout.margins.top - layout.margins.bottom;
+  const chrome = layout.margins.bottom + PAGE_GAP + layout.margins.top;
+  const boundaries: PageBoundary[] = [];
+
+  let pageTop = 0;
+  let previous: { bottom: number; rectBottom: number; marginBottom: number; isPageBreak: boolean } | null = null;
+  let afterGap = false;
+
+  // Start a page at `pos`, after the previous block
+  const breakPage = (pos: number, top: number) => {
+    const used = previous ? previous.bottom - pageTop + previous.marginBottom : 0;
+    boundaries.push({ pos, height: Math.max(0, pageHeight - used) + chrome });
+    pageTop = top;
+  };
+
+  const blocks = new Map<Node, { node: ProseMirrorNode; pos: number }>();
+  doc.forEach((node, pos) => {
+    const dom = view.nodeDOM(pos);
+    if (dom) blocks.set(dom, { node, pos });
+  });
+
+  for (const child of Array.from(view.dom.children)) {
+    if (child.classList.contains('erix-page-gap')) {
+      afterGap = true;
+      continue;
+    }
+
+    const block = blocks.get(child);
+    if (!block) continue;
+
+    const rect = child.getBoundingClientRect();
+    const style = getComputedStyle(child);
+    const marginTop = parseFloat(style.marginTop) || 0;
+    const marginBottom = parseFloat(style.marginBottom) || 0;
+
+    const top = !previous
+      ? 0
+      : previous.bottom + (afterGap ? Math.max(previous.marginBottom, marginTop) : rect.top - previous.rectBottom);
+    const bottom = top + rect.height;
+
+    // A block that does not fit moves to the next page, unless it is the first on its page.
+    // A page break stays where it is, as it ends its page anyway.
+    const isPageBreak = block.node.type.name === 'page_break';
+    if (previous && (previous.isPageBreak || (!isPageBreak && bottom - pageTop > pageHeight))) {
+      breakPage(block.pos, top);
+    }
+
+    previous = { bottom, rectBottom: rect.bottom, marginBottom, isPageBreak };
+    afterGap = false;
+  }
+
+  // A page break at the end starts an empty page
+  if (previous?.isPageBreak) {
+    breakPage(doc.content.size, previous.bottom);
+    previous = null;
+  }
+
+  const used = previous ? previous.bottom - pageTop + previous.marginBottom : 0;
+  return { boundaries, fill: Math.max(0, pageHeight - used) };
+}
+
+function createSpacer(className: string, height: number): HTMLElement {
+  const spacer = document.createElement('div');
+  spacer.className = className;
+  spacer.contentEditable = 'false';
+  spacer.style.height = `${height}px`;
+  spacer.setAttribute('aria-hidden', 'true');
+  return spacer;
+}
+
+/**
+ * The rest of a page, its bottom margin, the gap between sheets and the
+ * top margin of the next page.
+ */
+function createGap(height: number): HTMLElement {
+  const gap = createSpacer('erix-page-gap', height);
+
+  const band = document.createElement('div');
+  band.className = 'erix-page-gap-band';
+  gap.appendChild(band);
+
+  return gap;
+}
+
+function buildDecorations(doc: ProseMirrorNode, boundaries: PageBoundary[], fill: number): DecorationSet {
+  const decorations = boundaries.map((boundary, index) =>
+    Decoration.widget(boundary.pos, () => createGap(boundary.height), {
+      side: -1,
+      ignoreSelection: true,
+      key: `page-${index}-${boundary.height}`,
+    })
+  );
+
+  decorations.push(
+    Decoration.widget(doc.content.size, () => createSpacer('erix-page-fill', fill), {
+      side: 1,
+      ignoreSelection: true,
+      key: `page-fill-${fill}`,
+    })
+  );
+
+  return DecorationSet.create(doc, decorations);
+}
+
+function sameBoundaries(a: PageBoundary[], b: PageBoundary[]): boolean {
+  // Sub-pixel differences would make the layout measure itself forever
+  return a.length === b.length && a.every((boundary, index) => boundary.pos === b[index].pos && Math.abs(boundary.height - b[index].height) < 1);
+}
+
+function sameLayout(a: PageLayout | null, b: PageLayout | null): boolean {
+  if (!a || !b) return a === b;
+  return (
+    a.width === b.width &&
+    a.height === b.height &&
+    (['top', 'right', 'bottom', 'left'] as const).every(side => a.margins[side] === b.margins[side])
+  );
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+/**
+ * Creates the pagination plugin. It does nothing until a layout is set
+ * with setPageLayout.
+ * @returns ProseMirror Plugin
+ */
+export function createPaginationPlugin(): Plugin {
+  return new Plugin<PaginationState>({
+    key: paginationPluginKey,
+
+    state: {
+      init: () => ({ layout: null, boundaries: [], fill: 0, decorations: DecorationSet.empty }),
+      apply(tr, value, _oldState, newState) {
+        const meta = tr.getMeta(paginationPluginKey) as PaginationMeta | undefined;
+
+        if (meta?.layout !== undefined) {
+          return { layout: meta.layout, boundaries: [], fill: 0, decorations: DecorationSet.empty };
+        }
+        if (!value.layout) return value;
+
+        if (meta?.boundaries) {
+          const fill = meta.fill ?? value.fill;
+          return { ...value, boundaries: meta.boundaries, fill, decorations: buildDecorations(newState.doc, meta.boundaries, fill) };
+        }
+        if (!tr.docChanged) return value;
+
+        // Keep the gaps in place until the document is measured again
+        const boundaries = value.boundaries
+          .map(boundary => ({ ...boundary, pos: tr.mapping.map(boundary.pos, -1) }))
+          .filter(boundary => newState.doc.resolve(boundary.pos).depth === 0);
+        return { ...value, boundaries, decorations: buildDecorations(newState.doc, boundaries, value.fill) };
+      },
+    },
+
+    props: {
+      decorations(state) {
+        return this.getState(state)?.decorations;
+      },
+      attributes(state): Record<string, string> {
+        return paginationPluginKey.getState(state)?.layout ? { class: 'erix-paginated' } : {};
+      },
+    },
+
+    view(view) {
+      let frame = 0;
+
+      const measure = () => {
+        frame = 0;
+        const pagination = paginationPluginKey.getState(view.state);
+        if (!pagination?.layout) return;
+
+        const { boundaries, fill } = measurePages(view, pagination.layout);
+        if (sameBoundaries(boundaries, pagination.boundaries) && Math.abs(fill - pagination.fill) < 1) return;
+        view.dispatch(view.state.tr.setMeta(paginationPluginKey, { boundaries, fill }));
+      };
+
+      const schedule = () => {
+        if (!frame) frame = requestAnimationFrame(measure);
+      };
+
+      // Images that finish loading and width changes move the page ends too
+      const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(schedule) : null;
+      observer?.observe(view.dom);
+
+      return {
+        update(view, prevState) {
+          const pagination = paginationPluginKey.getState(view.state);
+          if (pagination?.layout && (view.state.doc !== prevState.doc || pagination.layout !== paginationPluginKey.getState(prevState)?.layout)) {
+            schedule();
+          }
+        },
+        destroy() {
+          if (frame) cancelAnimationFrame(frame);
+          observer?.disconnect();
+        },
+      };
+    },
+  });
+}
+
+/**
+ * Get the pagination state.
+ */
+export function getPaginationState(state: EditorState): PaginationState | undefined {
+  return paginationPluginKey.getState(state);
+}
+
+/**
+ * Get the page of the selection and the number of pages.
+ * @returns null when the document is not paginated
+ */
+export function getPageInfo(state: EditorState): { current: number; count: number } | null {
+  const pagination = paginationPluginKey.getState(state);
+  if (!pagination?.layout) return null;
+
+  const { from } = state.selection;
+  return {
+    current: pagination.boundaries.filter(boundary => boundary.pos <= from).length + 1,
+    count: pagination.boundaries.length + 1,
+  };
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Lay the document out on pages, or back as one continuous page.
+ * Does nothing when the layout is unchanged.
+ * @param layout - Sheet size and margins in pixels, or null to stop paginating
+ */
+export function setPageLayout(layout: PageLayout | null): Command {
+  return (state, dispatch) => {
+    const current = paginationPluginKey.getState(state)?.layout ?? null;
+    if (sameLayout(current, layout)) return false;
+
+    if (dispatch) {
+      dispatch(state.tr.setMeta(paginationPluginKey, { layout }));
+    }
+    return true;
+  };
+}
@@ -0,0 +1,37 @@
+import { formatShortcut, normalizeShortcut } from './shortcuts';
+
+describe('normalizeShortcut', () => {
+  it('resolves Mod to the platform modifier', () => {
+    expect(normalizeShortcut('Mod+Shift+S', false)).toBe('Ctrl-Shift-s');
+    expect(normalizeShortcut('Mod+Shift+S', true)).toBe('Meta-Shift-s');
+  });
+
+  it('accepts either separator, aliases and any modifier order', () => {
+    expect(normalizeShortcut('shift-alt-ctrl-K', false)).toBe('Ctrl-Alt-Shift-k');
+    expect(normalizeShortcut('Cmd+Option+Esc', false)).toBe('Meta-Alt-Escape');
+    expect(normalizeShortcut(' Control + up ', false)).toBe('Ctrl-ArrowUp');
+    expect(normalizeShortcut('Mod+f5', false)).toBe('Ctrl-F5');
+  });
+
+  it('keeps a separator used as the key', () => {
+    expect(normalizeShortcut('Mod+-', false)).toBe('Ctrl--');
+    expect(normalizeShortcut('Mod-+', false)).toBe('Ctrl-+');
+  });
+
+  it('gives equivalent shortcuts the same key name', () => {
+    expect(normalizeShortcut('Mod+B', false)).toBe(normalizeShortcut('ctrl-b', false));
+    expect(normalizeShortcut('Mod+B', true)).toBe(normalizeShortcut('Command+b', true));
+  });
+
+  it('rejects unknown modifiers', () => {
+    expect(() => normalizeShortcut('Hyper+B', false)).toThrow('Unknown modifier "Hyper" in shortcut "Hyper+B".');
+  });
+});
+
+describe('formatShortcut', () => {
+  it('formats shortcuts for display', () => {
+    expect(formatShortcut('mod-shift-s', false)).toBe('Ctrl+Shift+S');
+    expect(formatShortcut('Mod+Shift+S', true)).toBe('⇧⌘S');
+    expect(formatShortcut('Alt+Enter', false)).toBe('Alt+Enter');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Shortcut Keymap Plugin for ProseMirror
+ * Routes key presses to actions bound at runtime (e.g. registry plugins)
+ * and normalizes shortcut strings such as 'Mod+Shift+S' to key names.
+ */
+
+import { Command, Plugin, PluginKey } from 'prosemirror-state';
+import { keydownHandler } from 'prosemirror-keymap';
+
+export interface ShortcutKeymapOptions {
+  /** Bound keys in key-name form (see `normalizeShortcut`), mapped to an action id */
+  getBindings: () => Record<string, string>;
+  /** Run an action; return false to let the key fall through */
+  run: (id: string) => boolean;
+}
+
+export const shortcutKeymapPluginKey = new PluginKey('shortcutKeymap');
+
+const MODIFIERS: Record<string, 'Ctrl' | 'Meta' | 'Alt' | 'Shift' | 'Mod'> = {
+  mod: 'Mod',
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  cmd: 'Meta',
+  command: 'Meta',
+  meta: 'Meta',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  enter: 'Enter',
+  return: 'Enter',
+  esc: 'Escape',
+  escape: 'Escape',
+  tab: 'Tab',
+  backspace: 'Backspace',
+  del: 'Delete',
+  delete: 'Delete',
+  space: 'Space',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  arrowup: 'ArrowUp',
+  arrowdown: 'ArrowDown',
+  arrowleft: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+  home: 'Home',
+  end: 'End',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  insert: 'Insert',
+};
+
+/**
+ * Whether shortcuts should use the Mac modifier (Cmd for 'Mod').
+ */
+export function isMacPlatform(): boolean {
+  return typeof navigator !== 'undefined' && /Mac|iP(hone|[oa]d)/.test(navigator.platform);
+}
+
+function parseShortcut(shortcut: string, mac: boolean): { modifiers: Set<string>; key: string } {
+  // Split on '+' or '-' unless it is the key itself (e.g. 'Mod+-')
+  const parts = shortcut.trim().split(/[+-](?=.)/);
+  const modifiers = new Set<string>();
+
+  for (const part of parts.slice(0, -1)) {
+    const modifier = MODIFIERS[part.trim().toLowerCase()];
+    if (!modifier) throw new Error(`Unknown modifier "${part}" in shortcut "${shortcut}".`);
+    modifiers.add(modifier === 'Mod' ? (mac ? 'Meta' : 'Ctrl') : modifier);
+  }
+
+  const last = parts[parts.length - 1].trim();
+  const key = last.length === 1 ? last.toLowerCase() : KEY_ALIASES[last.toLowerCase()] ?? (/^f\d+$/i.test(last) ? last.toUpperCase() : last);
+  return { modifiers, key };
+}
+
+/**
+ * Convert a shortcut to its key name on this platform, e.g. 'Mod+Shift+S'
+ * becomes 'Ctrl-Shift-s' (or 'Meta-Shift-s' on Mac).
+ * Accepts '+' or '-' separators and common aliases (Cmd, Option, Esc...).
+ * @param shortcut - Shortcut string
+ * @param mac - Resolve 'Mod' to Cmd (defaults to the current platform)
+ * @throws Error if a modifier is not recognized
+ */
+export function normalizeShortcut(shortcut: string, mac: boolean = isMacPlatform()): string {
+  const { modifiers, key } = parseShortcut(shortcut, mac);
+  const order = ['Ctrl', 'Meta', 'Alt', 'Shift'].filter(modifier => modifiers.has(modifier));
+  return [...order, key].join('-');
+}
+
+/**
+ * Format a shortcut for display, e.g. 'Ctrl+Shift+S' or '⌘⇧S' on Mac.
+ * @param shortcut - Shortcut string
+ * @param mac - Use Mac symbols (defaults to the current platform)
+ */
+export function formatShortcut(shortcut: string, mac: boolean = isMacPlatform()): string {
+  const { modifiers, key } = parseShortcut(shortcut, mac);
+  const label = key.length === 1 ? key.toUpperCase() : key;
+
+  if (mac) {
+    const symbols: Record<string, string> = { Ctrl: '⌃', Alt: '⌥', Shift: '⇧', Meta: '⌘' };
+    return ['Ctrl', 'Alt', 'Shift', 'Meta'].filter(modifier => modifiers.has(modifier)).map(modifier => symbols[modifier]).join('') + label;
+  }
+
+  return [...['Ctrl', 'Alt', 'Shift', 'Meta'].filter(modifier => modifiers.has(modifier)), label].join('+');
+}
+
+/**
+ * Creates the shortcut keymap plugin.
+ * Bindings are read on every key press, so rebinding takes effect immediately.
+ * @param options - Binding source and action runner
+ * @returns ProseMirror Plugin
+ */
+export function createShortcutKeymapPlugin(options: ShortcutKeymapOptions): Plugin {
+  let bindings: Record<string, string> | null = null;
+  let handler: ReturnType<typeof keydownHandler> | null = null;
+
+  return new Plugin({
+    key: shortcutKeymapPluginKey,
+    props: {
+      handleKeyDown(view, event) {
+        const current = options.getBindings();
+
+        // Rebuild the handler only when the bindings object changes
+        if (current !== bindings || !handler) {
+          bindings = current;
+          const commands: Record<string, Command> = {};
+          for (const [key, id] of Object.entries(current)) {
+            commands[key] = () => options.run(id);
+          }
+          handler = keydownHandler(commands);
+        }
+
+        return handler(view, event);
+      },
+    },
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Slash Menu Plugin for ProseMirror
+ * Opens a command menu when "/" is typed at the start of an empty paragraph,
+ * tracks the filter text typed after it and handles keyboard navigation.
+ * Rendering is left to the host component.
+ */
+
+import { EditorState, Plugin, PluginKey, Transaction } from 'prosemirror-state';
+import { EditorView } from 'prosemirror-view';
+
+export interface SlashMenuItem {
+  id: string;
+}
+
+export interface SlashMenuOptions<T extends SlashMenuItem = SlashMenuItem> {
+  /** Items matching the filter text */
+  getItems: (query: string) => T[];
+  /** Run an item; the "/query" text has already been removed */
+  onSelect: (item: T, view: EditorView) => void;
+}
+
+export interface SlashMenuState {
+  active: boolean;
+  /** Position of the "/" character */
+  from: number;
+  /** Text typed after the "/" */
+  query: string;
+  /** Highlighted item */
+  index: number;
+}
+
+interface SlashMenuMeta {
+  open?: number;
+  close?: boolean;
+  index?: number;
+}
+
+export const slashMenuPluginKey = new PluginKey<SlashMenuState>('slashMenu');
+
+const INACTIVE: SlashMenuState = { active: false, from: 0, query: '', index: 0 };
+
+/**
+ * Re-validate an open menu against the new state: the "/" must still be
+ * there and the cursor must stay in the same paragraph after it.
+ */
+function followTrigger(value: SlashMenuState, tr: Transaction, state: EditorState): SlashMenuState {
+  const from = tr.mapping.map(value.from);
+  const { selection } = state;
+  if (!selection.empty || selection.from <= from) return INACTIVE;
+
+  const $from = state.doc.resolve(from);
+  if ($from.parent !== selection.$from.parent || state.doc.textBetween(from, from + 1) !== '/') return INACTIVE;
+
+  const query = state.doc.textBetween(from + 1, selection.from);
+  if (query.startsWith(' ')) return INACTIVE;
+
+  return { active: true, from, query, index: query === value.query ? value.index : 0 };
+}
+
+function selectItem<T extends SlashMenuItem>(view: EditorView, options: SlashMenuOptions<T>, index: number): boolean {
+  const menu = slashMenuPluginKey.getState(view.state);
+  if (!menu?.active) return false;
+
+  const item = options.getItems(menu.query)[index];
+  if (!item) return false;
+
+  // Remove the "/query" text, then let the item act on the now-empty paragraph
+  view.dispatch(view.state.tr.delete(menu.from, view.state.selection.from).setMeta(slashMenuPluginKey, { close: true }));
+  options.onSelect(item, view);
+  return true;
+}
+
+/**
+ * Creates the slash menu plugin.
+ * @param options - Item source and selection handler
+ * @returns ProseMirror Plugin
+ */
+export function createSlashMenuPlugin<T extends SlashMenuItem>(options: SlashMenuOptions<T>): Plugin {
+  return new Plugin<SlashMenuState>({
+    key: slashMenuPluginKey,
+    slashMenu: options,
+
+    state: {
+      init: () => INACTIVE,
+      apply(tr, value, _oldState, newState) {
+        const meta = tr.getMeta(slashMenuPluginKey) as SlashMenuMeta | undefined;
+
+        if (meta?.close) return INACTIVE;
+        if (meta?.open !== undefined) return { active: true, from: meta.open, query: '', index: 0 };
+        if (!value.active) return value;
+
+        const next = tr.docChanged || tr.selectionSet ? followTrigger(value, tr, newState) : value;
+        if (meta?.index !== undefined && next.active) return { ...next, index: meta.index };
+        return next;
+      },
+    },
+
+    props: {
+      handleTextInput(view, from, to, text) {
+        if (text !== '/' || from !== to) return false;
+
+        const $from = view.state.doc.resolve(from);
+        if ($from.parent.type !== view.state.schema.nodes.paragraph || $from.parent.content.size > 0) return false;
+
+        view.dispatch(view.state.tr.insertText(text, from, to).setMeta(slashMenuPluginKey, { open: from }));
+        return true;
+      },
+
+      handleKeyDown(view, event) {
+        const menu = slashMenuPluginKey.getState(view.state);
+        if (!menu?.active) return false;
+
+        if (event.key === 'Escape') {
+          view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { close: true }));
+          return true;
+        }
+
+        const count = options.getItems(menu.query).length;
+        if (count === 0) return false;
+
+        switch (event.key) {
+          case 'ArrowDown':
+            view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { index: (menu.index + 1) % count }));
+            return true;
+          case 'ArrowUp':
+            view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { index: (menu.index - 1 + count) % count }));
+            return true;
+          case 'Enter':
+          case 'Tab':
+            return selectItem(view, options, menu.index);
+          default:
+            return false;
+        }
+      },
+
+      handleDOMEvents: {
+        blur(view) {
+          if (slashMenuPluginKey.getState(view.state)?.active) {
+            view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { close: true }));
+          }
+          return false;
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Get the slash menu state.
+ */
+export function getSlashMenuState(state: EditorState): SlashMenuState | undefined {
+  return slashMenuPluginKey.getState(state);
+}
+
+/**
+ * Highlight a menu item (e.g. on hover).
+ * @param view - Editor view
+ * @param index - Item index
+ */
+export function setSlashMenuIndex(view: EditorView, index: number): void {
+  view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { index }));
+}
+
+/**
+ * Close the menu, leaving the typed text in place.
+ * @param view - Editor view
+ */
+export function closeSlashMenu(view: EditorView): void {
+  view.dispatch(view.state.tr.setMeta(slashMenuPluginKey, { close: true }));
+}
+
+/**
+ * Run the menu item at an index (e.g. on click).
+ * @param view - Editor view
+ * @param index - Item index
+ */
+export function selectSlashMenuItem(view: EditorView, index: number): boolean {
+  const plugin = slashMenuPluginKey.get(view.state);
+  return !!plugin && selectItem(view, plugin.spec.slashMenu, index);
+}
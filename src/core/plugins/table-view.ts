@@ -0,0 +1,46 @@
+/**
+ * Table View
+ * Renders tables in the editor with their border, width, padding and spacing,
+ * which the prosemirror-tables view leaves out.
+ */
+
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { TableView } from 'prosemirror-tables';
+import { getTableDOMAttrs } from '../schema/index';
+
+export class ErixTableView extends TableView {
+  private appliedAttributes: string[] = [];
+  private appliedStyles: string[] = [];
+
+  constructor(node: ProseMirrorNode, cellMinWidth: number) {
+    super(node, cellMinWidth);
+    this.applyTableAttrs();
+  }
+
+  update(node: ProseMirrorNode): boolean {
+    // The base view sets the table width from the column widths on every update
+    if (!super.update(node)) return false;
+    this.applyTableAttrs();
+    return true;
+  }
+
+  private applyTableAttrs() {
+    const { attributes, styles } = getTableDOMAttrs(this.node.attrs);
+    const padding = parseFloat(this.node.attrs.cellpadding);
+    // Cells read their padding from a custom property, falling back to the stylesheet
+    if (!isNaN(padding)) styles['--erix-cell-padding'] = `${padding}px`;
+
+    for (const name of this.appliedAttributes) {
+      if (!(name in attributes)) this.table.removeAttribute(name);
+    }
+    for (const name of this.appliedStyles) {
+      if (!(name in styles) && name !== 'width') this.table.style.removeProperty(name);
+    }
+
+    for (const [name, value] of Object.entries(attributes)) this.table.setAttribute(name, value);
+    for (const [name, value] of Object.entries(styles)) this.table.style.setProperty(name, value);
+
+    this.appliedAttributes = Object.keys(attributes);
+    this.appliedStyles = Object.keys(styles);
+  }
+}
@@ -0,0 +1,96 @@
+import { EditorState, Transaction } from 'prosemirror-state';
+import { Node as ProseMirrorNode } from 'prosemirror-model';
+import { history, undo } from 'prosemirror-history';
+import { collab, receiveTransaction } from 'prosemirror-collab';
+import { ReplaceStep } from 'prosemirror-transform';
+import { editorSchema } from '../schema/index';
+import { parseFromHTML } from '../../api/serializers/html-serializer';
+import { configureTrackChanges, createTrackChangesPlugin, skipTrackChanges, trackTransaction } from './track-changes';
+
+/**
+ * Text of the document with insertions as [+text] and deletions as [-text].
+ */
+function describeChanges(doc: ProseMirrorNode): string {
+  const parts: { kind: string; text: string }[] = [];
+  doc.descendants(node => {
+    if (!node.isText) return;
+    const kind = node.marks.find(mark => mark.type.name === 'insertion' || mark.type.name === 'deletion')?.type.name ?? '';
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += node.text;
+    else parts.push({ kind, text: node.text! });
+  });
+  return parts.map(({ kind, text }) => (kind === 'insertion' ? `[+${text}]` : kind === 'deletion' ? `[-${text}]` : text)).join('');
+}
+
+function createState(html = '<p>Hello world</p>', plugins = [history()]): EditorState {
+  return EditorState.create({
+    doc: parseFromHTML(html, editorSchema),
+    plugins: [createTrackChangesPlugin({ enabled: true, author: 'alice' }), ...plugins],
+  });
+}
+
+function apply(state: EditorState, build: (tr: Transaction) => Transaction): EditorState {
+  return state.apply(trackTransaction(build(state.tr), state));
+}
+
+describe('trackTransaction', () => {
+  it('marks typed text as an insertion by the author', () => {
+    const state = apply(createState(), tr => tr.insertText('big ', 7));
+
+    expect(describeChanges(state.doc)).toBe('Hello [+big ]world');
+    const mark = state.doc.nodeAt(7)!.marks[0];
+    expect(mark.attrs.author).toBe('alice');
+    expect(state.selection.head).toBe(11);
+  });
+
+  it('keeps deleted text, marked as a deletion', () => {
+    const state = apply(createState(), tr => tr.delete(1, 7));
+
+    expect(describeChanges(state.doc)).toBe('[-Hello ]world');
+    expect(state.doc.textContent).toBe('Hello world');
+  });
+
+  it('records a replacement as a deletion followed by an insertion', () => {
+    const state = apply(createState(), tr => tr.insertText('there', 7, 12));
+
+    expect(describeChanges(state.doc)).toBe('Hello [-world][+there]');
+  });
+
+  it('removes the author\'s own insertions instead of marking them deleted', () => {
+    let state = apply(createState(), tr => tr.insertText('big ', 7));
+    state = apply(state, tr => tr.delete(5, 9));
+
+    expect(describeChanges(state.doc)).toBe('Hell[-o ][+g ]world');
+  });
+
+  it('merges consecutive typing into one change', () => {
+    let state = apply(createState(), tr => tr.insertText('a', 7));
+    state = apply(state, tr => tr.insertText('b', 8));
+
+    const ids = new Set<string>();
+    state.doc.descendants(node => node.marks.forEach(mark => ids.add(mark.attrs.id)));
+    expect(describeChanges(state.doc)).toBe('Hello [+ab]world');
+    expect(ids.size).toBe(1);
+  });
+
+  it('leaves undo, skipped and remote transactions untouched', () => {
+    let state = apply(createState(), tr => tr.insertText('big ', 7));
+    undo(state, tr => (state = apply(state, () => tr)));
+    expect(describeChanges(state.doc)).toBe('Hello world');
+
+    state = apply(state, tr => skipTrackChanges(tr.delete(1, 7)));
+    expect(describeChanges(state.doc)).toBe('world');
+
+    let remote = createState('<p>Hello world</p>', [collab({ clientID: 'alice' })]);
+    const step = new ReplaceStep(1, 7, remote.doc.slice(0, 0));
+    remote = apply(remote, () => receiveTransaction(remote, [step], ['bob']));
+    expect(describeChanges(remote.doc)).toBe('world');
+  });
+
+  it('does nothing when suggestion mode is off', () => {
+    let state = apply(createState(), tr => configureTrackChanges(tr, { enabled: false }));
+    state = apply(state, tr => tr.insertText('big ', 7));
+
+    expect(describeChanges(state.doc)).toBe('Hello big world');
+  });
+});
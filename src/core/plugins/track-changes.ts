@@ -0,0 +1,233 @@
+/**
+ * Track Changes Plugin for ProseMirror
+ * Holds the suggestion mode state and rewrites transactions so that edits
+ * are recorded as `insertion` / `deletion` marks instead of being applied.
+ */
+
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from 'prosemirror-state';
+import { Mark, MarkType, Node as ProseMirrorNode, Slice } from 'prosemirror-model';
+import { Mapping, ReplaceStep } from 'prosemirror-transform';
+import { isHistoryTransaction } from 'prosemirror-history';
+
+export interface TrackChangesState {
+  enabled: boolean;
+  author: string;
+}
+
+interface TrackChangesMeta {
+  enabled?: boolean;
+  author?: string;
+  /** Apply the transaction as-is (accept/reject, loading content) */
+  skip?: boolean;
+}
+
+export const trackChangesPluginKey = new PluginKey<TrackChangesState>('trackChanges');
+
+/**
+ * Creates the track changes plugin.
+ * @param options - Initial state
+ * @returns ProseMirror Plugin
+ */
+export function createTrackChangesPlugin(options: Partial<TrackChangesState> = {}): Plugin {
+  return new Plugin<TrackChangesState>({
+    key: trackChangesPluginKey,
+
+    state: {
+      init: () => ({ enabled: options.enabled ?? false, author: options.author ?? '' }),
+      apply(tr, value) {
+        const meta = tr.getMeta(trackChangesPluginKey) as TrackChangesMeta | undefined;
+        if (!meta || (meta.enabled === undefined && meta.author === undefined)) return value;
+
+        return {
+          enabled: meta.enabled ?? value.enabled,
+          author: meta.author ?? value.author,
+        };
+      },
+    },
+  });
+}
+
+/**
+ * Check if suggestion mode is on.
+ */
+export function isTrackingChanges(state: EditorState): boolean {
+  return !!trackChangesPluginKey.getState(state)?.enabled;
+}
+
+/**
+ * Turn suggestion mode on or off, or change the recorded author.
+ * @param tr - Transaction to annotate
+ * @param options - New settings
+ */
+export function configureTrackChanges(tr: Transaction, options: Partial<TrackChangesState>): Transaction {
+  return tr.setMeta(trackChangesPluginKey, options);
+}
+
+/**
+ * Mark a transaction so it is applied directly even in suggestion mode.
+ * @param tr - Transaction to annotate
+ */
+export function skipTrackChanges(tr: Transaction): Transaction {
+  return tr.setMeta(trackChangesPluginKey, { ...tr.getMeta(trackChangesPluginKey), skip: true });
+}
+
+// ============================================================================
+// TRANSACTION TRACKING
+// ============================================================================
+
+function createChangeId(): string {
+  return `tc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function hasInlineContent(doc: ProseMirrorNode, from: number, to: number): boolean {
+  let found = false;
+  doc.nodesBetween(from, to, node => {
+    if (found) return false;
+    if (node.isInline) found = true;
+    return !found;
+  });
+  return found;
+}
+
+function sliceHasInlineContent(slice: Slice): boolean {
+  let found = false;
+  slice.content.descendants(node => {
+    if (found) return false;
+    if (node.isInline) found = true;
+    return !found;
+  });
+  return found;
+}
+
+/**
+ * Find a mark of the given type and author directly adjacent to a range,
+ * so consecutive keystrokes extend one suggestion instead of creating many.
+ */
+function findAdjacentMark(doc: ProseMirrorNode, from: number, to: number, type: MarkType, author: string): Mark | null {
+  const $from = doc.resolve(from);
+  const $to = doc.resolve(to);
+  const candidates = [...($from.nodeBefore?.marks || []), ...($to.nodeAfter?.marks || [])];
+  return candidates.find(mark => mark.type === type && mark.attrs.author === author) || null;
+}
+
+/**
+ * Suggest deleting a range: mark it as deleted, except for the author's own
+ * pending insertions, which are removed outright.
+ */
+function trackDeletion(tr: Transaction, from: number, to: number, deletion: MarkType, insertion: MarkType, author: string, date: number): void {
+  const ownInsertions: { from: number; to: number }[] = [];
+  const toMark: { from: number; to: number }[] = [];
+
+  tr.doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isInline) return true;
+
+    const start = Math.max(pos, from);
+    const end = Math.min(pos + node.nodeSize, to);
+    const inserted = insertion.isInSet(node.marks);
+
+    if (inserted && inserted.attrs.author === author) {
+      ownInsertions.push({ from: start, to: end });
+    } else if (!deletion.isInSet(node.marks)) {
+      toMark.push({ from: start, to: end });
+    }
+    return false;
+  });
+
+  if (toMark.length > 0) {
+    const mark = findAdjacentMark(tr.doc, from, to, deletion, author) || deletion.create({ id: createChangeId(), author, date });
+    toMark.forEach(range => tr.addMark(range.from, range.to, mark));
+  }
+
+  for (let i = ownInsertions.length - 1; i >= 0; i--) {
+    tr.delete(ownInsertions[i].from, ownInsertions[i].to);
+  }
+}
+
+/**
+ * Rewrite a transaction for suggestion mode.
+ * Returns the transaction untouched when tracking is off or not applicable.
+ * @param tr - Transaction produced by the user
+ * @param state - State the transaction was created from
+ */
+export function trackTransaction(tr: Transaction, state: EditorState): Transaction {
+  const pluginState = trackChangesPluginKey.getState(state);
+  const { insertion, deletion } = state.schema.marks;
+
+  if (!pluginState?.enabled || !insertion || !deletion || !tr.docChanged) return tr;
+
+  // Undo/redo and remote collaboration steps are never re-tracked
+  const meta = tr.getMeta(trackChangesPluginKey) as TrackChangesMeta | undefined;
+  if (meta?.skip || isHistoryTransaction(tr) || tr.getMeta('rebased') !== undefined) return tr;
+
+  const { author } = pluginState;
+  const date = Date.now();
+  const tracked = state.tr;
+
+  // Maps positions in the original transaction's docs to the tracked doc
+  let mapping = new Mapping();
+  let cursor: number | null = null;
+
+  tr.steps.forEach((step, index) => {
+    const originalDoc = tr.docs[index];
+    const start = tracked.steps.length;
+
+    const isTextEdit = step instanceof ReplaceStep && (hasInlineContent(originalDoc, step.from, step.to) || sliceHasInlineContent(step.slice));
+
+    if (!isTextEdit) {
+      // Structural changes (splits, joins, wrapping) and formatting apply as-is
+      const mapped = step.map(mapping);
+      if (mapped) tracked.maybeStep(mapped);
+    } else {
+      const replace = step as ReplaceStep;
+      const from = mapping.map(replace.from, 1);
+      const to = Math.max(from, mapping.map(replace.to, -1));
+
+      if (from < to) {
+        trackDeletion(tracked, from, to, deletion, insertion, author, date);
+      }
+
+      const after = tracked.mapping.slice(start);
+      const insertAt = after.map(to);
+
+      if (replace.slice.size > 0) {
+        const sizeBefore = tracked.doc.content.size;
+        tracked.replace(insertAt, insertAt, replace.slice);
+        const insertEnd = insertAt + (tracked.doc.content.size - sizeBefore);
+
+        const mark = findAdjacentMark(tracked.doc, insertAt, insertAt, insertion, author) || insertion.create({ id: createChangeId(), author, date });
+        tracked.removeMark(insertAt, insertEnd, deletion);
+        tracked.addMark(insertAt, insertEnd, mark);
+        cursor = insertEnd;
+      } else {
+        // Backspace keeps the caret before the deleted text, Delete moves past it
+        const isForwardDelete = index === 0 && state.selection.empty && state.selection.head === replace.from;
+        cursor = isForwardDelete ? insertAt : after.map(from, -1);
+      }
+    }
+
+    const next = new Mapping();
+    next.appendMap(step.getMap().invert());
+    next.appendMapping(mapping);
+    next.appendMapping(tracked.mapping.slice(start));
+    mapping = next;
+  });
+
+  if (cursor !== null && tr.selection.empty) {
+    tracked.setSelection(TextSelection.create(tracked.doc, cursor));
+  } else if (tr.selectionSet) {
+    tracked.setSelection(tr.selection.map(tracked.doc, mapping));
+  }
+
+  if (tr.storedMarksSet) tracked.setStoredMarks(tr.storedMarks);
+  if (tr.scrolledIntoView) tracked.scrollIntoView();
+  for (const key of ['addToHistory', 'uiEvent', 'paste']) {
+    const value = tr.getMeta(key);
+    if (value !== undefined) tracked.setMeta(key, value);
+  }
+  for (const plugin of state.plugins) {
+    const value = tr.getMeta(plugin);
+    if (value !== undefined) tracked.setMeta(plugin, value);
+  }
+
+  return tracked;
+}
@@ -5,10 +5,14 @@
  * - Headings (h1-h6) with alignment
  * - Bullet and ordered lists
  * - Basic marks (bold, italic, underline, strikethrough)
+ * - Comment anchors (threads are stored in the `comments` doc attribute)
+ * - Tracked insertions and deletions (suggestion mode)
  */
 
-import { Schema, type NodeSpec, type MarkSpec } from 'prosemirror-model';
+import { Schema, type NodeSpec, type MarkSpec, type Node as ProseMirrorNode } from 'prosemirror-model';
 import { schema as basicSchema } from 'prosemirror-schema-basic';
+import { normalizeLinkHref } from '../commands/link';
+import type { TableAttrs } from '../commands/table';
 
 // ============================================================================
 // ALIGNMENT UTILITIES
@@ -21,6 +25,11 @@ const formattingAttrs = {
   lineHeight: { default: 'normal' },
 };
 
+/**
+ * Names of the block formatting attributes shared by paragraphs and headings.
+ */
+export const BLOCK_FORMATTING_ATTRS = Object.keys(formattingAttrs) as (keyof typeof formattingAttrs)[];
+
 function getFormattingFromDOM(dom: HTMLElement) {
   const align = (dom.style.textAlign || dom.getAttribute('align') || 'left') as TextAlignment;
   const lineHeight = dom.style.lineHeight || 'normal';
@@ -38,10 +47,150 @@ function createFormattingDOMAttrs(node: { attrs: { align?: TextAlignment; lineHe
   return styles.length ? { style: styles.join('; ') } : {};
 }
 
+// ============================================================================
+// CODE BLOCK UTILITIES
+// ============================================================================
+
+/**
+ * Read the language of a `<pre>` from a `language-x` (or `lang-x`) class on it
+ * or on its `<code>`, or from `data-language`.
+ */
+function getCodeLanguageFromDOM(pre: HTMLElement): string | null {
+  const classes = [pre.className, pre.querySelector('code')?.className ?? ''].join(' ');
+  return /(?:^|\s)lang(?:uage)?-([\w+#.-]+)/.exec(classes)?.[1] ?? pre.getAttribute('data-language') ?? null;
+}
+
+// ============================================================================
+// TABLE UTILITIES
+// ============================================================================
+
+/**
+ * Column widths of a table in pixels (0 when unknown), read from the cells of
+ * the first row, which spans every column.
+ */
+function getTableColumnWidths(table: ProseMirrorNode): number[] {
+  const widths: number[] = [];
+  table.firstChild?.forEach(cell => {
+    for (let i = 0; i < cell.attrs.colspan; i++) widths.push(cell.attrs.colwidth?.[i] || 0);
+  });
+  return widths;
+}
+
+/**
+ * Read the pixel width of each column from the `<col>` elements of a table.
+ */
+function getColgroupWidthsFromDOM(table: HTMLTableElement): (number | null)[] {
+  const widths: (number | null)[] = [];
+  for (const colgroup of Array.from(table.children).filter(el => el.tagName === 'COLGROUP')) {
+    for (const col of Array.from(colgroup.children).filter(el => el.tagName === 'COL') as HTMLElement[]) {
+      const width = /^(\d+(?:\.\d+)?)(?:px)?$/.exec(col.style.width || col.getAttribute('width') || '');
+      for (let i = 0; i < (Number(col.getAttribute('span')) || 1); i++) {
+        widths.push(width ? Math.round(Number(width[1])) : null);
+      }
+    }
+  }
+  return widths;
+}
+
+/**
+ * HTML attributes and inline styles for the attributes of a table node.
+ * Written by toDOM and by the editor's table view, so the editor shows
+ * what the exported HTML looks like. Border, padding and spacing are pixels.
+ */
+export function getTableDOMAttrs(attrs: TableAttrs): { attributes: Record<string, string>; styles: Record<string, string> } {
+  const attributes: Record<string, string> = {};
+  const styles: Record<string, string> = {};
+  const border = parseFloat(String(attrs.border));
+  const padding = parseFloat(String(attrs.cellpadding));
+  const spacing = parseFloat(String(attrs.cellspacing));
+
+  if (border > 0) {
+    attributes.border = String(border);
+    styles.border = `${border}px ${attrs.borderStyle || 'solid'} ${attrs.borderColor || '#000'}`;
+  }
+  if (!isNaN(padding)) attributes.cellpadding = String(padding);
+  if (!isNaN(spacing)) {
+    attributes.cellspacing = String(spacing);
+    // Cells are only spaced apart when their borders are not collapsed
+    if (spacing > 0) {
+      styles['border-collapse'] = 'separate';
+      styles['border-spacing'] = `${spacing}px`;
+    }
+  }
+  if (attrs.width) styles.width = attrs.width;
+
+  return { attributes, styles };
+}
+
+const colgroupCellWidths = new WeakMap<HTMLTableElement, Map<Element, number[] | null>>();
+
+/**
+ * Read the `colwidth` of a cell from the `<colgroup>` of its table.
+ * Cells are placed on the table grid once per table, skipping columns that
+ * rowspans from rows above already cover.
+ */
+function getColwidthFromColgroup(cell: HTMLTableCellElement): number[] | null {
+  const table = cell.closest('table');
+  if (!table) return null;
+
+  let cellWidths = colgroupCellWidths.get(table);
+  if (!cellWidths) {
+    cellWidths = new Map();
+    const columns = getColgroupWidthsFromDOM(table);
+    const covered: boolean[][] = [];
+    const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+
+    rows.forEach((row, rowIndex) => {
+      let col = 0;
+      for (const rowCell of Array.from(row.children).filter(el => el.tagName === 'TD' || el.tagName === 'TH') as HTMLTableCellElement[]) {
+        while (covered[rowIndex]?.[col]) col++;
+        const colspan = rowCell.colSpan || 1;
+        for (let r = rowIndex; r < rowIndex + (rowCell.rowSpan || 1); r++) {
+          covered[r] = covered[r] || [];
+          for (let c = col; c < col + colspan; c++) covered[r][c] = true;
+        }
+        const widths = columns.slice(col, col + colspan);
+        cellWidths.set(rowCell, widths.length === colspan && widths.every(width => width) ? (widths as number[]) : null);
+        col += colspan;
+      }
+    });
+    colgroupCellWidths.set(table, cellWidths);
+  }
+  return cellWidths.get(cell) ?? null;
+}
+
+// ============================================================================
+// TRACKED CHANGE UTILITIES
+// ============================================================================
+
+function getTrackedChangeAttrs(dom: HTMLElement) {
+  const date = Date.parse(dom.getAttribute('data-date') || '');
+  return {
+    id: dom.getAttribute('data-change-id'),
+    author: dom.getAttribute('data-author') || '',
+    date: isNaN(date) ? 0 : date,
+  };
+}
+
+function createTrackedChangeDOMAttrs(attrs: { id?: string; author?: string; date?: number }): Record<string, string> {
+  const domAttrs: Record<string, string> = { class: 'erix-tracked-change', 'data-change-id': attrs.id || '' };
+  if (attrs.author) domAttrs['data-author'] = attrs.author;
+  if (attrs.date) domAttrs['data-date'] = new Date(attrs.date).toISOString();
+  return domAttrs;
+}
+
 // ============================================================================
 // NODE SPECIFICATIONS
 // ============================================================================
 
+const docNode: NodeSpec = {
+  content: 'block+',
+  attrs: {
+    // Comment threads keyed to `comment` marks, persisted with the JSON document
+    comments: { default: [] },
+  },
+};
+
 const paragraphNode: NodeSpec = {
   content: 'inline*',
   group: 'block',
@@ -130,9 +279,22 @@ const additionalNodes: { [key: string]: NodeSpec } = {
     group: 'block',
     code: true,
     defining: true,
-    parseDOM: [{ tag: 'pre', preserveWhitespace: 'full' }],
-    toDOM() {
-      return ['pre', ['code', 0]];
+    // No formatting inside code (the <code> of <pre><code> is not an inline code mark)
+    marks: 'comment insertion deletion',
+    attrs: {
+      language: { default: null },
+    },
+    parseDOM: [
+      {
+        tag: 'pre',
+        preserveWhitespace: 'full',
+        getAttrs(dom) {
+          return { language: getCodeLanguageFromDOM(dom as HTMLElement) };
+        },
+      },
+    ],
+    toDOM(node) {
+      return ['pre', ['code', node.attrs.language ? { class: `language-${node.attrs.language}` } : {}, 0]];
     },
   },
   horizontal_rule: {
@@ -206,11 +368,15 @@ const additionalNodes: { [key: string]: NodeSpec } = {
         getAttrs(dom) {
           const table = dom as HTMLTableElement;
           const style = table.style;
+          const columns = getColgroupWidthsFromDOM(table);
+          // toDOM writes the sum of the column widths, which is not a width of its own
+          const columnsWidth = columns.length && columns.every(width => width) ? `${columns.reduce((sum, width) => sum! + width!, 0)}px` : null;
+          const width = table.getAttribute('width') || style.width || null;
           return {
             border: table.getAttribute('border') || style.borderWidth || null,
             borderColor: style.borderColor || null,
             borderStyle: style.borderStyle || null,
-            width: table.getAttribute('width') || style.width || null,
+            width: width === columnsWidth ? null : width,
             cellpadding: table.getAttribute('cellpadding') || null,
             cellspacing: table.getAttribute('cellspacing') || null,
           };
@@ -218,22 +384,16 @@ const additionalNodes: { [key: string]: NodeSpec } = {
       },
     ],
     toDOM(node) {
-      const styles: string[] = [];
-      const attrs: Record<string, string> = { 
-        style: 'table-layout: fixed; border-collapse: collapse; width: 100%;' 
-      };
+      const columnWidths = getTableColumnWidths(node);
+      // With every column width known the table is as wide as its columns, as in the editor
+      const tableWidth = columnWidths.every(width => width) ? `${columnWidths.reduce((sum, width) => sum + width, 0)}px` : '100%';
+      const { attributes, styles } = getTableDOMAttrs(node.attrs);
+      const style = { 'table-layout': 'fixed', 'border-collapse': 'collapse', 'width': tableWidth, ...styles };
+      const attrs = { ...attributes, style: Object.entries(style).map(([name, value]) => `${name}: ${value};`).join(' ') };
 
-      if (node.attrs.border) {
-        styles.push(`border: ${node.attrs.border}px solid ${node.attrs.borderColor || '#000'}`);
-      }
-      if (node.attrs.width) {
-        styles.push(`width: ${node.attrs.width}`);
-      }
-      if (styles.length > 0) {
-        attrs.style = (attrs.style || '') + styles.join('; ');
-      }
+      const colgroup = ['colgroup', ...columnWidths.map(width => ['col', width ? { style: `width: ${width}px` } : {}])];
 
-      return ['table', attrs, ['tbody', 0]];
+      return ['table', attrs, colgroup, ['tbody', 0]];
     },
   },
   table_row: {
@@ -268,7 +428,7 @@ const additionalNodes: { [key: string]: NodeSpec } = {
           return {
             colspan: cell.colSpan || 1,
             rowspan: cell.rowSpan || 1,
-            colwidth: colwidth ? colwidth.split(',').map(Number) : null,
+            colwidth: colwidth ? colwidth.split(',').map(Number) : getColwidthFromColgroup(cell),
             border: style.border || style.borderWidth || null,
             borderColor: style.borderColor || null,
             backgroundColor: style.backgroundColor || null,
@@ -321,6 +481,7 @@ const additionalNodes: { [key: string]: NodeSpec } = {
       borderColor: { default: null },
       backgroundColor: { default: null },
       textAlign: { default: null },
+      verticalAlign: { default: null },
     },
     parseDOM: [
       {
@@ -332,11 +493,12 @@ const additionalNodes: { [key: string]: NodeSpec } = {
           return {
             colspan: cell.colSpan || 1,
             rowspan: cell.rowSpan || 1,
-            colwidth: colwidth ? colwidth.split(',').map(Number) : null,
+            colwidth: colwidth ? colwidth.split(',').map(Number) : getColwidthFromColgroup(cell),
             border: style.border || style.borderWidth || null,
             borderColor: style.borderColor || null,
             backgroundColor: style.backgroundColor || null,
             textAlign: style.textAlign || null,
+            verticalAlign: style.verticalAlign || cell.getAttribute('valign') || null,
           };
         },
       },
@@ -361,6 +523,9 @@ const additionalNodes: { [key: string]: NodeSpec } = {
       if (node.attrs.textAlign) {
         styles.push(`text-align: ${node.attrs.textAlign}`);
       }
+      if (node.attrs.verticalAlign) {
+        styles.push(`vertical-align: ${node.attrs.verticalAlign}`);
+      }
 
       if (styles.length > 0) {
         attrs.style = styles.join('; ');
@@ -526,8 +691,15 @@ const extendedMarks: { [key: string]: MarkSpec } = {
   },
   highlight: {
     attrs: { color: { default: 'yellow' } },
+    // Both paint the background, and <mark style="background-color"> matches both
+    excludes: 'highlight backgroundColor',
     parseDOM: [
-      { tag: 'mark' },
+      {
+        tag: 'mark',
+        getAttrs: (dom: HTMLElement) => {
+          return { color: dom.style.backgroundColor || 'yellow' };
+        },
+      },
       {
         tag: 'span[data-highlight]',
         getAttrs: (dom: HTMLElement) => {
@@ -551,6 +723,8 @@ const extendedMarks: { [key: string]: MarkSpec } = {
         tag: 'a[href]',
         getAttrs(dom) {
           const a = dom as HTMLAnchorElement;
+          // Script and data links are kept as plain text
+          if (!normalizeLinkHref(a.getAttribute('href') || '')) return false;
           return {
             href: a.getAttribute('href') || '',
             title: a.getAttribute('title') || null,
@@ -560,32 +734,117 @@ const extendedMarks: { [key: string]: MarkSpec } = {
       },
     ],
     toDOM(mark) {
-      const attrs: Record<string, string> = { href: mark.attrs.href };
+      const attrs: Record<string, string> = {};
+      // Documents loaded as JSON are not parsed, so their links are checked here
+      if (normalizeLinkHref(mark.attrs.href)) attrs.href = mark.attrs.href;
       if (mark.attrs.title) attrs.title = mark.attrs.title;
       if (mark.attrs.target) attrs.target = mark.attrs.target;
       return ['a', attrs, 0];
     },
   },
+  comment: {
+    attrs: { id: {} },
+    inclusive: false,
+    // Allow overlapping comments on the same text
+    excludes: '',
+    parseDOM: [
+      {
+        tag: 'span[data-comment-id]',
+        getAttrs: (dom: HTMLElement) => {
+          return { id: dom.getAttribute('data-comment-id') };
+        },
+      },
+    ],
+    toDOM(mark) {
+      return ['span', { class: 'erix-comment-anchor', 'data-comment-id': mark.attrs.id }, 0];
+    },
+  },
+  insertion: {
+    attrs: {
+      id: {},
+      author: { default: '' },
+      date: { default: 0 },
+    },
+    inclusive: false,
+    parseDOM: [
+      {
+        tag: 'ins[data-change-id]',
+        priority: 60,
+        getAttrs: (dom: HTMLElement) => getTrackedChangeAttrs(dom),
+      },
+    ],
+    toDOM(mark) {
+      return ['ins', createTrackedChangeDOMAttrs(mark.attrs), 0];
+    },
+  },
+  deletion: {
+    attrs: {
+      id: {},
+      author: { default: '' },
+      date: { default: 0 },
+    },
+    inclusive: false,
+    parseDOM: [
+      {
+        tag: 'del[data-change-id]',
+        priority: 60,
+        getAttrs: (dom: HTMLElement) => getTrackedChangeAttrs(dom),
+      },
+    ],
+    toDOM(mark) {
+      return ['del', createTrackedChangeDOMAttrs(mark.attrs), 0];
+    },
+  },
 };
 
 // ============================================================================
 // BUILD SCHEMA
 // ============================================================================
 
+/**
+ * Node and mark specs contributed on top of the base schema.
+ */
+export interface SchemaExtension {
+  /** Node specs to add, or to replace when the name already exists */
+  nodes?: Record<string, NodeSpec>;
+  /** Mark specs to add, or to replace when the name already exists */
+  marks?: Record<string, MarkSpec>;
+}
+
 // Start with basic schema nodes and override/extend
-let customNodes = basicSchema.spec.nodes.update('paragraph', paragraphNode).update('heading', headingNode);
+let baseNodes = basicSchema.spec.nodes.update('doc', docNode).update('paragraph', paragraphNode).update('heading', headingNode);
 
 // Add list nodes
-customNodes = customNodes.append(listNodes);
+baseNodes = baseNodes.append(listNodes);
 
 // Add additional block nodes
-customNodes = customNodes.append(additionalNodes);
+baseNodes = baseNodes.append(additionalNodes);
 
 // Extend basic marks with underline and strikethrough
-const customMarks = basicSchema.spec.marks.append(extendedMarks);
+const baseMarks = basicSchema.spec.marks.append(extendedMarks);
+
+/**
+ * Build a schema from the base nodes and marks plus any extensions.
+ * Extensions are applied in order; new types are appended so the
+ * base types (e.g. paragraph as the default block) keep precedence.
+ * @param extensions - Specs to add or replace
+ */
+export function createEditorSchema(extensions: SchemaExtension[] = []): Schema {
+  let nodes = baseNodes;
+  let marks = baseMarks;
+
+  for (const extension of extensions) {
+    for (const [name, spec] of Object.entries(extension.nodes ?? {})) {
+      nodes = nodes.update(name, spec);
+    }
+    for (const [name, spec] of Object.entries(extension.marks ?? {})) {
+      marks = marks.update(name, spec);
+    }
+  }
+
+  return new Schema({ nodes, marks });
+}
 
-// Create and export the final schema
-export const editorSchema = new Schema({
-  nodes: customNodes,
-  marks: customMarks,
-});
+// Schema without extensions, for working with documents outside an editor.
+// Each editor builds its own with createEditorSchema.
+export const editorSchema = createEditorSchema();
@@ -3,4 +3,4 @@
  * Exports the editor schema and related types.
  */
 
-export { editorSchema, type TextAlignment } from './baseSchema';
+export { editorSchema, createEditorSchema, getTableDOMAttrs, BLOCK_FORMATTING_ATTRS, type TextAlignment, type SchemaExtension } from './baseSchema';
@@ -46,6 +46,8 @@ export type {
 
   // Configuration
   EditorOptions,
+  MarkdownOptions,
+  MarkdownFallback,
 
   // Plugin types
   PluginId,
@@ -55,6 +57,7 @@ export type {
   ErixPluginConfig,
   RegisteredPlugin,
   PluginQueryOptions,
+  PluginShortcut,
 
   // Toolbar types
   PluginToolbarConfig,
@@ -65,6 +68,13 @@ export type {
 
   // Configuration types
   PluginsConfig,
+  InputRulesConfig,
+  ClearFormattingOptions,
+  PageSize,
+  PrintHeaderFooter,
+  PrintOptions,
+  CodeLanguage,
+  CodeTokenRule,
   EditorConfig,
 } from '@src/api';
 
@@ -91,6 +101,74 @@ export type {
   WordDocumentMetadata,
 } from '@src/api';
 
+// =============================================================================
+// WORD EXPORT
+// =============================================================================
+
+export { exportWordDocument, downloadWordFile } from '@src/api';
+
+export type { WordExportOptions } from '@src/api';
+
+// =============================================================================
+// PRINT
+// =============================================================================
+
+export { printHTML, createPrintDocument, getPageLayout, PAGE_SIZES } from '@src/api';
+
+export type { PageLayout } from '@src/core';
+
+// =============================================================================
+// COMMENTS
+// =============================================================================
+
+export type {
+  CommentData,
+  CommentReply,
+  CommentThread,
+  CommentInput,
+  CommentQueryOptions,
+  CommentsConfig,
+} from '@src/api';
+
+// =============================================================================
+// TRACK CHANGES
+// =============================================================================
+
+export type { TrackedChange, TrackedChangeType, TrackChangesConfig } from '@src/api';
+
+// =============================================================================
+// SEARCH
+// =============================================================================
+
+export type { SearchOptions, SearchMatch, SearchResult } from '@src/api';
+
+// =============================================================================
+// COLLABORATION
+// =============================================================================
+
+export { InMemoryCollabHub } from '@src/api';
+
+export type {
+  CollabClientID,
+  CollabUser,
+  CollabPresence,
+  CollabStepsMessage,
+  CollabTransport,
+  CollaborationOptions,
+} from '@src/api';
+
+// =============================================================================
+// EXTENSIONS
+// =============================================================================
+
+export type { ErixExtension } from '@src/core';
+
+// =============================================================================
+// CODE BLOCKS
+// =============================================================================
+
+export { DEFAULT_CODE_LANGUAGES } from '@src/core';
+
 // =============================================================================
 // COMPONENT TYPES
 // =============================================================================